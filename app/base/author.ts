@@ -0,0 +1,188 @@
+import { quoteQueryValue } from "@/base/query";
+import { IAuthor } from "@/models/author";
+
+type AuthorListEntity = { authors: string; authorList?: IAuthor[] };
+
+// Suffixes of names, e.g., `Jr.` in `Martin Luther King Jr.`. A single `V` is taken as an initial.
+const SUFFIX_REGEX = /^(?:[JjSs]r\.?|II|III|IV)$/;
+
+function isLowercase(word: string) {
+  return /^\p{Ll}/u.test(word);
+}
+
+// Remove empty fields.
+function compact<T extends object>(object: T) {
+  return Object.fromEntries(
+    Object.entries(object).filter(([, value]) => value)
+  ) as Partial<T>;
+}
+
+// Split the lowercase words at the beginning of a family name, e.g., `van der` of `van der Berg`, as the particle.
+function splitParticle(last: string) {
+  const words = last.split(" ");
+  let i = 0;
+  while (i < words.length - 1 && isLowercase(words[i])) {
+    i++;
+  }
+  return {
+    particle: words.slice(0, i).join(" "),
+    family: words.slice(i).join(" "),
+  };
+}
+
+/**
+ * Parse a name into an author.
+ *   - `{World Health Organization}` is an organization with a literal name.
+ *   - `Berg, Jan` and `King, Jr., Martin Luther` have the family name first.
+ *   - `Jan van der Berg` and `Martin Luther King Jr.` have the family name last,
+ *     after the lowercase particle if there is one.
+ * @param name - The name.
+ * @returns The author.
+ */
+export function parseAuthorName(name: string): IAuthor {
+  name = name.trim().replace(/\s+/g, " ");
+
+  const braced = /^\{(.*)\}$/.exec(name);
+  if (braced) {
+    return compact({ literal: braced[1].trim() });
+  }
+
+  if (name.includes(",")) {
+    const [last, ...rest] = name.split(",").map((part) => part.trim());
+    return compact({
+      given: rest[rest.length - 1],
+      suffix: rest.length > 1 ? rest[0] : undefined,
+      ...splitParticle(last),
+    });
+  }
+
+  const words = name.split(" ");
+  const suffix =
+    words.length > 2 && SUFFIX_REGEX.test(words[words.length - 1])
+      ? words.pop()
+      : undefined;
+  if (words.length === 1) {
+    return compact({ family: words[0], suffix });
+  }
+
+  let i = words.findIndex(
+    (word, index) => index > 0 && index < words.length - 1 && isLowercase(word)
+  );
+  if (i < 0) {
+    i = words.length - 1;
+  }
+  let j = i;
+  while (j < words.length - 1 && isLowercase(words[j])) {
+    j++;
+  }
+  return compact({
+    given: words.slice(0, i).join(" "),
+    particle: words.slice(i, j).join(" "),
+    family: words.slice(j).join(" "),
+    suffix,
+  });
+}
+
+/**
+ * Parse an authors string, whose names are separated by `;` or `,`.
+ * Names separated by `;` can have the family name first, e.g., `Li, Wei; Berg, Jan`.
+ * @param authors - The authors string.
+ * @returns The authors.
+ */
+export function parseAuthors(authors: string) {
+  return (authors.includes(";") ? authors.split(";") : authors.split(","))
+    .map((name) => name.trim())
+    .filter((name) => name)
+    .map((name) => parseAuthorName(name));
+}
+
+/**
+ * Format an author as a name in the `Given particle Family Suffix` form, or the literal name of an organization.
+ */
+export function formatAuthorName(author: IAuthor) {
+  if (author.literal) {
+    return author.literal;
+  }
+  return [author.given, author.particle, author.family, author.suffix]
+    .filter((part) => part)
+    .join(" ");
+}
+
+/**
+ * Format authors as the authors string of an entity, which is shown in the views.
+ */
+export function formatAuthors(authorList: IAuthor[]) {
+  return authorList
+    .map((author) => formatAuthorName(author))
+    .filter((name) => name)
+    .join(", ");
+}
+
+/**
+ * Get the authors of an entity. The list is used if it matches the authors string,
+ * otherwise the string has been edited without the list, and it is parsed.
+ * @param entity - The entity.
+ * @returns The authors.
+ */
+export function authorListOf(entity: AuthorListEntity): IAuthor[] {
+  if (
+    entity.authorList &&
+    entity.authorList.length > 0 &&
+    formatAuthors(Array.from(entity.authorList)) === entity.authors
+  ) {
+    return Array.from(entity.authorList);
+  }
+  return parseAuthors(entity.authors || "");
+}
+
+/**
+ * The family name of a person, or the literal name of an organization.
+ */
+export function familyNameOf(author: IAuthor) {
+  return author.family || author.literal || "";
+}
+
+/**
+ * Convert an author into a CSL name.
+ */
+export function toCSLName(author: IAuthor) {
+  if (author.literal) {
+    return { literal: author.literal };
+  }
+  return compact({
+    given: author.given,
+    family: author.family,
+    "non-dropping-particle": author.particle,
+    suffix: author.suffix,
+  });
+}
+
+/**
+ * A key to group the same author of different papers, which ignores letter cases.
+ */
+export function authorKeyOf(author: IAuthor) {
+  if (author.literal) {
+    return `literal:${author.literal.toLowerCase()}`;
+  }
+  return `${(author.family || "").toLowerCase()}:${(
+    author.given || ""
+  ).toLowerCase()}`;
+}
+
+/**
+ * Build a query sentence of the papers of an author, matched by the family and given names
+ * of a person or the literal name of an organization.
+ */
+export function authorQueryOf(author: IAuthor) {
+  if (author.literal) {
+    return `ANY authorList.literal ==[c] ${quoteQueryValue(author.literal)}`;
+  }
+  const conditions = (["family", "given"] as const).map((key) =>
+    author[key]
+      ? `$author.${key} ==[c] ${quoteQueryValue(author[key]!)}`
+      : `$author.${key} == nil`
+  );
+  return `SUBQUERY(authorList, $author, ${conditions.join(
+    " AND "
+  )}).@count > 0`;
+}
@@ -0,0 +1,167 @@
+import { IEntity } from "@/models/entity";
+
+import { authorListOf, familyNameOf } from "./author";
+
+/**
+ * The default template, which gives keys like `vaswani2017attention`.
+ */
+export const DEFAULT_CITEKEY_TEMPLATE = "{auth}{year}{shorttitle}";
+
+type CiteKeyEntity = Pick<IEntity, "title" | "authors" | "year"> &
+  Partial<Pick<IEntity, "authorList" | "journal" | "booktitle" | "pages">>;
+
+const SKIPPED_TITLE_WORDS = ["the", "a", "an"];
+
+function familyNamesOf(entity: CiteKeyEntity) {
+  return authorListOf(entity)
+    .map((author) => familyNameOf(author))
+    .filter((name) => name);
+}
+
+// Words of the title longer than 3 letters, which are not articles.
+function titleWordsOf(title: string) {
+  return title
+    .split(/\s+/)
+    .map((word) => word.replace(/[^\p{L}\p{N}]/gu, ""))
+    .filter(
+      (word) =>
+        word.length > 3 && !SKIPPED_TITLE_WORDS.includes(word.toLowerCase())
+    );
+}
+
+function capitalize(word: string) {
+  return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+}
+
+const CITEKEY_FIELDS: Record<string, (entity: CiteKeyEntity) => string> = {
+  // Family name of the first author.
+  auth: (entity) => (familyNamesOf(entity)[0] || "").toLowerCase(),
+  // Family names of the first three authors, followed by `EtAl` if there are more.
+  authors: (entity) => {
+    const names = familyNamesOf(entity);
+    return (
+      names.slice(0, 3).map(capitalize).join("") +
+      (names.length > 3 ? "EtAl" : "")
+    );
+  },
+  // First letters of the family names of the first four authors.
+  authini: (entity) =>
+    familyNamesOf(entity)
+      .slice(0, 4)
+      .map((name) => name.charAt(0).toUpperCase())
+      .join(""),
+  year: (entity) => entity.year || "",
+  shortyear: (entity) => (entity.year || "").slice(-2),
+  // First word of the title.
+  shorttitle: (entity) => (titleWordsOf(entity.title)[0] || "").toLowerCase(),
+  // First three words of the title.
+  title: (entity) =>
+    titleWordsOf(entity.title).slice(0, 3).map(capitalize).join(""),
+  // Initials of the journal or the book title, e.g., `CVPR` for `Conference on Computer Vision and Pattern Recognition`.
+  venue: (entity) =>
+    (entity.journal || entity.booktitle || "")
+      .split(/\s+/)
+      .filter((word) => /^\p{Lu}/u.test(word))
+      .map((word) => word.charAt(0))
+      .join(""),
+  firstpage: (entity) => /\d+/.exec(entity.pages || "")?.[0] || "",
+};
+
+/**
+ * Names of the fields available in templates.
+ */
+export const CITEKEY_FIELD_NAMES = Object.keys(CITEKEY_FIELDS);
+
+const CITEKEY_MODIFIERS: Record<string, (value: string) => string> = {
+  lower: (value) => value.toLowerCase(),
+  upper: (value) => value.toUpperCase(),
+  capitalize: (value) => capitalize(value),
+};
+
+const TOKEN_REGEX = /\{([^{}:]*)(?::([^{}]*))?\}/g;
+
+/**
+ * Check a citation key template. A template is made of fields like `{auth}`, optionally
+ * followed by a modifier like `{auth:upper}`, and literal text in between.
+ * @param template - The template.
+ * @returns The error message, or an empty string if the template is valid.
+ */
+export function validateCiteKeyTemplate(template: string) {
+  if (!template.trim()) {
+    return "The template is empty.";
+  }
+  for (const [, field, modifier] of template.matchAll(TOKEN_REGEX)) {
+    if (!CITEKEY_FIELDS[field]) {
+      return `Unknown field "${field}". Available fields are ${CITEKEY_FIELD_NAMES.join(
+        ", "
+      )}.`;
+    }
+    if (modifier !== undefined && !CITEKEY_MODIFIERS[modifier]) {
+      return `Unknown modifier "${modifier}". Available modifiers are ${Object.keys(
+        CITEKEY_MODIFIERS
+      ).join(", ")}.`;
+    }
+  }
+  if (/[{}]/.test(template.replace(TOKEN_REGEX, ""))) {
+    return "Unbalanced braces.";
+  }
+  return "";
+}
+
+/**
+ * Remove accents and the characters that are not allowed in BibTeX keys.
+ */
+export function sanitizeCiteKey(key: string) {
+  return key
+    .replace(/ß/g, "ss")
+    .replace(/[æÆ]/g, (char) => (char === "æ" ? "ae" : "AE"))
+    .replace(/[øØ]/g, (char) => (char === "ø" ? "o" : "O"))
+    .replace(/[łŁ]/g, (char) => (char === "ł" ? "l" : "L"))
+    .normalize("NFD")
+    .replace(/[̀-ͯ]/g, "")
+    .replace(/[^A-Za-z0-9_:.\-]/g, "");
+}
+
+/**
+ * Generate the citation key of an entity from a template.
+ * An invalid template falls back to the default one.
+ * @param template - The template, e.g., `{auth}{year}{shorttitle}`.
+ * @param entity - The entity.
+ * @returns The key, or `ref` if all fields are empty.
+ */
+export function formatCiteKey(template: string, entity: CiteKeyEntity) {
+  if (validateCiteKeyTemplate(template)) {
+    template = DEFAULT_CITEKEY_TEMPLATE;
+  }
+  const key = template.replace(
+    TOKEN_REGEX,
+    (_, field: string, modifier?: string) => {
+      const value = CITEKEY_FIELDS[field](entity);
+      return modifier ? CITEKEY_MODIFIERS[modifier](value) : value;
+    }
+  );
+  return sanitizeCiteKey(key) || "ref";
+}
+
+// Suffix of the i-th key colliding with an existing one: a, b, ..., z, aa, ab, ...
+function suffixOf(i: number): string {
+  const letter = String.fromCharCode(97 + (i % 26));
+  return i < 26 ? letter : `${suffixOf(Math.floor(i / 26) - 1)}${letter}`;
+}
+
+/**
+ * Disambiguate a citation key by appending the first free suffix of a, b, c, ...
+ * @param key - The key.
+ * @param isTaken - Check whether a key is used by another entity.
+ * @returns The key itself if it is free, otherwise the key with a suffix.
+ */
+export function disambiguateCiteKey(
+  key: string,
+  isTaken: (key: string) => boolean
+) {
+  let disambiguated = key;
+  for (let i = 0; isTaken(disambiguated); i++) {
+    disambiguated = `${key}${suffixOf(i)}`;
+  }
+  return disambiguated;
+}
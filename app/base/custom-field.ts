@@ -0,0 +1,207 @@
+import { IQueryField } from "./query";
+
+/**
+ * - text: a single line of text.
+ * - number: a number, compared as a number in searches.
+ * - date: a day, compared as a date in searches.
+ * - select: one of the options of the field.
+ * - url: a link, opened in the browser.
+ */
+export type CustomFieldType = "text" | "number" | "date" | "select" | "url";
+
+export const CUSTOM_FIELD_TYPES: CustomFieldType[] = [
+  "text",
+  "number",
+  "date",
+  "select",
+  "url",
+];
+
+/**
+ * A field defined by users, e.g., the dataset used by a paper or its reading status.
+ * Definitions are kept in the preference, values are kept in the `customFields` of entities by names.
+ */
+export interface ICustomFieldDefinition {
+  name: string;
+  type: CustomFieldType;
+  // Options of a select field.
+  options?: string[];
+}
+
+export type CustomFieldValue = string | number | Date;
+
+// Prefix of the keys of custom fields in `mainTableFields`, and of their Realm properties.
+const CUSTOM_FIELD_KEY_PREFIX = "customFields.";
+
+// Names are used as fields in the query language, which are letters and underscores.
+const CUSTOM_FIELD_NAME_REGEX = /^[A-Za-z][A-Za-z_]*$/;
+
+/**
+ * Check the name of a new custom field.
+ * @param name - The name.
+ * @param definitions - The current definitions.
+ * @param reservedNames - Names of built-in fields, e.g., properties of entities and fields of the query language.
+ * @returns The reason why the name cannot be used, or an empty string if it can.
+ */
+export function validateCustomFieldName(
+  name: string,
+  definitions: ICustomFieldDefinition[],
+  reservedNames: string[]
+) {
+  if (!CUSTOM_FIELD_NAME_REGEX.test(name)) {
+    return `"${name}" should start with a letter and contain only letters and underscores.`;
+  }
+  const lowerName = name.toLowerCase();
+  if (
+    reservedNames.some((reserved) => reserved.toLowerCase() === lowerName) ||
+    definitions.some(
+      (definition) => definition.name.toLowerCase() === lowerName
+    )
+  ) {
+    return `"${name}" is already used by another field.`;
+  }
+  return "";
+}
+
+/**
+ * Key of a custom field in `mainTableFields`, e.g., `customFields.dataset`.
+ */
+export function customFieldKeyOf(name: string) {
+  return `${CUSTOM_FIELD_KEY_PREFIX}${name}`;
+}
+
+/**
+ * Name of the custom field of a key in `mainTableFields`, or undefined if it is a built-in field.
+ */
+export function customFieldNameOf(key: string) {
+  return key.startsWith(CUSTOM_FIELD_KEY_PREFIX)
+    ? key.slice(CUSTOM_FIELD_KEY_PREFIX.length)
+    : undefined;
+}
+
+/**
+ * Convert a value into the type of its field. Dates are sent between processes as strings,
+ * and inputs give strings, so they are parsed here.
+ * @returns The value, or undefined if it is empty or invalid.
+ */
+export function parseCustomFieldValue(
+  definition: ICustomFieldDefinition,
+  value: unknown
+): CustomFieldValue | undefined {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+  switch (definition.type) {
+    case "number": {
+      const number = Number(value);
+      return isNaN(number) ? undefined : number;
+    }
+    case "date": {
+      const date =
+        value instanceof Date ? value : new Date(value as string | number);
+      return isNaN(date.getTime()) ? undefined : date;
+    }
+    default:
+      return `${value}`;
+  }
+}
+
+/**
+ * Format a value for displaying and exporting. Dates are formatted as `2023-06-01`.
+ */
+export function formatCustomFieldValue(
+  definition: ICustomFieldDefinition | undefined,
+  value: unknown
+) {
+  const parsed = definition
+    ? parseCustomFieldValue(definition, value)
+    : (value as CustomFieldValue | undefined);
+  if (parsed === undefined || parsed === null) {
+    return "";
+  }
+  if (parsed instanceof Date) {
+    return parsed.toISOString().slice(0, 10);
+  }
+  return `${parsed}`;
+}
+
+/**
+ * Format the values of custom fields by their names, without empty values.
+ */
+export function formatCustomFields(
+  definitions: ICustomFieldDefinition[],
+  values?: Record<string, unknown>
+) {
+  const formatted: Record<string, string> = {};
+  for (const [name, value] of Object.entries(values || {})) {
+    const text = formatCustomFieldValue(
+      definitions.find((definition) => definition.name === name),
+      value
+    );
+    if (text) {
+      formatted[name] = text;
+    }
+  }
+  return formatted;
+}
+
+/**
+ * Names of the custom fields of entities, the defined ones first,
+ * followed by the ones that are no longer defined but still have values.
+ */
+export function customFieldNamesOf(
+  definitions: ICustomFieldDefinition[],
+  entities: { customFields?: Record<string, unknown> }[]
+) {
+  const names = definitions.map((definition) => definition.name);
+  for (const entity of entities) {
+    for (const name of Object.keys(entity.customFields || {})) {
+      if (!names.includes(name)) {
+        names.push(name);
+      }
+    }
+  }
+  return names;
+}
+
+/**
+ * Convert the values of custom fields into the types of their fields.
+ * Values of fields that are not defined are kept, so that fields removed by another device are not lost.
+ * Empty and invalid values are removed.
+ */
+export function normalizeCustomFields(
+  definitions: ICustomFieldDefinition[],
+  values: Record<string, unknown>
+) {
+  const normalized: Record<string, CustomFieldValue> = {};
+  for (const [name, value] of Object.entries(values || {})) {
+    const definition = definitions.find(
+      (definition) => definition.name === name
+    );
+    const parsed = definition
+      ? parseCustomFieldValue(definition, value)
+      : (value as CustomFieldValue | undefined);
+    if (parsed !== undefined && parsed !== null && parsed !== "") {
+      normalized[name] = parsed;
+    }
+  }
+  return normalized;
+}
+
+/**
+ * Fields of custom fields in the query language, by their lowercase names.
+ * Text, select and URL fields are searched as text.
+ */
+export function customQueryFieldsOf(definitions: ICustomFieldDefinition[]) {
+  const fields: Record<string, IQueryField> = {};
+  for (const definition of definitions) {
+    fields[definition.name.toLowerCase()] = {
+      type:
+        definition.type === "number" || definition.type === "date"
+          ? definition.type
+          : "text",
+      properties: [customFieldKeyOf(definition.name)],
+    };
+  }
+  return fields;
+}
@@ -0,0 +1,141 @@
+import { escapeRegExp } from "lodash";
+
+/**
+ * - include: any of the comma-separated keywords is in the title or the abstract, which adds the weight to the score.
+ * - exclude: any of the comma-separated keywords is in the title or the abstract, which subtracts the weight from the score.
+ * - author: any of the comma-separated names is in the names of the authors, e.g., `Hinton` or `Geoffrey Hinton`.
+ * - regex: the regular expression matches the abstract, case-insensitively.
+ */
+export type FeedRuleType = "include" | "exclude" | "author" | "regex";
+
+export const FEED_RULE_TYPES: FeedRuleType[] = [
+  "include",
+  "exclude",
+  "author",
+  "regex",
+];
+
+/**
+ * Actions run on new feed entities matched by a rule.
+ * - none: only the score is changed.
+ * - markread: the entity is marked as read.
+ * - tag: the entity is added to the library with the tag of the rule, as tags only exist in the library.
+ * - addtolib: the entity is added to the library.
+ */
+export type FeedRuleAction = "none" | "markread" | "tag" | "addtolib";
+
+export const FEED_RULE_ACTIONS: FeedRuleAction[] = [
+  "none",
+  "markread",
+  "tag",
+  "addtolib",
+];
+
+export interface IFeedRule {
+  _id: string;
+  // Id of the feed, or an empty string for all feeds.
+  feedId: string;
+  type: FeedRuleType;
+  pattern: string;
+  weight: number;
+  action: FeedRuleAction;
+  // Name of the tag of the `tag` action.
+  tag: string;
+}
+
+type FeedRuleEntity = { title: string; authors: string; abstract: string };
+
+function termsOf(pattern: string) {
+  return pattern
+    .split(",")
+    .map((term) => term.trim())
+    .filter((term) => term);
+}
+
+// Whole words only, so that `GAN` does not match `organ`.
+function containsTerm(text: string, term: string) {
+  return new RegExp(
+    `(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`,
+    "iu"
+  ).test(text);
+}
+
+/**
+ * Check a rule before saving it.
+ * @param rule - The rule.
+ * @returns The reason why the rule is invalid, or an empty string if it is valid.
+ */
+export function validateFeedRule(
+  rule: Pick<IFeedRule, "type" | "pattern" | "weight" | "action" | "tag">
+) {
+  if (!rule.pattern.trim()) {
+    return "The pattern is empty.";
+  }
+  if (rule.type === "regex") {
+    try {
+      new RegExp(rule.pattern, "iu");
+    } catch (error) {
+      return `Invalid regular expression: ${(error as Error).message}`;
+    }
+  } else if (termsOf(rule.pattern).length === 0) {
+    return "The pattern has no keyword.";
+  }
+  if (!Number.isFinite(rule.weight)) {
+    return "The weight should be a number.";
+  }
+  if (rule.action === "tag" && !rule.tag.trim()) {
+    return "The tag of the rule is empty.";
+  }
+  return "";
+}
+
+/**
+ * Check whether a rule matches a feed entity.
+ */
+export function matchFeedRule(rule: IFeedRule, entity: FeedRuleEntity) {
+  switch (rule.type) {
+    case "include":
+    case "exclude": {
+      const text = `${entity.title}\n${entity.abstract}`;
+      return termsOf(rule.pattern).some((term) => containsTerm(text, term));
+    }
+    case "author": {
+      const authors = entity.authors.split(",");
+      return termsOf(rule.pattern).some((name) =>
+        authors.some((author) => containsTerm(author, name))
+      );
+    }
+    case "regex":
+      try {
+        return new RegExp(rule.pattern, "iu").test(entity.abstract);
+      } catch (error) {
+        return false;
+      }
+  }
+}
+
+/**
+ * Score a feed entity by the rules of its feed and the global rules.
+ * @param rules - All rules.
+ * @param entity - The feed entity.
+ * @param feedId - The id of the feed of the entity.
+ * @returns The score, which is the sum of the weights of the matched rules, and the matched rules.
+ */
+export function scoreFeedEntity(
+  rules: IFeedRule[],
+  entity: FeedRuleEntity,
+  feedId: string
+) {
+  let score = 0;
+  const matched: IFeedRule[] = [];
+  for (const rule of rules) {
+    if (rule.feedId && rule.feedId !== feedId) {
+      continue;
+    }
+    if (matchFeedRule(rule, entity)) {
+      score += rule.type === "exclude" ? -rule.weight : rule.weight;
+      matched.push(rule);
+    }
+  }
+  return { score, matched };
+}
@@ -0,0 +1,440 @@
+import { IEntity } from "@/models/entity";
+
+import { authorListOf, familyNameOf, formatAuthorName } from "./author";
+import { formatCustomFieldValue } from "./custom-field";
+
+/**
+ * Templates of file names are made of literal text and tags:
+ *
+ *   {field}                 the value of a field, e.g., `{year}`
+ *   {field|filter|filter:n} the value with filters, e.g., `{title|slug|max:40}`
+ *   {#field}...{/field}     the enclosed text if the field is not empty
+ *   {^field}...{/field}     the enclosed text if the field is empty
+ *
+ * e.g. `{year}/{#journal}{journal|slug}/{/journal}{citekey}.pdf`.
+ * A literal `/` separates folders. A `/` in a value is replaced by `-`, so values never create folders,
+ * except `{main}`, the path of the main file in templates of supplementary files.
+ */
+
+/**
+ * Templates of the preset renaming formats.
+ */
+export const RENAMING_FORMAT_TEMPLATES = {
+  full: "{title|max:200|default:untitled}",
+  short: "{firstchartitle|default:untitled}",
+  authortitle:
+    "{author|default:anonymous}{#etal} et al{/etal} - {title|max:20|default:untitled}",
+};
+
+/**
+ * The default template of supplementary files, which are named after the main file.
+ */
+export const DEFAULT_SUP_RENAMING_TEMPLATE = "{main}_{name}";
+
+type FileNameEntity = Pick<IEntity, "_id" | "title" | "authors" | "year"> &
+  Partial<
+    Pick<
+      IEntity,
+      | "authorList"
+      | "type"
+      | "journal"
+      | "booktitle"
+      | "publisher"
+      | "school"
+      | "institution"
+      | "month"
+      | "volume"
+      | "number"
+      | "pages"
+      | "citeKey"
+      | "doi"
+      | "arxiv"
+      | "customFields"
+    >
+  >;
+
+/**
+ * Values of a supplementary file, available in the template of supplementary files.
+ */
+export interface IFileNameSupValues {
+  // Name of the supplementary, e.g., `PDF` or `Appendix`.
+  name: string;
+  // Path of the main file without the extension, relative to the library folder.
+  main: string;
+}
+
+// Words of the title, without symbols, joined by underscores.
+function titleOf(entity: FileNameEntity) {
+  return entity.title
+    .replace(/[^\p{L}\s\d]/gu, "")
+    .trim()
+    .replace(/\s+/g, "_");
+}
+
+const FILENAME_FIELDS: Record<
+  string,
+  (entity: FileNameEntity, sup?: IFileNameSupValues) => string
+> = {
+  title: (entity) => titleOf(entity),
+  // Capital initials of the title, e.g., `MAASVL` for `Masked Autoencoders Are Scalable Vision Learners`.
+  firstchartitle: (entity) =>
+    titleOf(entity)
+      .split("_")
+      .map((word) => word.slice(0, 1))
+      .filter((char) => char && char === char.toUpperCase())
+      .join(""),
+  // Name of the first author.
+  author: (entity) => formatAuthorName(authorListOf(entity)[0] || {}),
+  // Family names of the first three authors.
+  authors: (entity) =>
+    authorListOf(entity)
+      .slice(0, 3)
+      .map((author) => familyNameOf(author))
+      .filter((name) => name)
+      .join(", "),
+  // `et al` if there are more than one author, for conditionals like `{#etal} et al{/etal}`.
+  etal: (entity) => (authorListOf(entity).length > 1 ? "et al" : ""),
+  firstname: (entity) => {
+    const author = authorListOf(entity)[0] || {};
+    return author.given?.split(" ").shift() || author.literal || "";
+  },
+  lastname: (entity) => {
+    const author = authorListOf(entity)[0] || {};
+    return (
+      [author.particle, author.family].filter((part) => part).join(" ") ||
+      author.literal ||
+      ""
+    );
+  },
+  year: (entity) => entity.year || "",
+  month: (entity) => entity.month || "",
+  type: (entity) => entity.type || "",
+  journal: (entity) => entity.journal || "",
+  booktitle: (entity) => entity.booktitle || "",
+  publisher: (entity) => entity.publisher || "",
+  // The journal, the book title, or the publisher of the paper.
+  publication: (entity) =>
+    (
+      entity.journal ||
+      entity.booktitle ||
+      entity.publisher ||
+      entity.school ||
+      entity.institution ||
+      ""
+    ).replace(/[^\p{L}\s\d]/gu, ""),
+  volume: (entity) => entity.volume || "",
+  number: (entity) => entity.number || "",
+  pages: (entity) => entity.pages || "",
+  citekey: (entity) => entity.citeKey || "",
+  doi: (entity) => entity.doi || "",
+  arxiv: (entity) => entity.arxiv || "",
+  id: (entity) => `${entity._id}`,
+  // Only in the template of supplementary files.
+  name: (_, sup) => sup?.name || "",
+  main: (_, sup) => sup?.main || "",
+};
+
+/**
+ * Names of the fields available in templates. Custom fields are available as `custom.name`.
+ */
+export const FILENAME_FIELD_NAMES = Object.keys(FILENAME_FIELDS);
+
+const CUSTOM_FIELD_PREFIX = "custom.";
+
+function fieldValueOf(
+  field: string,
+  entity: FileNameEntity,
+  sup?: IFileNameSupValues
+) {
+  if (field.startsWith(CUSTOM_FIELD_PREFIX)) {
+    return formatCustomFieldValue(
+      undefined,
+      entity.customFields?.[field.slice(CUSTOM_FIELD_PREFIX.length)]
+    );
+  }
+  return FILENAME_FIELDS[field](entity, sup);
+}
+
+function isField(field: string) {
+  return (
+    FILENAME_FIELDS[field] !== undefined ||
+    (field.startsWith(CUSTOM_FIELD_PREFIX) &&
+      field.length > CUSTOM_FIELD_PREFIX.length)
+  );
+}
+
+// Filters with the types of their arguments, e.g., `max:40`.
+const FILENAME_FILTERS: Record<
+  string,
+  { arg?: "number" | "text"; apply: (value: string, arg: string) => string }
+> = {
+  lower: { apply: (value) => value.toLowerCase() },
+  upper: { apply: (value) => value.toUpperCase() },
+  capitalize: {
+    apply: (value) =>
+      value.replace(
+        /\p{L}+/gu,
+        (word) => word[0].toUpperCase() + word.slice(1)
+      ),
+  },
+  // Lowercase ASCII words joined by hyphens, e.g., `attention-is-all-you-need`.
+  slug: {
+    apply: (value) =>
+      value
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, ""),
+  },
+  // At most n characters, without trailing separators.
+  max: {
+    arg: "number",
+    apply: (value, arg) =>
+      value.slice(0, parseInt(arg)).replace(/[\s_\-.]+$/, ""),
+  },
+  // The first n words.
+  words: {
+    arg: "number",
+    apply: (value, arg) =>
+      value
+        .split(/[\s_]+/)
+        .filter((word) => word)
+        .slice(0, parseInt(arg))
+        .join(value.includes("_") ? "_" : " "),
+  },
+  // Capital initials of the words.
+  initials: {
+    apply: (value) =>
+      value
+        .split(/[\s_\-]+/)
+        .map((word) => word.charAt(0).toUpperCase())
+        .join(""),
+  },
+  // The argument if the value is empty.
+  default: { arg: "text", apply: (value, arg) => value || arg },
+};
+
+/**
+ * - text: literal text, `/` separates folders.
+ * - value: a field with filters, e.g., `{title|slug|max:40}`.
+ * - section: the children if the field is not empty, e.g., `{#journal}{journal}/{/journal}`,
+ *   or if it is empty with `{^journal}`.
+ */
+type TemplateNode =
+  | { type: "text"; text: string }
+  | { type: "value"; field: string; filters: [string, string][] }
+  | {
+      type: "section";
+      field: string;
+      inverted: boolean;
+      children: TemplateNode[];
+    };
+
+class FileNameTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FileNameTemplateError";
+  }
+}
+
+const TAG_REGEX = /\{([#^/]?)([^{}|]*)((?:\|[^{}|]*)*)\}/g;
+
+function parseFilters(tag: string, filters: string) {
+  return filters
+    .split("|")
+    .slice(1)
+    .map((filter): [string, string] => {
+      const [rawName, ...args] = filter.split(":");
+      const name = rawName.trim();
+      const definition = FILENAME_FILTERS[name];
+      if (!definition) {
+        throw new FileNameTemplateError(
+          `Unknown filter "${name}" in "${tag}". Available filters are ${Object.keys(
+            FILENAME_FILTERS
+          ).join(", ")}.`
+        );
+      }
+      const arg = args.join(":");
+      if (definition.arg && !arg) {
+        throw new FileNameTemplateError(
+          `The filter "${name}" in "${tag}" needs an argument, e.g., "${name}:40".`
+        );
+      }
+      if (definition.arg === "number" && !/^\d+$/.test(arg)) {
+        throw new FileNameTemplateError(
+          `The argument of "${name}" in "${tag}" should be a number.`
+        );
+      }
+      return [name, arg];
+    });
+}
+
+function parseTemplate(template: string) {
+  const root: TemplateNode[] = [];
+  // Open sections with the children of the enclosing one.
+  const stack: { field: string; children: TemplateNode[] }[] = [
+    { field: "", children: root },
+  ];
+  const children = () => stack[stack.length - 1].children;
+  const pushText = (text: string) => {
+    if (/[{}]/.test(text)) {
+      throw new FileNameTemplateError("Unbalanced braces.");
+    }
+    if (text) {
+      children().push({ type: "text", text });
+    }
+  };
+
+  let lastIndex = 0;
+  for (const match of template.matchAll(TAG_REGEX)) {
+    const [tag, kind, rawField, filters] = match;
+    const field = rawField.trim();
+    pushText(template.slice(lastIndex, match.index));
+    lastIndex = match.index! + tag.length;
+
+    if (!isField(field)) {
+      throw new FileNameTemplateError(
+        `Unknown field "${field}". Available fields are ${FILENAME_FIELD_NAMES.join(
+          ", "
+        )}, and custom fields as custom.name.`
+      );
+    }
+    if (kind === "/") {
+      if (stack.length === 1 || stack[stack.length - 1].field !== field) {
+        throw new FileNameTemplateError(
+          `"${tag}" does not close an open section.`
+        );
+      }
+      stack.pop();
+    } else if (kind === "#" || kind === "^") {
+      const section: TemplateNode = {
+        type: "section",
+        field,
+        inverted: kind === "^",
+        children: [],
+      };
+      children().push(section);
+      stack.push({ field, children: section.children });
+    } else {
+      children().push({
+        type: "value",
+        field,
+        filters: parseFilters(tag, filters),
+      });
+    }
+  }
+  pushText(template.slice(lastIndex));
+
+  if (stack.length > 1) {
+    throw new FileNameTemplateError(
+      `The section "${stack[stack.length - 1].field}" is not closed.`
+    );
+  }
+  return root;
+}
+
+/**
+ * Check a renaming template.
+ * @param template - The template.
+ * @returns The error message, or an empty string if the template is valid.
+ */
+export function validateFileNameTemplate(template: string) {
+  if (!template.trim()) {
+    return "The template is empty.";
+  }
+  try {
+    parseTemplate(template);
+  } catch (error) {
+    if (error instanceof FileNameTemplateError) {
+      return error.message;
+    }
+    throw error;
+  }
+  return "";
+}
+
+function render(
+  nodes: TemplateNode[],
+  entity: FileNameEntity,
+  sup?: IFileNameSupValues
+): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return node.text;
+        case "value": {
+          const value = node.filters.reduce(
+            (value, [name, arg]) => FILENAME_FILTERS[name].apply(value, arg),
+            fieldValueOf(node.field, entity, sup)
+          );
+          // Values never create folders, except the path of the main file.
+          return node.field === "main" ? value : value.replace(/[/\\]/g, "-");
+        }
+        case "section":
+          return !!fieldValueOf(node.field, entity, sup) !== node.inverted
+            ? render(node.children, entity, sup)
+            : "";
+      }
+    })
+    .join("");
+}
+
+// Remove the characters not allowed in file names, and empty or relative folders.
+function sanitizePath(filePath: string) {
+  return filePath
+    .replace(/[*?"<>|:#\\]/g, "")
+    .split("/")
+    .map((segment) =>
+      segment
+        .replace(/\s+/g, " ")
+        .trim()
+        .slice(0, 200)
+        .replace(/[.\s]+$/, "")
+    )
+    .filter((segment) => segment && segment !== "." && segment !== "..")
+    .join("/");
+}
+
+/**
+ * Format the path of a file from a template, relative to the library folder and without the extension.
+ * A trailing extension like `.pdf` in the template is removed, as the extension of each file is kept.
+ * An invalid template falls back to the full title.
+ * @param template - The template, e.g., `{year}/{journal|slug}/{citekey}`.
+ * @param entity - The entity.
+ * @param sup - The values of a supplementary file.
+ * @returns The path, or `untitled` if it is empty.
+ */
+export function formatFileName(
+  template: string,
+  entity: FileNameEntity,
+  sup?: IFileNameSupValues
+) {
+  template = template.replace(/\.[A-Za-z0-9]{1,5}$/, "");
+  if (validateFileNameTemplate(template)) {
+    template = RENAMING_FORMAT_TEMPLATES.full;
+  }
+  return (
+    sanitizePath(render(parseTemplate(template), entity, sup)) || "untitled"
+  );
+}
+
+/**
+ * Disambiguate the path of a file by appending the first free suffix of _2, _3, ...
+ * @param filePath - The path without the extension.
+ * @param extension - The extension, e.g., `.pdf`.
+ * @param isTaken - Check whether a path with the extension is used by another file.
+ * @returns The path with the extension.
+ */
+export async function disambiguateFileName(
+  filePath: string,
+  extension: string,
+  isTaken: (filePath: string) => boolean | Promise<boolean>
+) {
+  let disambiguated = `${filePath}${extension}`;
+  for (let i = 2; await isTaken(disambiguated); i++) {
+    disambiguated = `${filePath}_${i}${extension}`;
+  }
+  return disambiguated;
+}
@@ -1,24 +1,60 @@
 import { OID } from "@/models/id";
+import { ICustomFieldDefinition, customQueryFieldsOf } from "./custom-field";
+import {
+  ICompiledQuery,
+  IQueryFields,
+  QuerySyntaxError,
+  compileKeywords,
+  compileQuery,
+} from "./query";
+import { RECOMMENDATION_THRESHOLD } from "./recommend";
 import { formatString } from "./string";
 
+/**
+ * Fields of feed entities in the query language of the advanced search mode.
+ */
+export const FEED_ENTITY_QUERY_FIELDS: IQueryFields = {
+  fields: {
+    title: { type: "text", properties: ["title"] },
+    author: { type: "text", properties: ["authors"] },
+    authors: { type: "text", properties: ["authors"] },
+    publication: { type: "text", properties: ["publication"] },
+    abstract: { type: "text", properties: ["abstract"] },
+    doi: { type: "text", properties: ["doi"] },
+    arxiv: { type: "text", properties: ["arxiv"] },
+    feed: { type: "text", properties: ["feed.name"] },
+    year: { type: "year", properties: ["pubTime"] },
+    added: { type: "date", properties: ["addTime"] },
+    read: { type: "boolean", properties: ["read"] },
+    score: { type: "number", properties: ["score"] },
+    recommendation: { type: "number", properties: ["recommendation"] },
+  },
+  defaultProperties: ["title", "authors", "publication", "abstract"],
+};
+
 export interface IFeedEntityFilterOptions {
   search?: string;
   searchMode?: "general" | "fulltext" | "advanced";
   feedIds?: OID[];
   feedNames?: string[];
   unread?: boolean;
+  // Only feed entities recommended by their similarity to the library.
+  recommended?: boolean;
   title?: string;
   authors?: string;
 }
 
 export class FeedEntityFilterOptions implements IFeedEntityFilterOptions {
   public filters: string[] = [];
-  public placeholders: string[] = [];
+  public placeholders: unknown[] = [];
+  // The syntax error of the search in the advanced mode.
+  public error?: QuerySyntaxError;
   public search?: string;
   public searchMode?: "general" | "fulltext" | "advanced";
   public feedIds?: OID[];
   public feedNames?: string[];
   public unread?: boolean;
+  public recommended?: boolean;
   public title?: string;
   public authors?: string;
 
@@ -35,6 +71,7 @@ export class FeedEntityFilterOptions implements IFeedEntityFilterOptions {
 
     this.filters = [];
     this.placeholders = [];
+    this.error = undefined;
 
     if (this.search) {
       const formatedSearch = formatString({
@@ -44,20 +81,34 @@ export class FeedEntityFilterOptions implements IFeedEntityFilterOptions {
       });
 
       if (this.searchMode === "general") {
-        this.filters.push(
-          `(title contains[c] \"${formatedSearch}\" OR authors contains[c] \"${formatedSearch}\" OR publication contains[c] \"${formatedSearch}\" OR abstract contains[c] \"${formatedSearch}\")`
+        this._pushCompiled(
+          compileKeywords(
+            formatedSearch,
+            FEED_ENTITY_QUERY_FIELDS.defaultProperties,
+            this.placeholders.length
+          )
         );
       } else if (this.searchMode === "advanced") {
-        this.filters.push(`(${formatedSearch})`);
+        try {
+          this._pushCompiled(
+            compileQuery(
+              formatedSearch,
+              FEED_ENTITY_QUERY_FIELDS,
+              this.placeholders.length
+            )
+          );
+        } catch (error) {
+          if (!(error instanceof QuerySyntaxError)) {
+            throw error;
+          }
+          this.error = error;
+          this.filters.push("FALSEPREDICATE");
+        }
       }
     }
     if (this.feedNames && this.feedNames.length > 0) {
-      const feedNamesQuery = this.feedNames
-        .filter((feedName) => feedName)
-        .map((feedName) => `"${feedName}"`)
-        .join(", ");
-
-      this.filters.push(`(feed.name IN { ${feedNamesQuery} })`);
+      this.filters.push(`(feed.name IN $${this.placeholders.length})`);
+      this.placeholders.push(this.feedNames.filter((feedName) => feedName));
     }
     if (this.feedIds && this.feedIds.length > 0) {
       const feedIdsQuery = this.feedIds
@@ -70,6 +121,10 @@ export class FeedEntityFilterOptions implements IFeedEntityFilterOptions {
     if (this.unread) {
       this.filters.push(`(read == false)`);
     }
+    if (this.recommended) {
+      this.filters.push(`(recommendation >= $${this.placeholders.length})`);
+      this.placeholders.push(RECOMMENDATION_THRESHOLD);
+    }
     if (this.title) {
       this.filters.push(`(title == $${this.placeholders.length})`);
       this.placeholders.push(this.title);
@@ -80,12 +135,43 @@ export class FeedEntityFilterOptions implements IFeedEntityFilterOptions {
     }
   }
 
+  private _pushCompiled(compiled: ICompiledQuery) {
+    if (compiled.filter) {
+      this.filters.push(`(${compiled.filter})`);
+      this.placeholders.push(...compiled.placeholders);
+    }
+  }
+
   toString() {
     const filterStr = this.filters.join(" AND ");
     return filterStr;
   }
 }
 
+/**
+ * Fields of papers in the query language of the advanced search mode.
+ */
+export const PAPER_QUERY_FIELDS: IQueryFields = {
+  fields: {
+    title: { type: "text", properties: ["title"] },
+    author: { type: "text", properties: ["authors"] },
+    authors: { type: "text", properties: ["authors"] },
+    publication: { type: "text", properties: ["journal", "booktitle"] },
+    abstract: { type: "text", properties: ["abstract"] },
+    note: { type: "text", properties: ["note"] },
+    doi: { type: "text", properties: ["doi"] },
+    arxiv: { type: "text", properties: ["arxiv"] },
+    type: { type: "text", properties: ["type"] },
+    year: { type: "year", properties: ["year"] },
+    rating: { type: "number", properties: ["rating"] },
+    added: { type: "date", properties: ["addTime"] },
+    tag: { type: "name", properties: ["tags.name"] },
+    folder: { type: "name", properties: ["folders.name"] },
+    flag: { type: "boolean", properties: ["flag"] },
+  },
+  defaultProperties: ["title", "authors", "journal", "booktitle", "note"],
+};
+
 export interface IPaperFilterOptions {
   search?: string;
   searchMode?: "general" | "fulltext" | "advanced";
@@ -93,16 +179,22 @@ export interface IPaperFilterOptions {
   tag?: string;
   folder?: string;
   limit?: number;
+  // Custom fields, which are fields of the advanced mode too.
+  customFields?: ICustomFieldDefinition[];
 }
 
 export class PaperFilterOptions implements IPaperFilterOptions {
   public filters: string[] = [];
+  public placeholders: unknown[] = [];
+  // The syntax error of the search in the advanced mode.
+  public error?: QuerySyntaxError;
   public search?: string;
   public searchMode?: "general" | "fulltext" | "advanced";
   public flaged?: boolean;
   public tag?: string;
   public folder?: string;
   public limit?: number;
+  public customFields?: ICustomFieldDefinition[];
 
   constructor(options?: Partial<IPaperFilterOptions>) {
     if (options) {
@@ -116,27 +208,51 @@ export class PaperFilterOptions implements IPaperFilterOptions {
     }
 
     this.filters = [];
+    this.placeholders = [];
+    this.error = undefined;
 
     if (this.search) {
-      let formatedSearch = formatString({
+      const formatedSearch = formatString({
         str: this.search,
         removeNewline: true,
         trimWhite: true,
       });
 
       if (!this.searchMode || this.searchMode === "general") {
-        const fuzzyFormatedSearch = `*${formatedSearch
-          .trim()
-          .split(" ")
-          .join("*")}*`;
-        this.filters.push(
-          `(title LIKE[c] \"${fuzzyFormatedSearch}\" OR authors LIKE[c] \"${fuzzyFormatedSearch}\" OR publication LIKE[c] \"${fuzzyFormatedSearch}\" OR note LIKE[c] \"${fuzzyFormatedSearch}\")`
+        this._pushCompiled(
+          compileKeywords(
+            formatedSearch,
+            PAPER_QUERY_FIELDS.defaultProperties,
+            this.placeholders.length
+          )
         );
       } else if (this.searchMode === "advanced") {
-        formatedSearch = PaperFilterOptions.parseDateFilter(formatedSearch);
-        this.filters.push(formatedSearch);
+        try {
+          this._pushCompiled(
+            compileQuery(
+              formatedSearch,
+              {
+                ...PAPER_QUERY_FIELDS,
+                fields: {
+                  ...customQueryFieldsOf(this.customFields || []),
+                  ...PAPER_QUERY_FIELDS.fields,
+                },
+              },
+              this.placeholders.length
+            )
+          );
+        } catch (error) {
+          if (!(error instanceof QuerySyntaxError)) {
+            throw error;
+          }
+          this.error = error;
+          this.filters.push("FALSEPREDICATE");
+        }
       } else if (this.searchMode === "fulltext") {
-        this.filters.push(`(fulltext contains[c] \"${formatedSearch}\")`);
+        this.filters.push(
+          `(fulltext contains[c] $${this.placeholders.length})`
+        );
+        this.placeholders.push(formatedSearch);
       }
     }
 
@@ -144,10 +260,19 @@ export class PaperFilterOptions implements IPaperFilterOptions {
       this.filters.push(`(flag == true)`);
     }
     if (this.tag) {
-      this.filters.push(`(ANY tags.name == \"${this.tag}\")`);
+      this.filters.push(`(ANY tags.name == $${this.placeholders.length})`);
+      this.placeholders.push(this.tag);
     }
     if (this.folder) {
-      this.filters.push(`(ANY folders.name == \"${this.folder}\")`);
+      this.filters.push(`(ANY folders.name == $${this.placeholders.length})`);
+      this.placeholders.push(this.folder);
+    }
+  }
+
+  private _pushCompiled(compiled: ICompiledQuery) {
+    if (compiled.filter) {
+      this.filters.push(`(${compiled.filter})`);
+      this.placeholders.push(...compiled.placeholders);
     }
   }
 
@@ -0,0 +1,250 @@
+export interface IFullTextToken {
+  term: string;
+  // Character offset of the token in the text.
+  offset: number;
+  length: number;
+}
+
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "by",
+  "for",
+  "from",
+  "in",
+  "is",
+  "it",
+  "of",
+  "on",
+  "or",
+  "that",
+  "the",
+  "this",
+  "to",
+  "was",
+  "were",
+  "with",
+]);
+
+// Scripts without spaces between words are indexed character by character.
+const CJK_REGEX = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+/**
+ * Split a text into stemmed terms with their offsets.
+ * Stop words and single latin letters are dropped.
+ * @param text - The text to tokenize.
+ * @returns The tokens in the order they appear.
+ */
+export function tokenize(text: string): IFullTextToken[] {
+  const tokens: IFullTextToken[] = [];
+
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const word = match[0].toLowerCase();
+    const offset = match.index!;
+
+    if (CJK_REGEX.test(word)) {
+      let i = 0;
+      for (const char of word) {
+        tokens.push({ term: char, offset: offset + i, length: char.length });
+        i += char.length;
+      }
+      continue;
+    }
+
+    if (STOP_WORDS.has(word) || (word.length < 2 && !/\d/.test(word))) {
+      continue;
+    }
+    tokens.push({ term: stem(word), offset, length: word.length });
+  }
+
+  return tokens;
+}
+
+const STEP2_SUFFIXES: Record<string, string> = {
+  ational: "ate",
+  tional: "tion",
+  enci: "ence",
+  anci: "ance",
+  izer: "ize",
+  bli: "ble",
+  alli: "al",
+  entli: "ent",
+  eli: "e",
+  ousli: "ous",
+  ization: "ize",
+  ation: "ate",
+  ator: "ate",
+  alism: "al",
+  iveness: "ive",
+  fulness: "ful",
+  ousness: "ous",
+  aliti: "al",
+  iviti: "ive",
+  biliti: "ble",
+  logi: "log",
+};
+
+const STEP3_SUFFIXES: Record<string, string> = {
+  icate: "ic",
+  ative: "",
+  alize: "al",
+  iciti: "ic",
+  ical: "ic",
+  ful: "",
+  ness: "",
+};
+
+const CONSONANT = "[^aeiou]";
+const VOWEL = "[aeiouy]";
+const CONSONANTS = CONSONANT + "[^aeiouy]*";
+const VOWELS = VOWEL + "[aeiou]*";
+// Measure of the stem, i.e., the number of vowel-consonant sequences, is greater than 0.
+const MGR0 = new RegExp("^(" + CONSONANTS + ")?" + VOWELS + CONSONANTS);
+// Measure is 1.
+const MEQ1 = new RegExp(
+  "^(" + CONSONANTS + ")?" + VOWELS + CONSONANTS + "(" + VOWELS + ")?$"
+);
+// Measure is greater than 1.
+const MGR1 = new RegExp(
+  "^(" + CONSONANTS + ")?" + VOWELS + CONSONANTS + VOWELS + CONSONANTS
+);
+const HAS_VOWEL = new RegExp("^(" + CONSONANTS + ")?" + VOWEL);
+const ENDS_CVC = new RegExp("^" + CONSONANTS + VOWEL + "[^aeiouwxy]$");
+
+/**
+ * Stem an English word with the Porter stemming algorithm.
+ * Words with other characters are returned as they are.
+ * @param word - The lowercased word.
+ * @returns The stem.
+ */
+export function stem(word: string): string {
+  if (word.length < 3 || !/^[a-z]+$/.test(word)) {
+    return word;
+  }
+
+  let w = word;
+  const startsWithY = w[0] === "y";
+  if (startsWithY) {
+    w = "Y" + w.slice(1);
+  }
+
+  // Step 1a
+  if (/^(.+?)(ss|i)es$/.test(w)) {
+    w = w.replace(/^(.+?)(ss|i)es$/, "$1$2");
+  } else if (/^(.+?)([^s])s$/.test(w)) {
+    w = w.replace(/^(.+?)([^s])s$/, "$1$2");
+  }
+
+  // Step 1b
+  let match: RegExpExecArray | null;
+  if ((match = /^(.+?)eed$/.exec(w))) {
+    if (MGR0.test(match[1])) {
+      w = w.slice(0, -1);
+    }
+  } else if ((match = /^(.+?)(ed|ing)$/.exec(w))) {
+    const stem = match[1];
+    if (HAS_VOWEL.test(stem)) {
+      w = stem;
+      if (/(at|bl|iz)$/.test(w)) {
+        w = w + "e";
+      } else if (/([^aeiouylsz])\1$/.test(w)) {
+        w = w.slice(0, -1);
+      } else if (ENDS_CVC.test(w)) {
+        w = w + "e";
+      }
+    }
+  }
+
+  // Step 1c
+  if ((match = /^(.+?)y$/.exec(w))) {
+    if (HAS_VOWEL.test(match[1])) {
+      w = match[1] + "i";
+    }
+  }
+
+  // Step 2
+  if (
+    (match =
+      /^(.+?)(ational|tional|enci|anci|izer|bli|alli|entli|eli|ousli|ization|ation|ator|alism|iveness|fulness|ousness|aliti|iviti|biliti|logi)$/.exec(
+        w
+      ))
+  ) {
+    if (MGR0.test(match[1])) {
+      w = match[1] + STEP2_SUFFIXES[match[2]];
+    }
+  }
+
+  // Step 3
+  if ((match = /^(.+?)(icate|ative|alize|iciti|ical|ful|ness)$/.exec(w))) {
+    if (MGR0.test(match[1])) {
+      w = match[1] + STEP3_SUFFIXES[match[2]];
+    }
+  }
+
+  // Step 4
+  if (
+    (match =
+      /^(.+?)(al|ance|ence|er|ic|able|ible|ant|ement|ment|ent|ou|ism|ate|iti|ous|ive|ize)$/.exec(
+        w
+      ))
+  ) {
+    if (MGR1.test(match[1])) {
+      w = match[1];
+    }
+  } else if ((match = /^(.+?)(s|t)(ion)$/.exec(w))) {
+    const stem = match[1] + match[2];
+    if (MGR1.test(stem)) {
+      w = stem;
+    }
+  }
+
+  // Step 5
+  if ((match = /^(.+?)e$/.exec(w))) {
+    const stem = match[1];
+    if (MGR1.test(stem) || (MEQ1.test(stem) && !ENDS_CVC.test(stem))) {
+      w = stem;
+    }
+  }
+  if (/ll$/.test(w) && MGR1.test(w)) {
+    w = w.slice(0, -1);
+  }
+
+  if (startsWithY) {
+    w = "y" + w.slice(1);
+  }
+  return w;
+}
+
+/**
+ * Cut a snippet of a text around a hit.
+ * @param text - The text.
+ * @param offset - Character offset of the hit.
+ * @param length - Length of the hit.
+ * @param radius - Number of characters to keep on each side of the hit.
+ * @returns The snippet, with ellipses where the text is cut.
+ */
+export function makeSnippet(
+  text: string,
+  offset: number,
+  length: number,
+  radius = 60
+): string {
+  let start = Math.max(0, offset - radius);
+  let end = Math.min(text.length, offset + length + radius);
+
+  // Do not cut words in half.
+  while (start > 0 && /\S/.test(text[start - 1]) && offset - start < radius + 20) {
+    start -= 1;
+  }
+  while (end < text.length && /\S/.test(text[end]) && end - offset < radius + length + 20) {
+    end += 1;
+  }
+
+  const snippet = text.slice(start, end).replace(/\s+/g, " ").trim();
+  return (start > 0 ? "…" : "") + snippet + (end < text.length ? "…" : "");
+}
@@ -0,0 +1,44 @@
+/**
+ * Normalize a DOI by lowercasing it and removing its resolver prefix.
+ */
+export function normalizeDOI(doi?: string) {
+  return (doi || "")
+    .trim()
+    .toLowerCase()
+    .replace(/^(https?:\/\/)?(dx\.)?doi\.org\//, "")
+    .replace(/^doi:\s*/, "");
+}
+
+/**
+ * Check whether a normalized DOI is an arXiv DOI, which identifies the same paper as its arXiv ID.
+ */
+export function isArxivDOI(doi: string) {
+  return doi.startsWith("10.48550/");
+}
+
+/**
+ * Get the arXiv ID without the version of a paper, from its arXiv field or its arXiv DOI.
+ */
+export function normalizeArxivId(identifiers: { doi?: string; arxiv?: string }) {
+  const arxivDOI = /^10\.48550\/arxiv\.(.+)$/.exec(
+    normalizeDOI(identifiers.doi)
+  );
+  return (identifiers.arxiv || arxivDOI?.[1] || "")
+    .trim()
+    .toLowerCase()
+    .replace(/^arxiv:\s*/, "")
+    .replace(/v\d+$/, "");
+}
+
+/**
+ * Split a title into lowercased words without accents and inline formulas.
+ */
+export function titleTokensOf(title: string) {
+  return title
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\$[^$]*\$/g, " ")
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token);
+}
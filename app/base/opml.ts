@@ -0,0 +1,83 @@
+import { XMLBuilder, XMLParser } from "fast-xml-parser";
+
+/**
+ * A feed in an OPML document, i.e., an `outline` with an `xmlUrl`.
+ */
+export interface IOPMLFeed {
+  name: string;
+  url: string;
+}
+
+interface OPMLOutline {
+  "@_text"?: string;
+  "@_title"?: string;
+  "@_xmlUrl"?: string;
+  outline?: OPMLOutline | OPMLOutline[];
+}
+
+function outlinesOf(outline?: OPMLOutline | OPMLOutline[]): OPMLOutline[] {
+  if (!outline) {
+    return [];
+  }
+  return Array.isArray(outline) ? outline : [outline];
+}
+
+/**
+ * Parse the feeds of an OPML document. Outlines grouped in categories are flattened.
+ * @param content - The OPML document.
+ * @returns The feeds, without the ones repeated in the document.
+ */
+export function parseOPML(content: string): IOPMLFeed[] {
+  const parsed = new XMLParser({ ignoreAttributes: false }).parse(content);
+  if (!parsed.opml) {
+    throw new Error("The file is not an OPML document.");
+  }
+
+  const feeds: IOPMLFeed[] = [];
+  const visit = (outlines: OPMLOutline[]) => {
+    for (const outline of outlines) {
+      const url = `${outline["@_xmlUrl"] || ""}`.trim();
+      if (url && !feeds.some((feed) => feed.url === url)) {
+        feeds.push({
+          name: `${outline["@_title"] || outline["@_text"] || url}`.trim(),
+          url,
+        });
+      }
+      visit(outlinesOf(outline.outline));
+    }
+  };
+  visit(outlinesOf(parsed.opml.body?.outline));
+
+  return feeds;
+}
+
+/**
+ * Format feeds as an OPML 2.0 document.
+ * @param feeds - The feeds.
+ * @returns The OPML document.
+ */
+export function formatOPML(feeds: IOPMLFeed[]) {
+  const builder = new XMLBuilder({
+    ignoreAttributes: false,
+    format: true,
+    suppressEmptyNode: true,
+  });
+  return builder.build({
+    "?xml": { "@_version": "1.0", "@_encoding": "UTF-8" },
+    opml: {
+      "@_version": "2.0",
+      head: {
+        title: "Paperlib Feeds",
+        dateCreated: new Date().toUTCString(),
+      },
+      body: {
+        outline: feeds.map((feed) => ({
+          "@_type": "rss",
+          "@_text": feed.name,
+          "@_title": feed.name,
+          "@_xmlUrl": feed.url,
+        })),
+      },
+    },
+  });
+}
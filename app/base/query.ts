@@ -0,0 +1,575 @@
+/**
+ * A small query language for the search bar, compiled to Realm filters.
+ *
+ *   query    := or
+ *   or       := and ("OR" and)*
+ *   and      := unary ("AND"? unary)*
+ *   unary    := ("-" | "NOT") unary | "(" or ")" | term
+ *   term     := field ":" op? value | value
+ *   op       := ">" | ">=" | "<" | "<=" | "="
+ *   value    := word | "quoted words" | from ".." to
+ *
+ * e.g. `author:hinton year:>2015 tag:"to read" -flag`.
+ * Values are never interpolated into the filter, they are bound to `$n` placeholders.
+ * Only dates are written as timestamp literals, because placeholders are sent between processes as JSON.
+ */
+
+export class QuerySyntaxError extends Error {
+  /**
+   * @param message - The message, without the position.
+   * @param position - 0-based character offset in the query.
+   */
+  constructor(message: string, public readonly position: number) {
+    super(`${message} (at column ${position + 1})`);
+    this.name = "QuerySyntaxError";
+  }
+}
+
+/**
+ * - text: contains the value, or equals it with `=`, case-insensitively.
+ * - name: any of the names equals the value, case-insensitively.
+ * - number: compared as a number.
+ * - year: a year stored as a string, compared as a number.
+ * - date: compared with a date `2023-06-01`, `2023-06`, `2023`, or `30d` for 30 days ago.
+ * - boolean: `field:true`, `field:false`, or the field name alone for true.
+ */
+export type QueryFieldType =
+  | "text"
+  | "name"
+  | "number"
+  | "year"
+  | "date"
+  | "boolean";
+
+export interface IQueryField {
+  type: QueryFieldType;
+  // Realm properties matched by the field, e.g. `tags.name`. A term matches if any of them matches.
+  properties: string[];
+}
+
+export interface IQueryFields {
+  // Fields by the names used in queries.
+  fields: Record<string, IQueryField>;
+  // Text properties searched by terms without a field.
+  defaultProperties: string[];
+}
+
+export interface ICompiledQuery {
+  filter: string;
+  placeholders: unknown[];
+}
+
+type QueryOperator = ">" | ">=" | "<" | "<=" | "=" | ":";
+
+type QueryToken =
+  | { type: "(" | ")" | "not" | "and" | "or"; position: number }
+  | {
+      type: "term";
+      position: number;
+      field?: string;
+      operator: QueryOperator;
+      value: string;
+      quoted: boolean;
+    };
+
+type QueryTermToken = Extract<QueryToken, { type: "term" }>;
+
+type QueryNode =
+  | { type: "and" | "or"; children: QueryNode[] }
+  | { type: "not"; child: QueryNode }
+  | { type: "term"; term: QueryTermToken };
+
+// Quoted values may contain \" and \\.
+function readQuoted(query: string, start: number): [string, number] {
+  let value = "";
+  for (let i = start + 1; i < query.length; i++) {
+    if (query[i] === "\\" && i + 1 < query.length) {
+      value += query[i + 1];
+      i += 1;
+    } else if (query[i] === '"') {
+      return [value, i + 1];
+    } else {
+      value += query[i];
+    }
+  }
+  throw new QuerySyntaxError("Missing closing quote", start);
+}
+
+function readWord(query: string, start: number): [string, number] {
+  let end = start;
+  while (end < query.length && !/[\s()"]/.test(query[end])) {
+    end += 1;
+  }
+  return [query.slice(start, end), end];
+}
+
+function lex(query: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+
+  let i = 0;
+  while (i < query.length) {
+    const char = query[i];
+    if (/\s/.test(char)) {
+      i += 1;
+    } else if (char === "(" || char === ")") {
+      tokens.push({ type: char, position: i });
+      i += 1;
+    } else if (char === "-" && i + 1 < query.length && /[^\s)]/.test(query[i + 1])) {
+      tokens.push({ type: "not", position: i });
+      i += 1;
+    } else if (char === '"') {
+      const [value, end] = readQuoted(query, i);
+      tokens.push({ type: "term", position: i, operator: ":", value, quoted: true });
+      i = end;
+    } else {
+      const field = /^([A-Za-z_]+):(>=|<=|>|<|=)?/.exec(query.slice(i));
+      if (field) {
+        const valueStart = i + field[0].length;
+        const [value, end] =
+          query[valueStart] === '"'
+            ? readQuoted(query, valueStart)
+            : readWord(query, valueStart);
+        if (!value) {
+          throw new QuerySyntaxError(`Missing value of "${field[1]}"`, i);
+        }
+        tokens.push({
+          type: "term",
+          position: i,
+          field: field[1].toLowerCase(),
+          operator: (field[2] || ":") as QueryOperator,
+          value,
+          quoted: query[valueStart] === '"',
+        });
+        i = end;
+        continue;
+      }
+
+      const [value, end] = readWord(query, i);
+      if (value === "AND" || value === "OR" || value === "NOT") {
+        tokens.push({ type: value.toLowerCase() as "and" | "or" | "not", position: i });
+      } else {
+        tokens.push({ type: "term", position: i, operator: ":", value, quoted: false });
+      }
+      i = end;
+    }
+  }
+
+  return tokens;
+}
+
+class QueryParser {
+  private _index = 0;
+
+  constructor(
+    private readonly _tokens: QueryToken[],
+    private readonly _length: number
+  ) {}
+
+  parse(): QueryNode {
+    const node = this._parseOr();
+    const token = this._tokens[this._index];
+    if (token) {
+      throw new QuerySyntaxError(`Unexpected "${token.type}"`, token.position);
+    }
+    return node;
+  }
+
+  private _parseOr(): QueryNode {
+    const children = [this._parseAnd()];
+    while (this._tokens[this._index]?.type === "or") {
+      this._index += 1;
+      children.push(this._parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: "or", children };
+  }
+
+  private _parseAnd(): QueryNode {
+    const children = [this._parseUnary()];
+    for (;;) {
+      const token = this._tokens[this._index];
+      if (token?.type === "and") {
+        this._index += 1;
+        children.push(this._parseUnary());
+      } else if (token && token.type !== "or" && token.type !== ")") {
+        children.push(this._parseUnary());
+      } else {
+        break;
+      }
+    }
+    return children.length === 1 ? children[0] : { type: "and", children };
+  }
+
+  private _parseUnary(): QueryNode {
+    const token = this._tokens[this._index];
+    if (!token) {
+      throw new QuerySyntaxError("Unexpected end of query", this._length);
+    }
+    this._index += 1;
+
+    switch (token.type) {
+      case "not":
+        return { type: "not", child: this._parseUnary() };
+      case "(": {
+        const node = this._parseOr();
+        if (this._tokens[this._index]?.type !== ")") {
+          throw new QuerySyntaxError('Missing ")"', token.position);
+        }
+        this._index += 1;
+        return node;
+      }
+      case "term":
+        return { type: "term", term: token };
+      default:
+        throw new QuerySyntaxError(`Unexpected "${token.type}"`, token.position);
+    }
+  }
+}
+
+const RELATIVE_DATE_REGEX = /^(\d+)d$/;
+
+/**
+ * Get the time range of a date value.
+ * @returns The start and the end (exclusive) of the range.
+ */
+function parseDateRange(value: string): [Date, Date] | undefined {
+  const relative = RELATIVE_DATE_REGEX.exec(value);
+  if (relative) {
+    const date = new Date();
+    date.setHours(0, 0, 0, 0);
+    date.setDate(date.getDate() - parseInt(relative[1]));
+    const end = new Date(date);
+    end.setDate(end.getDate() + 1);
+    return [date, end];
+  }
+
+  const match = /^(\d{4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?$/.exec(value);
+  if (!match) {
+    return undefined;
+  }
+  const year = parseInt(match[1]);
+  const month = match[2] ? parseInt(match[2]) - 1 : undefined;
+  const day = match[3] ? parseInt(match[3]) : undefined;
+
+  const start = new Date(year, month || 0, day || 1);
+  const end =
+    day !== undefined
+      ? new Date(year, month!, day + 1)
+      : month !== undefined
+      ? new Date(year, month + 1, 1)
+      : new Date(year + 1, 0, 1);
+  return [start, end];
+}
+
+/**
+ * Format a date as a Realm timestamp literal, e.g. `2023-06-01@08:00:00`.
+ */
+function toTimestampLiteral(date: Date) {
+  return date.toISOString().slice(0, -5).replace("T", "@");
+}
+
+// Years are stored as strings, so year comparisons are compiled to sets of years.
+const MIN_YEAR = 1000;
+const MAX_YEAR_AHEAD = 10;
+
+class QueryCompiler {
+  readonly placeholders: unknown[] = [];
+
+  constructor(
+    private readonly _fields: IQueryFields,
+    private readonly _placeholderOffset: number
+  ) {}
+
+  compile(node: QueryNode): string {
+    switch (node.type) {
+      case "and":
+      case "or":
+        return `(${node.children
+          .map((child) => this.compile(child))
+          .join(node.type === "and" ? " AND " : " OR ")})`;
+      case "not":
+        return `(NOT ${this.compile(node.child)})`;
+      case "term":
+        return this._compileTerm(node.term);
+    }
+  }
+
+  private _bind(value: unknown) {
+    this.placeholders.push(value);
+    return `$${this._placeholderOffset + this.placeholders.length - 1}`;
+  }
+
+  private _any(properties: string[], predicate: (property: string) => string) {
+    const predicates = properties.map(predicate);
+    return predicates.length === 1
+      ? predicates[0]
+      : `(${predicates.join(" OR ")})`;
+  }
+
+  private _compileTerm(term: QueryTermToken): string {
+    if (!term.field) {
+      const booleanField = this._fields.fields[term.value.toLowerCase()];
+      if (!term.quoted && booleanField?.type === "boolean") {
+        return this._any(booleanField.properties, (p) => `(${p} == true)`);
+      }
+
+      const placeholder = this._bind(term.value);
+      return this._any(
+        this._fields.defaultProperties,
+        (p) => `(${p} CONTAINS[c] ${placeholder})`
+      );
+    }
+
+    const field = this._fields.fields[term.field];
+    if (!field) {
+      throw new QuerySyntaxError(
+        `Unknown field "${term.field}", expected one of ${Object.keys(
+          this._fields.fields
+        ).join(", ")}`,
+        term.position
+      );
+    }
+
+    switch (field.type) {
+      case "text":
+        return this._compileText(term, field);
+      case "name":
+        return this._compileName(term, field);
+      case "boolean":
+        return this._compileBoolean(term, field);
+      case "number":
+      case "year":
+        return this._compileNumber(term, field);
+      case "date":
+        return this._compileDate(term, field);
+    }
+  }
+
+  private _expectOperators(term: QueryTermToken, operators: QueryOperator[]) {
+    if (!operators.includes(term.operator)) {
+      throw new QuerySyntaxError(
+        `"${term.operator}" cannot be used with "${term.field}"`,
+        term.position
+      );
+    }
+  }
+
+  private _compileText(term: QueryTermToken, field: IQueryField) {
+    this._expectOperators(term, [":", "="]);
+    const placeholder = this._bind(term.value);
+    const operator = term.operator === "=" ? "==[c]" : "CONTAINS[c]";
+    return this._any(field.properties, (p) => `(${p} ${operator} ${placeholder})`);
+  }
+
+  private _compileName(term: QueryTermToken, field: IQueryField) {
+    this._expectOperators(term, [":", "="]);
+    const placeholder = this._bind(term.value);
+    return this._any(field.properties, (p) => `(ANY ${p} ==[c] ${placeholder})`);
+  }
+
+  private _compileBoolean(term: QueryTermToken, field: IQueryField) {
+    this._expectOperators(term, [":", "="]);
+    const value = term.value.toLowerCase();
+    if (!["true", "false", "yes", "no"].includes(value)) {
+      throw new QuerySyntaxError(
+        `"${term.field}" expects true or false, got "${term.value}"`,
+        term.position
+      );
+    }
+    const expected = value === "true" || value === "yes";
+    return this._any(field.properties, (p) =>
+      expected ? `(${p} == true)` : `(${p} != true)`
+    );
+  }
+
+  private _parseNumber(term: QueryTermToken, value: string) {
+    const number = Number(value);
+    if (value === "" || isNaN(number)) {
+      throw new QuerySyntaxError(
+        `"${term.field}" expects a number, got "${value}"`,
+        term.position
+      );
+    }
+    return number;
+  }
+
+  /**
+   * Compile the bounds of a range, each is an operator and a value.
+   */
+  private _compileBounds(
+    field: IQueryField,
+    lower?: [">" | ">=", unknown],
+    upper?: ["<" | "<=", unknown]
+  ) {
+    const bounds: [string, string][] = [];
+    for (const bound of [lower, upper]) {
+      if (bound) {
+        bounds.push([
+          bound[0],
+          bound[1] instanceof Date
+            ? toTimestampLiteral(bound[1])
+            : this._bind(bound[1]),
+        ]);
+      }
+    }
+    if (bounds.length === 0) {
+      return "TRUEPREDICATE";
+    }
+    return this._any(
+      field.properties,
+      (p) =>
+        `(${bounds
+          .map(([operator, placeholder]) => `${p} ${operator} ${placeholder}`)
+          .join(" AND ")})`
+    );
+  }
+
+  private _compileNumber(term: QueryTermToken, field: IQueryField) {
+    let lower: [">" | ">=", number] | undefined;
+    let upper: ["<" | "<=", number] | undefined;
+
+    const range = term.value.split("..");
+    if (range.length === 2) {
+      this._expectOperators(term, [":"]);
+      lower = range[0] ? [">=", this._parseNumber(term, range[0])] : undefined;
+      upper = range[1] ? ["<=", this._parseNumber(term, range[1])] : undefined;
+    } else {
+      const number = this._parseNumber(term, term.value);
+      switch (term.operator) {
+        case ">":
+        case ">=":
+          lower = [term.operator, number];
+          break;
+        case "<":
+        case "<=":
+          upper = [term.operator, number];
+          break;
+        default:
+          lower = [">=", number];
+          upper = ["<=", number];
+      }
+    }
+
+    if (field.type === "year") {
+      let from = MIN_YEAR;
+      let to = new Date().getFullYear() + MAX_YEAR_AHEAD;
+      if (lower) {
+        from = Math.max(from, Math.floor(lower[1]) + (lower[0] === ">" ? 1 : 0));
+      }
+      if (upper) {
+        to = Math.min(to, Math.ceil(upper[1]) - (upper[0] === "<" ? 1 : 0));
+      }
+      const years: string[] = [];
+      for (let year = from; year <= to; year++) {
+        years.push(`${year}`);
+      }
+      const placeholder = this._bind(years);
+      return this._any(field.properties, (p) => `(${p} IN ${placeholder})`);
+    }
+
+    return this._compileBounds(field, lower, upper);
+  }
+
+  private _parseDate(term: QueryTermToken, value: string) {
+    const range = parseDateRange(value);
+    if (!range) {
+      throw new QuerySyntaxError(
+        `"${term.field}" expects a date like 2023-06-01, 2023-06, 2023 or 30d, got "${value}"`,
+        term.position
+      );
+    }
+    return range;
+  }
+
+  private _compileDate(term: QueryTermToken, field: IQueryField) {
+    let lower: [">" | ">=", Date] | undefined;
+    let upper: ["<" | "<=", Date] | undefined;
+
+    const range = term.value.split("..");
+    if (range.length === 2) {
+      this._expectOperators(term, [":"]);
+      lower = range[0] ? [">=", this._parseDate(term, range[0])[0]] : undefined;
+      upper = range[1] ? ["<", this._parseDate(term, range[1])[1]] : undefined;
+    } else {
+      // A date is the range of its day, month or year.
+      const [start, end] = this._parseDate(term, term.value);
+      switch (term.operator) {
+        case ">":
+          lower = [">=", end];
+          break;
+        case ">=":
+          lower = [">=", start];
+          break;
+        case "<":
+          upper = ["<", start];
+          break;
+        case "<=":
+          upper = ["<", end];
+          break;
+        default:
+          lower = [">=", start];
+          upper = ["<", end];
+      }
+    }
+
+    return this._compileBounds(field, lower, upper);
+  }
+}
+
+/**
+ * Quote a value to be used in a query.
+ * @param value - The value.
+ * @returns The quoted value, e.g. `"to read"`.
+ */
+export function quoteQueryValue(value: string) {
+  return `"${value.replace(/["\\]/g, (char) => `\\${char}`)}"`;
+}
+
+/**
+ * Compile a query to a Realm filter.
+ * @param query - The query.
+ * @param fields - The fields that can be queried.
+ * @param placeholderOffset - The index of the first placeholder, if the filter is joined with others.
+ * @returns The filter and the values of its placeholders.
+ * @throws QuerySyntaxError if the query is invalid.
+ */
+export function compileQuery(
+  query: string,
+  fields: IQueryFields,
+  placeholderOffset = 0
+): ICompiledQuery {
+  const tokens = lex(query);
+  if (tokens.length === 0) {
+    return { filter: "", placeholders: [] };
+  }
+
+  const node = new QueryParser(tokens, query.length).parse();
+  const compiler = new QueryCompiler(fields, placeholderOffset);
+  const filter = compiler.compile(node);
+  return { filter, placeholders: compiler.placeholders };
+}
+
+/**
+ * Compile keywords to a Realm filter, which matches if every keyword is contained in any of the properties.
+ * @param keywords - Keywords separated by whitespaces.
+ * @param properties - The text properties to search.
+ * @param placeholderOffset - The index of the first placeholder, if the filter is joined with others.
+ * @returns The filter and the values of its placeholders.
+ */
+export function compileKeywords(
+  keywords: string,
+  properties: string[],
+  placeholderOffset = 0
+): ICompiledQuery {
+  const placeholders = keywords.split(/\s+/).filter((keyword) => keyword);
+
+  const filter = placeholders
+    .map((_, i) => {
+      const placeholder = `$${placeholderOffset + i}`;
+      return `(${properties
+        .map((p) => `${p} CONTAINS[c] ${placeholder}`)
+        .join(" OR ")})`;
+    })
+    .join(" AND ");
+
+  return { filter, placeholders };
+}
@@ -0,0 +1,230 @@
+/**
+ * Feed entities are recommended by their similarity to the papers in the library.
+ * Each paper is a TF-IDF vector of the words of its title and abstract, weighted by how much it matters to users,
+ * i.e., its rating, its flag and whether it is organized in folders.
+ */
+
+// Feed entities with a recommendation not less than this are shown in the recommended feed.
+export const RECOMMENDATION_THRESHOLD = 0.06;
+
+// The recommendation is the mean of the weighted similarities to this number of the closest papers.
+const NEIGHBOR_COUNT = 3;
+
+// The largest weight of a paper given by `documentWeightOf`.
+const MAX_DOCUMENT_WEIGHT = 2;
+
+const STOPWORDS = new Set(
+  `about above after again against all also among and any are based because been before being below between both
+  but can could did does doing down during each few for from further had has have having her here hers him his how
+  into its itself just more most new not now off once only other our ours out over own same she should show shows
+  some such than that the their theirs them then there these they this those through too under until use used
+  using very via was way well were what when where which while who whom why will with would you your
+  approach method methods paper propose proposed result results study work`
+    .split(/\s+/)
+    .filter((word) => word)
+);
+
+export interface IRecommendDocument {
+  id: string;
+  title: string;
+  abstract: string;
+  rating?: number;
+  flag?: boolean;
+  folders?: unknown[];
+}
+
+interface IRecommendProfileDocument {
+  id: string;
+  title: string;
+  weight: number;
+}
+
+export interface IRecommendProfile {
+  documents: IRecommendProfileDocument[];
+  // Inverse document frequencies of the words in the library.
+  idf: Map<string, number>;
+  // Words to the documents containing them, with the normalized TF-IDF values.
+  postings: Map<string, { index: number; value: number }[]>;
+  // Inverse document frequency of the words not in the library.
+  unseenIdf: number;
+}
+
+export interface IRecommendNeighbor {
+  id: string;
+  title: string;
+  similarity: number;
+}
+
+/**
+ * Split a text into lowercase words, without stopwords, numbers and words shorter than 3 letters.
+ * Plurals are turned into singulars roughly, e.g., `networks` into `network`.
+ */
+export function tokenize(text: string) {
+  return (text.toLowerCase().match(/[\p{L}][\p{L}\p{N}-]*/gu) || [])
+    .filter((word) => word.length > 2 && !STOPWORDS.has(word))
+    .map((word) =>
+      word.length > 4 && word.endsWith("s") && !/(ss|us|is)$/.test(word)
+        ? word.slice(0, -1)
+        : word
+    );
+}
+
+/**
+ * How much a paper matters to users, between 1 and 2. Papers rated, flagged or put in folders are more important.
+ */
+export function documentWeightOf(document: IRecommendDocument) {
+  return (
+    1 +
+    Math.min(Math.max(document.rating || 0, 0), 5) * 0.1 +
+    (document.flag ? 0.3 : 0) +
+    (document.folders && document.folders.length > 0 ? 0.2 : 0)
+  );
+}
+
+function termFrequenciesOf(document: { title: string; abstract: string }) {
+  const frequencies = new Map<string, number>();
+  // Words in the title are counted twice, as titles are short but descriptive.
+  const words = [
+    ...tokenize(document.title),
+    ...tokenize(document.title),
+    ...tokenize(document.abstract),
+  ];
+  for (const word of words) {
+    frequencies.set(word, (frequencies.get(word) || 0) + 1);
+  }
+  return frequencies;
+}
+
+function vectorOf(
+  frequencies: Map<string, number>,
+  idfOf: (word: string) => number
+) {
+  const vector = new Map<string, number>();
+  let norm = 0;
+  for (const [word, frequency] of frequencies) {
+    const value = (1 + Math.log(frequency)) * idfOf(word);
+    vector.set(word, value);
+    norm += value * value;
+  }
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (const [word, value] of vector) {
+      vector.set(word, value / norm);
+    }
+  }
+  return vector;
+}
+
+/**
+ * Build the profile of the library.
+ * @param documents - Papers in the library.
+ * @returns The profile.
+ */
+export function buildRecommendProfile(
+  documents: IRecommendDocument[]
+): IRecommendProfile {
+  const frequenciesList = documents.map((document) =>
+    termFrequenciesOf(document)
+  );
+
+  const documentFrequencies = new Map<string, number>();
+  for (const frequencies of frequenciesList) {
+    for (const word of frequencies.keys()) {
+      documentFrequencies.set(word, (documentFrequencies.get(word) || 0) + 1);
+    }
+  }
+  const idf = new Map<string, number>();
+  for (const [word, frequency] of documentFrequencies) {
+    idf.set(word, Math.log((1 + documents.length) / (1 + frequency)) + 1);
+  }
+
+  const postings: IRecommendProfile["postings"] = new Map();
+  frequenciesList.forEach((frequencies, index) => {
+    const vector = vectorOf(frequencies, (word) => idf.get(word)!);
+    for (const [word, value] of vector) {
+      let posting = postings.get(word);
+      if (!posting) {
+        posting = [];
+        postings.set(word, posting);
+      }
+      posting.push({ index, value });
+    }
+  });
+
+  return {
+    documents: documents.map((document) => ({
+      id: document.id,
+      title: document.title,
+      weight: documentWeightOf(document),
+    })),
+    idf,
+    postings,
+    unseenIdf: Math.log(1 + documents.length) + 1,
+  };
+}
+
+// Cosine similarities between a feed entity and the papers sharing words with it, by the indices of the papers.
+function similaritiesOf(
+  profile: IRecommendProfile,
+  entity: { title: string; abstract: string }
+) {
+  const vector = vectorOf(
+    termFrequenciesOf(entity),
+    (word) => profile.idf.get(word) || profile.unseenIdf
+  );
+
+  const similarities = new Map<number, number>();
+  for (const [word, value] of vector) {
+    for (const posting of profile.postings.get(word) || []) {
+      similarities.set(
+        posting.index,
+        (similarities.get(posting.index) || 0) + value * posting.value
+      );
+    }
+  }
+  return similarities;
+}
+
+/**
+ * Find the papers in the library closest to a feed entity.
+ * @param profile - The profile of the library.
+ * @param entity - The feed entity.
+ * @param count - The number of papers.
+ * @returns The papers, the most similar first, without the ones sharing no words with the entity.
+ */
+export function closestDocuments(
+  profile: IRecommendProfile,
+  entity: { title: string; abstract: string },
+  count = NEIGHBOR_COUNT
+): IRecommendNeighbor[] {
+  return Array.from(similaritiesOf(profile, entity).entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, count)
+    .map(([index, similarity]) => ({
+      id: profile.documents[index].id,
+      title: profile.documents[index].title,
+      similarity,
+    }));
+}
+
+/**
+ * Recommend a feed entity.
+ * @param profile - The profile of the library.
+ * @param entity - The feed entity.
+ * @returns The recommendation between 0 and 1, which is the mean of the similarities to the closest papers,
+ *          weighted by the weights of the papers.
+ */
+export function recommendationOf(
+  profile: IRecommendProfile,
+  entity: { title: string; abstract: string }
+) {
+  const weighted = Array.from(similaritiesOf(profile, entity).entries())
+    .map(
+      ([index, similarity]) =>
+        (similarity * profile.documents[index].weight) / MAX_DOCUMENT_WEIGHT
+    )
+    .sort((a, b) => b - a)
+    .slice(0, NEIGHBOR_COUNT);
+
+  return weighted.reduce((sum, value) => sum + value, 0) / NEIGHBOR_COUNT;
+}
@@ -105,9 +105,14 @@ export function listAllFiles(
   arrayOfFiles = (arrayOfFiles || []) as string[];
 
   files.forEach(function (file) {
-    if (fs.statSync(folderURL + "/" + file).isDirectory()) {
-      arrayOfFiles = listAllFiles(folderURL + "/" + file, arrayOfFiles);
-    } else {
+    const filePath = folderURL + "/" + file;
+    // Linked folders are not followed, as they can be outside of the folder or link to their parents.
+    if (fs.lstatSync(filePath, { throwIfNoEntry: false })?.isDirectory()) {
+      arrayOfFiles = listAllFiles(filePath, arrayOfFiles);
+    } else if (
+      !fs.statSync(filePath, { throwIfNoEntry: false })?.isDirectory()
+    ) {
+      // A broken symbolic link has no stat, and is listed as a file.
       arrayOfFiles = arrayOfFiles as string[];
       arrayOfFiles.push(path.join(folderURL, "/", file));
     }
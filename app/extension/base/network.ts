@@ -250,6 +250,72 @@ export class NetworkTool {
     return await this._parseResponse(response, parse);
   }
 
+  /**
+   * HTTP GET with a conditional request, which is answered without the body if the resource is not modified.
+   * @param url - URL
+   * @param headers - Headers
+   * @param etag - ETag of the last response
+   * @param lastModified - Last-Modified of the last response
+   * @param retry - Retry times
+   * @param timeout - Timeout
+   * @param parse - Try to parse response body
+   * @returns Response, with the ETag and Last-Modified of this response as strings, which can be sent to other processes
+   */
+  async getConditional(
+    url: string,
+    headers: Record<string, string> = {},
+    etag = "",
+    lastModified = "",
+    retry = 1,
+    timeout = 5000,
+    parse = false
+  ) {
+    const conditionalHeaders = { ...headers };
+    if (etag) {
+      conditionalHeaders["If-None-Match"] = etag;
+    }
+    if (lastModified) {
+      conditionalHeaders["If-Modified-Since"] = lastModified;
+    }
+
+    const response = await ky.get(url, {
+      headers: conditionalHeaders,
+      retry: retry,
+      timeout: timeout,
+      throwHttpErrors: false,
+      fetch: this._fetch.bind(this),
+    });
+
+    if (response.status === 304) {
+      return {
+        body: "",
+        status: response.status,
+        statusText: response.statusText,
+        notModified: true,
+        etag: response.headers.get("etag") || etag,
+        lastModified: response.headers.get("last-modified") || lastModified,
+      };
+    }
+    if (!response.ok) {
+      throw new Error(
+        `Request failed with status code ${response.status} ${response.statusText}: ${url}`
+      );
+    }
+
+    const { body, status, statusText } = await this._parseResponse(
+      response,
+      parse
+    );
+    return {
+      body,
+      status,
+      statusText,
+      notModified: false,
+      etag: response.headers.get("etag") || "",
+      lastModified: response.headers.get("last-modified") || "",
+    };
+  }
+
   /**
    * HTTP POST
    * @param url - URL
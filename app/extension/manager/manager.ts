@@ -8,6 +8,12 @@ import * as fs from "./fs-ops";
 import { NpmRegistryClient, NpmRegistryConfig } from "./npm-repository-client";
 import { PackageInfo, PackageJsonInfo } from "./package-info";
 import { IPluginInfo } from "./plugin-info";
+import {
+  IPermissionDenial,
+  IPluginPermissions,
+  intersectPermissions,
+  parsePluginPermissions,
+} from "./plugin-permission";
 import { PluginVm } from "./plugin-vm";
 
 const debug = Debug("live-plugin-manager");
@@ -32,6 +38,7 @@ export interface PluginManagerOptions {
   staticDependencies: { [key: string]: any };
   lockWait: number;
   lockStale: number;
+  onPermissionDenied?: (owners: string[], denial: IPermissionDenial) => void;
 }
 
 export interface PluginSandbox {
@@ -69,6 +76,7 @@ export class PluginManager {
   private readonly installedPlugins = new Array<IPluginInfo>();
   private readonly npmRegistry: NpmRegistryClient;
   private readonly sandboxTemplates = new Map<string, PluginSandbox>();
+  private readonly restrictedPlugins = new Map<string, IPluginPermissions>();
 
   constructor(
     networkTool: NetworkTool,
@@ -193,6 +201,53 @@ export class PluginManager {
     return this.sandboxTemplates.get(name);
   }
 
+  /**
+   * Restrict a plugin to the given permissions, or lift the restriction if no permissions are given.
+   * Dependencies of restricted plugins are restricted to the permissions granted to all of them.
+   * @param name name of the plugin
+   * @param permissions permissions of the plugin
+   */
+  setPermissions(name: string, permissions: IPluginPermissions | undefined) {
+    const info = this.getInfo(name);
+    if (!info) {
+      throw new Error(`${name} not installed`);
+    }
+
+    if (!permissions) {
+      this.restrictedPlugins.delete(info.name);
+    } else {
+      this.restrictedPlugins.set(info.name, permissions);
+    }
+    this.unload(info);
+  }
+
+  /**
+   * Get the permissions a plugin is restricted to.
+   * @param name name of the plugin
+   * @returns the permissions and the restricted plugins whose permissions are applied, or undefined if the plugin is not restricted
+   */
+  getPermissions(
+    name: string
+  ): { permissions: IPluginPermissions; owners: string[] } | undefined {
+    const permissions = this.restrictedPlugins.get(name);
+    if (permissions) {
+      return { permissions, owners: [name] };
+    }
+
+    const owners = Array.from(this.restrictedPlugins.keys()).filter((owner) =>
+      this.dependsOn(owner, name)
+    );
+    if (owners.length === 0) {
+      return undefined;
+    }
+    return {
+      permissions: intersectPermissions(
+        owners.map((owner) => this.restrictedPlugins.get(owner)!)
+      ),
+      owners,
+    };
+  }
+
   alreadyInstalled(
     name: string,
     version?: string,
@@ -425,6 +480,23 @@ export class PluginManager {
     return dependencies;
   }
 
+  private dependsOn(
+    pluginName: string,
+    dependencyName: string,
+    visited = new Set<string>()
+  ): boolean {
+    const plugin = this.getInfo(pluginName);
+    if (!plugin || visited.has(pluginName)) {
+      return false;
+    }
+    visited.add(pluginName);
+
+    return Object.keys(plugin.dependencies).some(
+      (key) =>
+        key === dependencyName || this.dependsOn(key, dependencyName, visited)
+    );
+  }
+
   private unloadDependents(pluginName: string) {
     for (const installed of this.installedPlugins) {
       if (installed.dependencies[pluginName]) {
@@ -592,6 +664,7 @@ export class PluginManager {
       this.installedPlugins.splice(index, 1);
     }
     this.sandboxTemplates.delete(plugin.name);
+    this.restrictedPlugins.delete(plugin.name);
 
     this.unloadWithDependents(plugin);
 
@@ -718,6 +791,7 @@ export class PluginManager {
       description: packageJson.description || "",
       homepage: packageJson.homepage,
       manifest_version: packageJson.manifest_version,
+      permissions: parsePluginPermissions(packageJson.permissions),
     };
   }
 }
@@ -2,6 +2,7 @@ export interface PackageJsonInfo extends PackageInfo {
 	main?: string;
 	dependencies?: { [name: string]: string };
 	manifest_version?: string;
+	permissions?: unknown;
 }
 
 export interface PackageInfo {
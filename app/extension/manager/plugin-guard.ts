@@ -0,0 +1,524 @@
+import os from "os";
+import * as path from "path";
+import { fileURLToPath } from "url";
+
+import { IPluginInfo } from "./plugin-info";
+import {
+  IPermissionDenial,
+  IPluginPermissions,
+  PermissionKind,
+  isHostPermitted,
+  isPathPermitted,
+} from "./plugin-permission";
+
+type NodeJSGlobal = typeof global;
+
+// Functions of guarded objects, and callbacks of the extension.
+type Callable = (...args: unknown[]) => unknown;
+
+// Core modules that can escape the sandbox, e.g., by running processes or code outside of it.
+const DENIED_MODULES = new Set([
+  "async_hooks",
+  "child_process",
+  "cluster",
+  "electron",
+  "inspector",
+  "module",
+  "original-fs",
+  "process",
+  "repl",
+  "trace_events",
+  "v8",
+  "vm",
+  "wasi",
+  "worker_threads",
+]);
+
+// Core modules of raw sockets and DNS, which are only permitted to extensions permitted to request all hosts.
+// The internal modules of `http` and `https` are included, since their agents and requests are not guarded.
+const SOCKET_MODULES = new Set([
+  "_http_agent",
+  "_http_client",
+  "_http_common",
+  "_http_incoming",
+  "_http_outgoing",
+  "_http_server",
+  "_tls_common",
+  "_tls_wrap",
+  "dgram",
+  "dns",
+  "http2",
+  "net",
+  "tls",
+]);
+
+// Functions, and classes, of `fs` taking paths, by the indices of the path arguments.
+// `Sync` variants and the ones of `fs.promises` are checked by the same indices.
+const FS_PATH_ARGUMENTS: { [name: string]: number[] } = {
+  access: [0],
+  appendFile: [0],
+  chmod: [0],
+  chown: [0],
+  copyFile: [0, 1],
+  cp: [0, 1],
+  createReadStream: [0],
+  createWriteStream: [0],
+  exists: [0],
+  lchmod: [0],
+  lchown: [0],
+  link: [0, 1],
+  lstat: [0],
+  lutimes: [0],
+  mkdir: [0],
+  mkdtemp: [0],
+  open: [0],
+  openAsBlob: [0],
+  opendir: [0],
+  readdir: [0],
+  readFile: [0],
+  readlink: [0],
+  realpath: [0],
+  rename: [0, 1],
+  rm: [0],
+  rmdir: [0],
+  stat: [0],
+  statfs: [0],
+  symlink: [0, 1],
+  truncate: [0],
+  unlink: [0],
+  unwatchFile: [0],
+  utimes: [0],
+  watch: [0],
+  watchFile: [0],
+  writeFile: [0],
+  ReadStream: [0],
+  WriteStream: [0],
+};
+
+// Functions of `fs` taking paths but not callbacks.
+const FS_NON_CALLBACK_FUNCTIONS = new Set([
+  "createReadStream",
+  "createWriteStream",
+  "openAsBlob",
+  "unwatchFile",
+  "watch",
+  "watchFile",
+  "ReadStream",
+  "WriteStream",
+]);
+
+// Functions, and classes, of `http` and `https` sending requests.
+const HTTP_REQUEST_FUNCTIONS = new Set(["request", "get", "ClientRequest"]);
+
+// Properties of `http` and `https` connecting to any host without requests, e.g., by `Agent.prototype.createConnection`.
+// They are only permitted to extensions permitted to request all hosts, like the socket modules.
+const HTTP_AGENT_PROPERTIES = new Set(["Agent", "globalAgent"]);
+
+// Methods of `networkTool` by the indices of the URL arguments.
+const NETWORK_TOOL_URL_ARGUMENTS: { [name: string]: number[] } = {
+  get: [0],
+  getConditional: [0],
+  post: [0],
+  postForm: [0],
+  download: [0],
+  downloadPDFs: [],
+  connected: [],
+  checkProxy: [],
+};
+
+// Methods of `extensionPreferenceService` taking the ID of an extension as the first argument.
+const PREFERENCE_METHODS = new Set([
+  "register",
+  "unregister",
+  "get",
+  "getAll",
+  "getMetadata",
+  "getAllMetadata",
+  "set",
+  "getPassword",
+  "setPassword",
+]);
+
+/**
+ * Guard of an extension loaded in the plugin VM. Core modules, globals and the APIs of other processes are
+ * replaced by guarded ones in the sandbox of the extension, which deny the calls not permitted by its permissions.
+ *
+ * NOTE: the VM of Node.js is not a security boundary. The guard stops extensions from accessing what they
+ * have not declared through the APIs given to them, but cannot stop code crafted to escape the VM.
+ */
+export class PluginGuard {
+  constructor(
+    private readonly _plugin: IPluginInfo,
+    private readonly _permissions: IPluginPermissions,
+    // The extensions whose permissions are applied, i.e., the plugin itself or the extensions depending on it.
+    private readonly _owners: string[],
+    private readonly _onDenied: (
+      owners: string[],
+      denial: IPermissionDenial
+    ) => void
+  ) {}
+
+  /**
+   * Deny a call.
+   * @param kind - The kind of the permission required by the call.
+   * @param target - The host, file, service, hook or module of the call.
+   */
+  deny(kind: PermissionKind, target: string): never {
+    const denial: IPermissionDenial = {
+      time: Date.now(),
+      module: this._plugin.name,
+      kind,
+      target,
+    };
+    try {
+      this._onDenied(this._owners, denial);
+    } catch (e) {
+      console.error(e);
+    }
+    throw new Error(
+      `Permission denied: ${this._plugin.name} is not permitted to access ${kind} ${target}.`
+    );
+  }
+
+  checkHost(url: string) {
+    if (!isHostPermitted(this._permissions, url)) {
+      this.deny("network", url);
+    }
+  }
+
+  checkPath(filePath: unknown) {
+    if (filePath instanceof URL) {
+      filePath = fileURLToPath(filePath);
+    } else if (Buffer.isBuffer(filePath)) {
+      filePath = filePath.toString();
+    }
+    // File descriptors and file handles have been checked when they were opened.
+    if (typeof filePath !== "string") {
+      return;
+    }
+    if (!isPathPermitted(this._permissions, this._plugin.location, filePath)) {
+      this.deny("filesystem", filePath);
+    }
+  }
+
+  /**
+   * Guard a core module required by the extension.
+   * @param name - The name of the module.
+   * @param coreModule - The module.
+   * @returns The guarded module.
+   */
+  guardModule<T extends object>(name: string, coreModule: T): T {
+    const moduleName = name.replace(/^node:/, "");
+
+    if (DENIED_MODULES.has(moduleName)) {
+      this.deny("module", name);
+    }
+    if (SOCKET_MODULES.has(moduleName)) {
+      if (!this._permissions.network.includes("*")) {
+        this.deny("module", name);
+      }
+      return coreModule;
+    }
+    if (moduleName === "fs" || moduleName === "fs/promises") {
+      return this._guardFs(coreModule, moduleName === "fs/promises");
+    }
+    if (moduleName === "http" || moduleName === "https") {
+      const agents = this._permissions.network.includes("*")
+        ? {}
+        : Object.fromEntries(
+            [...HTTP_AGENT_PROPERTIES].map((name) => [
+              name,
+              () => this.deny("module", `${moduleName}.${name}`),
+            ])
+          );
+      return this._guardObject(
+        coreModule,
+        (name) => (HTTP_REQUEST_FUNCTIONS.has(name) ? [] : undefined),
+        (name, indices, args, call) => {
+          this._checkHTTPRequest(moduleName, args);
+          return call();
+        },
+        agents
+      );
+    }
+    return coreModule;
+  }
+
+  /**
+   * Replace the globals of the sandbox of the extension by guarded ones.
+   * @param sandbox - The sandbox.
+   */
+  guardSandbox(sandbox: NodeJSGlobal) {
+    const globals = sandbox as unknown as Record<string, unknown>;
+
+    if (typeof global.fetch === "function") {
+      globals.fetch = (...[input, init]: Parameters<typeof fetch>) => {
+        this.checkHost(
+          typeof input === "string"
+            ? input
+            : input instanceof URL
+            ? input.href
+            : `${input?.url}`
+        );
+        return global.fetch(input, init);
+      };
+    }
+    const { WebSocket } = global as unknown as {
+      WebSocket?: new (...args: unknown[]) => object;
+    };
+    if (typeof WebSocket === "function") {
+      globals.WebSocket = new Proxy(WebSocket, {
+        construct: (target, args, newTarget) => {
+          this.checkHost(`${args[0]}`);
+          return Reflect.construct(target, args, newTarget);
+        },
+      });
+    }
+
+    // Only the harmless parts of `process`, i.e., without `binding`, `dlopen`, `mainModule`, `kill`, etc.
+    globals.process = {
+      env: {},
+      argv: [],
+      platform: process.platform,
+      arch: process.arch,
+      version: process.version,
+      versions: process.versions,
+      release: process.release,
+      hrtime: process.hrtime,
+      nextTick: process.nextTick,
+      uptime: process.uptime,
+      memoryUsage: process.memoryUsage,
+      emitWarning: process.emitWarning,
+      cwd: () => this._plugin.location,
+      on: (event: string, callback: Callable) => {},
+      once: (event: string, callback: Callable) => {},
+      off: (event: string, callback: Callable) => {},
+      removeListener: (event: string, callback: Callable) => {},
+    };
+
+    for (const apiName of ["PLAPI", "PLMainAPI", "PLUIAPI", "PLExtAPI"]) {
+      if (globals[apiName]) {
+        globals[apiName] = this._guardAPI(globals[apiName] as object);
+      }
+    }
+  }
+
+  private _checkHTTPRequest(moduleName: string, args: unknown[]) {
+    const [first, second] = args;
+    if (typeof first === "string" || first instanceof URL) {
+      this.checkHost(`${first}`);
+    }
+    const options = [first, second].find(
+      (arg): arg is { hostname?: string; host?: string } =>
+        !!arg && typeof arg === "object" && !(arg instanceof URL)
+    );
+    if (options && (options.hostname || options.host)) {
+      this.checkHost(`${moduleName}://${options.hostname || options.host}`);
+    } else if (options && options === first) {
+      // Requests without a host are sent to the local host.
+      this.checkHost(`${moduleName}://localhost`);
+    }
+  }
+
+  /**
+   * Guard `fs` or `fs/promises`. Denied calls fail as the calls would, i.e., by rejecting promises or by calling callbacks with errors.
+   * @param fsModule - The module.
+   * @param promised - Whether the functions of the module return promises.
+   */
+  private _guardFs<T extends object>(fsModule: T, promised: boolean): T {
+    return this._guardObject(
+      fsModule,
+      (name) => FS_PATH_ARGUMENTS[name.replace(/Sync$/, "")],
+      (name, indices, args, call) => {
+        try {
+          for (const index of indices) {
+            this.checkPath(args[index]);
+          }
+        } catch (e) {
+          if (promised) {
+            return Promise.reject(e);
+          }
+          const callback = args[args.length - 1];
+          if (
+            typeof callback === "function" &&
+            !name.endsWith("Sync") &&
+            !FS_NON_CALLBACK_FUNCTIONS.has(name)
+          ) {
+            process.nextTick(() => callback(e));
+            return undefined;
+          }
+          throw e;
+        }
+        return call();
+      },
+      promised
+        ? {}
+        : { promises: (value) => this._guardFs(value as object, true) }
+    );
+  }
+
+  /**
+   * Guard the functions of an object. Properties of the functions, e.g., `fs.realpath.native`, are guarded too.
+   * @param target - The object.
+   * @param argumentsOf - The indices of the arguments to check of a function. Functions without indices are not guarded.
+   * @param guardCall - Check the arguments of a call, and make the call if permitted.
+   * @param nested - Guards of the nested objects.
+   */
+  private _guardObject<T extends object>(
+    target: T,
+    argumentsOf: (name: string) => number[] | undefined,
+    guardCall: (
+      name: string,
+      indices: number[],
+      args: unknown[],
+      call: () => unknown
+    ) => unknown,
+    nested: { [name: string]: (value: unknown) => unknown } = {}
+  ): T {
+    const guarded = new Map<string, unknown>();
+
+    const guardFunction = (
+      fn: Callable,
+      name: string,
+      indices: number[]
+    ): Callable => {
+      return new Proxy(fn, {
+        apply: (fn, thisArg, args) =>
+          guardCall(name, indices, args, () =>
+            Reflect.apply(fn, thisArg, args)
+          ),
+        construct: (fn, args, newTarget) =>
+          guardCall(name, indices, args, () =>
+            Reflect.construct(fn, args, newTarget)
+          ) as object,
+        get: (fn, property) => {
+          const value = Reflect.get(fn, property);
+          return typeof value === "function" && property !== "prototype"
+            ? guardFunction(value as Callable, name, indices)
+            : value;
+        },
+      });
+    };
+
+    return new Proxy(target, {
+      get: (target, name) => {
+        const value = Reflect.get(target, name);
+        if (typeof name !== "string" || !value) {
+          return value;
+        }
+        if (!guarded.has(name)) {
+          const indices = argumentsOf(name);
+          if (nested[name]) {
+            guarded.set(name, nested[name](value));
+          } else if (indices && typeof value === "function") {
+            guarded.set(name, guardFunction(value as Callable, name, indices));
+          } else {
+            guarded.set(name, value);
+          }
+        }
+        return guarded.get(name);
+      },
+    });
+  }
+
+  /**
+   * Guard an API, i.e., `PLAPI`, `PLMainAPI`, `PLUIAPI` or `PLExtAPI`, whose services are only accessible if permitted.
+   */
+  private _guardAPI<T extends object>(api: T): T {
+    const guarded = new Map<string, unknown>();
+
+    return new Proxy(api, {
+      get: (target, name) => {
+        const service = Reflect.get(target, name);
+        if (typeof name !== "string" || !service) {
+          return service;
+        }
+        if (!guarded.has(name)) {
+          guarded.set(name, this._guardService(name, service));
+        }
+        return guarded.get(name);
+      },
+    });
+  }
+
+  private _guardService<T extends object>(serviceName: string, service: T): T {
+    if (
+      serviceName === "logService" ||
+      this._permissions.services.includes(serviceName)
+    ) {
+      return service;
+    }
+
+    let checkCall: (methodName: string, args: unknown[]) => void;
+    if (serviceName === "hookService") {
+      checkCall = (methodName, args) => {
+        if (methodName !== "hookModify" && methodName !== "hookTransform") {
+          this.deny("services", `${serviceName}.${methodName}`);
+        }
+        if (
+          typeof args[0] !== "string" ||
+          !this._permissions.hooks.includes(args[0])
+        ) {
+          this.deny("hooks", `${args[0]}`);
+        }
+        this._checkExtensionID(serviceName, args[1]);
+      };
+    } else if (serviceName === "extensionPreferenceService") {
+      checkCall = (methodName, args) => {
+        if (PREFERENCE_METHODS.has(methodName)) {
+          this._checkExtensionID(serviceName, args[0]);
+        } else if (methodName === "onChanged" || methodName === "on") {
+          for (const key of Array.isArray(args[0]) ? args[0] : [args[0]]) {
+            this._checkExtensionID(serviceName, `${key}`.split(":")[0]);
+          }
+        } else {
+          this.deny("services", `${serviceName}.${methodName}`);
+        }
+      };
+    } else if (serviceName === "networkTool") {
+      checkCall = (methodName, args) => {
+        const urlIndices = NETWORK_TOOL_URL_ARGUMENTS[methodName];
+        if (!urlIndices) {
+          this.deny("services", `${serviceName}.${methodName}`);
+        }
+        for (const index of urlIndices) {
+          this.checkHost(`${args[index]}`);
+        }
+        if (methodName === "download") {
+          this.checkPath(args[1]);
+        } else if (methodName === "downloadPDFs") {
+          for (const url of (args[0] as unknown[]) || []) {
+            this.checkHost(`${url}`);
+          }
+          this.checkPath(path.join(os.homedir(), "Downloads"));
+        }
+      };
+    } else {
+      checkCall = (methodName) => {
+        this.deny("services", `${serviceName}.${methodName}`);
+      };
+    }
+
+    return new Proxy(service, {
+      get: (target, name) => {
+        const value = Reflect.get(target, name);
+        if (typeof name !== "string" || typeof value !== "function") {
+          return value;
+        }
+        return (...args: unknown[]) => {
+          checkCall(name, args);
+          return Reflect.apply(value, target, args);
+        };
+      },
+    });
+  }
+
+  private _checkExtensionID(serviceName: string, extensionID: unknown) {
+    if (
+      extensionID !== this._plugin.name &&
+      !this._owners.includes(`${extensionID}`)
+    ) {
+      this.deny("services", `${serviceName} of ${extensionID}`);
+    }
+  }
+}
@@ -1,3 +1,5 @@
+import { IPluginPermissions } from "./plugin-permission";
+
 export interface IPluginInfo {
 	readonly mainFile: string;
 	readonly location: string;
@@ -8,4 +10,5 @@ export interface IPluginInfo {
 	readonly description: string;
 	readonly homepage?: string;
 	readonly manifest_version?: string;
+	readonly permissions?: IPluginPermissions;
 }
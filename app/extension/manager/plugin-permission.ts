@@ -0,0 +1,192 @@
+import fs from "fs";
+import os from "os";
+import * as path from "path";
+
+/**
+ * Permissions declared by an extension in the `permissions` field of its package.json, e.g.,
+ *
+ * ```json
+ * "permissions": {
+ *   "network": ["api.semanticscholar.org", "*.arxiv.org"],
+ *   "filesystem": ["~/Downloads"],
+ *   "services": ["paperService", "commandService"],
+ *   "hooks": ["scrapeMetadata"]
+ * }
+ * ```
+ *
+ * An extension can always read and write files in its own folder, use `logService`, its own preferences,
+ * and register the hooks it declares. Everything else must be declared.
+ */
+export interface IPluginPermissions {
+  // Hosts that can be requested. `*.example.org` matches the host and its subdomains, `*` matches all hosts.
+  network: string[];
+  // Files and folders that can be accessed. `~` is the home folder.
+  filesystem: string[];
+  // Services of `PLAPI`, `PLMainAPI`, `PLUIAPI` and `PLExtAPI`.
+  services: string[];
+  // Hook points of `hookService`.
+  hooks: string[];
+}
+
+export type PermissionKind = keyof IPluginPermissions | "module";
+
+/**
+ * A call of an extension denied by its permissions.
+ */
+export interface IPermissionDenial {
+  time: number;
+  // The extension or the dependency of it that made the call.
+  module: string;
+  kind: PermissionKind;
+  target: string;
+}
+
+const PERMISSION_KINDS: Array<keyof IPluginPermissions> = [
+  "network",
+  "filesystem",
+  "services",
+  "hooks",
+];
+
+/**
+ * Permissions permitting nothing.
+ */
+export function emptyPermissions(): IPluginPermissions {
+  return { network: [], filesystem: [], services: [], hooks: [] };
+}
+
+/**
+ * Parse the permissions declared in a package.json.
+ * @param declared - The `permissions` field.
+ * @returns The permissions. Nothing is permitted if the field is missing.
+ */
+export function parsePluginPermissions(declared: unknown): IPluginPermissions {
+  if (declared === undefined || declared === null) {
+    return emptyPermissions();
+  }
+  if (typeof declared !== "object" || Array.isArray(declared)) {
+    throw new Error("'permissions' in package.json must be an object");
+  }
+
+  const permissions = emptyPermissions();
+  for (const kind of PERMISSION_KINDS) {
+    const values = (declared as Record<string, unknown>)[kind] ?? [];
+    if (
+      !Array.isArray(values) ||
+      values.some((value) => typeof value !== "string" || !value.trim())
+    ) {
+      throw new Error(
+        `'permissions.${kind}' in package.json must be a list of strings`
+      );
+    }
+    permissions[kind] = Array.from(
+      new Set(values.map((value: string) => value.trim()))
+    );
+  }
+  return permissions;
+}
+
+/**
+ * Check whether granted permissions include all the requested ones.
+ */
+export function coversPermissions(
+  granted: IPluginPermissions,
+  requested: IPluginPermissions
+) {
+  return PERMISSION_KINDS.every((kind) =>
+    requested[kind].every((value) => granted[kind].includes(value))
+  );
+}
+
+/**
+ * Permissions granted by all of the given permissions.
+ */
+export function intersectPermissions(
+  permissionsList: IPluginPermissions[]
+): IPluginPermissions {
+  const [first, ...rest] = permissionsList;
+  const intersection = emptyPermissions();
+  for (const kind of PERMISSION_KINDS) {
+    intersection[kind] = (first?.[kind] || []).filter((value) =>
+      rest.every((permissions) => permissions[kind].includes(value))
+    );
+  }
+  return intersection;
+}
+
+function hostOf(url: string) {
+  try {
+    return new URL(url.includes("://") ? url : `https://${url}`).hostname
+      .toLowerCase()
+      .replace(/\.$/, "");
+  } catch (e) {
+    return "";
+  }
+}
+
+/**
+ * Check whether a URL or a host can be requested.
+ */
+export function isHostPermitted(permissions: IPluginPermissions, url: string) {
+  const host = hostOf(url);
+  if (!host) {
+    return false;
+  }
+  return permissions.network.some((pattern) => {
+    if (pattern === "*") {
+      return true;
+    }
+    if (pattern.startsWith("*.")) {
+      const domain = hostOf(pattern.slice(2));
+      return !!domain && (host === domain || host.endsWith(`.${domain}`));
+    }
+    return host === hostOf(pattern);
+  });
+}
+
+// Resolve a path with symbolic links followed, so that a link cannot point outside of a permitted folder.
+function resolvePath(filePath: string) {
+  if (filePath === "~" || filePath.startsWith("~/")) {
+    filePath = path.join(os.homedir(), filePath.slice(1));
+  }
+  let current = path.resolve(filePath);
+  const missing: string[] = [];
+  while (true) {
+    try {
+      return path.join(fs.realpathSync(current), ...missing);
+    } catch (e) {
+      const parent = path.dirname(current);
+      if (parent === current) {
+        return path.resolve(filePath);
+      }
+      missing.unshift(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+function isInside(folder: string, filePath: string) {
+  const relative = path.relative(folder, filePath);
+  return (
+    relative !== ".." &&
+    !relative.startsWith(`..${path.sep}`) &&
+    !path.isAbsolute(relative)
+  );
+}
+
+/**
+ * Check whether a file can be accessed.
+ * @param permissions - The permissions.
+ * @param location - The folder of the extension, which can always be accessed.
+ * @param filePath - The file.
+ */
+export function isPathPermitted(
+  permissions: IPluginPermissions,
+  location: string,
+  filePath: string
+) {
+  const resolved = resolvePath(filePath);
+  return [location, ...permissions.filesystem].some((folder) =>
+    isInside(resolvePath(folder), resolved)
+  );
+}
@@ -4,6 +4,7 @@ import * as fs from "fs-extra";
 import * as path from "path";
 import * as vm from "vm";
 import { PluginManager, PluginSandbox } from "./manager";
+import { PluginGuard } from "./plugin-guard";
 import { IPluginInfo } from "./plugin-info";
 const debug = Debug("live-plugin-manager.PluginVm");
 
@@ -14,12 +15,14 @@ type NodeJSGlobal = typeof global;
 export class PluginVm {
   private requireCache = new Map<IPluginInfo, Map<string, NodeModule>>();
   private sandboxCache = new Map<IPluginInfo, NodeJSGlobal>();
+  private guardCache = new Map<IPluginInfo, PluginGuard | null>();
 
   constructor(private readonly manager: PluginManager) {}
 
   unload(pluginContext: IPluginInfo): void {
     this.requireCache.delete(pluginContext);
     this.sandboxCache.delete(pluginContext);
+    this.guardCache.delete(pluginContext);
   }
 
   load(pluginContext: IPluginInfo, filePath: string): any {
@@ -230,7 +233,8 @@ export class PluginVm {
         resolve: moduleResolve,
         cache: {}, // TODO This should be correctly populated
         extensions: {} as NodeJS.RequireExtensions,
-        main: require.main, // TODO assign the real main or consider main the current module (ie. module)?
+        // the main module of the host can require anything, so it is hidden from restricted plugins
+        main: this.getGuard(pluginContext) ? undefined : require.main, // TODO assign the real main or consider main the current module (ie. module)?
       }
     );
 
@@ -342,11 +346,19 @@ export class PluginVm {
       return this.manager.require(requiredName);
     }
 
+    const guard = this.getGuard(pluginContext);
+
     if (this.isCoreModule(requiredName)) {
       if (debug.enabled) {
         debug(`Resolved ${requiredName} as core module`);
       }
-      return require(requiredName); // I use system require
+      const coreModule = require(requiredName); // I use system require
+      return guard ? guard.guardModule(requiredName, coreModule) : coreModule;
+    }
+
+    // host modules are not guarded, so restricted plugins must bundle or depend on their modules
+    if (guard) {
+      guard.deny("module", requiredName);
     }
 
     if (this.manager.options.hostRequire) {
@@ -436,6 +448,7 @@ export class PluginVm {
         this.manager.options.sandbox;
 
       pluginSandbox = this.createGlobalSandbox(srcSandboxTemplate);
+      this.getGuard(pluginContext)?.guardSandbox(pluginSandbox);
 
       this.sandboxCache.set(pluginContext, pluginSandbox);
     }
@@ -443,6 +456,26 @@ export class PluginVm {
     return pluginSandbox;
   }
 
+  private getGuard(pluginContext: IPluginInfo): PluginGuard | null {
+    let guard = this.guardCache.get(pluginContext);
+    if (guard === undefined) {
+      const access = this.manager.getPermissions(pluginContext.name);
+      guard = access
+        ? new PluginGuard(
+            pluginContext,
+            access.permissions,
+            access.owners,
+            (owners, denial) =>
+              this.manager.options.onPermissionDenied?.(owners, denial)
+          )
+        : null;
+
+      this.guardCache.set(pluginContext, guard);
+    }
+
+    return guard;
+  }
+
   private createGlobalSandbox(sandboxTemplate: PluginSandbox): NodeJSGlobal {
     const srcGlobal = sandboxTemplate.global || global;
 
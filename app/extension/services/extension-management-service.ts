@@ -8,6 +8,13 @@ import { isLocalPath } from "@/base/url";
 
 import { PluginManager } from "../manager/manager";
 import { IPluginInfo } from "../manager/plugin-info";
+import {
+  IPermissionDenial,
+  IPluginPermissions,
+  coversPermissions,
+  emptyPermissions,
+  parsePluginPermissions,
+} from "../manager/plugin-permission";
 import { INetworkTool, NetworkTool } from "../base/network";
 
 import {
@@ -31,8 +38,13 @@ interface IExtensionInfo {
   preference: Map<string, any>;
   location: string;
   originLocation?: string;
+  // Permissions granted by users. Verified extensions are not restricted.
+  permissions?: IPluginPermissions;
 }
 
+// The number of the latest denied calls kept in the audit log of each extension.
+const MAX_AUDIT_LOG_SIZE = 200;
+
 interface IExtensionManagementServiceState {
   installed: string;
   installing: string;
@@ -42,11 +54,15 @@ interface IExtensionManagementServiceState {
   reloaded: string;
   updating: string;
   updated: string;
+  denied: string;
   installedLoaded: boolean;
 }
 
 export class ExtensionManagementService extends Eventable<IExtensionManagementServiceState> {
   private readonly _extStore: ElectronStore<Record<string, IExtensionInfo>>;
+  private readonly _auditStore: ElectronStore<
+    Record<string, IPermissionDenial[]>
+  >;
   private readonly _extManager: PluginManager;
 
   private readonly _installedExtensions: { [key: string]: any };
@@ -58,6 +74,8 @@ export class ExtensionManagementService extends Eventable<IExtensionManagementSe
 
   private readonly _dailyUpdateScheduler: ToadScheduler;
 
+  private readonly _notifiedDeniedExtensions = new Set<string>();
+
   constructor(
     @IExtensionPreferenceService
     private readonly _extensionPreferenceService: ExtensionPreferenceService,
@@ -72,16 +90,25 @@ export class ExtensionManagementService extends Eventable<IExtensionManagementSe
       reloaded: "",
       updating: "",
       updated: "",
+      denied: "",
       installedLoaded: false,
     });
     this._extStore = new ElectronStore({
       name: "extensions",
       cwd: globalThis["extensionWorkingDir"],
     });
+    this._auditStore = new ElectronStore({
+      name: "extension-audit",
+      cwd: globalThis["extensionWorkingDir"],
+      accessPropertiesByDotNotation: false,
+    });
 
     // ENHANCE: different npm url for China
     this._extManager = new PluginManager(_networkTool, {
       pluginsPath: globalThis["extensionWorkingDir"],
+      onPermissionDenied: (owners, denial) => {
+        this._recordDenial(owners, denial);
+      },
     });
 
     this._installedExtensions = {};
@@ -204,6 +231,8 @@ export class ExtensionManagementService extends Eventable<IExtensionManagementSe
     }
 
     const currentVersion = this._installedExtensionInfos[extensionID].version;
+    const grantedPermissions =
+      this._installedExtensionInfos[extensionID].permissions;
     const currentExtensionPath = path.join(
       globalThis["extensionWorkingDir"],
       extensionID
@@ -242,6 +271,13 @@ export class ExtensionManagementService extends Eventable<IExtensionManagementSe
         "latest"
       );
 
+      const verified = this._isVerified(info.name, false);
+      const permissions = this._grantPermissions(
+        info,
+        verified,
+        grantedPermissions
+      );
+
       const extension = this._extManager.require(info.name);
 
       this._installedExtensions[info.name] = await extension.initialize();
@@ -251,13 +287,14 @@ export class ExtensionManagementService extends Eventable<IExtensionManagementSe
         name: info.name.replace("@future-scholars/", ""),
         version: info.version,
         author: info.author ? info.author.name : "community",
-        verified: info.name.startsWith("@future-scholars/"),
+        verified,
         description: info.description || "",
         homepage: info.homepage,
         preference:
           this._extensionPreferenceService.getAllMetadata(info.name) || {},
         location: info.location,
         originLocation: undefined,
+        permissions,
       };
 
       this._extStore.set(extensionID, this._installedExtensionInfos[info.name]);
@@ -301,13 +338,16 @@ export class ExtensionManagementService extends Eventable<IExtensionManagementSe
    * @param extensionIDorPath - extensionID or path to the extension
    * @param notify - whether to show notification, default to true
    * @param version - version to install, default to "latest"
+   * @param permissions - permissions granted by users, default to the ones granted before
    */
   async install(
     extensionIDorPath: string,
     notify = true,
-    version: string = "latest"
+    version: string = "latest",
+    permissions?: IPluginPermissions
   ) {
     let extensionID;
+    let granted = false;
     try {
       PLAPI.logService.info(
         "Trying to install extensions.",
@@ -337,9 +377,21 @@ export class ExtensionManagementService extends Eventable<IExtensionManagementSe
         }
       } else {
         extensionID = extensionIDorPath;
+        if (this._extStore.get(extensionID)?.originLocation) {
+          // Remove the copy installed from a local path, so that it is not reused as the one from npm.
+          await this.uninstall(extensionID, true);
+        }
         info = await this._extManager.installFromNpm(extensionID, version);
       }
 
+      const verified = this._isVerified(info.name, installFromFile);
+      permissions = this._grantPermissions(
+        info,
+        verified,
+        permissions || this._extStore.get(info.name)?.permissions
+      );
+      granted = true;
+
       const extension = this._extManager.require(info.name);
 
       this._installedExtensions[info.name] = await extension.initialize();
@@ -349,13 +401,14 @@ export class ExtensionManagementService extends Eventable<IExtensionManagementSe
         name: info.name.replace("@future-scholars/", ""),
         version: info.version,
         author: info.author ? info.author.name : "community",
-        verified: info.name.startsWith("@future-scholars/"),
+        verified,
         description: info.description || "",
         homepage: info.homepage,
         preference:
           this._extensionPreferenceService.getAllMetadata(info.name) || {},
         location: info.location,
         originLocation: installFromFile ? extensionIDorPath : undefined,
+        permissions,
       };
 
       this._extStore.set(extensionID, this._installedExtensionInfos[info.name]);
@@ -380,8 +433,88 @@ export class ExtensionManagementService extends Eventable<IExtensionManagementSe
       try {
         await this._extManager.uninstall(extensionID);
       } catch (e) {}
-      this.clean(extensionIDorPath);
+      // Keep the info of extensions whose permissions are not granted, so that they can be granted by reinstalling.
+      this.clean(
+        extensionIDorPath,
+        !granted && !!extensionID && this._extStore.has(extensionID)
+      );
+    }
+  }
+
+  /**
+   * Whether an extension is verified. Only the extensions of the official scope installed from the npm registry are verified,
+   * since anyone can name a local extension with the scope.
+   * @param name - name of the extension
+   * @param installFromFile - whether the extension is installed from a local path
+   * @returns whether the extension is verified
+   */
+  private _isVerified(name: string, installFromFile: boolean) {
+    return !installFromFile && name.startsWith("@future-scholars/");
+  }
+
+  /**
+   * Check the permissions of an extension before loading it.
+   * @param info - info of the extension
+   * @param verified - whether the extension is verified, see `_isVerified`
+   * @param granted - permissions granted by users
+   * @returns the permissions the extension is restricted to, or undefined if it is verified and not restricted
+   */
+  private _grantPermissions(
+    info: IPluginInfo,
+    verified: boolean,
+    granted?: IPluginPermissions
+  ) {
+    if (verified) {
+      this._extManager.setPermissions(info.name, undefined);
+      return undefined;
+    }
+
+    const requested = info.permissions || emptyPermissions();
+    if (!coversPermissions(granted || emptyPermissions(), requested)) {
+      throw new Error(
+        `Permissions requested by ${info.name} ${info.version} have not been granted. Please reinstall it to review them.`
+      );
+    }
+    this._extManager.setPermissions(info.name, requested);
+
+    return requested;
+  }
+
+  /**
+   * Get the permissions requested by an extension before installing it.
+   * @param extensionIDorPath - extensionID or path to the extension
+   * @param version - version to install, default to "latest"
+   * @returns The extension and its permissions. The permissions are undefined for verified extensions, which are not restricted.
+   */
+  async inspect(extensionIDorPath: string, version: string = "latest") {
+    let packageJSON: { name: string; version: string; permissions?: unknown };
+    const installFromFile = isLocalPath(extensionIDorPath);
+    if (installFromFile) {
+      packageJSON = JSON.parse(
+        fs.readFileSync(path.join(extensionIDorPath, "package.json"), "utf-8")
+      );
+    } else {
+      packageJSON = (
+        await this._networkTool.get(
+          `${this._npmRegistry}${extensionIDorPath}/${version}`,
+          {},
+          1,
+          10000,
+          false,
+          true
+        )
+      ).body;
     }
+
+    const verified = this._isVerified(packageJSON.name, installFromFile);
+    return {
+      id: packageJSON.name,
+      version: packageJSON.version,
+      verified,
+      permissions: verified
+        ? undefined
+        : parsePluginPermissions(packageJSON.permissions),
+    };
   }
 
   /**
@@ -480,6 +613,10 @@ export class ExtensionManagementService extends Eventable<IExtensionManagementSe
     if (this._extStore.has(extensionID) && !keepInfo) {
       this._extStore.delete(extensionID);
     }
+    // Clean the audit log of the extension.
+    if (this._auditStore.has(extensionID) && !keepInfo) {
+      this._auditStore.delete(extensionID);
+    }
   }
 
   /**
@@ -649,6 +786,75 @@ export class ExtensionManagementService extends Eventable<IExtensionManagementSe
     }
   }
 
+  /**
+   * Call the method of an extension hooked to a hook point, if the extension is permitted to hook it.
+   * @param extensionID - extensionID to call method
+   * @param hookName - name of the hook point
+   * @param methodName - method name to call
+   * @param args - arguments to pass to the method
+   * @returns
+   */
+  async callExtensionHook(
+    extensionID: string,
+    hookName: string,
+    methodName: string,
+    ...args: any
+  ) {
+    const access = this._extManager.getPermissions(extensionID);
+    if (access && !access.permissions.hooks.includes(hookName)) {
+      this._recordDenial([extensionID], {
+        time: Date.now(),
+        module: extensionID,
+        kind: "hooks",
+        target: hookName,
+      });
+      throw new Error(
+        `Permission denied: ${extensionID} is not permitted to access hooks ${hookName}.`
+      );
+    }
+
+    return await this.callExtensionMethod(extensionID, methodName, ...args);
+  }
+
+  private _recordDenial(owners: string[], denial: IPermissionDenial) {
+    for (const extensionID of owners) {
+      const auditLog = this._auditStore.get(extensionID, []);
+      auditLog.push(denial);
+      this._auditStore.set(extensionID, auditLog.slice(-MAX_AUDIT_LOG_SIZE));
+
+      // Notify users once for each extension, the rest can be found in the audit log.
+      const notify = !this._notifiedDeniedExtensions.has(extensionID);
+      this._notifiedDeniedExtensions.add(extensionID);
+      PLAPI.logService.warn(
+        `Extension ${extensionID} was denied access to ${denial.kind}.`,
+        denial.module === extensionID
+          ? denial.target
+          : `${denial.target} (${denial.module})`,
+        notify,
+        "ExtManagementService"
+      );
+
+      this.fire({ denied: extensionID });
+    }
+  }
+
+  /**
+   * Get the audit log of the calls of an extension denied by its permissions.
+   * @param extensionID - extensionID
+   * @returns The denied calls, the latest first.
+   */
+  auditLog(extensionID: string) {
+    return this._auditStore.get(extensionID, []).slice().reverse();
+  }
+
+  /**
+   * Clear the audit log of an extension.
+   * @param extensionID - extensionID
+   */
+  clearAuditLog(extensionID: string) {
+    this._auditStore.delete(extensionID);
+  }
+
   /**
    * Get the status of the official scrape extension.
    * @returns "uninstalled" | "unloaded" | "loaded"
@@ -23,20 +23,28 @@ import type { ShortcutService } from "@/renderer/services/shortcut-service";
 import type { UISlotService } from "@/renderer/services/uislot-service";
 import type { UIStateService } from "@/renderer/services/uistate-service";
 
+import type { AnnotationService } from "@/service/services/annotation-service";
 import type { BrowserExtensionService } from "@/service/services/browser-extension-service";
 import type { CacheService } from "@/service/services/cache-service";
 import type { CategorizerService } from "@/service/services/categorizer-service";
+import type { CitationService } from "@/service/services/citation-service";
 import type { DatabaseService } from "@/service/services/database-service";
+import type { DedupService } from "@/service/services/dedup-service";
+import type { FeedRuleService } from "@/service/services/feed-rule-service";
 import type { FeedService } from "@/service/services/feed-service";
 import type { FileService } from "@/service/services/file-service";
 import type { HookService } from "@/service/services/hook-service";
+import type { IntegrityService } from "@/service/services/integrity-service";
+import type { LinkedBibService } from "@/service/services/linked-bib-service";
 import type { PaperService } from "@/service/services/paper-service";
+import type { RecommendService } from "@/service/services/recommend-service";
 import type { ReferenceService } from "@/service/services/reference-service";
 import type { RenderService } from "@/service/services/render-service";
 import type { SchedulerService } from "@/service/services/scheduler-service";
 import type { ScrapeService } from "@/service/services/scrape-service";
 import type { SmartFilterService } from "@/service/services/smartfilter-service";
 import type { SyncService } from "@/service/services/sync-service";
+import type { WatchedFolderService } from "@/service/services/watched-folder-service";
 
 
 // ==============================
@@ -70,6 +78,14 @@ interface PLAPIShape {
   feedService: Proxied<FeedService>;
   referenceService: Proxied<ReferenceService>;
   syncService: Proxied<SyncService>;
+  dedupService: Proxied<DedupService>;
+  citationService: Proxied<CitationService>;
+  annotationService: Proxied<AnnotationService>;
+  linkedBibService: Proxied<LinkedBibService>;
+  watchedFolderService: Proxied<WatchedFolderService>;
+  integrityService: Proxied<IntegrityService>;
+  feedRuleService: Proxied<FeedRuleService>;
+  recommendService: Proxied<RecommendService>;
 }
 
 interface PLUIAPIShape {
@@ -123,6 +139,14 @@ export interface PLAPILocalShape {
   feedService: FeedService;
   referenceService: ReferenceService;
   syncService: SyncService;
+  dedupService: DedupService;
+  citationService: CitationService;
+  annotationService: AnnotationService;
+  linkedBibService: LinkedBibService;
+  watchedFolderService: WatchedFolderService;
+  integrityService: IntegrityService;
+  feedRuleService: FeedRuleService;
+  recommendService: RecommendService;
 }
 
 export interface PLUIAPILocalShape {
@@ -75,14 +75,20 @@ export interface IContextMenuServiceState {
   dataContextMenuExportCSVClicked: number;
   dataContextMenuExportBibTexKeyClicked: number;
   dataContextMenuExportPlainTextClicked: number;
+  dataContextMenuExportCSLJSONClicked: number;
+  dataContextMenuExportRISClicked: number;
+  dataContextMenuExportEndNoteXMLClicked: number;
+  dataContextMenuExportMarkdownClicked: number;
   feedContextMenuAddToLibraryClicked: number;
   feedContextMenuToggleReadClicked: number;
   sidebarContextMenuFeedRefreshClicked: { data: string; type: string };
   sidebarContextMenuEditClicked: { data: string; type: string };
   sidebarContextMenuColorClicked: { data: string; type: string; color: string };
   sidebarContextMenuDeleteClicked: { data: string; type: string };
+  sidebarContextMenuLinkBibClicked: { data: string; type: string };
   supContextMenuDeleteClicked: string;
   supContextMenuRenameClicked: string;
+  supContextMenuProgressClicked: string;
   thumbnailContextMenuReplaceClicked: number;
   thumbnailContextMenuRefreshClicked: number;
   linkToFolderClicked: string;
@@ -123,14 +129,20 @@ export class ContextMenuService extends Eventable<IContextMenuServiceState> {
       dataContextMenuExportCSVClicked: 0,
       dataContextMenuExportBibTexKeyClicked: 0,
       dataContextMenuExportPlainTextClicked: 0,
+      dataContextMenuExportCSLJSONClicked: 0,
+      dataContextMenuExportRISClicked: 0,
+      dataContextMenuExportEndNoteXMLClicked: 0,
+      dataContextMenuExportMarkdownClicked: 0,
       feedContextMenuAddToLibraryClicked: 0,
       feedContextMenuToggleReadClicked: 0,
       sidebarContextMenuFeedRefreshClicked: { data: "", type: "" },
       sidebarContextMenuEditClicked: { data: "", type: "" },
       sidebarContextMenuColorClicked: { data: "", type: "", color: "" },
       sidebarContextMenuDeleteClicked: { data: "", type: "" },
+      sidebarContextMenuLinkBibClicked: { data: "", type: "" },
       supContextMenuDeleteClicked: "",
       supContextMenuRenameClicked: "",
+      supContextMenuProgressClicked: "",
       thumbnailContextMenuReplaceClicked: 0,
       thumbnailContextMenuRefreshClicked: 0,
       linkToFolderClicked: "",
@@ -326,6 +338,30 @@ export class ContextMenuService extends Eventable<IContextMenuServiceState> {
               this.fire("dataContextMenuExportBibItemClicked");
             },
           },
+          {
+            label: "CSL-JSON",
+            click: () => {
+              this.fire("dataContextMenuExportCSLJSONClicked");
+            },
+          },
+          {
+            label: "RIS",
+            click: () => {
+              this.fire("dataContextMenuExportRISClicked");
+            },
+          },
+          {
+            label: "EndNote XML",
+            click: () => {
+              this.fire("dataContextMenuExportEndNoteXMLClicked");
+            },
+          },
+          {
+            label: "Markdown",
+            click: () => {
+              this.fire("dataContextMenuExportMarkdownClicked");
+            },
+          },
         ],
       },
     ];
@@ -386,6 +422,13 @@ export class ContextMenuService extends Eventable<IContextMenuServiceState> {
           this.fire("feedContextMenuToggleReadClicked");
         },
       },
+      {
+        label: this._locales.t("menu.toggleflag"),
+        accelerator: PLMainAPILocal.preferenceService.get("shortcutFlag") as string,
+        click: () => {
+          this.fire("dataContextMenuFlagClicked");
+        },
+      },
     ];
     const menu = Menu.buildFromTemplate(template);
     menu.popup();
@@ -536,6 +579,16 @@ export class ContextMenuService extends Eventable<IContextMenuServiceState> {
         },
       });
     }
+    if (
+      [PaperSmartFilter.schema.name, PaperFolder.schema.name].includes(type)
+    ) {
+      template.push({
+        label: this._locales.t("menu.linkbib"),
+        click: () => {
+          this.fire({ sidebarContextMenuLinkBibClicked: { data, type } });
+        },
+      });
+    }
     const menu = Menu.buildFromTemplate(template);
     menu.popup();
   }
@@ -563,6 +616,12 @@ export class ContextMenuService extends Eventable<IContextMenuServiceState> {
           this.fire({ supContextMenuRenameClicked: supId });
         },
       },
+      {
+        label: this._locales.t("menu.readingprogress"),
+        click: () => {
+          this.fire({ supContextMenuProgressClicked: supId });
+        },
+      },
     ];
     const menu = Menu.buildFromTemplate(template);
     menu.popup();
@@ -5,6 +5,7 @@ import {
   BrowserWindow,
   IpcMainEvent,
   OpenDialogReturnValue,
+  SaveDialogReturnValue,
   app,
   dialog,
   ipcMain,
@@ -121,6 +122,24 @@ export class FileSystemService {
     });
   }
 
+  /**
+   * Show a save file picker, which asks to confirm overwriting an existing file.
+   * @param {string} defaultPath - The default path of the file.
+   * @param {string[]} extensions - The extensions of the file, without dots.
+   * @returns {Promise<SaveDialogReturnValue>} The result of the save file picker.
+   */
+  @errorcatching("Failed to show save file picker.", true, "FileSystemService")
+  showSaveFilePicker(
+    defaultPath?: string,
+    extensions?: string[]
+  ): Promise<SaveDialogReturnValue> {
+    return dialog.showSaveDialog({
+      defaultPath,
+      filters: extensions ? [{ name: extensions.join(", "), extensions }] : [],
+      properties: ["createDirectory", "showOverwriteConfirmation"],
+    });
+  }
+
   /**
    * Preview a file.
    * @param {string} fileURL - The URL of the file to preview.
@@ -3,8 +3,11 @@ import keytar from "keytar";
 import os from "os";
 import { join } from "path";
 
+import { DEFAULT_CITEKEY_TEMPLATE } from "@/base/citekey";
+import { ICustomFieldDefinition } from "@/base/custom-field";
 import { errorcatching } from "@/base/error";
 import { Eventable } from "@/base/event";
+import { DEFAULT_SUP_RENAMING_TEMPLATE } from "@/base/filename";
 import { createDecorator } from "@/base/injection/injection";
 import { cmdOrCtrl } from "@/base/shortcut";
 
@@ -25,6 +28,7 @@ export interface IPreferenceStore {
   isSidebarCompact: boolean;
 
   mainTableFields: IDataViewField[];
+  customFields: ICustomFieldDefinition[];
 
   feedFields: IDataViewField[];
 
@@ -34,17 +38,20 @@ export interface IPreferenceStore {
   sidebarSortOrder: "asce" | "desc";
   renamingFormat: "full" | "short" | "authortitle" | "custom";
   customRenamingFormat: string;
+  supRenamingFormat: string;
 
   language: string;
 
   enableExportReplacement: boolean;
   exportReplacement: Array<{ from: string; to: string }>;
+  citeKeyTemplate: string;
 
   useSync: "none" | "official" | "realm" | "self-host";
   isFlexibleSync: boolean;
   syncAPPID: "";
   syncAPIKey: string;
   syncEmail: string;
+  selfHostSyncURL: string;
 
   syncFileStorage: string;
   webdavURL: string;
@@ -90,6 +97,8 @@ export interface IPreferenceStore {
 
   selectedCSLStyle: string;
   importedCSLStylesPath: string;
+  selectedCSLLocale: string;
+  importedCSLLocalesPath: string;
 
   showPresetting: boolean;
   showGuide: boolean;
@@ -130,6 +139,7 @@ const _defaultPreferences: IPreferenceStore = {
     { key: "number", enable: false, width: -1 },
     { key: "addTime", enable: true, width: -1 },
   ],
+  customFields: [],
 
   feedFields: [
     { key: "feed", enable: false, width: -1 },
@@ -146,6 +156,8 @@ const _defaultPreferences: IPreferenceStore = {
     { key: "volume", enable: false, width: -1 },
     { key: "number", enable: false, width: -1 },
     { key: "publisher", enable: false, width: -1 },
+    { key: "score", enable: false, width: -1 },
+    { key: "flag", enable: true, width: -1 },
     { key: "addTime", enable: true, width: -1 },
   ],
 
@@ -155,17 +167,20 @@ const _defaultPreferences: IPreferenceStore = {
   sidebarSortOrder: "asce",
   renamingFormat: "full",
   customRenamingFormat: "",
+  supRenamingFormat: DEFAULT_SUP_RENAMING_TEMPLATE,
 
   language: "en-GB",
 
   enableExportReplacement: true,
   exportReplacement: [],
+  citeKeyTemplate: DEFAULT_CITEKEY_TEMPLATE,
 
   useSync: "none",
   isFlexibleSync: false,
   syncAPPID: "",
   syncAPIKey: "",
   syncEmail: "",
+  selfHostSyncURL: "",
 
   syncFileStorage: "local",
   webdavURL: "",
@@ -211,6 +226,8 @@ const _defaultPreferences: IPreferenceStore = {
 
   selectedCSLStyle: "apa",
   importedCSLStylesPath: "",
+  selectedCSLLocale: "en-US",
+  importedCSLLocalesPath: "",
 
   showPresetting: true,
   showGuide: true,
@@ -226,6 +243,8 @@ function _migrate(
   // 0: Paperlib < 3.0.0
   // 1: Paperlib >= 3.0.0-beta.1
   // 2: Paperlib >= 3.0.0-beta.4
+  // 3: Feed entities with scores
+  // 4: Flagged feed entities
   const prevVersion = store.has("preferenceVersion")
     ? store.get("preferenceVersion")
     : 0;
@@ -327,6 +346,17 @@ function _migrate(
   }
   // TODO: migrate from 1 to 2
 
+  if (prevVersion <= 3) {
+    // New fields of feed entities, e.g., the score and the flag.
+    const feedFields = store.get("feedFields") as IDataViewField[];
+    for (const defaultFeedField of _defaultPreferences.feedFields) {
+      if (!feedFields.some((field) => field.key === defaultFeedField.key)) {
+        feedFields.push({ ...defaultFeedField });
+      }
+    }
+    store.set("feedFields", feedFields);
+  }
+
   store.set("preferenceVersion", preferenceVersion);
 
   return store;
@@ -334,7 +364,7 @@ function _migrate(
 
 export const IPreferenceService = createDecorator("preferenceService");
 
-export const PREFERENCE_VERSION: number = 2;
+export const PREFERENCE_VERSION: number = 4;
 
 /**
  * Preference service.
@@ -0,0 +1,81 @@
+import { ObjectId } from "bson";
+import Realm from "realm";
+
+export type AnnotationType = "highlight" | "comment" | "bookmark";
+
+export interface IAnnotation {
+  _id: string;
+  type: AnnotationType;
+  // 1-based page number.
+  page: number;
+  // The highlighted text.
+  text?: string;
+  comment?: string;
+  // Hex color, e.g. #ffd400.
+  color?: string;
+  // Quadrilaterals of the annotated area in PDF page coordinates, 8 numbers per quad.
+  quads: number[];
+  // "pdf" if extracted from the annotations in the file.
+  source?: string;
+  addTime: Date;
+}
+
+export class Annotation implements IAnnotation {
+  static schema = {
+    name: "Annotation",
+    embedded: true,
+    properties: {
+      _id: "string",
+      type: "string",
+      page: "int",
+      text: "string?",
+      comment: "string?",
+      color: "string?",
+      quads: "double[]",
+      source: "string?",
+      addTime: "date",
+    },
+  };
+
+  _id!: string;
+  type!: AnnotationType;
+  page!: number;
+  text?: string;
+  comment?: string;
+  color?: string;
+  quads!: number[];
+  source?: string;
+  addTime!: Date;
+
+  constructor(object?: Partial<IAnnotation>) {
+    this.initialize(object || {});
+  }
+
+  initialize(object: Partial<IAnnotation>) {
+    this._id = object._id || new ObjectId().toString();
+    this.type = object.type || "highlight";
+    this.page = object.page || 1;
+    this.text = object.text || undefined;
+    this.comment = object.comment || undefined;
+    this.color = object.color || undefined;
+    this.quads = object.quads ? Array.from(object.quads) : [];
+    this.source = object.source || undefined;
+    this.addTime = object.addTime ? new Date(object.addTime) : new Date();
+
+    return this;
+  }
+}
+
+export type IAnnotationRealmObject = Annotation &
+  Realm.Object<
+    Annotation,
+    | "_id"
+    | "type"
+    | "page"
+    | "text"
+    | "comment"
+    | "color"
+    | "quads"
+    | "source"
+    | "addTime"
+  >;
@@ -0,0 +1,57 @@
+import Realm from "realm";
+
+/**
+ * An author of an entity. A person has a given name, a family name and optionally a
+ * particle, e.g., `van der`, and a suffix, e.g., `Jr.`. An organization has only a literal name.
+ */
+export interface IAuthor {
+  given?: string;
+  family?: string;
+  particle?: string;
+  suffix?: string;
+  orcid?: string;
+  literal?: string;
+}
+
+export class Author implements IAuthor {
+  static schema = {
+    name: "Author",
+    embedded: true,
+    properties: {
+      given: "string?",
+      family: "string?",
+      particle: "string?",
+      suffix: "string?",
+      orcid: "string?",
+      literal: "string?",
+    },
+  };
+
+  given?: string;
+  family?: string;
+  particle?: string;
+  suffix?: string;
+  orcid?: string;
+  literal?: string;
+
+  constructor(object?: Partial<IAuthor>) {
+    this.initialize(object || {});
+  }
+
+  initialize(object: Partial<IAuthor>) {
+    this.given = object.given || undefined;
+    this.family = object.family || undefined;
+    this.particle = object.particle || undefined;
+    this.suffix = object.suffix || undefined;
+    this.orcid = object.orcid || undefined;
+    this.literal = object.literal || undefined;
+
+    return this;
+  }
+}
+
+export type IAuthorRealmObject = Author &
+  Realm.Object<
+    Author,
+    "given" | "family" | "particle" | "suffix" | "orcid" | "literal"
+  >;
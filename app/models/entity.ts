@@ -2,9 +2,13 @@ import { ObjectId } from "bson";
 import Mathml2latex from "mathml-to-latex";
 import Realm, { List, Results } from "realm";
 
+import { CustomFieldValue } from "@/base/custom-field";
+
+import { Author, IAuthor } from "./author";
 import { ICategorizerDraft, PaperFolder, PaperTag } from "./categorizer";
 import { Feed, IFeedDraft } from "./feed";
 import { OID } from "./id";
+import { IReferenceLink, ReferenceLink } from "./reference-link";
 import { ISupplementary, Supplementary } from "./supplementary";
 
 export type EntityType =
@@ -38,9 +42,15 @@ export interface IEntity {
   issn?: string;
   isbn?: string;
 
+  // Citation key, generated from the template of the preference unless it is pinned by a manual edit
+  citeKey?: string;
+  citeKeyPinned?: boolean;
+
   // Bibtex
   title: string;
   authors: string;
+  // Structured authors, which are formatted as the authors string above
+  authorList: IAuthor[];
   journal?: string;
   booktitle?: string;
   year: string;
@@ -58,6 +68,12 @@ export interface IEntity {
   institution?: string;
   address?: string;
 
+  // Papers referenced by this one
+  references: IReferenceLink[];
+
+  // Values of the fields defined by users, by the names of the fields
+  customFields: Record<string, CustomFieldValue>;
+
   // For papers
   rating?: number;
   tags: ICategorizerDraft[];
@@ -87,9 +103,15 @@ export class Entity implements IEntity {
       arxiv: "string?",
       issn: "string?",
       isbn: "string?",
+      citeKey: "string?",
+      citeKeyPinned: "bool?",
 
       title: "string",
       authors: "string",
+      authorList: {
+        type: "list",
+        objectType: "Author",
+      },
       journal: "string?",
       booktitle: "string?",
       year: "string",
@@ -107,6 +129,12 @@ export class Entity implements IEntity {
       institution: "string?",
       address: "string?",
 
+      references: {
+        type: "list",
+        objectType: "ReferenceLink",
+      },
+      customFields: "mixed{}",
+
       rating: "int?",
       tags: {
         type: "list",
@@ -136,8 +164,11 @@ export class Entity implements IEntity {
   arxiv?: string;
   issn?: string;
   isbn?: string;
+  citeKey?: string;
+  citeKeyPinned?: boolean;
   title!: string;
   authors!: string;
+  authorList!: Author[];
   journal?: string;
   booktitle?: string;
   year!: string;
@@ -154,6 +185,8 @@ export class Entity implements IEntity {
   school?: string;
   institution?: string;
   address?: string;
+  references!: ReferenceLink[];
+  customFields!: Record<string, CustomFieldValue>;
   rating?: number;
   tags!: PaperTag[];
   folders!: PaperFolder[];
@@ -226,9 +259,13 @@ export class Entity implements IEntity {
     this.arxiv = object?.arxiv;
     this.issn = object?.issn;
     this.isbn = object?.isbn;
+    this.citeKey = object?.citeKey;
+    this.citeKeyPinned = object?.citeKeyPinned;
 
     this.title = object?.title || "";
     this.authors = object?.authors || "";
+    this.authorList =
+      object?.authorList?.map((author) => new Author(author)) || [];
     this.journal = object?.journal;
     this.booktitle = object?.booktitle;
     this.year = object?.year || "";
@@ -246,6 +283,13 @@ export class Entity implements IEntity {
     this.institution = object?.institution;
     this.address = object?.address;
 
+    this.references =
+      object?.references?.map((reference) => new ReferenceLink(reference)) ||
+      [];
+    this.customFields = object?.customFields
+      ? Object.fromEntries(Object.entries(object.customFields))
+      : {};
+
     this.rating = object?.rating;
     this.tags = object?.tags?.map((tag) => new PaperTag(tag, false)) || [];
     this.folders =
@@ -279,8 +323,11 @@ export type IEntityRealmObject = Entity &
     | "arxiv"
     | "issn"
     | "isbn"
+    | "citeKey"
+    | "citeKeyPinned"
     | "title"
     | "authors"
+    | "authorList"
     | "journal"
     | "booktitle"
     | "year"
@@ -297,6 +344,8 @@ export type IEntityRealmObject = Entity &
     | "school"
     | "institution"
     | "address"
+    | "references"
+    | "customFields"
     | "rating"
     | "tags"
     | "folders"
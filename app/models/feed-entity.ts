@@ -26,6 +26,9 @@ export interface IFeedEntityDraft {
   number?: string;
   publisher?: string;
   read?: boolean;
+  score?: number;
+  recommendation?: number;
+  flag?: boolean;
 }
 
 export class FeedEntity {
@@ -55,6 +58,12 @@ export class FeedEntity {
       number: "string",
       publisher: "string",
       read: "bool",
+      // Relevance score given by the rules of feeds.
+      score: "double",
+      // Similarity to the papers in the library, given when the entity is fetched.
+      recommendation: "double",
+      // Flagged entities are never deleted by the retention of feeds.
+      flag: "bool",
     },
   };
 
@@ -78,6 +87,9 @@ export class FeedEntity {
   number: string;
   publisher: string;
   read: boolean;
+  score: number;
+  recommendation: number;
+  flag: boolean;
 
   constructor(object?: IFeedEntityDraft, initObjectId = false) {
     this._id = object?._id ? new ObjectId(object?._id) : "";
@@ -103,6 +115,9 @@ export class FeedEntity {
     this.number = object?.number || "";
     this.publisher = object?.publisher || "";
     this.read = object?.read || false;
+    this.score = object?.score || 0;
+    this.recommendation = object?.recommendation || 0;
+    this.flag = object?.flag || false;
 
     if (initObjectId) {
       this._id = new ObjectId();
@@ -147,6 +162,9 @@ export class FeedEntity {
     this.number = object.number || "";
     this.publisher = object.publisher || "";
     this.read = object.read || false;
+    this.score = object.score || 0;
+    this.recommendation = object.recommendation || 0;
+    this.flag = object.flag || false;
 
     return this;
   }
@@ -188,6 +206,9 @@ export type IFeedEntityRealmObject = FeedEntity &
     | "number"
     | "publisher"
     | "read"
+    | "score"
+    | "recommendation"
+    | "flag"
   >;
 
 export type IFeedEntityObject = FeedEntity | IFeedEntityRealmObject;
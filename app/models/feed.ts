@@ -11,6 +11,16 @@ export interface IFeedDraft {
   count?: number;
   color?: string;
   url?: string;
+  etag?: string;
+  lastModified?: string;
+  lastSuccessTime?: Date;
+  lastErrorTime?: Date;
+  lastError?: string;
+  itemCount?: number;
+  refreshInterval?: number;
+  retentionDays?: number;
+  maxEntities?: number;
+  deletedTitles?: string[];
 }
 
 export class Feed {
@@ -25,6 +35,23 @@ export class Feed {
       count: "int",
       color: "string?",
       url: "string",
+      // Validators of the last response of the feed, sent in conditional requests.
+      etag: "string?",
+      lastModified: "string?",
+      // Health of fetching the feed.
+      lastSuccessTime: "date?",
+      lastErrorTime: "date?",
+      lastError: "string?",
+      // Number of entities in the last fetched document.
+      itemCount: "int?",
+      // Hours between refreshes of the feed, or 0 to refresh it with all feeds once a day.
+      refreshInterval: "int?",
+      // Days to keep read entities of the feed, or 0 for the default days.
+      retentionDays: "int?",
+      // The most entities of the feed to keep, or 0 for no limit.
+      maxEntities: "int?",
+      // Titles of the latest entities deleted by the retention, which are not added again by refreshes.
+      deletedTitles: "string[]",
     },
   };
 
@@ -35,6 +62,16 @@ export class Feed {
   count: number;
   color?: string;
   url: string;
+  etag?: string;
+  lastModified?: string;
+  lastSuccessTime?: Date;
+  lastErrorTime?: Date;
+  lastError?: string;
+  itemCount?: number;
+  refreshInterval?: number;
+  retentionDays?: number;
+  maxEntities?: number;
+  deletedTitles: string[];
 
   constructor(object?: IFeedDraft, initObjectId = false) {
     this._id = object?._id ? new ObjectId(object._id) : "";
@@ -47,6 +84,16 @@ export class Feed {
     this.count = object?.count || 0;
     this.color = object?.color;
     this.url = object?.url || "";
+    this.etag = object?.etag;
+    this.lastModified = object?.lastModified;
+    this.lastSuccessTime = object?.lastSuccessTime;
+    this.lastErrorTime = object?.lastErrorTime;
+    this.lastError = object?.lastError;
+    this.itemCount = object?.itemCount;
+    this.refreshInterval = object?.refreshInterval;
+    this.retentionDays = object?.retentionDays;
+    this.maxEntities = object?.maxEntities;
+    this.deletedTitles = object?.deletedTitles ? [...object.deletedTitles] : [];
 
     if (initObjectId) {
       this._id = new ObjectId();
@@ -65,6 +112,16 @@ export class Feed {
     this.count = object.count || 0;
     this.color = object.color;
     this.url = object.url || "";
+    this.etag = object.etag;
+    this.lastModified = object.lastModified;
+    this.lastSuccessTime = object.lastSuccessTime;
+    this.lastErrorTime = object.lastErrorTime;
+    this.lastError = object.lastError;
+    this.itemCount = object.itemCount;
+    this.refreshInterval = object.refreshInterval;
+    this.retentionDays = object.retentionDays;
+    this.maxEntities = object.maxEntities;
+    this.deletedTitles = object.deletedTitles ? [...object.deletedTitles] : [];
 
     return this;
   }
@@ -18,6 +18,8 @@ export class PaperEntityCache {
       thumbnailWidth: "int?",
       thumbnailHeight: "int?",
       md5: "string",
+      fulltextPages: "string[]",
+      fulltextLength: "int?",
     },
   };
 
@@ -28,6 +30,36 @@ export class PaperEntityCache {
   thumbnailWidth?: number;
   thumbnailHeight?: number;
   md5: string = "";
+  // Text of each page, to cut snippets of full-text hits.
+  fulltextPages: string[] = [];
+  // Number of indexed terms. It is undefined if the fulltext has not been indexed.
+  fulltextLength?: number;
+
+  [Key: string]: unknown;
+}
+
+/**
+ * An entry of the inverted full-text index: the occurrences of a term in a paper.
+ * The i-th occurrence is at the character offset `positions[i]` of the page `pages[i]`.
+ */
+export class FullTextPosting {
+  static schema = {
+    name: "FullTextPosting",
+    primaryKey: "_id",
+    properties: {
+      _id: "objectId",
+      term: { type: "string", indexed: true },
+      paperId: { type: "objectId", indexed: true },
+      pages: "int[]",
+      positions: "int[]",
+    },
+  };
+
+  _id: OID = "";
+  term: string = "";
+  paperId: OID = "";
+  pages: number[] = [];
+  positions: number[] = [];
 
   [Key: string]: unknown;
 }
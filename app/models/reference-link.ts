@@ -0,0 +1,46 @@
+import Realm from "realm";
+
+/**
+ * A paper referenced by an entity. It is identified by any of its DOI, arXiv ID or title,
+ * and is linked to an entity in the library when one of them matches.
+ */
+export interface IReferenceLink {
+  doi?: string;
+  arxiv?: string;
+  title?: string;
+  year?: string;
+}
+
+export class ReferenceLink implements IReferenceLink {
+  static schema = {
+    name: "ReferenceLink",
+    embedded: true,
+    properties: {
+      doi: "string?",
+      arxiv: "string?",
+      title: "string?",
+      year: "string?",
+    },
+  };
+
+  doi?: string;
+  arxiv?: string;
+  title?: string;
+  year?: string;
+
+  constructor(object?: Partial<IReferenceLink>) {
+    this.initialize(object || {});
+  }
+
+  initialize(object: Partial<IReferenceLink>) {
+    this.doi = object.doi || undefined;
+    this.arxiv = object.arxiv || undefined;
+    this.title = object.title || undefined;
+    this.year = object.year || undefined;
+
+    return this;
+  }
+}
+
+export type IReferenceLinkRealmObject = ReferenceLink &
+  Realm.Object<ReferenceLink, "doi" | "arxiv" | "title" | "year">;
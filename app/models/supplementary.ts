@@ -4,10 +4,17 @@ import Realm, { List, Results } from "realm";
 import { getFileType } from "@/base/url";
 import { uid } from "@/base/misc";
 
+import { Annotation, IAnnotation } from "./annotation";
+
 export interface ISupplementary {
   _id: string;
   url: string;
   name: string;
+  annotations?: IAnnotation[];
+  // 1-based page number the user read last.
+  lastReadPage?: number;
+  // Reading progress from 0 to 100.
+  readPercentage?: number;
 }
 
 export class Supplementary implements ISupplementary {
@@ -18,12 +25,21 @@ export class Supplementary implements ISupplementary {
       _id: "string",
       url: "string",
       name: "string",
+      annotations: {
+        type: "list",
+        objectType: "Annotation",
+      },
+      lastReadPage: "int?",
+      readPercentage: "double?",
     },
   };
 
   _id!: string;
   url!: string;
   name!: string;
+  annotations!: Annotation[];
+  lastReadPage?: number;
+  readPercentage?: number;
 
   constructor(object?: Partial<ISupplementary>) {
     this.initialize(object || {});
@@ -45,6 +61,11 @@ export class Supplementary implements ISupplementary {
     this._id = object._id || new ObjectId().toString();
     this.url = object.url || "";
     this.name = object.name || getFileType(this.url).toUpperCase();
+    this.annotations =
+      object.annotations?.map((annotation) => new Annotation(annotation)) ||
+      [];
+    this.lastReadPage = object.lastReadPage;
+    this.readPercentage = object.readPercentage;
 
     return this;
   }
@@ -56,6 +77,9 @@ export type ISupplementaryRealmObject = Supplementary &
     | "_id"
     | "url"
     | "name"
+    | "annotations"
+    | "lastReadPage"
+    | "readPercentage"
   >;
 
 export type ISupplementaryObject = Supplementary | ISupplementaryRealmObject;
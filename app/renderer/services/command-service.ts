@@ -1,5 +1,6 @@
 import { errorcatching } from "@/base/error";
 import { createDecorator } from "@/base/injection/injection";
+import { Entity } from "@/models/entity";
 
 import { PiniaEventable } from "./pinia-eventable";
 import { IUIStateService, UIStateService } from "./uistate-service";
@@ -80,7 +81,8 @@ export class CommandService extends PiniaEventable<{}> {
 
     this.register({
       id: "search_advanced",
-      description: "Search the library by advanced query.",
+      description:
+        'Search the library by advanced query, e.g. author:hinton year:>2015 tag:"to read" -flag.',
       priority: 99997,
       handler: (keyword: string) => {
         this._uiStateService.setState({
@@ -97,6 +99,72 @@ export class CommandService extends PiniaEventable<{}> {
         PLAPI.paperService.scrapePreprint();
       },
     });
+
+    this.register({
+      id: "scrape_references",
+      description: "Scrape the papers referenced by the selected papers.",
+      priority: 99995,
+      handler: () => {
+        PLAPI.paperService.scrapeReferences(
+          this._uiStateService.getState("selectedPaperEntities") as Entity[]
+        );
+      },
+    });
+
+    this.register({
+      id: "extract_annotations",
+      description: "Read the annotations in the PDF files of the selected papers.",
+      priority: 99994,
+      handler: () => {
+        PLAPI.annotationService.extract(
+          this._uiStateService.getState("selectedPaperEntities") as Entity[]
+        );
+      },
+    });
+
+    this.register({
+      id: "export_annotations",
+      description: "Export the annotations of the selected papers into their notes.",
+      priority: 99993,
+      handler: () => {
+        PLAPI.annotationService.exportToNote(
+          this._uiStateService.getState("selectedPaperEntities") as Entity[]
+        );
+      },
+    });
+
+    this.register({
+      id: "find_duplicates",
+      description: "Find duplicated papers in the library and merge them.",
+      priority: 99992,
+      handler: () => {
+        this._uiStateService.setState({
+          dedupViewShown: true,
+        });
+      },
+    });
+
+    this.register({
+      id: "check_integrity",
+      description:
+        "Check the library for missing, orphaned and modified files.",
+      priority: 99991,
+      handler: () => {
+        this._uiStateService.setState({
+          integrityViewShown: true,
+        });
+      },
+    });
+
+    this.register({
+      id: "compact_feeds",
+      description:
+        "Delete feed entities by the retention of feeds, except flagged ones and the ones in the library.",
+      priority: 99990,
+      handler: () => {
+        PLAPI.feedService.compact();
+      },
+    });
   }
 
   @errorcatching("Failed to register command.", true, "CommandService")
@@ -234,6 +234,6 @@ export interface ViewTreeNode {
   color: string;
   type: CategorizerType | PaperSmartFilterType;
   count: number;
-  icon: "tag" | "folder" | "folder-link" | "funnel";
+  icon: "tag" | "folder" | "folder-link" | "funnel" | "person";
   children: ViewTreeNode[];
 }
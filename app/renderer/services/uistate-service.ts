@@ -17,6 +17,9 @@ export interface IUIStateServiceState {
   paperSmartFilterEditViewShown: boolean;
   preferenceViewShown: boolean;
   deleteConfirmShown: boolean;
+  syncConflictViewShown: boolean;
+  dedupViewShown: boolean;
+  integrityViewShown: boolean;
   overlayNoticationShown: boolean;
   renderRequired: number;
   feedEntityAddingStatus: number;
@@ -43,6 +46,8 @@ export interface IUIStateServiceState {
 
   querySentencesSidebar: Array<string>;
   querySentenceCommandbar: string;
+  // Values of the placeholders in querySentenceCommandbar.
+  querySentenceCommandbarPlaceholders: Array<unknown>;
 
   dragingIds: Array<string>;
 
@@ -77,6 +82,9 @@ export class UIStateService extends PiniaEventable<IUIStateServiceState> {
       paperSmartFilterEditViewShown: false,
       preferenceViewShown: false,
       deleteConfirmShown: false,
+      syncConflictViewShown: false,
+      dedupViewShown: false,
+      integrityViewShown: false,
       overlayNoticationShown: false,
       renderRequired: -1,
       feedEntityAddingStatus: 0,
@@ -96,6 +104,7 @@ export class UIStateService extends PiniaEventable<IUIStateServiceState> {
 
       querySentencesSidebar: [],
       querySentenceCommandbar: "",
+      querySentenceCommandbarPlaceholders: [],
 
       editingPaperSmartFilter: new PaperSmartFilter(),
 
@@ -163,6 +172,18 @@ export class UIStateService extends PiniaEventable<IUIStateServiceState> {
     }
   }
 
+  /**
+   * Set the query sentence of the command bar with the values of its placeholders.
+   * The sentence is fired even if it is unchanged, e.g., another word searched in the general mode
+   * only changes the placeholders, and its listeners read both values.
+   * @param querySentence - The query sentence.
+   * @param placeholders - The values of the placeholders in the sentence.
+   */
+  setQuerySentenceCommandbar(querySentence: string, placeholders: unknown[]) {
+    this.fire({ querySentenceCommandbarPlaceholders: placeholders });
+    this.fire({ querySentenceCommandbar: querySentence });
+  }
+
   /**
    * Get the UI state.
    * @param stateKey - key of the state
@@ -208,6 +229,9 @@ export class UIStateService extends PiniaEventable<IUIStateServiceState> {
       feedEditViewShown: false,
       paperSmartFilterEditViewShown: false,
       deleteConfirmShown: false,
+      syncConflictViewShown: false,
+      dedupViewShown: false,
+      integrityViewShown: false,
       overlayNoticationShown: false,
       candidatesViewShown: false,
       renderRequired: -1,
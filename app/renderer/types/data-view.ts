@@ -1,3 +1,5 @@
+import { ICustomFieldDefinition } from "@/base/custom-field";
+
 export interface ItemField {
   type:
     | "string"
@@ -18,4 +20,6 @@ export interface FieldTemplate extends ItemField {
   sortBy?: string;
   sortOrder?: string;
   short?: boolean;
+  // The definition of the field if it is a custom field.
+  customField?: ICustomFieldDefinition;
 }
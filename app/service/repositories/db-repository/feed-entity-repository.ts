@@ -3,7 +3,7 @@ import Realm from "realm";
 
 import { Eventable } from "@/base/event";
 import { createDecorator } from "@/base/injection/injection";
-import { IFeedCollection, IFeedRealmObject } from "@/models/feed";
+import { Feed, IFeedCollection, IFeedRealmObject } from "@/models/feed";
 import {
   FeedEntity,
   IFeedEntityCollection,
@@ -20,6 +20,11 @@ export interface IFeedEntityRepositoryState {
 
 export const IFeedEntityRepository = createDecorator("feedEntityRepository");
 
+// Days to keep read entities of feeds without their own retention days.
+const DEFAULT_FEED_RETENTION_DAYS = 3;
+// Titles of deleted entities to remember per feed, more than feeds usually list at once.
+const MAX_FEED_DELETED_TITLES = 1000;
+
 export class FeedEntityRepository extends Eventable<IFeedEntityRepositoryState> {
   constructor(
     @IFeedRepository private readonly _feedRepository: FeedRepository
@@ -155,6 +160,9 @@ export class FeedEntityRepository extends Eventable<IFeedEntityRepositoryState>
     feedEntity.number = feedEntity.number || "";
     feedEntity.publisher = feedEntity.publisher || "";
     feedEntity.read = feedEntity.read || false;
+    feedEntity.score = feedEntity.score || 0;
+    feedEntity.recommendation = feedEntity.recommendation || 0;
+    feedEntity.flag = feedEntity.flag || false;
 
     return feedEntity;
   }
@@ -163,7 +171,7 @@ export class FeedEntityRepository extends Eventable<IFeedEntityRepositoryState>
    * Update feed entity.
    * @param realm - Realm instance.
    * @param feedEntity - Feed entity.
-   * @param ignoreReadState - Ignore read state.
+   * @param ignoreReadState - Ignore read state and flag, which are set by users.
    * @param partition - Partition.
    * @returns FeedEntity
    */
@@ -205,9 +213,12 @@ export class FeedEntityRepository extends Eventable<IFeedEntityRepositoryState>
         object.volume = feedEntity.volume;
         object.number = feedEntity.number;
         object.publisher = feedEntity.publisher;
+        object.score = feedEntity.score;
+        object.recommendation = feedEntity.recommendation;
         object.feed = feed;
         if (!ignoreReadState) {
           object.read = feedEntity.read;
+          object.flag = feedEntity.flag;
         }
 
         if (partition) {
@@ -233,58 +244,66 @@ export class FeedEntityRepository extends Eventable<IFeedEntityRepositoryState>
   }
 
   /**
-   * Delete outdate feed entities.
+   * Delete feed entities by the retention of their feeds.
+   * Read entities older than the retention days, unread entities older than 30 days,
+   * and the oldest entities beyond the most entities to keep of a feed are deleted.
+   * Flagged entities and the entities kept by `isKept` are never deleted, but still count towards the most entities.
+   * The titles of the deleted entities are remembered in `deletedTitles` of their feeds, so that refreshes do not add them again.
    * @param realm - Realm instance.
-   * @returns - Feed count.
+   * @param isKept - Whether an entity should be kept, e.g., it is added to the library.
+   * @returns - The number of deleted entities.
    */
-  deleteOutdate(realm: Realm) {
+  compact(realm: Realm, isKept: (feedEntity: IFeedEntityObject) => boolean) {
     return realm.safeWrite(() => {
-      const readObjects = realm
-        .objects<FeedEntity>("FeedEntity")
-        .filtered(
-          "(addTime < $0) AND (read == true)",
-          new Date(Date.now() - 86400000 * 3)
-        );
-      const unreadObjects = realm
-        .objects<FeedEntity>("FeedEntity")
-        .filtered(
-          "(addTime < $0) AND (read == false)",
-          new Date(Date.now() - 86400000 * 30)
-        );
+      const now = Date.now();
+      const toBeDeleted: IFeedEntityRealmObject[] = [];
+      const toBeUpdatedFeed: IFeedCollection = [];
 
-      const feedCount: Record<string, number> = {};
+      for (const feed of realm.objects<Feed>("Feed")) {
+        const readBefore = new Date(
+          now - 86400000 * (feed.retentionDays || DEFAULT_FEED_RETENTION_DAYS)
+        );
+        const unreadBefore = new Date(now - 86400000 * 30);
 
-      readObjects.forEach((obj) => {
-        if (feedCount[obj.feed.name]) {
-          feedCount[obj.feed.name] += 1;
-        } else {
-          feedCount[obj.feed.name] = 1;
+        const objects = realm
+          .objects<FeedEntity>("FeedEntity")
+          .filtered("feed._id == $0", feed._id)
+          .sorted("addTime", true) as Realm.Results<IFeedEntityRealmObject>;
+
+        let kept = 0;
+        const deletedTitles: string[] = [];
+        for (const object of objects) {
+          if (object.flag || isKept(object)) {
+            kept += 1;
+            continue;
+          }
+          const outdated =
+            object.addTime < (object.read ? readBefore : unreadBefore);
+          if (outdated || (feed.maxEntities && kept >= feed.maxEntities)) {
+            toBeDeleted.push(object);
+            deletedTitles.push(object.title);
+          } else {
+            kept += 1;
+          }
         }
-      });
-      unreadObjects.forEach((obj) => {
-        if (feedCount[obj.feed.name]) {
-          feedCount[obj.feed.name] += 1;
-        } else {
-          feedCount[obj.feed.name] = 1;
+        if (deletedTitles.length > 0) {
+          feed.deletedTitles.push(...deletedTitles);
+          if (feed.deletedTitles.length > MAX_FEED_DELETED_TITLES) {
+            feed.deletedTitles.splice(
+              0,
+              feed.deletedTitles.length - MAX_FEED_DELETED_TITLES
+            );
+          }
+          toBeUpdatedFeed.push(feed);
         }
-      });
-
-      const toBeUpdatedFeed: IFeedCollection = [];
-
-      readObjects.forEach((obj) => {
-        toBeUpdatedFeed.push(obj.feed);
-      });
-
-      unreadObjects.forEach((obj) => {
-        toBeUpdatedFeed.push(obj.feed);
-      });
+      }
 
-      realm.delete(readObjects);
-      realm.delete(unreadObjects);
+      const deletedCount = toBeDeleted.length;
+      realm.delete(toBeDeleted);
 
       this._feedRepository.updateCount(realm, toBeUpdatedFeed);
 
-      return feedCount;
+      return deletedCount;
     });
   }
 
@@ -189,10 +189,18 @@ export class FeedRepository extends Eventable<IFeedRepositoryState> {
 
       if (object) {
         // Update
+        if (object.url !== feed.url) {
+          // Validators of the old URL are meaningless for the new one.
+          object.etag = undefined;
+          object.lastModified = undefined;
+        }
         object.name = feed.name;
         object.url = feed.url;
         object.color = feed.color;
         object.count = feed.count;
+        object.refreshInterval = feed.refreshInterval;
+        object.retentionDays = feed.retentionDays;
+        object.maxEntities = feed.maxEntities;
         if (partition) {
           object._partition = partition;
         }
@@ -207,6 +215,38 @@ export class FeedRepository extends Eventable<IFeedRepositoryState> {
     });
   }
 
+  /**
+   * Update the health of fetching a feed, and the validators of its last response.
+   * @param realm - Realm instance
+   * @param feed - Feed
+   * @param health - Properties of the health to update
+   */
+  updateHealth(
+    realm: Realm,
+    feed: IFeedObject,
+    health: Partial<
+      Pick<
+        Feed,
+        | "etag"
+        | "lastModified"
+        | "lastSuccessTime"
+        | "lastErrorTime"
+        | "lastError"
+        | "itemCount"
+      >
+    >
+  ) {
+    realm.safeWrite(() => {
+      const object = this.toRealmObject(realm, feed);
+      if (!object) {
+        return;
+      }
+      for (const [key, value] of Object.entries(health)) {
+        object[key] = value;
+      }
+    });
+  }
+
   updateCount(realm: Realm, feeds: IFeedCollection) {
     return realm.safeWrite(() => {
       const feedRealmObjects = feeds.map((feed) => {
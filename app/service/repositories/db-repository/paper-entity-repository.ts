@@ -1,8 +1,15 @@
 import { ObjectId } from "bson";
 import Realm from "realm";
 
+import { authorListOf, formatAuthorName } from "@/base/author";
+import {
+  DEFAULT_CITEKEY_TEMPLATE,
+  disambiguateCiteKey,
+  formatCiteKey,
+} from "@/base/citekey";
 import { Eventable } from "@/base/event";
 import { createDecorator } from "@/base/injection/injection";
+import { Author } from "@/models/author";
 import { CategorizerType, ICategorizerCollection } from "@/models/categorizer";
 import { OID } from "@/models/id";
 import { IEntityCollection, IEntityObject, IEntityRealmObject, Entity } from "@/models/entity";
@@ -66,6 +73,7 @@ export class PaperEntityRepository extends Eventable<IPaperEntityRepositoryState
    * Load all filtered paper entities.
    * @param realm - Realm instance.
    * @param filter - Filter string.
+   * @param filterPlaceholders - Values of the placeholders in the filter string.
    * @param sortBy - Sort by field.
    * @param sortOrder - Sort order.
    * @returns - Results of paper entities.
@@ -73,6 +81,7 @@ export class PaperEntityRepository extends Eventable<IPaperEntityRepositoryState
   load(
     realm: Realm,
     filter: string,
+    filterPlaceholders: any[],
     sortBy: string,
     sortOrder: "asce" | "desc"
   ) {
@@ -97,7 +106,7 @@ export class PaperEntityRepository extends Eventable<IPaperEntityRepositoryState
 
     if (filter) {
       try {
-        return objects.filtered(`library == 'main' AND (${filter})`).sorted(sortBy, sortOrder === "desc");
+        return objects.filtered(`library == 'main' AND (${filter})`, ...filterPlaceholders).sorted(sortBy, sortOrder === "desc");
       } catch (error) {
         throw new Error(`Invalid filter: ${filter}`);
       }
@@ -140,28 +149,61 @@ export class PaperEntityRepository extends Eventable<IPaperEntityRepositoryState
     paperEntity.supplementaries = paperEntity.supplementaries || [];
     paperEntity.title = `${paperEntity.title}` || "";
     paperEntity.authors = paperEntity.authors || "";
+    // The authors string can be edited without the list, e.g., by scrapers, then the list is parsed from it.
+    paperEntity.authorList = authorListOf(paperEntity)
+      .filter((author) => formatAuthorName(author))
+      .map((author) => new Author(author));
     paperEntity.year = paperEntity.year || "";
     paperEntity.rating = paperEntity.rating || 0;
     paperEntity.tags = paperEntity.tags || [];
     paperEntity.folders = paperEntity.folders || [];
+    paperEntity.references = paperEntity.references || [];
+    paperEntity.customFields = paperEntity.customFields || {};
     paperEntity.flag = paperEntity.flag || false;
 
     return paperEntity;
   }
 
+  /**
+   * Generate the citation key of a paper entity, with a suffix if the key is used by another one.
+   * @param realm - Realm instance.
+   * @param paperEntity - Paper entity.
+   * @param template - Citation key template.
+   * @param id - ID of the paper entity in the database, which does not conflict with itself.
+   * @returns - Citation key.
+   */
+  generateCiteKey(
+    realm: Realm,
+    paperEntity: IEntityObject,
+    template: string,
+    id?: OID
+  ) {
+    const key = formatCiteKey(template, paperEntity);
+    const takenKeys = new Set(
+      realm
+        .objects<Entity>("Entity")
+        .filtered("citeKey BEGINSWITH $0", key)
+        .filter((object) => !id || `${object._id}` !== `${id}`)
+        .map((object) => object.citeKey)
+    );
+    return disambiguateCiteKey(key, (key) => takenKeys.has(key));
+  }
+
   /**
    * Update paper entity.
    * @param realm - Realm instance.
    * @param paperEntity - Paper entity.
    * @param partition - Partition.
    * @param allowUpdate - Allow update flag.
+   * @param citeKeyTemplate - Template to generate the citation key if the paper entity has none.
    * @returns - Updated boolean flag.
    */
   update(
     realm: Realm,
     paperEntity: IEntityObject,
     partition: string,
-    allowUpdate: boolean = true
+    allowUpdate: boolean = true,
+    citeKeyTemplate: string = DEFAULT_CITEKEY_TEMPLATE
   ) {
     paperEntity = this.makeSureProperties(paperEntity);
 
@@ -223,9 +265,23 @@ export class PaperEntityRepository extends Eventable<IPaperEntityRepositoryState
         object.arxiv = paperEntity.arxiv;
         object.issn = paperEntity.issn;
         object.isbn = paperEntity.isbn;
+        // Keep the key stable unless it is edited, or cleared to be generated again.
+        if (paperEntity.citeKey) {
+          object.citeKey = paperEntity.citeKey;
+          object.citeKeyPinned = paperEntity.citeKeyPinned || false;
+        } else if (paperEntity.citeKey === "" || !object.citeKey) {
+          object.citeKey = this.generateCiteKey(
+            realm,
+            paperEntity,
+            citeKeyTemplate,
+            object._id
+          );
+          object.citeKeyPinned = false;
+        }
 
         object.title = paperEntity.title;
         object.authors = paperEntity.authors;
+        object.authorList = paperEntity.authorList;
         object.journal = paperEntity.journal;
         object.booktitle = paperEntity.booktitle;
         object.year = paperEntity.year;
@@ -241,6 +297,9 @@ export class PaperEntityRepository extends Eventable<IPaperEntityRepositoryState
         object.organization = paperEntity.organization;
         object.school = paperEntity.school;
         object.institution = paperEntity.institution;
+        object.address = paperEntity.address;
+        object.references = paperEntity.references;
+        object.customFields = paperEntity.customFields;
 
         object.rating = paperEntity.rating;
         object.tags = tags;
@@ -269,6 +328,14 @@ export class PaperEntityRepository extends Eventable<IPaperEntityRepositoryState
 
         paperEntity.tags = [];
         paperEntity.folders = [];
+        if (!paperEntity.citeKey) {
+          paperEntity.citeKey = this.generateCiteKey(
+            realm,
+            paperEntity,
+            citeKeyTemplate
+          );
+          paperEntity.citeKeyPinned = false;
+        }
         if (partition) {
           paperEntity._partition = partition;
         }
@@ -294,6 +361,35 @@ export class PaperEntityRepository extends Eventable<IPaperEntityRepositoryState
     });
   }
 
+  /**
+   * Update the reading progress of a supplementary in place, without rewriting the paper entity.
+   * @param realm - Realm instance.
+   * @param id - Paper id.
+   * @param supId - Supplementary id.
+   * @param lastReadPage - 1-based page number.
+   * @param readPercentage - Reading progress from 0 to 100.
+   * @returns - Whether the supplementary exists.
+   */
+  updateReadingProgress(
+    realm: Realm,
+    id: OID,
+    supId: string,
+    lastReadPage: number,
+    readPercentage: number
+  ) {
+    return realm.safeWrite(() => {
+      const object = this.loadByIds(realm, [id])[0];
+      const sup = object?.supplementaries[supId];
+      if (!sup) {
+        return false;
+      }
+
+      sup.lastReadPage = lastReadPage;
+      sup.readPercentage = readPercentage;
+      return true;
+    });
+  }
+
   /**
    * Delete paper entity.
    * @param realm - Realm instance.
@@ -368,4 +464,20 @@ export class PaperEntityRepository extends Eventable<IPaperEntityRepositoryState
       }
     });
   }
+
+  /**
+   * Filter out the file urls still referenced by any paper entity.
+   * @param realm - Realm instance.
+   * @param urls - File urls.
+   * @returns - File urls not referenced by any paper entity.
+   */
+  filterUnreferencedFiles(realm: Realm, urls: string[]) {
+    const referencedURLs = new Set<string>();
+    for (const paperEntity of realm.objects<Entity>("Entity")) {
+      for (const sup of Object.values(paperEntity.supplementaries)) {
+        referencedURLs.add(sup.url);
+      }
+    }
+    return urls.filter((url) => !referencedURLs.has(url));
+  }
 }
@@ -9,4 +9,5 @@ export interface IFileBackend {
   stopWatch(): Promise<void>;
   moveFile(sourceURL: string, targetURL: string): Promise<string>;
   removeFile(sourceURL: string): Promise<void>;
+  exists(url: string): Promise<boolean>;
 }
@@ -128,10 +128,25 @@ export class LocalFileBackend implements IFileBackend {
     await this.checkBaseFolder(path.dirname(sourceURL));
 
     await this._move(sourceURL, targetURL, outerFileOperation);
+    // Renaming files in the app library folder can leave empty folders, e.g., of a former year.
+    if (!outerFileOperation) {
+      await this._removeEmptyDirs(sourceURL);
+    }
 
     return getRelativePath(targetURL, this._appLibFolder);
   }
 
+  /**
+   * Check whether a file exists, including broken symbolic links.
+   * @param url - URL, also can be a file name in the app library folder
+   * @returns Whether the file exists
+   */
+  async exists(url: string): Promise<boolean> {
+    url = constructFileURL(url, true, false, this._appLibFolder);
+    const stat = await fsPromise.lstat(eraseProtocol(url)).catch(() => undefined);
+    return stat !== undefined;
+  }
+
   async _remove(sourceURL: string) {
     try {
       const _sourceURL = eraseProtocol(sourceURL);
@@ -153,11 +168,20 @@ export class LocalFileBackend implements IFileBackend {
    */
   async removeFile(sourceURL: string): Promise<void> {
     sourceURL = constructFileURL(sourceURL, true, false, this._appLibFolder);
-    if (existsSync(sourceURL)) {
+    // A broken symbolic link does not exist for `existsSync`, but is removed too.
+    const stat = await fsPromise.lstat(sourceURL).catch(() => undefined);
+    if (stat) {
       await this._remove(sourceURL);
     }
 
-    // Remove empty directories until the app library folder
+    await this._removeEmptyDirs(sourceURL);
+  }
+
+  /**
+   * Remove the empty directories of a removed or moved file until the app library folder
+   * @param sourceURL - Source URL in the app library folder
+   */
+  async _removeEmptyDirs(sourceURL: string): Promise<void> {
     const _sourceURL = eraseProtocol(sourceURL);
     let targetPath = path.dirname(_sourceURL);
 
@@ -269,6 +269,27 @@ export class WebDavFileBackend extends LocalFileBackend {
     }
   }
 
+  /**
+   * Check whether a file exists, either in the local library folder or on the server.
+   * @param url - URL, also can be a file name in the app library folder
+   * @returns Whether the file exists
+   */
+  async exists(url: string): Promise<boolean> {
+    if (await super.exists(url)) {
+      return true;
+    }
+    const localURL = constructFileURL(url, true, false, this._appLibFolder);
+    return await this._serverExists(
+      constructFileURL(
+        getRelativePath(localURL, this._appLibFolder),
+        false,
+        true,
+        "",
+        "webdav://"
+      )
+    );
+  }
+
   async _serverRemove(url: string): Promise<void> {
     const _URL = url.replace("webdav://", "/paperlib/").replace(/\\/g, "/");
 
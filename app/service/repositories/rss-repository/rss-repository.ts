@@ -13,7 +13,13 @@ export class RSSRepository {
     this.xmlParser = new XMLParser({ ignoreAttributes: false });
   }
 
-  async fetch(feed: Feed): Promise<FeedEntity[]> {
+  /**
+   * Fetch the entities of a feed. The validators of the last response of the feed are sent,
+   * so that an unmodified feed is not downloaded and parsed again.
+   * @param feed - Feed
+   * @returns Fetched entities, and the validators of the response
+   */
+  async fetch(feed: Feed): Promise<IRSSFetchResult> {
     const header = {};
 
     if (feed.url.includes("rss.sciencedirect.com")) {
@@ -22,15 +28,25 @@ export class RSSRepository {
         "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/125.0.0.0 Safari/537.36 Edg/125.0.0.0";
     }
 
-    const response = await PLExtAPI.networkTool.get(
+    const response = await PLExtAPI.networkTool.getConditional(
       feed.url,
       header,
+      feed.etag || "",
+      feed.lastModified || "",
       1,
       10000,
-      false,
       true
     );
 
+    if (response.notModified) {
+      return {
+        feedEntityDrafts: [],
+        notModified: true,
+        etag: response.etag,
+        lastModified: response.lastModified,
+      };
+    }
+
     let feedEntityDrafts = this.parse(response.body);
 
     feedEntityDrafts = feedEntityDrafts.map((feedEntityDraft) => {
@@ -38,10 +54,28 @@ export class RSSRepository {
       return feedEntityDraft;
     });
 
-    return feedEntityDrafts;
+    return {
+      feedEntityDrafts,
+      notModified: false,
+      etag: response.etag,
+      lastModified: response.lastModified,
+    };
   }
 
-  parse(rawResponse: string) {
+  /**
+   * Parse a feed document of RSS 1.0/2.0, Atom or JSON Feed.
+   * @param rawResponse - The document, or the parsed JSON of a JSON Feed
+   * @returns Feed entities
+   */
+  parse(rawResponse: string | object) {
+    const jsonFeed = this.parseJSON(rawResponse);
+    if (jsonFeed) {
+      return this.parseJSONFeedItems(jsonFeed.items || []);
+    }
+    if (typeof rawResponse !== "string") {
+      return [];
+    }
+
     const parsedXML = this.xmlParser.parse(rawResponse);
     if (
       parsedXML.rss &&
@@ -62,6 +96,32 @@ export class RSSRepository {
     }
   }
 
+  /**
+   * Get the JSON Feed of a response, which is parsed already if it is served as `application/json`.
+   * @returns The JSON Feed, or undefined if the response is not a JSON Feed
+   */
+  parseJSON(rawResponse: string | object): JSONFeed | undefined {
+    let parsed = rawResponse;
+    if (typeof parsed === "string") {
+      if (!parsed.trimStart().startsWith("{")) {
+        return undefined;
+      }
+      try {
+        parsed = JSON.parse(parsed);
+      } catch (e) {
+        return undefined;
+      }
+    }
+    const version = (parsed as JSONFeed)?.version;
+    if (
+      typeof version === "string" &&
+      version.startsWith("https://jsonfeed.org/version/1")
+    ) {
+      return parsed as JSONFeed;
+    }
+    return undefined;
+  }
+
   parseRSSItems(items: RSSItem[]) {
     let feedEntityDrafts: FeedEntity[] = [];
     for (const item of items) {
@@ -194,6 +254,60 @@ export class RSSRepository {
     return feedEntityDrafts;
   }
 
+  parseJSONFeedItems(items: JSONFeedItem[]) {
+    let feedEntityDrafts: FeedEntity[] = [];
+    for (const item of items) {
+      const feedEntityDraft = new FeedEntity({}, true);
+      feedEntityDraft.title = item.title || "";
+
+      const pdfAttachment = (item.attachments || []).find(
+        (attachment) => attachment.mime_type === "application/pdf"
+      );
+      feedEntityDraft.mainURL =
+        pdfAttachment?.url || item.url || item.external_url || "";
+
+      // `author` is deprecated by JSON Feed 1.1 in favour of `authors`.
+      const authors = item.authors || (item.author ? [item.author] : []);
+      feedEntityDraft.authors = authors
+        .map((author) => author.name || "")
+        .filter((name) => name)
+        .join(", ")
+        .replaceAll(/<[^>]*>/g, "");
+
+      feedEntityDraft.abstract =
+        item.summary || item.content_text || item.content_html || "";
+
+      feedEntityDraft.feedTime = new Date(
+        item.date_modified || item.date_published || new Date()
+      );
+      if (item.date_published) {
+        feedEntityDraft.pubTime = `${new Date(
+          item.date_published
+        ).getFullYear()}`;
+      }
+
+      if (
+        feedEntityDraft.mainURL &&
+        feedEntityDraft.mainURL.includes("arxiv")
+      ) {
+        const arxivIds = feedEntityDraft.mainURL.match(
+          new RegExp(
+            "(\\d{4}.\\d{4,5}|[a-z\\-] (\\.[A-Z]{2})?\\/\\d{7})(v\\d )?",
+            "g"
+          )
+        );
+        if (arxivIds) {
+          feedEntityDraft.arxiv = arxivIds[0];
+        }
+        feedEntityDraft.publication = "arXiv";
+      }
+
+      feedEntityDrafts.push(feedEntityDraft);
+    }
+
+    return feedEntityDrafts;
+  }
+
   parseScienceDirectRSSItems(items: RSSItem[]) {
     let feedEntityDrafts: FeedEntity[] = [];
     for (const item of items) {
@@ -245,6 +359,14 @@ export class RSSRepository {
   }
 }
 
+export interface IRSSFetchResult {
+  feedEntityDrafts: FeedEntity[];
+  // True if the feed is not modified since the last fetch, and nothing is fetched.
+  notModified: boolean;
+  etag: string;
+  lastModified: string;
+}
+
 interface RSSItem {
   "dc:creator"?: string | string[];
   "dc:date"?: string;
@@ -294,3 +416,29 @@ interface Atom {
     entry: AtomItem[];
   };
 }
+
+interface JSONFeedAuthor {
+  name?: string;
+  url?: string;
+}
+
+interface JSONFeedItem {
+  id: string;
+  url?: string;
+  external_url?: string;
+  title?: string;
+  content_html?: string;
+  content_text?: string;
+  summary?: string;
+  date_published?: string;
+  date_modified?: string;
+  authors?: JSONFeedAuthor[];
+  author?: JSONFeedAuthor;
+  attachments?: { url: string; mime_type: string }[];
+}
+
+interface JSONFeed {
+  version: string;
+  title: string;
+  items: JSONFeedItem[];
+}
@@ -11,21 +11,29 @@ import { FeedRepository } from "./repositories/db-repository/feed-repository";
 import { PaperEntityRepository } from "./repositories/db-repository/paper-entity-repository";
 import { PaperSmartFilterRepository } from "./repositories/db-repository/smartfilter-repository";
 import { RSSRepository } from "./repositories/rss-repository/rss-repository";
+import { AnnotationService } from "./services/annotation-service";
 import { BrowserExtensionService } from "./services/browser-extension-service";
 import { CacheService } from "./services/cache-service";
 import { CategorizerService } from "./services/categorizer-service";
+import { CitationService } from "./services/citation-service";
 import { DatabaseService } from "./services/database-service";
+import { DedupService } from "./services/dedup-service";
+import { FeedRuleService } from "./services/feed-rule-service";
 import { FeedService } from "./services/feed-service";
 import { FileService } from "./services/file-service";
 import { HookService } from "./services/hook-service";
+import { IntegrityService } from "./services/integrity-service";
 import { IInjectable } from "./services/injectable";
+import { LinkedBibService } from "./services/linked-bib-service";
 import { PaperService } from "./services/paper-service";
 import { PreferenceService } from "./services/preference-service";
+import { RecommendService } from "./services/recommend-service";
 import { ReferenceService } from "./services/reference-service";
 import { RenderService } from "./services/render-service";
 import { SchedulerService } from "./services/scheduler-service";
 import { ScrapeService } from "./services/scrape-service";
 import { SmartFilterService } from "./services/smartfilter-service";
+import { WatchedFolderService } from "./services/watched-folder-service";
 import { SyncService } from "@/service/services/sync-service";
 
 async function initialize() {
@@ -87,6 +95,14 @@ async function initialize() {
     rssRepository: RSSRepository,
     referenceService: ReferenceService,
     syncService: SyncService,
+    dedupService: DedupService,
+    citationService: CitationService,
+    annotationService: AnnotationService,
+    linkedBibService: LinkedBibService,
+    watchedFolderService: WatchedFolderService,
+    integrityService: IntegrityService,
+    feedRuleService: FeedRuleService,
+    recommendService: RecommendService,
   });
   // 4.1 Expose the instances to the global scope for convenience.
   for (const [key, instance] of Object.entries(instances)) {
@@ -0,0 +1,288 @@
+import { promises } from "fs";
+import { debounce, DebouncedFunc } from "lodash";
+
+import { errorcatching } from "@/base/error";
+import { Eventable } from "@/base/event";
+import { createDecorator } from "@/base/injection/injection";
+import { constructFileURL, getFileType, getProtocol } from "@/base/url";
+import { ILogService, LogService } from "@/common/services/log-service";
+import { ProcessingKey, processing } from "@/common/utils/processing";
+import { Annotation, IAnnotation } from "@/models/annotation";
+import { Entity, IEntityCollection, IEntityObject } from "@/models/entity";
+import { Supplementary } from "@/models/supplementary";
+import { DatabaseCore, IDatabaseCore } from "@/service/services/database/core";
+
+import {
+  IPaperEntityRepository,
+  PaperEntityRepository,
+} from "../repositories/db-repository/paper-entity-repository";
+import {
+  annotationsToMarkdown,
+  mergeAnnotationsIntoNote,
+} from "./annotation/annotation-markdown";
+import {
+  countPDFPages,
+  extractPDFAnnotations,
+} from "./annotation/pdf-annotations";
+import { IPaperService, PaperService } from "./paper-service";
+
+export interface IAnnotationServiceState {
+  updated: number;
+}
+
+export const IAnnotationService = createDecorator("annotationService");
+
+// Milliseconds without reading progress before it is synced.
+const READING_PROGRESS_SYNC_DELAY = 30000;
+
+/**
+ * Service for annotations and reading progress of supplementary files.
+ * Annotations are stored in the supplementaries of a paper entity.
+ */
+export class AnnotationService extends Eventable<IAnnotationServiceState> {
+  // Pending syncs of reading progress, by paper entity id and supplementary id.
+  private readonly _readingProgressSyncs: Record<
+    string,
+    DebouncedFunc<() => void>
+  > = {};
+
+  constructor(
+    @IDatabaseCore private readonly _databaseCore: DatabaseCore,
+    @IPaperEntityRepository
+    private readonly _paperEntityRepository: PaperEntityRepository,
+    @IPaperService private readonly _paperService: PaperService,
+    @ILogService private readonly _logService: LogService
+  ) {
+    super("annotationService", {
+      updated: 0,
+    });
+  }
+
+  private _draftOf(paperEntity: IEntityObject, supId: string) {
+    const paperEntityDraft = new Entity(paperEntity);
+    const sup = paperEntityDraft.supplementaries[supId];
+    if (!sup) {
+      throw new Error(`Supplementary ${supId} is not found.`);
+    }
+    return { paperEntityDraft, sup };
+  }
+
+  /**
+   * Add or update annotations of a supplementary.
+   * @param paperEntity - The paper entity.
+   * @param supId - The id of the supplementary.
+   * @param annotations - The annotations. Annotations with an existing id replace the old ones.
+   */
+  @processing(ProcessingKey.General)
+  @errorcatching("Failed to update annotations.", true, "AnnotationService")
+  async update(
+    paperEntity: IEntityObject,
+    supId: string,
+    annotations: Partial<IAnnotation>[]
+  ) {
+    const { paperEntityDraft, sup } = this._draftOf(paperEntity, supId);
+
+    for (const annotation of annotations) {
+      const index = sup.annotations.findIndex(
+        (existing) => existing._id === annotation._id
+      );
+      if (index >= 0) {
+        sup.annotations[index] = new Annotation({
+          ...sup.annotations[index],
+          ...annotation,
+        });
+      } else {
+        sup.annotations.push(new Annotation(annotation));
+      }
+    }
+
+    await this._paperService.updateSups(paperEntityDraft, [sup]);
+    this.fire({ updated: Date.now() });
+  }
+
+  /**
+   * Delete annotations of a supplementary.
+   * @param paperEntity - The paper entity.
+   * @param supId - The id of the supplementary.
+   * @param annotationIds - The ids of the annotations.
+   */
+  @processing(ProcessingKey.General)
+  @errorcatching("Failed to delete annotations.", true, "AnnotationService")
+  async delete(paperEntity: IEntityObject, supId: string, annotationIds: string[]) {
+    const { paperEntityDraft, sup } = this._draftOf(paperEntity, supId);
+
+    sup.annotations = sup.annotations.filter(
+      (annotation) => !annotationIds.includes(annotation._id)
+    );
+
+    await this._paperService.updateSups(paperEntityDraft, [sup]);
+    this.fire({ updated: Date.now() });
+  }
+
+  /**
+   * Record the reading progress of a supplementary.
+   * The progress is written in place and synced once the reading pauses, so that it can be called on every page turn.
+   * @param paperEntity - The paper entity.
+   * @param supId - The id of the supplementary.
+   * @param page - The 1-based page number being read.
+   * @param pageCount - The number of pages. Counted from the file if not given.
+   */
+  @errorcatching("Failed to update reading progress.", true, "AnnotationService")
+  async updateReadingProgress(
+    paperEntity: IEntityObject,
+    supId: string,
+    page: number,
+    pageCount?: number
+  ) {
+    const { sup } = this._draftOf(paperEntity, supId);
+
+    if (pageCount === undefined) {
+      const appLibFolder = (await PLMainAPI.preferenceService.get(
+        "appLibFolder"
+      )) as string;
+      pageCount = countPDFPages(
+        await promises.readFile(
+          constructFileURL(sup.url, true, false, appLibFolder)
+        )
+      );
+    }
+    const readPercentage =
+      pageCount > 0 ? Math.min(100, Math.max(0, (page / pageCount) * 100)) : 0;
+
+    const realm = await this._databaseCore.realm();
+    const updated = this._paperEntityRepository.updateReadingProgress(
+      realm,
+      paperEntity._id,
+      supId,
+      page,
+      readPercentage
+    );
+    if (!updated) {
+      throw new Error(`Supplementary ${supId} is not found.`);
+    }
+    this.fire({ updated: Date.now() });
+
+    this._syncReadingProgress(`${paperEntity._id}`, supId);
+  }
+
+  private _syncReadingProgress(paperEntityId: string, supId: string) {
+    const key = `${paperEntityId}/${supId}`;
+    if (!this._readingProgressSyncs[key]) {
+      this._readingProgressSyncs[key] = debounce(async () => {
+        delete this._readingProgressSyncs[key];
+        try {
+          const [paperEntity] = await this._paperService.loadByIds([
+            paperEntityId,
+          ]);
+          const sup = paperEntity?.supplementaries[supId];
+          if (!sup) {
+            return;
+          }
+          await PLAPILocal.syncService.addSyncLog("supplement", "update", {
+            paperEntityId,
+            sups: [new Supplementary(sup)],
+          });
+        } catch (error) {
+          this._logService.warn(
+            "Failed to sync reading progress.",
+            (error as Error).message,
+            false,
+            "AnnotationService"
+          );
+        }
+      }, READING_PROGRESS_SYNC_DELAY);
+    }
+    this._readingProgressSyncs[key]();
+  }
+
+  /**
+   * Read the annotations in the PDF supplementaries of paper entities.
+   * Annotations read from the files before are replaced, and annotations added in Paperlib are kept.
+   * @param paperEntities - The paper entities.
+   */
+  @processing(ProcessingKey.General)
+  @errorcatching("Failed to extract annotations.", true, "AnnotationService")
+  async extract(paperEntities: IEntityCollection) {
+    const appLibFolder = (await PLMainAPI.preferenceService.get(
+      "appLibFolder"
+    )) as string;
+
+    const paperEntityDrafts: Entity[] = [];
+    for (const paperEntity of paperEntities) {
+      const paperEntityDraft = new Entity(paperEntity);
+      let extracted = false;
+
+      for (const sup of Object.values(paperEntityDraft.supplementaries)) {
+        if (
+          getProtocol(sup.url) !== "file" ||
+          getFileType(sup.url).toLowerCase() !== "pdf"
+        ) {
+          continue;
+        }
+        try {
+          const data = await promises.readFile(
+            constructFileURL(sup.url, true, false, appLibFolder)
+          );
+          sup.annotations = [
+            ...sup.annotations.filter(
+              (annotation) => annotation.source !== "pdf"
+            ),
+            ...extractPDFAnnotations(data),
+          ];
+          extracted = true;
+        } catch (error) {
+          this._logService.warn(
+            `Failed to read annotations of ${sup.url}.`,
+            (error as Error).message,
+            false,
+            "AnnotationService"
+          );
+        }
+      }
+
+      if (extracted) {
+        paperEntityDrafts.push(paperEntityDraft);
+      }
+    }
+
+    if (paperEntityDrafts.length > 0) {
+      await this._paperService.update(paperEntityDrafts, false, true);
+      this.fire({ updated: Date.now() });
+    }
+  }
+
+  /**
+   * Export the annotations and reading progress of paper entities into their notes as Markdown.
+   * Exporting again replaces the previously exported annotations.
+   * @param paperEntities - The paper entities.
+   */
+  @processing(ProcessingKey.General)
+  @errorcatching("Failed to export annotations.", true, "AnnotationService")
+  async exportToNote(paperEntities: IEntityCollection) {
+    const paperEntityDrafts: Entity[] = [];
+    for (const paperEntity of paperEntities) {
+      const markdown = annotationsToMarkdown(paperEntity);
+      if (!markdown) {
+        continue;
+      }
+      const paperEntityDraft = new Entity(paperEntity);
+      paperEntityDraft.note = mergeAnnotationsIntoNote(
+        paperEntityDraft.note,
+        markdown
+      );
+      paperEntityDrafts.push(paperEntityDraft);
+    }
+
+    if (paperEntityDrafts.length === 0) {
+      this._logService.warn(
+        "No annotation to export.",
+        "",
+        true,
+        "AnnotationService"
+      );
+      return;
+    }
+
+    await this._paperService.update(paperEntityDrafts, false, true);
+  }
+}
@@ -0,0 +1,110 @@
+import { IEntityObject } from "@/models/entity";
+import { IAnnotation } from "@/models/annotation";
+
+// Markers around the exported annotations in the note, so that exporting again replaces them.
+const BLOCK_START = "<!-- paperlib-annotations -->";
+const BLOCK_END = "<!-- /paperlib-annotations -->";
+
+function quote(text: string) {
+  return text
+    .split("\n")
+    .map((line) => `> ${line}`)
+    .join("\n");
+}
+
+function annotationToMarkdown(annotation: IAnnotation) {
+  const lines: string[] = [];
+  if (annotation.type === "bookmark") {
+    lines.push(
+      `- **p. ${annotation.page}** Bookmark` +
+        (annotation.comment ? `: ${annotation.comment}` : "")
+    );
+  } else {
+    lines.push(`- **p. ${annotation.page}**`);
+    if (annotation.text) {
+      lines.push(
+        quote(annotation.text)
+          .split("\n")
+          .map((line) => `  ${line}`)
+          .join("\n")
+      );
+    }
+    if (annotation.comment) {
+      if (annotation.text) {
+        // End the quote before the comment.
+        lines.push("");
+      }
+      lines.push(
+        annotation.comment
+          .split("\n")
+          .map((line) => `  ${line}`)
+          .join("\n")
+      );
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Render the annotations of all supplementaries of an entity as Markdown.
+ * @param entity - The entity.
+ * @returns The Markdown, or an empty string if there is no annotation or reading progress.
+ */
+export function annotationsToMarkdown(entity: IEntityObject): string {
+  const sections: string[] = [];
+
+  for (const sup of Object.values(entity.supplementaries)) {
+    const annotations = [...(sup.annotations || [])].sort(
+      (a, b) =>
+        a.page - b.page ||
+        new Date(a.addTime).getTime() - new Date(b.addTime).getTime()
+    );
+    if (annotations.length === 0 && !sup.readPercentage) {
+      continue;
+    }
+
+    const progress =
+      sup.readPercentage !== undefined && sup.readPercentage !== null
+        ? ` (read ${Math.round(sup.readPercentage)}%` +
+          (sup.lastReadPage ? `, last read p. ${sup.lastReadPage})` : ")")
+        : "";
+    sections.push(
+      [
+        `### ${sup.name}${progress}`,
+        ...annotations.map(annotationToMarkdown),
+      ].join("\n\n")
+    );
+  }
+
+  if (sections.length === 0) {
+    return "";
+  }
+  return ["## Annotations", ...sections].join("\n\n");
+}
+
+/**
+ * Put the Markdown of annotations into a note, replacing the previously exported one.
+ * @param note - The note, which may start with `<md>`.
+ * @param markdown - The Markdown of annotations.
+ * @returns The Markdown note.
+ */
+export function mergeAnnotationsIntoNote(
+  note: string | undefined,
+  markdown: string
+): string {
+  let body = (note || "").replace(/^<md>\n?/, "");
+  const start = body.indexOf(BLOCK_START);
+  const end = body.indexOf(BLOCK_END);
+  if (start >= 0 && end > start) {
+    body = (
+      body.slice(0, start).trimEnd() +
+      "\n\n" +
+      body.slice(end + BLOCK_END.length).trimStart()
+    ).trim();
+  }
+
+  const block = markdown
+    ? `${BLOCK_START}\n${markdown}\n\n${BLOCK_END}`
+    : "";
+  return "<md>\n" + [body.trim(), block].filter((part) => part).join("\n\n");
+}
@@ -0,0 +1,128 @@
+import * as mupdf from "mupdf";
+
+import { Annotation } from "@/models/annotation";
+
+const HIGHLIGHT_ANNOTATION_TYPES = [
+  "Highlight",
+  "Underline",
+  "Squiggly",
+  "StrikeOut",
+];
+const COMMENT_ANNOTATION_TYPES = ["Text", "FreeText"];
+
+function toHex(value: number) {
+  return Math.round(Math.min(Math.max(value, 0), 1) * 255)
+    .toString(16)
+    .padStart(2, "0");
+}
+
+/**
+ * Convert a gray, RGB or CMYK color of a PDF annotation to a hex color.
+ */
+function toHexColor(color: number[]) {
+  let rgb: number[];
+  if (color.length === 1) {
+    rgb = [color[0], color[0], color[0]];
+  } else if (color.length === 3) {
+    rgb = color;
+  } else if (color.length === 4) {
+    const [c, m, y, k] = color;
+    rgb = [(1 - c) * (1 - k), (1 - m) * (1 - k), (1 - y) * (1 - k)];
+  } else {
+    return undefined;
+  }
+  return "#" + rgb.map(toHex).join("");
+}
+
+function creationDateOf(annot: mupdf.PDFAnnotation) {
+  try {
+    const date = annot.getCreationDate();
+    // Missing dates are read as the epoch.
+    return isNaN(date.getTime()) || date.getTime() <= 0 ? new Date() : date;
+  } catch {
+    return new Date();
+  }
+}
+
+/**
+ * Read the highlights and comments in a PDF file.
+ * @param data - Content of the PDF file.
+ * @returns The annotations, in the order of pages.
+ */
+export function extractPDFAnnotations(data: Buffer | Uint8Array): Annotation[] {
+  const doc = mupdf.Document.openDocument(data, "application/pdf");
+  if (!doc.isPDF()) {
+    return [];
+  }
+
+  const annotations: Annotation[] = [];
+  for (let i = 0; i < doc.countPages(); i++) {
+    const page = doc.loadPage(i) as mupdf.PDFPage;
+    const annots = page.getAnnotations();
+    if (annots.length === 0) {
+      continue;
+    }
+
+    let stext: mupdf.StructuredText | undefined;
+    for (const annot of annots) {
+      const type = annot.getType();
+      const comment = annot.getContents().trim() || undefined;
+
+      if (HIGHLIGHT_ANNOTATION_TYPES.includes(type)) {
+        const quads = annot.getQuadPoints();
+        stext = stext || page.toStructuredText("preserve-whitespace");
+        // A quad is [ulx, uly, urx, ury, llx, lly, lrx, lry]. Its text is copied along the middle line,
+        // the corners touch the lines above and below.
+        const text = quads
+          .map((quad) =>
+            stext!
+              .copy(
+                [quad[0], (quad[1] + quad[5]) / 2],
+                [quad[6], (quad[3] + quad[7]) / 2]
+              )
+              .trim()
+          )
+          .filter((line) => line)
+          .join(" ")
+          .replace(/-\s+(?=\p{Ll})/gu, "")
+          .replace(/\s+/g, " ");
+
+        annotations.push(
+          new Annotation({
+            type: "highlight",
+            page: i + 1,
+            text: text || undefined,
+            comment,
+            color: toHexColor(annot.getColor()),
+            quads: quads.flat(),
+            source: "pdf",
+            addTime: creationDateOf(annot),
+          })
+        );
+      } else if (COMMENT_ANNOTATION_TYPES.includes(type) && comment) {
+        const [x0, y0, x1, y1] = annot.getRect();
+        annotations.push(
+          new Annotation({
+            type: "comment",
+            page: i + 1,
+            comment,
+            color: toHexColor(annot.getColor()),
+            quads: [x0, y0, x1, y0, x0, y1, x1, y1],
+            source: "pdf",
+            addTime: creationDateOf(annot),
+          })
+        );
+      }
+    }
+  }
+
+  return annotations;
+}
+
+/**
+ * Count the pages of a PDF file.
+ * @param data - Content of the PDF file.
+ */
+export function countPDFPages(data: Buffer | Uint8Array) {
+  return mupdf.Document.openDocument(data, "application/pdf").countPages();
+}
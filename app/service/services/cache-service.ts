@@ -5,13 +5,18 @@ import * as mupdf from "mupdf";
 import { PrimaryKey, Results } from "realm";
 
 import { errorcatching } from "@/base/error";
+import { makeSnippet, tokenize } from "@/base/fulltext";
 import { createDecorator } from "@/base/injection/injection";
 import { constructFileURL, eraseProtocol, getProtocol } from "@/base/url";
 import { ILogService, LogService } from "@/common/services/log-service";
 import { ProcessingKey, processing } from "@/common/utils/processing";
 import { OID } from "@/models/id";
 import { IPaperEntityCollection, PaperEntity } from "@/models/paper-entity";
-import { PaperEntityCache, ThumbnailCache } from "@/models/paper-entity-cache";
+import {
+  FullTextPosting,
+  PaperEntityCache,
+  ThumbnailCache,
+} from "@/models/paper-entity-cache";
 import {
   CacheDatabaseCore,
   ICacheDatabaseCore,
@@ -22,6 +27,16 @@ import { FileService, IFileService } from "./file-service";
 
 export const ICacheService = createDecorator("cacheService");
 
+export interface IFullTextSnippet {
+  // 1-based page number.
+  page: number;
+  snippet: string;
+}
+
+// Parameters of BM25 ranking.
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
 export class CacheService {
   constructor(
     @ICacheDatabaseCore private readonly _cacheDatabaseCore: CacheDatabaseCore,
@@ -41,12 +56,21 @@ export class CacheService {
   // ========================
   /**
    * Filter the fulltext cache of the provided papers by the given query.
+   * A query of a single `(fulltext contains[c] $0)` is answered by the full-text index,
+   * which matches papers containing all the terms and ranks them with BM25.
    * @param query - The query to filter the fulltext cache by.
    * @param paperEntities - The paper entities to filter.
+   * @param sortByRelevance - Whether to sort the filtered paper entities by relevance, the most relevant first.
+   * @param placeholders - Values of the placeholders in the query.
    * @returns The filtered paper entities. */
   @processing(ProcessingKey.General)
   @errorcatching("Failed to filter fulltext cache.", true, "CacheService", [])
-  async fullTextFilter(query: string, paperEntities: IEntityCollection) {
+  async fullTextFilter(
+    query: string,
+    paperEntities: IEntityCollection,
+    sortByRelevance = false,
+    placeholders: unknown[] = []
+  ) {
     // First check if all the paper entities are already cached.
     try {
       await this._createFullText(paperEntities);
@@ -61,18 +85,157 @@ export class CacheService {
 
     const realm = await this._cacheDatabaseCore.realm();
 
-    const ids = realm
-      .objects<PaperEntityCache>("PaperEntityCache")
-      .filtered(query)
-      .map((p) => p._id);
+    // The search is bound to a placeholder, e.g., `(fulltext contains[c] $0)`.
+    const placeholderIndex = query.match(
+      /^\(fulltext contains\[c\] \$(\d+)\)$/
+    )?.[1];
+    const search = placeholderIndex
+      ? `${placeholders[parseInt(placeholderIndex)] ?? ""}`
+      : "";
+    const scores = search ? this._scoreFullText(realm, search) : undefined;
+
+    let ids: unknown[];
+    if (scores) {
+      ids = Array.from(scores.keys()).map((id) => new ObjectId(id));
+    } else {
+      ids = realm
+        .objects<PaperEntityCache>("PaperEntityCache")
+        .filtered(query, ...placeholders)
+        .map((p) => p._id);
+    }
 
     const filteredPaperEntities = (
       paperEntities as Results<IEntityObject>
     ).filtered(`_id IN $0`, ids);
 
+    if (scores && sortByRelevance) {
+      return Array.from(filteredPaperEntities).sort(
+        (a, b) =>
+          (scores.get(`${b._id}`) || 0) - (scores.get(`${a._id}`) || 0)
+      );
+    }
+
     return filteredPaperEntities;
   }
 
+  /**
+   * Score the indexed papers containing all the terms of the search with BM25.
+   * @param realm - The cache realm.
+   * @param search - The search text.
+   * @returns The scores by paper id, or undefined if the search has no indexable term. */
+  private _scoreFullText(realm: Realm, search: string) {
+    const terms = Array.from(new Set(tokenize(search).map((t) => t.term)));
+    if (terms.length === 0) {
+      return undefined;
+    }
+
+    const indexedCaches = realm
+      .objects<PaperEntityCache>("PaperEntityCache")
+      .filtered("fulltextLength != null");
+    const docCount = indexedCaches.length;
+    const avgDocLength =
+      (Number(indexedCaches.sum("fulltextLength")) || 0) /
+      Math.max(docCount, 1);
+
+    // Term frequencies by paper id and term.
+    const termFreqs = new Map<string, Map<string, number>>();
+    const docFreqs = new Map<string, number>();
+    const postings = realm
+      .objects<FullTextPosting>("FullTextPosting")
+      .filtered("term IN $0", terms);
+    for (const posting of postings) {
+      const paperId = `${posting.paperId}`;
+      if (!termFreqs.has(paperId)) {
+        termFreqs.set(paperId, new Map());
+      }
+      termFreqs.get(paperId)!.set(posting.term, posting.positions.length);
+      docFreqs.set(posting.term, (docFreqs.get(posting.term) || 0) + 1);
+    }
+
+    const scores = new Map<string, number>();
+    for (const [paperId, freqs] of termFreqs) {
+      if (freqs.size < terms.length) {
+        continue;
+      }
+
+      const docLength =
+        realm.objectForPrimaryKey<PaperEntityCache>(
+          "PaperEntityCache",
+          new ObjectId(paperId) as unknown as PrimaryKey
+        )?.fulltextLength || avgDocLength;
+
+      let score = 0;
+      for (const [term, freq] of freqs) {
+        const docFreq = docFreqs.get(term) || 0;
+        const idf = Math.log(
+          1 + (docCount - docFreq + 0.5) / (docFreq + 0.5)
+        );
+        score +=
+          (idf * freq * (BM25_K1 + 1)) /
+          (freq +
+            BM25_K1 *
+              (1 - BM25_B + (BM25_B * docLength) / (avgDocLength || 1)));
+      }
+      scores.set(paperId, score);
+    }
+
+    return scores;
+  }
+
+  /**
+   * Get snippets of where the search matched in the fulltext of a paper.
+   * @param search - The search text.
+   * @param id - The id of the paper entity.
+   * @param limit - The maximum number of snippets.
+   * @returns The snippets, ordered by page. */
+  @errorcatching("Failed to load fulltext snippets.", true, "CacheService", [])
+  async loadFullTextSnippets(
+    search: string,
+    id: OID,
+    limit = 3
+  ): Promise<IFullTextSnippet[]> {
+    const terms = Array.from(new Set(tokenize(search).map((t) => t.term)));
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const realm = await this._cacheDatabaseCore.realm();
+    const paperId = new ObjectId(id);
+    const cache = realm.objectForPrimaryKey<PaperEntityCache>(
+      "PaperEntityCache",
+      paperId as unknown as PrimaryKey
+    );
+    if (!cache || !cache.fulltextPages) {
+      return [];
+    }
+
+    // The first occurrence of any term on each page.
+    const firstHits = new Map<number, { offset: number; length: number }>();
+    const postings = realm
+      .objects<FullTextPosting>("FullTextPosting")
+      .filtered("paperId == $0 AND term IN $1", paperId, terms);
+    for (const posting of postings) {
+      posting.pages.forEach((page, i) => {
+        const offset = posting.positions[i];
+        const hit = firstHits.get(page);
+        if (!hit || offset < hit.offset) {
+          const length = tokenize(
+            cache.fulltextPages[page].slice(offset, offset + 100)
+          )[0]?.length;
+          firstHits.set(page, { offset, length: length || 0 });
+        }
+      });
+    }
+
+    return Array.from(firstHits.entries())
+      .sort(([pageA], [pageB]) => pageA - pageB)
+      .slice(0, limit)
+      .map(([page, hit]) => ({
+        page: page + 1,
+        snippet: makeSnippet(cache.fulltextPages[page], hit.offset, hit.length),
+      }));
+  }
+
   /**
    * Get the thumbnail of the paper entity.
    * @param paperEntity - The paper entity to get the thumbnail of.
@@ -98,18 +261,38 @@ export class CacheService {
     }
   }
 
+  /**
+   * Get the md5 of the main files of paper entities recorded in the cache.
+   * @param ids - The ids of the paper entities.
+   * @returns The md5 strings by the ids, for the entities with recorded md5. */
+  @errorcatching("Failed to load md5 of files.", true, "CacheService", {})
+  async loadMD5s(ids: OID[]): Promise<Record<string, string>> {
+    const realm = await this._cacheDatabaseCore.realm();
+
+    const caches = realm
+      .objects<PaperEntityCache>("PaperEntityCache")
+      .filtered(
+        "_id IN $0 AND md5 != ''",
+        ids.map((id) => new ObjectId(id))
+      );
+
+    return Object.fromEntries(
+      caches.map((cache) => [`${cache._id}`, cache.md5])
+    );
+  }
+
   // ========================
   // Create and Update
   // ========================
   private async _createFullText(paperEntities: IEntityCollection) {
     const realm = await this._cacheDatabaseCore.realm();
 
-    // 1. Pick out the entities that are not in the cache
+    // 1. Pick out the entities that are not in the cache, or not indexed yet
     const ids = paperEntities.map((p: Entity) => p._id);
 
     const existObjs = realm
       .objects<PaperEntityCache>("PaperEntityCache")
-      .filtered("_id IN $0", ids);
+      .filtered("_id IN $0 AND fulltextLength != null", ids);
     const existObjIds = existObjs.map((e) => e._id);
 
     let noCachePaperEntities: IEntityCollection = [];
@@ -137,17 +320,12 @@ export class CacheService {
         }
 
         const url = paperEntity.supplementaries[paperEntity.defaultSup].url;
-        const fulltext = await this._getPDFText(url);
+        const pages = await this._getPDFText(url);
         const md5String = await md5(
           eraseProtocol(await this._fileService.access(url, false))
         );
         realm.safeWrite(() => {
-          realm.create<PaperEntityCache>("PaperEntityCache", {
-            _id: new ObjectId(paperEntity._id),
-            _partition: "",
-            fulltext: fulltext,
-            md5: md5String,
-          });
+          this._writeFullText(realm, paperEntity._id, pages, md5String);
         });
       } catch (err) {
         this._logService.error(
@@ -163,10 +341,65 @@ export class CacheService {
     );
   }
 
-  private async _getPDFText(url: string): Promise<string> {
+  /**
+   * Write the fulltext of a paper and its full-text index. Must be called in a write transaction.
+   * @param realm - The cache realm.
+   * @param id - The id of the paper entity.
+   * @param pages - The text of each page.
+   * @param md5String - The md5 of the file. */
+  private _writeFullText(
+    realm: Realm,
+    id: OID,
+    pages: string[],
+    md5String: string
+  ) {
+    const paperId = new ObjectId(id);
+    realm.delete(
+      realm
+        .objects<FullTextPosting>("FullTextPosting")
+        .filtered("paperId == $0", paperId)
+    );
+
+    const occurrences = new Map<string, { pages: number[]; positions: number[] }>();
+    let length = 0;
+    pages.forEach((text, page) => {
+      for (const token of tokenize(text)) {
+        if (!occurrences.has(token.term)) {
+          occurrences.set(token.term, { pages: [], positions: [] });
+        }
+        occurrences.get(token.term)!.pages.push(page);
+        occurrences.get(token.term)!.positions.push(token.offset);
+        length += 1;
+      }
+    });
+    for (const [term, occurrence] of occurrences) {
+      realm.create<FullTextPosting>("FullTextPosting", {
+        _id: new ObjectId(),
+        term,
+        paperId,
+        pages: occurrence.pages,
+        positions: occurrence.positions,
+      });
+    }
+
+    realm.create<PaperEntityCache>(
+      "PaperEntityCache",
+      {
+        _id: paperId,
+        _partition: "",
+        fulltext: pages.join(""),
+        fulltextPages: pages,
+        fulltextLength: length,
+        md5: md5String,
+      },
+      Realm.UpdateMode.Modified
+    );
+  }
+
+  private async _getPDFText(url: string): Promise<string[]> {
     try {
       if (!url) {
-        return "";
+        return [];
       }
 
       const pdfBuffer = await promises.readFile(
@@ -179,21 +412,23 @@ export class CacheService {
       );
       const pdf = mupdf.Document.openDocument(pdfBuffer as any, "application/pdf");
 
-      let text = "";
+      const pages: string[] = [];
 
       for (let i = 0; i < pdf.countPages(); i++) {
         const page = pdf.loadPage(i);
         const json = JSON.parse(
           page.toStructuredText("preserve-whitespace").asJSON()
         );
+        let text = "";
         for (const block of json.blocks) {
           for (const line of block.lines) {
             text += line.text + " ";
           }
         }
+        pages.push(text);
       }
 
-      return text;
+      return pages;
     } catch (error) {
       this._logService.error(
         "Failed to read fulltext of PDF",
@@ -202,7 +437,7 @@ export class CacheService {
         "CacheService"
       );
 
-      return "";
+      return [];
     }
   }
 
@@ -240,29 +475,22 @@ export class CacheService {
           md5String = await md5(filePath);
         }
 
-        const fulltext = await this._getPDFText(url);
+        const pages = await this._getPDFText(url);
         return realm.safeWrite(() => {
           const objects = realm
             .objects<PaperEntityCache>("PaperEntityCache")
             .filtered("_id == $0", new ObjectId(paperEntity._id));
           const object = objects[0] || null;
 
-          if (object && object.md5 === md5String) {
+          if (
+            object &&
+            object.md5 === md5String &&
+            object.fulltextLength !== null &&
+            object.fulltextLength !== undefined
+          ) {
             return;
-          } else if (object) {
-            object.fulltext = fulltext;
-            object.md5 = md5String;
           } else {
-            realm.create<PaperEntityCache>(
-              "PaperEntityCache",
-              {
-                _id: new ObjectId(paperEntity._id),
-                _partition: "",
-                fulltext: fulltext,
-                md5: md5String,
-              },
-              Realm.UpdateMode.Modified
-            );
+            this._writeFullText(realm, paperEntity._id, pages, md5String);
           }
         });
       } catch (err) {
@@ -352,8 +580,16 @@ export class CacheService {
         ids.map((id) => new ObjectId(id))
       );
 
+    const postings = realm
+      .objects<FullTextPosting>("FullTextPosting")
+      .filtered(
+        "paperId IN $0",
+        ids.map((id) => new ObjectId(id))
+      );
+
     realm.safeWrite(() => {
       realm.delete(entitiesCache);
+      realm.delete(postings);
     });
   }
 
@@ -366,6 +602,7 @@ export class CacheService {
     const realm = await this._cacheDatabaseCore.realm();
     realm.safeWrite(() => {
       realm.delete(realm.objects<PaperEntityCache>("PaperEntityCache"));
+      realm.delete(realm.objects<FullTextPosting>("FullTextPosting"));
     });
   }
 }
@@ -7,6 +7,7 @@ import {
   CategorizerType,
   Colors,
   ICategorizerCollection,
+  ICategorizerObject,
   ICategorizerRealmObject,
   PaperFolder,
   PaperTag,
@@ -95,6 +96,7 @@ export class CategorizerService extends Eventable<ICategorizerServiceState> {
    * @param type - The type of categorizer.
    * @param categorizer - The categorizer.
    * @param parentCategorizer - The parent categorizer to insert.
+   * @param fromSync - Is from sync, default is false
    * @returns
    */
   @processing(ProcessingKey.General)
@@ -102,9 +104,26 @@ export class CategorizerService extends Eventable<ICategorizerServiceState> {
   async create(
     type: CategorizerType,
     categorizer: Categorizer,
-    parentCategorizer?: Categorizer
+    parentCategorizer?: Categorizer,
+    fromSync: boolean = false
   ) {
-    return this.update(type, categorizer, parentCategorizer);
+    const createdCategorizer = await this.update(
+      type,
+      categorizer,
+      parentCategorizer,
+      true
+    );
+
+    if (createdCategorizer && !fromSync) {
+      await this._addSyncLog(type, "create", {
+        categorizer: this._toSyncValue(categorizer),
+        parentCategorizer: parentCategorizer
+          ? this._toSyncValue(parentCategorizer)
+          : undefined,
+      });
+    }
+
+    return createdCategorizer;
   }
 
   /**
@@ -112,6 +131,7 @@ export class CategorizerService extends Eventable<ICategorizerServiceState> {
    * @param type - The type of categorizer.
    * @param name - The name of categorizer.
    * @param categorizer - The categorizer.
+   * @param fromSync - Is from sync, default is false
    * @returns
    */
   @processing(ProcessingKey.General)
@@ -119,8 +139,18 @@ export class CategorizerService extends Eventable<ICategorizerServiceState> {
   async delete(
     type: CategorizerType,
     ids?: OID[],
-    categorizers?: ICategorizerCollection
+    categorizers?: ICategorizerCollection,
+    fromSync: boolean = false
   ) {
+    if (!fromSync) {
+      await this._addSyncLog(type, "delete", {
+        ids: ids?.map((id) => `${id}`),
+        categorizers: categorizers?.map((categorizer: ICategorizerObject) =>
+          this._toSyncValue(categorizer)
+        ),
+      });
+    }
+
     this._categorizerRepository.delete(
       await this._databaseCore.realm(),
       type,
@@ -134,11 +164,17 @@ export class CategorizerService extends Eventable<ICategorizerServiceState> {
    * @param id - The id of the categorizer.
    * @param color - The color.
    * @param type - The type of the categorizer.
+   * @param fromSync - Is from sync, default is false
    * @returns
    */
   @processing(ProcessingKey.General)
   @errorcatching("Failed to colorize categorizers.", true, "CategorizerService")
-  async colorize(id: OID, color: Colors, type: CategorizerType) {
+  async colorize(
+    id: OID,
+    color: Colors,
+    type: CategorizerType,
+    fromSync: boolean = false
+  ) {
     const realm = await this._databaseCore.realm();
     const objects = this._categorizerRepository.loadByIds(realm, type, [id]);
 
@@ -152,20 +188,29 @@ export class CategorizerService extends Eventable<ICategorizerServiceState> {
     );
     const parent = parents.length > 0 ? parents[0] : undefined;
 
+    const categorizer = new Categorizer(
+      {
+        _id: id,
+        name: object.name.split("/").pop(),
+        color,
+      },
+      false
+    );
+
     this._categorizerRepository.update(
       await this._databaseCore.realm(),
       type,
-      new Categorizer(
-        {
-          _id: id,
-          name: object.name.split("/").pop(),
-          color,
-        },
-        false
-      ),
+      categorizer,
       this._databaseCore.getPartition(),
       parent
     );
+
+    if (!fromSync) {
+      await this._addSyncLog(type, "update", {
+        categorizer: this._toSyncValue(categorizer),
+        parentCategorizer: parent ? this._toSyncValue(parent) : undefined,
+      });
+    }
   }
 
   /**
@@ -218,6 +263,7 @@ export class CategorizerService extends Eventable<ICategorizerServiceState> {
    * @param type - The type of the categorizer.
    * @param categorizer - The categorizer.
    * @param parentCategorizer - The parent categorizer to insert.
+   * @param fromSync - Is from sync, default is false
    * @returns
    */
   @processing(ProcessingKey.General)
@@ -225,7 +271,8 @@ export class CategorizerService extends Eventable<ICategorizerServiceState> {
   async update(
     type: CategorizerType,
     categorizer: Categorizer,
-    parentCategorizer?: Categorizer
+    parentCategorizer?: Categorizer,
+    fromSync: boolean = false
   ) {
     if (
       !categorizer.name ||
@@ -238,13 +285,55 @@ export class CategorizerService extends Eventable<ICategorizerServiceState> {
       );
     }
 
-    return this._categorizerRepository.update(
+    const updatedCategorizer = this._categorizerRepository.update(
       await this._databaseCore.realm(),
       type,
       categorizer,
       this._databaseCore.getPartition(),
       parentCategorizer
     );
+
+    if (!fromSync) {
+      await this._addSyncLog(type, "update", {
+        categorizer: this._toSyncValue(categorizer),
+        parentCategorizer: parentCategorizer
+          ? this._toSyncValue(parentCategorizer)
+          : undefined,
+      });
+    }
+
+    return updatedCategorizer;
+  }
+
+  /**
+   * Add a sync log of a categorizer operation.
+   * @param type - The type of the categorizer.
+   * @param operation - The operation.
+   * @param value - The value of the log.
+   */
+  private async _addSyncLog(
+    type: CategorizerType,
+    operation: "create" | "update" | "delete",
+    value: Record<string, unknown>
+  ) {
+    await PLAPILocal.syncService.addSyncLog(
+      type === CategorizerType.PaperTag ? "tag" : "folder",
+      operation,
+      value
+    );
+  }
+
+  /**
+   * Strip a categorizer down to the fields needed to replay it on another device.
+   * Children are not included, they are synced by their own logs.
+   * @param categorizer - The categorizer.
+   */
+  private _toSyncValue(categorizer: ICategorizerObject) {
+    return {
+      _id: categorizer._id ? `${categorizer._id}` : undefined,
+      name: categorizer.name,
+      color: categorizer.color,
+    };
   }
 
   /**
@@ -275,10 +364,12 @@ export class CategorizerService extends Eventable<ICategorizerServiceState> {
       migrateCategorizer.name = categorizer.name.split("/").pop() as string;
       migrateCategorizer.color = categorizer.color;
       migrateCategorizer.count = 0;
+      // The migrated categorizers are not logged, they are already in the cloud database for other devices.
       await this.update(
         type,
         migrateCategorizer,
-        new Categorizer({ _id: parent?._id, name: parent?.name })
+        new Categorizer({ _id: parent?._id, name: parent?.name }),
+        true
       );
 
       categorizer.children.forEach(async (child) => {
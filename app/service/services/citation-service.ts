@@ -0,0 +1,88 @@
+import { DirectedGraph } from "graphology";
+
+import { errorcatching } from "@/base/error";
+import { Eventable } from "@/base/event";
+import { createDecorator } from "@/base/injection/injection";
+import { ProcessingKey, processing } from "@/common/utils/processing";
+import { IEntityCollection } from "@/models/entity";
+import { OID } from "@/models/id";
+
+import { buildCitationGraph } from "./citation/citation-graph";
+import { IPaperService, PaperService } from "./paper-service";
+
+export interface ICitationServiceState {
+  updated: number;
+}
+
+export interface IInLibraryCitations {
+  // Papers in the library referenced by the paper.
+  references: IEntityCollection;
+  // Papers in the library referencing the paper.
+  citedBy: IEntityCollection;
+}
+
+export const ICitationService = createDecorator("citationService");
+
+/**
+ * Service for the citation links between papers in the library.
+ * The citation graph is built from the references of papers, and rebuilt lazily after papers change.
+ */
+export class CitationService extends Eventable<ICitationServiceState> {
+  private _graph?: DirectedGraph;
+
+  constructor(
+    @IPaperService private readonly _paperService: PaperService
+  ) {
+    super("citationService", {
+      updated: 0,
+    });
+
+    this._paperService.on(["updated", "count"], () => {
+      this._graph = undefined;
+      this.fire({ updated: Date.now() });
+    });
+  }
+
+  private async _citationGraph() {
+    if (!this._graph) {
+      const paperEntities = await this._paperService.load(
+        "",
+        "addTime",
+        "desc"
+      );
+      this._graph = buildCitationGraph(Array.from(paperEntities));
+    }
+    return this._graph;
+  }
+
+  /**
+   * Load the papers in the library linked to a paper by citations.
+   * @param id - The id of the paper.
+   * @returns The papers referenced by the paper, and the papers referencing it.
+   */
+  @processing(ProcessingKey.General)
+  @errorcatching("Failed to load citations.", true, "CitationService", {
+    references: [],
+    citedBy: [],
+  })
+  async loadInLibraryCitations(id: OID): Promise<IInLibraryCitations> {
+    const graph = await this._citationGraph();
+    if (!graph.hasNode(`${id}`)) {
+      return { references: [], citedBy: [] };
+    }
+
+    const referenceIds = graph.outNeighbors(`${id}`);
+    const citedByIds = graph.inNeighbors(`${id}`);
+
+    return {
+      references:
+        referenceIds.length > 0
+          ? await this._paperService.loadByIds(referenceIds)
+          : [],
+      citedBy:
+        citedByIds.length > 0
+          ? await this._paperService.loadByIds(citedByIds)
+          : [],
+    };
+  }
+}
@@ -0,0 +1,107 @@
+import { DirectedGraph } from "graphology";
+
+import {
+  isArxivDOI,
+  normalizeArxivId,
+  normalizeDOI,
+  titleTokensOf,
+} from "@/base/identifier";
+import { IEntityObject } from "@/models/entity";
+import { IReferenceLink } from "@/models/reference-link";
+
+// Titles with fewer words are too generic to link a reference by its title.
+const MIN_TITLE_TOKENS = 3;
+
+function titleKeyOf(title?: string) {
+  const tokens = titleTokensOf(title || "");
+  return tokens.length >= MIN_TITLE_TOKENS ? tokens.join(" ") : "";
+}
+
+/**
+ * Index of the entities in the library by their identifiers.
+ */
+class EntityIndex {
+  private readonly _byDOI = new Map<string, string[]>();
+  private readonly _byArxiv = new Map<string, string[]>();
+  private readonly _byTitle = new Map<string, string[]>();
+  private readonly _yearOf = new Map<string, string>();
+
+  constructor(entities: IEntityObject[]) {
+    for (const entity of entities) {
+      const id = `${entity._id}`;
+      const doi = normalizeDOI(entity.doi);
+      if (doi && !isArxivDOI(doi)) {
+        this._add(this._byDOI, doi, id);
+      }
+      this._add(this._byArxiv, normalizeArxivId(entity), id);
+      this._add(this._byTitle, titleKeyOf(entity.title), id);
+      this._yearOf.set(id, entity.year);
+    }
+  }
+
+  private _add(map: Map<string, string[]>, key: string, id: string) {
+    if (!key) {
+      return;
+    }
+    if (!map.has(key)) {
+      map.set(key, []);
+    }
+    map.get(key)!.push(id);
+  }
+
+  /**
+   * Resolve a reference to the ids of the entities it links to, matched by DOI, then arXiv ID, then title and year.
+   */
+  resolve(reference: IReferenceLink): string[] {
+    const doi = normalizeDOI(reference.doi);
+    if (doi && !isArxivDOI(doi) && this._byDOI.has(doi)) {
+      return this._byDOI.get(doi)!;
+    }
+
+    const arxiv = normalizeArxivId(reference);
+    if (arxiv && this._byArxiv.has(arxiv)) {
+      return this._byArxiv.get(arxiv)!;
+    }
+
+    const title = titleKeyOf(reference.title);
+    if (title && this._byTitle.has(title)) {
+      return this._byTitle
+        .get(title)!
+        .filter(
+          (id) =>
+            !reference.year ||
+            !this._yearOf.get(id) ||
+            reference.year === this._yearOf.get(id)
+        );
+    }
+
+    return [];
+  }
+}
+
+/**
+ * Build the citation graph of the library. Nodes are the ids of entities, and an edge goes from an entity
+ * to each entity in the library it references.
+ * @param entities - The entities in the library.
+ * @returns The citation graph.
+ */
+export function buildCitationGraph(entities: IEntityObject[]): DirectedGraph {
+  const graph = new DirectedGraph();
+  for (const entity of entities) {
+    graph.addNode(`${entity._id}`);
+  }
+
+  const index = new EntityIndex(entities);
+  for (const entity of entities) {
+    const id = `${entity._id}`;
+    for (const reference of entity.references || []) {
+      for (const referencedId of index.resolve(reference)) {
+        if (referencedId !== id) {
+          graph.mergeEdge(id, referencedId);
+        }
+      }
+    }
+  }
+
+  return graph;
+}
@@ -6,10 +6,10 @@ import { Eventable } from "@/base/event";
 import { createDecorator } from "@/base/injection/injection";
 import { Process } from "@/base/process-id";
 import { ILogService, LogService } from "@/common/services/log-service";
-import { PaperEntityCache } from "@/models/paper-entity-cache";
+import { FullTextPosting, PaperEntityCache } from "@/models/paper-entity-cache";
 import { ProcessingKey, processing } from "@/common/utils/processing";
 
-export const DATABASE_SCHEMA_VERSION = 2;
+export const DATABASE_SCHEMA_VERSION = 3;
 
 enum ConfigType {
   Local,
@@ -194,7 +194,7 @@ export class CacheDatabaseCore extends Eventable<ICacheDatabaseCoreState> {
     }
 
     const config = {
-      schema: [PaperEntityCache.schema],
+      schema: [PaperEntityCache.schema, FullTextPosting.schema],
       schemaVersion: DATABASE_SCHEMA_VERSION,
       path: path.join(
         await PLMainAPI.fileSystemService.getSystemPath(
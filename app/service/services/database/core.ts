@@ -16,9 +16,12 @@ import { ProcessingKey, processing } from "@/common/utils/processing";
 import { migrate, syncMigrate } from "@/service/services/database/migration";
 
 import { FileService, IFileService } from "../file-service";
+import { Author } from "@/models/author";
+import { Annotation } from "@/models/annotation";
+import { ReferenceLink } from "@/models/reference-link";
 import { Supplementary } from "@/models/supplementary";
 
-export const DATABASE_SCHEMA_VERSION = 10;
+export const DATABASE_SCHEMA_VERSION = 20;
 
 enum ConfigType {
   Cloud,
@@ -237,6 +240,9 @@ export class DatabaseCore extends Eventable<IDatabaseCoreState> {
       schema: [
         Entity.schema,
         Supplementary.schema,
+        ReferenceLink.schema,
+        Author.schema,
+        Annotation.schema,
         PaperEntity.schema,
         PaperTag.schema,
         PaperFolder.schema,
@@ -267,6 +273,9 @@ export class DatabaseCore extends Eventable<IDatabaseCoreState> {
           schema: [
             Entity.schema,
             Supplementary.schema,
+            ReferenceLink.schema,
+            Author.schema,
+            Annotation.schema,
             PaperEntity.schema,
             PaperTag.schema,
             PaperFolder.schema,
@@ -374,6 +383,9 @@ export class DatabaseCore extends Eventable<IDatabaseCoreState> {
           schema: [
             Entity.schema,
             Supplementary.schema,
+            ReferenceLink.schema,
+            Author.schema,
+            Annotation.schema,
             PaperEntity.schema,
             PaperTag.schema,
             PaperFolder.schema,
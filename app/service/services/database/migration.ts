@@ -2,7 +2,15 @@ import { ObjectId } from "bson";
 import path from "path";
 import Realm from "realm";
 
+import { parseAuthors } from "@/base/author";
+import {
+  DEFAULT_CITEKEY_TEMPLATE,
+  disambiguateCiteKey,
+  formatCiteKey,
+} from "@/base/citekey";
+import { Author } from "@/models/author";
 import { CategorizerType, PaperFolder, PaperTag } from "@/models/categorizer";
+import { Entity } from "@/models/entity";
 import { PaperEntity } from "@/models/paper-entity";
 import { PaperSmartFilter } from "@/models/smart-filter";
 
@@ -216,6 +224,47 @@ export function migrate(oldRealm: Realm, newRealm: Realm) {
     }
     newRealm.deleteModel("PaperPaperSmartFilter");
   }
+
+  if (oldVersion <= 12) {
+    console.log("Migrate from version <=12 to 13");
+    assignCiteKeys(newRealm);
+  }
+
+  if (oldVersion <= 13) {
+    console.log("Migrate from version <=13 to 14");
+    assignAuthorLists(newRealm);
+  }
+}
+
+// Generate the citation keys of entities without one. Older entities get the keys without suffixes.
+function assignCiteKeys(realm: Realm) {
+  const entities = realm.objects<Entity>("Entity").sorted("addTime");
+  const takenKeys = new Set<string>();
+  for (const entity of entities) {
+    if (entity.citeKey) {
+      takenKeys.add(entity.citeKey);
+    }
+  }
+  for (const entity of entities) {
+    if (entity.citeKey) {
+      continue;
+    }
+    entity.citeKey = disambiguateCiteKey(
+      formatCiteKey(DEFAULT_CITEKEY_TEMPLATE, entity),
+      (key) => takenKeys.has(key)
+    );
+    entity.citeKeyPinned = false;
+    takenKeys.add(entity.citeKey);
+  }
+}
+
+// Parse the authors strings of entities into structured authors.
+function assignAuthorLists(realm: Realm) {
+  for (const entity of realm.objects<Entity>("Entity")) {
+    entity.authorList = parseAuthors(entity.authors || "").map(
+      (author) => new Author(author)
+    );
+  }
 }
 
 export function syncMigrate(
@@ -338,4 +387,14 @@ export function syncMigrate(
       smartFilterRoot.children.push(newSmartFilter);
     }
   }
+
+  if (oldVersion <= 12) {
+    console.log("Migrate sync db from version <=12 to 13");
+    assignCiteKeys(realm);
+  }
+
+  if (oldVersion <= 13) {
+    console.log("Migrate sync db from version <=13 to 14");
+    assignAuthorLists(realm);
+  }
 }
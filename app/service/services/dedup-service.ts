@@ -0,0 +1,152 @@
+import ElectronStore from "electron-store";
+
+import { errorcatching } from "@/base/error";
+import { Eventable } from "@/base/event";
+import { createDecorator } from "@/base/injection/injection";
+import { ILogService, LogService } from "@/common/services/log-service";
+import { ProcessingKey, processing } from "@/common/utils/processing";
+import { Entity, IEntityObject } from "@/models/entity";
+import { OID } from "@/models/id";
+
+import {
+  DuplicateReason,
+  findDuplicateGroups,
+  mergeDuplicateEntities,
+  pickPrimaryEntity,
+} from "./dedup/entity-dedup";
+import { IPaperService, PaperService } from "./paper-service";
+
+export interface IDedupServiceState {
+  updated: number;
+}
+
+export interface IDuplicateCandidateGroup {
+  reasons: DuplicateReason[];
+  // The suggested entity to keep.
+  primaryId: OID;
+  entities: IEntityObject[];
+}
+
+interface IDedupStore {
+  // Groups of ids the user marked as not duplicated.
+  dismissedGroups: string[][];
+}
+
+export const IDedupService = createDecorator("dedupService");
+
+/**
+ * Service for finding duplicated papers in the library and merging them.
+ */
+export class DedupService extends Eventable<IDedupServiceState> {
+  private readonly _store: ElectronStore<IDedupStore>;
+
+  constructor(
+    @IPaperService private readonly _paperService: PaperService,
+    @ILogService private readonly _logService: LogService
+  ) {
+    super("dedupService", {
+      updated: 0,
+    });
+
+    this._store = new ElectronStore<IDedupStore>({
+      name: "dedup",
+      defaults: { dismissedGroups: [] },
+    });
+  }
+
+  /**
+   * Find groups of duplicated papers in the library.
+   * Groups the user marked as not duplicated are skipped.
+   * @returns The candidate groups, each with the suggested paper to keep.
+   */
+  @processing(ProcessingKey.General)
+  @errorcatching("Failed to find duplicated papers.", true, "DedupService", [])
+  async findDuplicates(): Promise<IDuplicateCandidateGroup[]> {
+    const paperEntities = Array.from(
+      await this._paperService.load("", "addTime", "desc")
+    );
+    const entityById = new Map(
+      paperEntities.map((paperEntity) => [`${paperEntity._id}`, paperEntity])
+    );
+
+    const dismissedGroups = this._store
+      .get("dismissedGroups")
+      .map((ids) => new Set(ids));
+
+    return findDuplicateGroups(paperEntities)
+      .filter(
+        (group) =>
+          !dismissedGroups.some((dismissed) =>
+            group.ids.every((id) => dismissed.has(`${id}`))
+          )
+      )
+      .map((group) => {
+        const entities = group.ids.map((id) => entityById.get(`${id}`)!);
+        return {
+          reasons: group.reasons,
+          primaryId: pickPrimaryEntity(entities)._id,
+          entities,
+        };
+      });
+  }
+
+  /**
+   * Merge duplicated papers into one, and delete the others.
+   * Their metadata, tags, folders, supplementaries and notes are merged into the kept paper.
+   * @param ids - The ids of the duplicated papers.
+   * @param primaryId - The id of the paper to keep, picked automatically if not provided.
+   * @returns The merged paper.
+   */
+  @processing(ProcessingKey.General)
+  @errorcatching("Failed to merge duplicated papers.", true, "DedupService")
+  async merge(ids: OID[], primaryId?: OID): Promise<Entity | undefined> {
+    const paperEntities = Array.from(await this._paperService.loadByIds(ids));
+    if (paperEntities.length < 2) {
+      throw new Error("At least two papers are required to merge.");
+    }
+
+    const primary = primaryId
+      ? paperEntities.find((paperEntity) => `${paperEntity._id}` === `${primaryId}`)
+      : pickPrimaryEntity(paperEntities);
+    if (!primary) {
+      throw new Error(`Paper ${primaryId} is not in the merged papers.`);
+    }
+    const others = paperEntities.filter(
+      (paperEntity) => `${paperEntity._id}` !== `${primary._id}`
+    );
+    const otherIds = others.map((paperEntity) => `${paperEntity._id}`);
+
+    this._logService.info(
+      `Merging ${paperEntities.length} duplicated papers...`,
+      primary.title,
+      true,
+      "DedupService"
+    );
+
+    const merged = mergeDuplicateEntities(primary, others);
+    // Supplementary files of the others are moved and renamed after the kept paper here,
+    // so that they are not removed with the others.
+    const [updated] = await this._paperService.update([merged], true, true);
+    if (!updated) {
+      throw new Error("Failed to update the merged paper.");
+    }
+    await this._paperService.delete(otherIds);
+
+    this.fire({ updated: Date.now() });
+
+    return new Entity(updated);
+  }
+
+  /**
+   * Mark a group of papers as not duplicated, so that they are not suggested again.
+   * @param ids - The ids of the papers.
+   */
+  @errorcatching("Failed to dismiss duplicated papers.", true, "DedupService")
+  dismiss(ids: OID[]) {
+    this._store.set("dismissedGroups", [
+      ...this._store.get("dismissedGroups"),
+      ids.map((id) => `${id}`),
+    ]);
+    this.fire({ updated: Date.now() });
+  }
+}
@@ -0,0 +1,326 @@
+import {
+  isArxivDOI,
+  normalizeArxivId,
+  normalizeDOI,
+  titleTokensOf,
+} from "@/base/identifier";
+import { Author } from "@/models/author";
+import { Entity, IEntityObject } from "@/models/entity";
+import { PaperFolder, PaperTag } from "@/models/categorizer";
+import { OID } from "@/models/id";
+import { IReferenceLink, ReferenceLink } from "@/models/reference-link";
+import { Supplementary } from "@/models/supplementary";
+
+export type DuplicateReason = "doi" | "arxiv" | "title";
+
+export interface IDuplicateGroup {
+  ids: OID[];
+  reasons: DuplicateReason[];
+}
+
+// Minimum Dice similarity of title tokens to treat two titles as the same.
+const TITLE_SIMILARITY_THRESHOLD = 0.9;
+// Minimum overlap of author last names, relative to the shorter author list.
+const AUTHOR_OVERLAP_THRESHOLD = 0.5;
+// Title tokens shared by more entities than this are not used to find candidate pairs.
+const MAX_TITLE_TOKEN_FREQUENCY = 50;
+
+const PREPRINT_PUBLICATION_REGEX = /arxiv|biorxiv|medrxiv|openreview|ssrn|preprint/i;
+
+function authorLastNamesOf(authors: string) {
+  return new Set(
+    authors
+      .split(",")
+      .map((author) => titleTokensOf(author).pop())
+      .filter((name): name is string => !!name)
+  );
+}
+
+function diceSimilarity(a: string[], b: string[]) {
+  if (a.length === 0 || b.length === 0) {
+    return 0;
+  }
+  const counts = new Map<string, number>();
+  for (const token of a) {
+    counts.set(token, (counts.get(token) || 0) + 1);
+  }
+  let common = 0;
+  for (const token of b) {
+    const count = counts.get(token) || 0;
+    if (count > 0) {
+      common += 1;
+      counts.set(token, count - 1);
+    }
+  }
+  return (2 * common) / (a.length + b.length);
+}
+
+function authorOverlap(a: Set<string>, b: Set<string>) {
+  if (a.size === 0 || b.size === 0) {
+    return undefined;
+  }
+  let common = 0;
+  for (const name of a) {
+    if (b.has(name)) {
+      common += 1;
+    }
+  }
+  return common / Math.min(a.size, b.size);
+}
+
+/**
+ * Find groups of duplicated entities. Two entities are duplicates if they share a DOI or an arXiv ID,
+ * or if their titles are nearly the same and their authors overlap.
+ * @param entities - The entities to check.
+ * @returns The groups of duplicates, each with at least two entities.
+ */
+export function findDuplicateGroups(entities: IEntityObject[]): IDuplicateGroup[] {
+  // Union-find over the indices of entities.
+  const parents = entities.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parents[i] !== i) {
+      parents[i] = parents[parents[i]];
+      i = parents[i];
+    }
+    return i;
+  };
+  const reasons = new Map<number, Set<DuplicateReason>>();
+  const union = (i: number, j: number, reason: DuplicateReason) => {
+    const [rootI, rootJ] = [find(i), find(j)];
+    const merged = new Set([
+      ...(reasons.get(rootI) || []),
+      ...(rootI !== rootJ ? reasons.get(rootJ) || [] : []),
+      reason,
+    ]);
+    parents[rootJ] = rootI;
+    reasons.delete(rootJ);
+    reasons.set(rootI, merged);
+  };
+
+  // 1. Same identifiers.
+  const unionByKey = (keyOf: (e: IEntityObject) => string, reason: DuplicateReason) => {
+    const firstIndices = new Map<string, number>();
+    entities.forEach((entity, i) => {
+      const key = keyOf(entity);
+      if (!key) {
+        return;
+      }
+      const first = firstIndices.get(key);
+      if (first === undefined) {
+        firstIndices.set(key, i);
+      } else {
+        union(first, i, reason);
+      }
+    });
+  };
+  unionByKey((entity) => {
+    const doi = normalizeDOI(entity.doi);
+    // arXiv DOIs are compared as arXiv IDs without versions.
+    return isArxivDOI(doi) ? "" : doi;
+  }, "doi");
+  unionByKey(normalizeArxivId, "arxiv");
+
+  // 2. Similar titles with overlapping authors.
+  const titleTokens = entities.map((entity) => titleTokensOf(entity.title));
+  const lastNames = entities.map((entity) => authorLastNamesOf(entity.authors));
+
+  const postings = new Map<string, number[]>();
+  titleTokens.forEach((tokens, i) => {
+    for (const token of new Set(tokens)) {
+      if (token.length < 4) {
+        continue;
+      }
+      if (!postings.has(token)) {
+        postings.set(token, []);
+      }
+      postings.get(token)!.push(i);
+    }
+  });
+
+  const compared = new Set<string>();
+  for (const indices of postings.values()) {
+    if (indices.length < 2 || indices.length > MAX_TITLE_TOKEN_FREQUENCY) {
+      continue;
+    }
+    for (let a = 0; a < indices.length; a++) {
+      for (let b = a + 1; b < indices.length; b++) {
+        const [i, j] = [indices[a], indices[b]];
+        const pair = `${i}-${j}`;
+        if (compared.has(pair)) {
+          continue;
+        }
+        compared.add(pair);
+
+        const similarity = diceSimilarity(titleTokens[i], titleTokens[j]);
+        const overlap = authorOverlap(lastNames[i], lastNames[j]);
+        if (
+          (similarity >= TITLE_SIMILARITY_THRESHOLD &&
+            overlap !== undefined &&
+            overlap >= AUTHOR_OVERLAP_THRESHOLD) ||
+          (similarity === 1 && overlap === undefined)
+        ) {
+          union(i, j, "title");
+        }
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  entities.forEach((_, i) => {
+    const root = find(i);
+    if (!groups.has(root)) {
+      groups.set(root, []);
+    }
+    groups.get(root)!.push(i);
+  });
+
+  return Array.from(groups.entries())
+    .filter(([_, indices]) => indices.length > 1)
+    .map(([root, indices]) => ({
+      ids: indices.map((i) => entities[i]._id),
+      reasons: Array.from(reasons.get(root) || []),
+    }));
+}
+
+/**
+ * Pick the entity to keep when merging duplicates: a published version is preferred to a preprint,
+ * then the one with a DOI, then the earliest added one.
+ */
+export function pickPrimaryEntity(entities: IEntityObject[]): IEntityObject {
+  const scoreOf = (entity: IEntityObject) => {
+    const publication = entity.journal || entity.booktitle || "";
+    const doi = normalizeDOI(entity.doi);
+    return (
+      (publication && !PREPRINT_PUBLICATION_REGEX.test(publication) ? 2 : 0) +
+      (doi && !isArxivDOI(doi) ? 1 : 0)
+    );
+  };
+
+  return [...entities].sort(
+    (a, b) =>
+      scoreOf(b) - scoreOf(a) ||
+      new Date(a.addTime).getTime() - new Date(b.addTime).getTime()
+  )[0];
+}
+
+// String fields that are not filled from the other duplicates.
+const UNMERGED_STRING_FIELDS: (keyof Entity)[] = [
+  "_partition",
+  "library",
+  "defaultSup",
+  "note",
+];
+
+function referenceKeyOf(reference: IReferenceLink) {
+  return (
+    normalizeDOI(reference.doi) ||
+    normalizeArxivId(reference) ||
+    titleTokensOf(reference.title || "").join(" ")
+  );
+}
+
+function mergeNotes(notes: (string | undefined)[]) {
+  const isMarkdown = notes.some((note) => note?.startsWith("<md>"));
+  const bodies = Array.from(
+    new Set(
+      notes
+        .map((note) => (note || "").replace(/^<md>/, "").trim())
+        .filter((note) => note)
+    )
+  );
+  if (bodies.length === 0) {
+    return notes.find((note) => note !== undefined);
+  }
+  return (isMarkdown ? "<md>\n" : "") + bodies.join("\n\n");
+}
+
+/**
+ * Merge duplicated entities into one.
+ *   - Empty metadata fields of the primary entity are filled with the values of the others.
+ *   - Tags, folders, supplementaries and references are unioned, and notes are concatenated.
+ *   - The entity is flagged if any is flagged, and gets the highest rating and the earliest add time.
+ * @param primary - The entity to keep.
+ * @param others - The entities to merge into the primary one.
+ * @returns The draft of the merged entity, with the id of the primary one.
+ */
+export function mergeDuplicateEntities(
+  primary: IEntityObject,
+  others: IEntityObject[]
+): Entity {
+  const merged = new Entity(primary);
+  const all = [primary, ...others];
+
+  for (const other of others) {
+    for (const key of Object.keys(merged) as (keyof Entity)[]) {
+      if (
+        typeof other[key] === "string" &&
+        other[key] &&
+        !merged[key] &&
+        !UNMERGED_STRING_FIELDS.includes(key)
+      ) {
+        merged.setValue(key, other[key]);
+      }
+    }
+  }
+
+  // The authors string may be taken from another entity, so are its structured authors.
+  merged.authorList = Array.from(
+    all.find((entity) => entity.authors === merged.authors)?.authorList || []
+  ).map((author) => new Author(author));
+
+  const tags = new Map<string, PaperTag>();
+  const folders = new Map<string, PaperFolder>();
+  for (const entity of all) {
+    for (const tag of entity.tags) {
+      if (!tags.has(tag.name)) {
+        tags.set(tag.name, new PaperTag(tag, false));
+      }
+    }
+    for (const folder of entity.folders) {
+      if (!folders.has(folder.name)) {
+        folders.set(folder.name, new PaperFolder(folder, false));
+      }
+    }
+  }
+  merged.tags = Array.from(tags.values());
+  merged.folders = Array.from(folders.values());
+
+  const urls = new Set(
+    Object.values(merged.supplementaries).map((sup) => sup.url)
+  );
+  for (const other of others) {
+    for (const sup of Object.values(other.supplementaries)) {
+      if (urls.has(sup.url)) {
+        continue;
+      }
+      urls.add(sup.url);
+      merged.supplementaries[sup._id] = new Supplementary(sup);
+    }
+    if (!merged.defaultSup && other.defaultSup) {
+      merged.defaultSup = other.defaultSup;
+    }
+  }
+
+  const referenceKeys = new Set(merged.references.map(referenceKeyOf));
+  for (const other of others) {
+    for (const reference of other.references || []) {
+      const key = referenceKeyOf(reference);
+      if (key && !referenceKeys.has(key)) {
+        referenceKeys.add(key);
+        merged.references.push(new ReferenceLink(reference));
+      }
+    }
+  }
+
+  merged.note = mergeNotes(all.map((entity) => entity.note));
+  merged.flag = all.some((entity) => entity.flag) || undefined;
+  const ratings = all
+    .map((entity) => entity.rating)
+    .filter((rating): rating is number => rating !== undefined);
+  merged.rating = ratings.length > 0 ? Math.max(...ratings) : undefined;
+  merged.addTime = new Date(
+    Math.min(...all.map((entity) => new Date(entity.addTime).getTime()))
+  );
+
+  return merged;
+}
@@ -0,0 +1,416 @@
+import { escapeRegExp } from "lodash";
+
+import { authorListOf, toCSLName } from "@/base/author";
+import {
+  ICustomFieldDefinition,
+  formatCustomFields,
+} from "@/base/custom-field";
+import { IAuthor } from "@/models/author";
+import { Entity, EntityType } from "@/models/entity";
+
+const CSL_TYPES: Record<EntityType, string> = {
+  article: "article-journal",
+  book: "book",
+  booklet: "pamphlet",
+  inbook: "chapter",
+  incollection: "chapter",
+  inproceedings: "paper-conference",
+  manual: "book",
+  mastersthesis: "thesis",
+  misc: "document",
+  phdthesis: "thesis",
+  proceedings: "book",
+  techreport: "report",
+};
+
+const RIS_TYPES: Record<EntityType, string> = {
+  article: "JOUR",
+  book: "BOOK",
+  booklet: "PAMP",
+  inbook: "CHAP",
+  incollection: "CHAP",
+  inproceedings: "CPAPER",
+  manual: "GEN",
+  mastersthesis: "THES",
+  misc: "GEN",
+  phdthesis: "THES",
+  proceedings: "CONF",
+  techreport: "RPRT",
+};
+
+// Names and numbers of EndNote reference types.
+const ENDNOTE_TYPES: Record<EntityType, [string, number]> = {
+  article: ["Journal Article", 17],
+  book: ["Book", 6],
+  booklet: ["Pamphlet", 24],
+  inbook: ["Book Section", 5],
+  incollection: ["Book Section", 5],
+  inproceedings: ["Conference Paper", 47],
+  manual: ["Generic", 13],
+  mastersthesis: ["Thesis", 32],
+  misc: ["Generic", 13],
+  phdthesis: ["Thesis", 32],
+  proceedings: ["Conference Proceedings", 10],
+  techreport: ["Report", 27],
+};
+
+const THESIS_TYPES: Partial<Record<EntityType, string>> = {
+  mastersthesis: "Master's thesis",
+  phdthesis: "PhD thesis",
+};
+
+interface IName {
+  given: string;
+  family: string;
+}
+
+// Split names separated by `;` or `,`, and take the last word of a name as the family name.
+function namesOf(value?: string): IName[] {
+  if (!value) {
+    return [];
+  }
+  return (value.includes(";") ? value.split(";") : value.split(","))
+    .map((name) => name.trim())
+    .filter((name) => name)
+    .map((name) => {
+      const parts = name.split(/\s+/);
+      return {
+        given: parts.slice(0, -1).join(" "),
+        family: parts[parts.length - 1],
+      };
+    });
+}
+
+function invertedNameOf(name: IName) {
+  return name.given ? `${name.family}, ${name.given}` : name.family;
+}
+
+// Invert an author into the `Last, First, Suffix` form, with the particle in the last name.
+function invertedAuthorNameOf(author: IAuthor) {
+  if (author.literal) {
+    return author.literal;
+  }
+  return [
+    [author.particle, author.family].filter((part) => part).join(" "),
+    author.given,
+    author.suffix,
+  ]
+    .filter((part) => part)
+    .join(", ");
+}
+
+function monthOf(entity: Entity) {
+  const month = parseInt(entity.month || "");
+  return month >= 1 && month <= 12 ? month : undefined;
+}
+
+// The publisher, school or institution of a paper, depending on its type.
+function publisherOf(entity: Entity) {
+  return entity.publisher || entity.school || entity.institution;
+}
+
+function containerTitleOf(entity: Entity) {
+  return entity.journal || entity.booktitle;
+}
+
+function pageRangeOf(entity: Entity) {
+  const [start, end] = (entity.pages || "").split(/\s*-+\s*/);
+  return { start: start || undefined, end: end || undefined };
+}
+
+function urlOf(entity: Entity) {
+  if (entity.doi) {
+    return `https://doi.org/${entity.doi}`;
+  } else if (entity.arxiv) {
+    return `https://arxiv.org/abs/${entity.arxiv.replace(/^arxiv:\s*/i, "")}`;
+  }
+  return undefined;
+}
+
+// Remove undefined and empty values.
+function compact<T extends Record<string, unknown>>(object: T) {
+  return Object.fromEntries(
+    Object.entries(object).filter(
+      ([, value]) =>
+        value !== undefined &&
+        value !== "" &&
+        !(Array.isArray(value) && value.length === 0)
+    )
+  ) as Partial<T>;
+}
+
+function emptyToUndefined<T extends object>(object: T) {
+  return Object.keys(object).length > 0 ? object : undefined;
+}
+
+/**
+ * Convert paper entities into CSL-JSON items. Custom fields are kept in the `custom` object.
+ */
+export function toCSLJSON(
+  paperEntities: Entity[],
+  customFieldDefinitions: ICustomFieldDefinition[] = []
+) {
+  return paperEntities.map((entity) => {
+    const month = monthOf(entity);
+    return compact({
+      id: entity.citeKey || `${entity._id}`,
+      "citation-key": entity.citeKey,
+      type: CSL_TYPES[entity.type] || "document",
+      title: entity.title,
+      author: authorListOf(entity).map((author) => toCSLName(author)),
+      editor: namesOf(entity.editor),
+      "container-title": containerTitleOf(entity),
+      "collection-title": entity.series,
+      issued: entity.year
+        ? {
+            "date-parts": [
+              month ? [parseInt(entity.year), month] : [parseInt(entity.year)],
+            ],
+          }
+        : undefined,
+      volume: entity.volume,
+      issue: entity.number,
+      page: entity.pages,
+      edition: entity.edition,
+      publisher: publisherOf(entity),
+      "publisher-place": entity.address,
+      genre: THESIS_TYPES[entity.type],
+      DOI: entity.doi,
+      ISBN: entity.isbn,
+      ISSN: entity.issn,
+      URL: urlOf(entity),
+      abstract: entity.abstract,
+      custom: emptyToUndefined(
+        formatCustomFields(customFieldDefinitions, entity.customFields)
+      ),
+    });
+  });
+}
+
+/**
+ * Format paper entities as a CSL-JSON file.
+ */
+export function formatCSLJSON(
+  paperEntities: Entity[],
+  customFieldDefinitions: ICustomFieldDefinition[] = []
+) {
+  return JSON.stringify(
+    toCSLJSON(paperEntities, customFieldDefinitions),
+    null,
+    2
+  );
+}
+
+/**
+ * Add custom fields to BibTeX entries, after their headers, as BibTeX allows any field.
+ * @param bibtex - The BibTeX entries.
+ * @param entries - The citation keys of the entries by the ids of their paper entities.
+ * @param paperEntities - The paper entities.
+ */
+export function addBibTeXCustomFields(
+  bibtex: string,
+  entries: { id: string; citationKey: string }[],
+  paperEntities: Entity[],
+  customFieldDefinitions: ICustomFieldDefinition[]
+) {
+  for (const { id, citationKey } of entries) {
+    const entity = paperEntities.find((entity) => `${entity._id}` === id);
+    const fields = Object.entries(
+      formatCustomFields(customFieldDefinitions, entity?.customFields)
+    );
+    if (fields.length === 0) {
+      continue;
+    }
+    const lines = fields
+      .map(([name, value]) => `\t${name.toLowerCase()} = {${value}},\n`)
+      .join("");
+    bibtex = bibtex.replace(
+      new RegExp(`^(@\\w+\\{${escapeRegExp(citationKey)},\n)`, "m"),
+      (header) => `${header}${lines}`
+    );
+  }
+  return bibtex;
+}
+
+/**
+ * Format paper entities as a RIS file.
+ */
+export function formatRIS(paperEntities: Entity[]) {
+  return paperEntities
+    .map((entity) => {
+      const lines: string[] = [];
+      const add = (tag: string, value?: string | number) => {
+        const text = `${value ?? ""}`.replace(/\s+/g, " ").trim();
+        if (text) {
+          lines.push(`${tag}  - ${text}`);
+        }
+      };
+      const month = monthOf(entity);
+      const { start, end } = pageRangeOf(entity);
+
+      add("TY", RIS_TYPES[entity.type] || "GEN");
+      add("ID", entity.citeKey);
+      add("TI", entity.title);
+      authorListOf(entity).forEach((author) =>
+        add("AU", invertedAuthorNameOf(author))
+      );
+      namesOf(entity.editor).forEach((name) => add("A2", invertedNameOf(name)));
+      add("T2", containerTitleOf(entity));
+      add("T3", entity.series);
+      add("PY", entity.year);
+      if (entity.year && month) {
+        add("DA", `${entity.year}/${`${month}`.padStart(2, "0")}//`);
+      }
+      add("VL", entity.volume);
+      add("IS", entity.number);
+      add("SP", start);
+      add("EP", end);
+      add("ET", entity.edition);
+      add("PB", publisherOf(entity));
+      add("CY", entity.address);
+      add("M3", THESIS_TYPES[entity.type]);
+      add("SN", entity.isbn);
+      add("SN", entity.issn);
+      add("DO", entity.doi);
+      add("UR", urlOf(entity));
+      add("AB", entity.abstract);
+      lines.push("ER  - ");
+      return lines.join("\n");
+    })
+    .join("\n\n")
+    .concat(paperEntities.length > 0 ? "\n" : "");
+}
+
+function escapeXML(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Format paper entities as an EndNote XML file.
+ */
+export function formatEndNoteXML(paperEntities: Entity[]) {
+  const element = (name: string, value?: string, attributes = "") =>
+    value ? `<${name}${attributes}>${escapeXML(value)}</${name}>` : "";
+  const group = (name: string, ...children: string[]) =>
+    children.some((child) => child)
+      ? `<${name}>${children.join("")}</${name}>`
+      : "";
+
+  const records = paperEntities.map((entity, i) => {
+    const [typeName, typeNumber] = ENDNOTE_TYPES[entity.type] || [
+      "Generic",
+      13,
+    ];
+    const month = monthOf(entity);
+    const url = urlOf(entity);
+    return group(
+      "record",
+      element("rec-number", `${i + 1}`),
+      element("ref-type", `${typeNumber}`, ` name="${escapeXML(typeName)}"`),
+      group(
+        "contributors",
+        group(
+          "authors",
+          ...authorListOf(entity).map((author) =>
+            element("author", invertedAuthorNameOf(author))
+          )
+        ),
+        group(
+          "secondary-authors",
+          ...namesOf(entity.editor).map((name) =>
+            element("author", invertedNameOf(name))
+          )
+        )
+      ),
+      group(
+        "titles",
+        element("title", entity.title),
+        element("secondary-title", containerTitleOf(entity)),
+        element("tertiary-title", entity.series)
+      ),
+      group("periodical", element("full-title", entity.journal)),
+      element("pages", entity.pages),
+      element("volume", entity.volume),
+      element("number", entity.number),
+      element("edition", entity.edition),
+      group(
+        "dates",
+        element("year", entity.year),
+        group("pub-dates", element("date", month ? `${month}` : undefined))
+      ),
+      element("pub-location", entity.address),
+      element("publisher", publisherOf(entity)),
+      element("isbn", entity.isbn || entity.issn),
+      element("electronic-resource-num", entity.doi),
+      element("work-type", THESIS_TYPES[entity.type]),
+      element("abstract", entity.abstract),
+      element("label", entity.citeKey),
+      group("urls", group("related-urls", element("url", url)))
+    );
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<xml><records>${records.join(
+    "\n"
+  )}</records></xml>\n`;
+}
+
+function escapeMarkdown(value: string) {
+  return value.replace(/([\\`*_[\]<>#|])/g, "\\$1");
+}
+
+/**
+ * Format paper entities as a Markdown list, with titles linked to their DOI or arXiv pages.
+ */
+export function formatMarkdown(paperEntities: Entity[]) {
+  return paperEntities
+    .map((entity) => {
+      const url = urlOf(entity);
+      const title = escapeMarkdown(entity.title);
+      const parts = [url ? `[${title}](${url})` : title];
+      if (entity.authors) {
+        parts.push(escapeMarkdown(entity.authors));
+      }
+      const venue = containerTitleOf(entity) || publisherOf(entity);
+      const source = [
+        venue ? `*${escapeMarkdown(venue)}*` : "",
+        entity.year,
+      ].filter((part) => part);
+      if (source.length > 0) {
+        parts.push(source.join(", "));
+      }
+      return `- ${parts.join(". ")}.`;
+    })
+    .join("\n")
+    .concat(paperEntities.length > 0 ? "\n" : "");
+}
+
+/**
+ * Escape a CSV field as in RFC 4180. A field with commas, quotes or line breaks is quoted,
+ * with its quotes doubled.
+ */
+export function escapeCSVField(value: unknown) {
+  let text: string;
+  if (value === undefined || value === null) {
+    text = "";
+  } else if (value instanceof Date) {
+    text = value.toISOString();
+  } else {
+    text = `${value}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format rows of values as a CSV file, with the first row as the header, as in RFC 4180.
+ */
+export function formatCSV(rows: unknown[][]) {
+  return rows
+    .map((row) => row.map((value) => escapeCSVField(value)).join(","))
+    .map((line) => `${line}\r\n`)
+    .join("");
+}
@@ -0,0 +1,95 @@
+import ElectronStore from "electron-store";
+
+import { errorcatching } from "@/base/error";
+import { Eventable } from "@/base/event";
+import { IFeedRule, validateFeedRule } from "@/base/feed-rule";
+import { createDecorator } from "@/base/injection/injection";
+import { uid } from "@/base/misc";
+
+export interface IFeedRuleServiceState {
+  updated: number;
+}
+
+interface IFeedRuleStore {
+  rules: IFeedRule[];
+}
+
+export const IFeedRuleService = createDecorator("feedRuleService");
+
+/**
+ * Service for the rules of feeds, e.g., keywords of interest or a watchlist of authors.
+ * Rules of a feed and global rules score the entities fetched from feeds, and run their actions
+ * on the new ones, e.g., marking them as read or adding them to the library.
+ */
+export class FeedRuleService extends Eventable<IFeedRuleServiceState> {
+  private readonly _store: ElectronStore<IFeedRuleStore>;
+
+  constructor() {
+    super("feedRuleService", {
+      updated: 0,
+    });
+
+    this._store = new ElectronStore<IFeedRuleStore>({
+      name: "feedRule",
+      defaults: { rules: [] },
+    });
+  }
+
+  private _saveRules(rules: IFeedRule[]) {
+    this._store.set("rules", rules);
+    this.fire({ updated: Date.now() });
+  }
+
+  /**
+   * Load the rules.
+   * @param feedId - The id of a feed to load its rules and the global rules, or undefined for all rules.
+   * @returns The rules.
+   */
+  @errorcatching("Failed to load feed rules.", true, "FeedRuleService", [])
+  async load(feedId?: string): Promise<IFeedRule[]> {
+    const rules = this._store.get("rules");
+    if (feedId === undefined) {
+      return rules;
+    }
+    return rules.filter((rule) => !rule.feedId || rule.feedId === feedId);
+  }
+
+  /**
+   * Add a rule.
+   * @param rule - The rule without the id.
+   */
+  @errorcatching("Failed to add the feed rule.", true, "FeedRuleService")
+  add(rule: Omit<IFeedRule, "_id">) {
+    const reason = validateFeedRule(rule);
+    if (reason) {
+      throw new Error(reason);
+    }
+    this._saveRules([...this._store.get("rules"), { ...rule, _id: uid() }]);
+  }
+
+  /**
+   * Update a rule.
+   * @param rule - The rule.
+   */
+  @errorcatching("Failed to update the feed rule.", true, "FeedRuleService")
+  update(rule: IFeedRule) {
+    const reason = validateFeedRule(rule);
+    if (reason) {
+      throw new Error(reason);
+    }
+    this._saveRules(
+      this._store
+        .get("rules")
+        .map((existing) => (existing._id === rule._id ? rule : existing))
+    );
+  }
+
+  /**
+   * Remove a rule.
+   * @param id - The id of the rule.
+   */
+  @errorcatching("Failed to remove the feed rule.", true, "FeedRuleService")
+  remove(id: string) {
+    this._saveRules(this._store.get("rules").filter((rule) => rule._id !== id));
+  }
+}
@@ -1,11 +1,16 @@
+import { promises } from "fs";
+import path from "path";
+
 import { chunkRun } from "@/base/chunk";
 import { errorcatching } from "@/base/error";
 import { Eventable } from "@/base/event";
+import { scoreFeedEntity } from "@/base/feed-rule";
 import { FeedEntityFilterOptions } from "@/base/filter";
 import { createDecorator } from "@/base/injection/injection";
+import { formatOPML, parseOPML } from "@/base/opml";
 import { ILogService, LogService } from "@/common/services/log-service";
 import { ProcessingKey, processing } from "@/common/utils/processing";
-import { Colors } from "@/models/categorizer";
+import { Colors, PaperTag } from "@/models/categorizer";
 import { Feed, IFeedCollection, IFeedObject } from "@/models/feed";
 import {
   FeedEntity,
@@ -28,7 +33,9 @@ import {
   IRSSRepository,
   RSSRepository,
 } from "../repositories/rss-repository/rss-repository";
+import { FeedRuleService, IFeedRuleService } from "./feed-rule-service";
 import { IPaperService, PaperService } from "./paper-service";
+import { IRecommendService, RecommendService } from "./recommend-service";
 import { ISchedulerService, SchedulerService } from "./scheduler-service";
 import { IScrapeService, ScrapeService } from "./scrape-service";
 
@@ -41,6 +48,9 @@ export interface IFeedServiceState {
 export const IFeedService = createDecorator("feedService");
 
 export class FeedService extends Eventable<IFeedServiceState> {
+  // Refresh intervals of the scheduled feeds, by the ids of the feeds.
+  private readonly _scheduledIntervals = new Map<string, number>();
+
   constructor(
     @IDatabaseCore private readonly _databaseCore: DatabaseCore,
     @IFeedEntityRepository
@@ -50,6 +60,8 @@ export class FeedService extends Eventable<IFeedServiceState> {
     @IScrapeService private readonly _scrapeService: ScrapeService,
     @IPaperService private readonly _paperService: PaperService,
     @ISchedulerService private readonly _schedulerService: SchedulerService,
+    @IFeedRuleService private readonly _feedRuleService: FeedRuleService,
+    @IRecommendService private readonly _recommendService: RecommendService,
     @ILogService private readonly _logService: LogService
   ) {
     super("feedService", {
@@ -62,6 +74,7 @@ export class FeedService extends Eventable<IFeedServiceState> {
       this.fire({
         updated: payload.value,
       });
+      this._scheduleFeeds();
     });
 
     this._feedEntityRepository.on(["count", "updated"], (payload) => {
@@ -72,6 +85,10 @@ export class FeedService extends Eventable<IFeedServiceState> {
       });
     });
 
+    this._feedRuleService.on("updated", () => {
+      this.rescore();
+    });
+
     this._databaseCore.already("dbInitialized", () => {
       this._schedulerService.createTask(
         "feedServiceScrapePreprint",
@@ -84,6 +101,7 @@ export class FeedService extends Eventable<IFeedServiceState> {
         false,
         60000
       );
+      this._scheduleFeeds();
     });
   }
 
@@ -126,6 +144,10 @@ export class FeedService extends Eventable<IFeedServiceState> {
     if (!(filter instanceof FeedEntityFilterOptions)) {
       filter = new FeedEntityFilterOptions(filter);
     }
+    // Relevance is only defined for fulltext search of papers.
+    if (sortBy === "relevance") {
+      sortBy = "addTime";
+    }
 
     return this._feedEntityRepository.load(
       await this._databaseCore.realm(),
@@ -231,11 +253,89 @@ export class FeedService extends Eventable<IFeedServiceState> {
       feed.name = feed.name.replace(/"/g, "'");
     });
 
-    const updatedFeeds = await this.update(feeds);
+    // The create log above already covers this update.
+    const updatedFeeds = await this.update(feeds, true);
 
     await this.refresh(undefined, updatedFeeds);
   }
 
+  /**
+   * Import feeds from an OPML file. Feeds with the same names or URLs as existing ones are skipped.
+   * @param filePath - The path of the OPML file.
+   * @returns The numbers of imported and skipped feeds.
+   */
+  @processing(ProcessingKey.General)
+  @errorcatching(
+    "Failed to import feeds from the OPML file.",
+    true,
+    "FeedService",
+    {
+      imported: 0,
+      duplicated: 0,
+    }
+  )
+  async importOPML(filePath: string) {
+    if (this._databaseCore.getState("dbInitializing")) {
+      return { imported: 0, duplicated: 0 };
+    }
+    const opmlFeeds = parseOPML(await promises.readFile(filePath, "utf-8"));
+
+    const existingFeeds = Array.from(
+      this._feedRepository.load(
+        await this._databaseCore.realm(),
+        "name",
+        "asce"
+      )
+    );
+    const names = new Set(existingFeeds.map((feed) => feed.name));
+    const urls = new Set(existingFeeds.map((feed) => feed.url));
+
+    const feeds: Feed[] = [];
+    for (const opmlFeed of opmlFeeds) {
+      // Names are quoted in queries, see `create`.
+      const name = opmlFeed.name.replace(/"/g, "'");
+      if (names.has(name) || urls.has(opmlFeed.url)) {
+        continue;
+      }
+      names.add(name);
+      urls.add(opmlFeed.url);
+      feeds.push(new Feed({ name, url: opmlFeed.url }, true));
+    }
+
+    if (feeds.length > 0) {
+      await this.create(feeds);
+    }
+
+    return {
+      imported: feeds.length,
+      duplicated: opmlFeeds.length - feeds.length,
+    };
+  }
+
+  /**
+   * Export all feeds to an OPML file.
+   * @param folderPath - The folder to save the OPML file.
+   * @returns The path of the OPML file.
+   */
+  @processing(ProcessingKey.General)
+  @errorcatching("Failed to export feeds to OPML.", true, "FeedService", "")
+  async exportOPML(folderPath: string) {
+    if (this._databaseCore.getState("dbInitializing")) {
+      return "";
+    }
+    const feeds = this._feedRepository.load(
+      await this._databaseCore.realm(),
+      "name",
+      "asce"
+    );
+    const filePath = path.join(folderPath, "paperlib-feeds.opml");
+    await promises.writeFile(
+      filePath,
+      formatOPML(feeds.map((feed) => ({ name: feed.name, url: feed.url })))
+    );
+    return filePath;
+  }
+
   /**
    * Refresh feeds.
    * @param ids - Feed ids
@@ -275,8 +375,34 @@ export class FeedService extends Eventable<IFeedServiceState> {
     >(
       feeds!,
       async (feed: IFeedObject) => {
-        const feedEntityDrafts = await this._rssRepository.fetch(feed);
-        return feedEntityDrafts;
+        try {
+          const { feedEntityDrafts, notModified, etag, lastModified } =
+            await this._rssRepository.fetch(feed);
+          this._feedRepository.updateHealth(realm, feed, {
+            etag,
+            lastModified,
+            lastSuccessTime: new Date(),
+            // An unmodified feed has the same entities as the last fetch.
+            ...(notModified ? {} : { itemCount: feedEntityDrafts.length }),
+          });
+          // Entities deleted by the retention are not added again as new ones.
+          const deletedTitles = new Set(feed.deletedTitles || []);
+          return feedEntityDrafts.filter(
+            (feedEntityDraft) => !deletedTitles.has(feedEntityDraft.title)
+          );
+        } catch (error) {
+          this._feedRepository.updateHealth(realm, feed, {
+            lastErrorTime: new Date(),
+            lastError: (error as Error).message,
+          });
+          this._logService.error(
+            `Failed to refresh feeds: ${feed.name}`,
+            error as Error,
+            true,
+            "Feed"
+          );
+          throw error;
+        }
       },
       async () => {
         return [];
@@ -284,15 +410,6 @@ export class FeedService extends Eventable<IFeedServiceState> {
       5
     );
 
-    for (const i in feedEntityDraftListAndErrors.errors) {
-      const error = feedEntityDraftListAndErrors.errors[i];
-      this._logService.error(
-        `Failed to refresh feeds: ${feeds![i].name}`,
-        error as Error,
-        true,
-        "Feed"
-      );
-    }
     const feedEntityDrafts = feedEntityDraftListAndErrors.results.flat();
 
     this._logService.info(
@@ -302,7 +419,100 @@ export class FeedService extends Eventable<IFeedServiceState> {
       "FeedService"
     );
 
+    await this._recommendService.recommend(feedEntityDrafts);
+    const toBeAdded = await this._applyRules(realm, feedEntityDrafts);
+
     await this.updateEntities(feedEntityDrafts, true);
+
+    for (const [tags, feedEntities] of toBeAdded) {
+      await this.addToLib(feedEntities, tags ? tags.split("\n") : []);
+    }
+  }
+
+  /**
+   * Score feed entities by the rules, and run the actions of the matched rules on the new ones.
+   * @param realm - Realm instance.
+   * @param feedEntityDrafts - Feed entities fetched from feeds.
+   * @returns New feed entities to be added to the library, grouped by the names of their tags joined by newlines.
+   */
+  private async _applyRules(
+    realm: Realm,
+    feedEntityDrafts: IFeedEntityObject[]
+  ) {
+    const rules = await this._feedRuleService.load();
+    const toBeAdded = new Map<string, IFeedEntityObject[]>();
+
+    for (const feedEntityDraft of feedEntityDrafts) {
+      const { score, matched } = scoreFeedEntity(
+        rules,
+        feedEntityDraft,
+        `${feedEntityDraft.feed._id}`
+      );
+      feedEntityDraft.score = score;
+
+      // Actions only run once, when an entity is fetched for the first time.
+      if (
+        matched.length === 0 ||
+        this._feedEntityRepository.toRealmObject(realm, feedEntityDraft)
+      ) {
+        continue;
+      }
+      const tags = new Set<string>();
+      let addToLib = false;
+      for (const rule of matched) {
+        if (rule.action === "markread") {
+          feedEntityDraft.read = true;
+        } else if (rule.action === "tag") {
+          tags.add(rule.tag);
+          addToLib = true;
+        } else if (rule.action === "addtolib") {
+          addToLib = true;
+        }
+      }
+      if (addToLib) {
+        const key = Array.from(tags).sort().join("\n");
+        toBeAdded.set(key, [...(toBeAdded.get(key) || []), feedEntityDraft]);
+      }
+    }
+
+    return toBeAdded;
+  }
+
+  /**
+   * Score all feed entities again by the current rules, without running their actions.
+   */
+  @processing(ProcessingKey.General)
+  @errorcatching("Failed to score feed entities.", true, "FeedService")
+  async rescore() {
+    if (this._databaseCore.getState("dbInitializing")) {
+      return;
+    }
+    const rules = await this._feedRuleService.load();
+    const realm = await this._databaseCore.realm();
+
+    const feedEntityDrafts: FeedEntity[] = [];
+    for (const feedEntity of this._feedEntityRepository.load(
+      realm,
+      "",
+      [],
+      "addTime",
+      "desc"
+    )) {
+      const { score } = scoreFeedEntity(
+        rules,
+        feedEntity,
+        `${feedEntity.feed._id}`
+      );
+      if (score !== feedEntity.score) {
+        const feedEntityDraft = new FeedEntity(feedEntity);
+        feedEntityDraft.score = score;
+        feedEntityDrafts.push(feedEntityDraft);
+      }
+    }
+
+    if (feedEntityDrafts.length > 0) {
+      await this.updateEntities(feedEntityDrafts, true);
+    }
   }
 
   /**
@@ -385,9 +595,10 @@ export class FeedService extends Eventable<IFeedServiceState> {
   /**
    * Add feed entities to library.
    * @param feedEntities - Feed entities
+   * @param tags - Names of the tags of the added papers. Default: [].
    */
   @errorcatching("Failed to add feed entities to library.", true, "FeedService")
-  async addToLib(feedEntities: IFeedEntityCollection) {
+  async addToLib(feedEntities: IFeedEntityCollection, tags: string[] = []) {
     if (this._databaseCore.getState("dbInitializing")) {
       return;
     }
@@ -406,6 +617,7 @@ export class FeedService extends Eventable<IFeedServiceState> {
         );
         // NOTE: we don't want to download the PDFs when adding to library.
         paperEntityDraft.mainURL = "";
+        paperEntityDraft.tags = tags.map((tag) => new PaperTag({ name: tag }));
         return paperEntityDraft;
       }
     );
@@ -414,15 +626,137 @@ export class FeedService extends Eventable<IFeedServiceState> {
     await this._paperService.update(paperEntityDrafts, false, false);
   }
 
+  /**
+   * Delete feed entities by the retention of their feeds.
+   * Flagged entities and the entities in the library are never deleted.
+   * @returns The number of deleted feed entities.
+   */
+  @processing(ProcessingKey.General)
+  @errorcatching("Failed to compact feeds.", true, "FeedService", 0)
+  async compact() {
+    if (this._databaseCore.getState("dbInitializing")) {
+      return 0;
+    }
+    const count = await this._compact();
+    this._logService.info(
+      `Purged ${count} feed entities.`,
+      "",
+      true,
+      "FeedService"
+    );
+    return count;
+  }
+
+  private async _compact() {
+    const normalizeTitle = (title: string) =>
+      title.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+
+    const titles = new Set<string>();
+    const dois = new Set<string>();
+    const arxivs = new Set<string>();
+    for (const paperEntity of await this._paperService.load(
+      "",
+      "addTime",
+      "desc"
+    )) {
+      titles.add(normalizeTitle(paperEntity.title));
+      if (paperEntity.doi) {
+        dois.add(paperEntity.doi.toLowerCase());
+      }
+      if (paperEntity.arxiv) {
+        arxivs.add(paperEntity.arxiv.replace(/v\d+$/, ""));
+      }
+    }
+
+    return this._feedEntityRepository.compact(
+      await this._databaseCore.realm(),
+      (feedEntity) =>
+        titles.has(normalizeTitle(feedEntity.title)) ||
+        (!!feedEntity.doi && dois.has(feedEntity.doi.toLowerCase())) ||
+        (!!feedEntity.arxiv &&
+          arxivs.has(feedEntity.arxiv.replace(/v\d+$/, "")))
+    );
+  }
+
+  /**
+   * Schedule the refreshes of feeds with their own refresh intervals.
+   * Tasks are only created again if the intervals are changed, so that updating feeds does not delay their refreshes.
+   * Feeds not fetched within their intervals, e.g., while the app was closed, are refreshed shortly after their tasks are created.
+   */
+  @errorcatching("Failed to schedule feeds.", true, "FeedService")
+  private async _scheduleFeeds() {
+    if (this._databaseCore.getState("dbInitializing")) {
+      return;
+    }
+    const intervals = new Map<string, number>();
+    const overdueIds = new Set<string>();
+    for (const feed of this._feedRepository.load(
+      await this._databaseCore.realm(),
+      "name",
+      "asce"
+    )) {
+      if (feed.refreshInterval && feed.refreshInterval > 0) {
+        intervals.set(`${feed._id}`, feed.refreshInterval);
+        // Failed fetches also count, so that a broken feed is not retried at every launch.
+        const lastRefreshTime = Math.max(
+          feed.lastSuccessTime?.getTime() || 0,
+          feed.lastErrorTime?.getTime() || 0
+        );
+        if (Date.now() - lastRefreshTime >= feed.refreshInterval * 3600000) {
+          overdueIds.add(`${feed._id}`);
+        }
+      }
+    }
+
+    for (const [id, interval] of this._scheduledIntervals) {
+      if (intervals.get(id) !== interval) {
+        this._schedulerService.removeTask(`feedServiceRefresh-${id}`);
+        this._scheduledIntervals.delete(id);
+      }
+    }
+    for (const [id, interval] of intervals) {
+      if (this._scheduledIntervals.has(id)) {
+        continue;
+      }
+      this._schedulerService.createTask(
+        `feedServiceRefresh-${id}`,
+        () => {
+          this._scheduledRefresh(id);
+        },
+        interval * 3600,
+        undefined,
+        overdueIds.has(id),
+        false,
+        overdueIds.has(id) ? 60000 : 0
+      );
+      this._scheduledIntervals.set(id, interval);
+    }
+  }
+
+  @processing(ProcessingKey.General)
+  @errorcatching("Failed to refresh the feed (scheduled).", true, "FeedService")
+  private async _scheduledRefresh(id: string) {
+    if (this._databaseCore.getState("dbInitializing")) {
+      return;
+    }
+    await this.refresh([id]);
+    await this._compact();
+  }
+
   @processing(ProcessingKey.General)
   @errorcatching("Failed to refresh feeds (routine).", true, "FeedService")
   private async _routineRefresh() {
     if (this._databaseCore.getState("dbInitializing")) {
       return;
     }
-    const feeds = (await this.load("name", "desc")) as Feed[];
-    await this.refresh(undefined, feeds);
-    this._feedEntityRepository.deleteOutdate(await this._databaseCore.realm());
+    // Feeds with their own refresh intervals are refreshed by their own tasks.
+    const feeds = ((await this.load("name", "desc")) as Feed[]).filter(
+      (feed) => !feed.refreshInterval
+    );
+    if (feeds.length > 0) {
+      await this.refresh(undefined, feeds);
+    }
+    await this._compact();
   }
 
   /**
@@ -437,7 +771,10 @@ export class FeedService extends Eventable<IFeedServiceState> {
     const localRealm = new Realm(localConfig);
 
     const feeds = localRealm.objects<Feed>("Feed");
-    await this.update(feeds.map((feed) => new Feed(feed)));
+    await this.update(
+      feeds.map((feed) => new Feed(feed)),
+      true
+    );
 
     const feedEntities = localRealm.objects<FeedEntity>("FeedEntity");
     await this.updateEntities(
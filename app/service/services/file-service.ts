@@ -5,6 +5,12 @@ import path, { isAbsolute } from "path";
 
 import { errorcatching } from "@/base/error";
 import { Eventable } from "@/base/event";
+import {
+  DEFAULT_SUP_RENAMING_TEMPLATE,
+  RENAMING_FORMAT_TEMPLATES,
+  disambiguateFileName,
+  formatFileName,
+} from "@/base/filename";
 import { createDecorator } from "@/base/injection/injection";
 import {
   constructFileURL,
@@ -34,6 +40,8 @@ export const IFileService = createDecorator("fileService");
 
 export class FileService extends Eventable<IFileServiceState> {
   private _backend?: IFileBackend;
+  // Lowercase paths of files being moved, which are not planned for other files.
+  private readonly _plannedFileNames = new Set<string>();
 
   constructor(
     @IHookService private readonly _hookService: HookService,
@@ -143,116 +151,106 @@ export class FileService extends Eventable<IFileServiceState> {
   }
 
   /**
-   * Infer the relative path of a paper entity.
+   * Infer the relative path of the main file of a paper entity, without the extension.
    * @param paperEntity - Paper entity to infer the relative path
    */
   async inferRelativeFileName(paperEntity: Entity): Promise<string> {
-    // Prepare ingredients
-    let titleStr =
-      paperEntity.title.replace(/[^\p{L}\s\d]/gu, "").replace(/\s/g, "_") ||
-      "untitled";
-    const firstCharTitleStr =
-      titleStr
-        .split("_")
-        .map((word: string) => {
-          if (word) {
-            return word.slice(0, 1);
-          } else {
-            return "";
-          }
-        })
-        .filter((c: string) => c && c === c.toUpperCase())
-        .join("") || "untitled";
-    let authorStr =
-      paperEntity.authors.split(",").map((author) => author.trim())[0] ||
-      "anonymous";
-    const firstNameStr = authorStr.split(" ").shift() || "anonymous";
-    const lastNameStr = authorStr.split(" ").pop() || "anonymous";
-    const yearStr = paperEntity.year || "0000";
-    let publicationStr =
-      paperEntity.journal ||
-      paperEntity.booktitle ||
-      paperEntity.publisher ||
-      paperEntity.school ||
-      paperEntity.institution ||
-      "unknown";
-    publicationStr = publicationStr.replace(/[^\p{L}\s\d]/gu, "");
-    let idStr = paperEntity._id.toString();
-
-    // =============================
-
     const renamingFormat = (await PLMainAPI.preferenceService.get(
       "renamingFormat"
     )) as string;
-    let formatedFilename = "";
-    if (renamingFormat === "short") {
-      formatedFilename = `${firstCharTitleStr}_${idStr}`;
-    } else if (renamingFormat === "authortitle") {
-      if (authorStr !== paperEntity.authors && authorStr !== "anonymous") {
-        authorStr = `${authorStr} et al`;
-      }
-      idStr = idStr.slice(-5, -1);
-      formatedFilename = `${authorStr} - ${titleStr.slice(0, 20)}_${idStr}`;
-    } else if (renamingFormat === "custom") {
-      formatedFilename = (
-        (await PLMainAPI.preferenceService.get(
-          "customRenamingFormat"
-        )) as string
-      )
-        .replaceAll("{title}", titleStr.slice(0, 150))
-        .replaceAll("{firstchartitle}", firstCharTitleStr)
-        .replaceAll("{author}", authorStr)
-        .replaceAll("{year}", yearStr)
-        .replaceAll("{lastname}", lastNameStr)
-        .replaceAll("{firstname}", firstNameStr)
-        .replaceAll("{publication}", publicationStr.slice(0, 100))
-        .slice(0, 250);
-      if (formatedFilename) {
-        formatedFilename = `${formatedFilename}_${idStr}`;
-      } else {
-        formatedFilename = `${idStr}`;
-      }
-    } else {
-      formatedFilename = `${titleStr.slice(0, 200)}_${idStr}`;
+    const template =
+      renamingFormat === "custom"
+        ? ((await PLMainAPI.preferenceService.get(
+            "customRenamingFormat"
+          )) as string)
+        : RENAMING_FORMAT_TEMPLATES[
+            renamingFormat as keyof typeof RENAMING_FORMAT_TEMPLATES
+          ] || RENAMING_FORMAT_TEMPLATES.full;
+
+    return formatFileName(template, paperEntity);
+  }
+
+  /**
+   * Plan the relative paths of the files of a paper entity in the library folder.
+   * The main file is named by the renaming format, and other files by the template of supplementary files.
+   * A path used by another file gets a suffix like `_2` instead of overwriting it.
+   * @param paperEntity - Paper entity to plan the paths
+   * @param planned - Lowercase paths planned for other files, which are not used again
+   * @returns Paths with extensions by ids of the supplementaries
+   */
+  async planFileNames(
+    paperEntity: Entity,
+    planned: Set<string> = this._plannedFileNames
+  ): Promise<Record<string, string>> {
+    const backend = await this.backend();
+
+    const mainFilename = await this.inferRelativeFileName(paperEntity);
+    const supRenamingFormat =
+      ((await PLMainAPI.preferenceService.get(
+        "supRenamingFormat"
+      )) as string) || DEFAULT_SUP_RENAMING_TEMPLATE;
+
+    // The main file is planned first, so that it gets the path without a suffix.
+    const sups = Object.values(paperEntity.supplementaries)
+      .filter((sup) => getProtocol(sup.url) === "file")
+      .sort(
+        (a, b) =>
+          Number(b._id === paperEntity.defaultSup) -
+          Number(a._id === paperEntity.defaultSup)
+      );
+
+    const fileNames: Record<string, string> = {};
+    for (const sup of sups) {
+      const filename =
+        sup._id === paperEntity.defaultSup
+          ? mainFilename
+          : formatFileName(supRenamingFormat, paperEntity, {
+              name: sup.name,
+              main: mainFilename,
+            });
+      const currentFilename = eraseProtocol(sup.url).toLowerCase();
+
+      fileNames[sup._id] = await disambiguateFileName(
+        filename,
+        path.extname(sup.url),
+        async (candidate) => {
+          const key = candidate.toLowerCase();
+          if (planned.has(key)) {
+            return true;
+          }
+          // The path is claimed before checking the disk, so that concurrent plans do not take it too.
+          planned.add(key);
+          if (key !== currentFilename && (await backend.exists(candidate))) {
+            planned.delete(key);
+            return true;
+          }
+          return false;
+        }
+      );
     }
 
-    formatedFilename = formatedFilename
-      .replace(/\\/g, "/")
-      .replace(/[*?"<>|:#\\]/g, "");
-    return formatedFilename;
+    return fileNames;
   }
 
   /**
    * Move files of a paper entity to the library folder
    * @param paperEntity - Paper entity to move
-   * @param moveMain - Move the main file
-   * @param moveSups - Move the supplementary files
    * @returns
    */
-  async move(
-    paperEntity: Entity,
-  ): Promise<Entity> {
+  async move(paperEntity: Entity): Promise<Entity> {
     const backend = await this.backend();
 
+    const fileNames: Record<string, string> = {};
     try {
-      const formatedFilename = await this.inferRelativeFileName(paperEntity);
-      
+      Object.assign(fileNames, await this.planFileNames(paperEntity));
+
       for (const [id, sup] of Object.entries(paperEntity.supplementaries)) {
-        if (getProtocol(sup.url) !== "file") {
+        if (!fileNames[id]) {
           continue;
         }
 
-        const movedFilename = await backend.moveFile(
-          sup.url,
-          `${formatedFilename}_${sup._id}${path.extname(sup.url)}`
-        );
-        sup.url = constructFileURL(
-          movedFilename,
-          false,
-          true,
-          "",
-          "file://",
-        );
+        const movedFilename = await backend.moveFile(sup.url, fileNames[id]);
+        sup.url = constructFileURL(movedFilename, false, true, "", "file://");
         paperEntity.supplementaries[id] = sup;
       }
 
@@ -276,6 +274,10 @@ export class FileService extends Eventable<IFileServiceState> {
         "FileService"
       );
       return paperEntity;
+    } finally {
+      for (const fileName of Object.values(fileNames)) {
+        this._plannedFileNames.delete(fileName.toLowerCase());
+      }
     }
   }
 
@@ -369,6 +371,7 @@ export class FileService extends Eventable<IFileServiceState> {
           delete paperEntity.supplementaries[paperEntity.defaultSup];
         }
         paperEntity.defaultSup = undefined;
+        return paperEntity;
       });
       if (this._hookService.hasHook("locateFile")) {
         [updatedPaperEntityDrafts] = await this._hookService.modifyHookPoint(
@@ -177,8 +177,9 @@ export class HookService {
           return args;
         }
 
-        return await PLExtAPI.extensionManagementService.callExtensionMethod(
+        return await PLExtAPI.extensionManagementService.callExtensionHook(
           extensionID,
+          hookName,
           callbackName,
           ...args
         );
@@ -238,8 +239,9 @@ export class HookService {
           return [];
         }
 
-        return await PLExtAPI.extensionManagementService.callExtensionMethod(
+        return await PLExtAPI.extensionManagementService.callExtensionHook(
           extensionID,
+          hookName,
           callbackName,
           ...args
         );
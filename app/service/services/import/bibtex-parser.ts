@@ -0,0 +1,431 @@
+import { parseAuthorName } from "@/base/author";
+import { IAuthor } from "@/models/author";
+
+export interface IBibTeXEntry {
+  // 0-based position of the entry in the file.
+  index: number;
+  type: string;
+  key: string;
+  // Lowercased field names to raw values, with macros expanded but LaTeX kept.
+  fields: Record<string, string>;
+}
+
+export interface IBibTeXParseError {
+  index: number;
+  key?: string;
+  message: string;
+}
+
+const MONTH_MACROS: Record<string, string> = {
+  jan: "1",
+  feb: "2",
+  mar: "3",
+  apr: "4",
+  may: "5",
+  jun: "6",
+  jul: "7",
+  aug: "8",
+  sep: "9",
+  oct: "10",
+  nov: "11",
+  dec: "12",
+};
+
+class BibTeXSyntaxError extends Error {}
+
+/**
+ * A tolerant parser of BibTeX and BibLaTeX files.
+ * An entry with a syntax error is reported and skipped, and parsing goes on from the next `@`.
+ */
+class BibTeXParser {
+  private _pos = 0;
+  private readonly _macros: Record<string, string> = { ...MONTH_MACROS };
+
+  readonly entries: IBibTeXEntry[] = [];
+  readonly errors: IBibTeXParseError[] = [];
+
+  constructor(private readonly _text: string) {}
+
+  parse() {
+    let index = 0;
+    while (this._skipToNextEntry()) {
+      const start = this._pos;
+      let key: string | undefined;
+      let opened = false;
+      try {
+        this._pos += 1;
+        const type = this._readIdentifier().toLowerCase();
+        this._skipWhitespace();
+        const close = this._readOpening();
+        opened = true;
+
+        if (type === "comment") {
+          this._readBalanced(close);
+          continue;
+        } else if (type === "preamble") {
+          this._readValue();
+          this._skipWhitespace();
+          this._expect(close);
+          continue;
+        } else if (type === "string") {
+          this._skipWhitespace();
+          const name = this._readIdentifier().toLowerCase();
+          this._skipWhitespace();
+          this._expect("=");
+          this._macros[name] = this._readValue();
+          this._skipWhitespace();
+          this._expect(close);
+          continue;
+        }
+
+        this._skipWhitespace();
+        key = this._readKey();
+        const fields: Record<string, string> = {};
+        this._skipWhitespace();
+        while (this._peek() === ",") {
+          this._pos += 1;
+          this._skipWhitespace();
+          if (this._peek() === close) {
+            break;
+          }
+          const name = this._readIdentifier().toLowerCase();
+          this._skipWhitespace();
+          this._expect("=");
+          fields[name] = this._readValue();
+          this._skipWhitespace();
+        }
+        this._expect(close);
+
+        this.entries.push({ index, type, key, fields });
+        index += 1;
+      } catch (error) {
+        if (!(error instanceof BibTeXSyntaxError)) {
+          throw error;
+        }
+        // Resume after the `@` of the broken entry.
+        this._pos = start + 1;
+        if (!opened) {
+          // An `@` in the text between entries, which is a comment.
+          continue;
+        }
+        this.errors.push({
+          index,
+          key: key || undefined,
+          message: error.message,
+        });
+        index += 1;
+      }
+    }
+
+    return this;
+  }
+
+  private _error(message: string): never {
+    throw new BibTeXSyntaxError(
+      `${message} at line ${this._lineOf(this._pos)}.`
+    );
+  }
+
+  private _lineOf(pos: number) {
+    return this._text.slice(0, pos).split("\n").length;
+  }
+
+  private _peek() {
+    return this._text[this._pos];
+  }
+
+  private _expect(char: string) {
+    if (this._peek() !== char) {
+      this._error(
+        this._pos >= this._text.length
+          ? `Expected "${char}" but the file ended`
+          : `Expected "${char}" but found "${this._peek()}"`
+      );
+    }
+    this._pos += 1;
+  }
+
+  private _skipWhitespace() {
+    while (this._pos < this._text.length && /\s/.test(this._peek())) {
+      this._pos += 1;
+    }
+  }
+
+  private _skipToNextEntry() {
+    const next = this._text.indexOf("@", this._pos);
+    if (next < 0) {
+      return false;
+    }
+    this._pos = next;
+    return true;
+  }
+
+  private _readOpening() {
+    const char = this._peek();
+    if (char === "{") {
+      this._pos += 1;
+      return "}";
+    } else if (char === "(") {
+      this._pos += 1;
+      return ")";
+    }
+    this._error(`Expected "{" or "(" after the entry type`);
+  }
+
+  private _readIdentifier() {
+    const match = /^[^\s"#%'(),={}@]+/.exec(this._text.slice(this._pos));
+    if (!match) {
+      this._error("Expected a name");
+    }
+    this._pos += match[0].length;
+    return match[0];
+  }
+
+  private _readKey() {
+    const match = /^[^\s,{}()"]*/.exec(this._text.slice(this._pos))!;
+    this._pos += match[0].length;
+    return match[0];
+  }
+
+  // Read until the closing delimiter at depth 0, returning the content without it.
+  private _readBalanced(close: string) {
+    const open = close === "}" ? "{" : close === ")" ? "(" : "";
+    const start = this._pos;
+    let depth = 0;
+    while (this._pos < this._text.length) {
+      const char = this._peek();
+      if (char === "\\") {
+        this._pos += 2;
+        continue;
+      }
+      if (char === open && open) {
+        depth += 1;
+      } else if (char === "{" && !open) {
+        depth += 1;
+      } else if (char === "}" && !open) {
+        depth -= 1;
+      } else if (char === close && depth === 0) {
+        this._pos += 1;
+        return this._text.slice(start, this._pos - 1);
+      } else if (char === close) {
+        depth -= 1;
+      }
+      this._pos += 1;
+    }
+    this._pos = start - 1;
+    this._error(`Unclosed "${open || close}"`);
+  }
+
+  // Read a field value, made of braced or quoted strings, numbers and macros concatenated by `#`.
+  private _readValue() {
+    const parts: string[] = [];
+    for (;;) {
+      this._skipWhitespace();
+      const char = this._peek();
+      if (char === "{") {
+        this._pos += 1;
+        parts.push(this._readBalanced("}"));
+      } else if (char === '"') {
+        this._pos += 1;
+        parts.push(this._readBalanced('"'));
+      } else if (char !== undefined && /[0-9]/.test(char)) {
+        parts.push(/^[0-9]+/.exec(this._text.slice(this._pos))![0]);
+        this._pos += parts[parts.length - 1].length;
+      } else {
+        const name = this._readIdentifier();
+        const value = this._macros[name.toLowerCase()];
+        if (value === undefined) {
+          this._error(`Undefined string "${name}"`);
+        }
+        parts.push(value);
+      }
+      this._skipWhitespace();
+      if (this._peek() !== "#") {
+        break;
+      }
+      this._pos += 1;
+    }
+    return parts.join("");
+  }
+}
+
+/**
+ * Parse the entries of a BibTeX or BibLaTeX file.
+ * @param text - The content of the file.
+ * @returns The parsed entries and the errors of the entries failed to parse.
+ */
+export function parseBibTeX(text: string) {
+  const parser = new BibTeXParser(text).parse();
+  return { entries: parser.entries, errors: parser.errors };
+}
+
+const LATEX_ACCENTS: Record<string, string> = {
+  "`": "̀",
+  "'": "́",
+  "^": "̂",
+  "~": "̃",
+  "=": "̄",
+  u: "̆",
+  ".": "̇",
+  '"': "̈",
+  r: "̊",
+  H: "̋",
+  v: "̌",
+  d: "̣",
+  c: "̧",
+  k: "̨",
+};
+
+const LATEX_SYMBOLS: Record<string, string> = {
+  ss: "ß",
+  o: "ø",
+  O: "Ø",
+  ae: "æ",
+  AE: "Æ",
+  oe: "œ",
+  OE: "Œ",
+  aa: "å",
+  AA: "Å",
+  l: "ł",
+  L: "Ł",
+  i: "ı",
+  j: "ȷ",
+  textendash: "–",
+  textemdash: "—",
+  textquoteleft: "‘",
+  textquoteright: "’",
+  textquotedblleft: "“",
+  textquotedblright: "”",
+  textasciitilde: "~",
+  textbackslash: "\\",
+  textunderscore: "_",
+  ldots: "…",
+  dots: "…",
+  S: "§",
+  P: "¶",
+  copyright: "©",
+};
+
+// Commands whose argument is kept as text.
+const LATEX_TEXT_COMMANDS =
+  /\\(?:text(?:it|bf|sl|sc|tt|rm|sf|up|normal)?|emph|mathrm|mbox|url|uppercase|lowercase|NoCaseChange)\s*\{([^{}]*)\}/g;
+
+function accentedOf(letter: string, accent: string) {
+  const base = letter === "\\i" ? "i" : letter === "\\j" ? "j" : letter;
+  return `${base}${LATEX_ACCENTS[accent]}`;
+}
+
+function decodeLaTeXText(text: string) {
+  let decoded = text;
+  for (let i = 0; i < 3; i++) {
+    decoded = decoded.replace(LATEX_TEXT_COMMANDS, "$1");
+  }
+
+  decoded = decoded
+    // Accents: \"o, \"{o}, {\"o}, \v{s}, \c c.
+    .replace(
+      /\\([`'^~=."])\s*(?:\{\s*(\\[ij]|[a-zA-Z])\s*\}|(\\[ij]|[a-zA-Z]))/g,
+      (_, accent: string, braced?: string, bare?: string) =>
+        accentedOf(braced ?? bare!, accent)
+    )
+    .replace(
+      /\\([uvrHdck])(?:\s*\{\s*(\\[ij]|[a-zA-Z])\s*\}|\s+(\\[ij]|[a-zA-Z])(?![a-zA-Z]))/g,
+      (_, accent: string, braced?: string, bare?: string) =>
+        accentedOf(braced ?? bare!, accent)
+    )
+    .replace(/\\([a-zA-Z]+)(?:\{\}|\s|(?![a-zA-Z]))/g, (match, name: string) =>
+      LATEX_SYMBOLS[name] !== undefined ? LATEX_SYMBOLS[name] : match
+    )
+    .replace(/---/g, "—")
+    .replace(/--/g, "–")
+    .replace(/``|''/g, '"')
+    .replace(/(?<!\\)~/g, " ")
+    .replace(/(?<!\\)[{}]/g, "")
+    .replace(/\\([&%$#_{}~])/g, "$1");
+
+  return decoded.normalize("NFC");
+}
+
+/**
+ * Decode the LaTeX of a field value into plain text. Inline formulas between `$` are kept as they are.
+ * @param value - The raw field value.
+ * @returns The plain text with whitespaces collapsed.
+ */
+export function decodeLaTeX(value: string) {
+  return value
+    .split(/((?<!\\)\$[^$]*(?<!\\)\$)/)
+    .map((part, i) => (i % 2 === 1 ? part : decodeLaTeXText(part)))
+    .join("")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Split the names of an author or editor field, which are separated by `and` outside braces.
+ * @param value - The raw field value.
+ * @returns The raw names.
+ */
+export function splitBibTeXNames(value: string) {
+  const names: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === "{") {
+      depth += 1;
+    } else if (char === "}") {
+      depth -= 1;
+    } else if (
+      depth === 0 &&
+      /\s/.test(char) &&
+      /^\s+and\s/i.test(value.slice(i))
+    ) {
+      names.push(value.slice(start, i));
+      i += /^\s+and/i.exec(value.slice(i))![0].length;
+      start = i;
+    }
+  }
+  names.push(value.slice(start));
+  return names.map((name) => name.trim()).filter((name) => name);
+}
+
+/**
+ * Convert a raw BibTeX name in the `Last, First`, `Last, Jr, First` or `First Last` form
+ * into the `First Last` form of Paperlib.
+ */
+export function formatBibTeXName(name: string) {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < name.length; i++) {
+    if (name[i] === "{") {
+      depth += 1;
+    } else if (name[i] === "}") {
+      depth -= 1;
+    } else if (name[i] === "," && depth === 0) {
+      parts.push(name.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(name.slice(start));
+
+  const [last, ...rest] = parts.map((part) => decodeLaTeX(part));
+  if (rest.length === 0) {
+    return last;
+  }
+  const first = rest[rest.length - 1];
+  const jr = rest.length > 1 ? rest[0] : "";
+  return [first, last, jr].filter((part) => part).join(" ");
+}
+
+/**
+ * Parse a raw BibTeX name into an author. A name wholly in braces, e.g.,
+ * `{World Health Organization}`, is the literal name of an organization.
+ */
+export function parseBibTeXName(name: string): IAuthor {
+  name = name.trim();
+  if (/^\{[^{}]*\}$/.test(name)) {
+    return { literal: decodeLaTeX(name) };
+  }
+  return parseAuthorName(formatBibTeXName(name));
+}
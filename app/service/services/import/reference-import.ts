@@ -0,0 +1,631 @@
+import path from "path";
+import { fileURLToPath } from "url";
+
+import { formatAuthors, parseAuthorName } from "@/base/author";
+import { IAuthor } from "@/models/author";
+import { Entity, EntityType, IEntity } from "@/models/entity";
+
+import {
+  IBibTeXEntry,
+  decodeLaTeX,
+  formatBibTeXName,
+  parseBibTeX,
+  parseBibTeXName,
+  splitBibTeXNames,
+} from "./bibtex-parser";
+import { IRISRecord, parseRIS } from "./ris-parser";
+
+export type ReferenceFileFormat = "bibtex" | "ris" | "csljson";
+
+export interface IReferenceImportError {
+  // 0-based position of the entry in the file.
+  index: number;
+  // The citation key or the title of the entry, if known.
+  key?: string;
+  message: string;
+}
+
+export interface IReferenceImportFile {
+  // Description of the file given in the entry.
+  name?: string;
+  // Absolute path or web URL of the file.
+  url: string;
+}
+
+export interface IReferenceImportRecord {
+  index: number;
+  key?: string;
+  entity: Entity;
+  files: IReferenceImportFile[];
+}
+
+const BIBTEX_TYPES: Record<string, EntityType> = {
+  article: "article",
+  book: "book",
+  mvbook: "book",
+  collection: "book",
+  mvcollection: "book",
+  reference: "book",
+  mvreference: "book",
+  booklet: "booklet",
+  inbook: "inbook",
+  bookinbook: "inbook",
+  suppbook: "inbook",
+  incollection: "incollection",
+  suppcollection: "incollection",
+  inreference: "incollection",
+  inproceedings: "inproceedings",
+  conference: "inproceedings",
+  manual: "manual",
+  mastersthesis: "mastersthesis",
+  phdthesis: "phdthesis",
+  thesis: "phdthesis",
+  proceedings: "proceedings",
+  mvproceedings: "proceedings",
+  techreport: "techreport",
+  report: "techreport",
+};
+
+const RIS_TYPES: Record<string, EntityType> = {
+  JOUR: "article",
+  JFULL: "article",
+  EJOUR: "article",
+  MGZN: "article",
+  NEWS: "article",
+  BOOK: "book",
+  EBOOK: "book",
+  EDBOOK: "book",
+  PAMP: "booklet",
+  CHAP: "incollection",
+  ECHAP: "incollection",
+  CONF: "inproceedings",
+  CPAPER: "inproceedings",
+  THES: "phdthesis",
+  RPRT: "techreport",
+};
+
+const CSL_TYPES: Record<string, EntityType> = {
+  article: "article",
+  "article-journal": "article",
+  "article-magazine": "article",
+  "article-newspaper": "article",
+  book: "book",
+  pamphlet: "booklet",
+  chapter: "incollection",
+  "entry-dictionary": "incollection",
+  "entry-encyclopedia": "incollection",
+  "paper-conference": "inproceedings",
+  thesis: "phdthesis",
+  report: "techreport",
+};
+
+const MONTH_NAMES = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+const MASTERS_THESIS_REGEX = /master|mathesis|m\.\s?sc|diplom/i;
+
+/**
+ * Infer the format of a reference file from its extension, or from its content if the extension is unknown.
+ */
+export function referenceFormatOf(
+  filePath: string,
+  content: string
+): ReferenceFileFormat | undefined {
+  const ext = path.extname(filePath).toLowerCase();
+  if (ext === ".bib" || ext === ".bibtex" || ext === ".biblatex") {
+    return "bibtex";
+  } else if (ext === ".ris") {
+    return "ris";
+  } else if (ext === ".json" || ext === ".csljson") {
+    return "csljson";
+  }
+
+  const head = content.replace(/^﻿/, "").trimStart();
+  if (head.startsWith("[") || head.startsWith("{")) {
+    return "csljson";
+  } else if (/^TY  - /m.test(head)) {
+    return "ris";
+  } else if (/^@\w+\s*[{(]/m.test(head)) {
+    return "bibtex";
+  }
+  return undefined;
+}
+
+function monthOf(value?: string) {
+  if (!value) {
+    return undefined;
+  }
+  const trimmed = value.trim().toLowerCase();
+  if (/^\d{1,2}$/.test(trimmed)) {
+    return `${parseInt(trimmed)}`;
+  }
+  const index = MONTH_NAMES.indexOf(trimmed.slice(0, 3));
+  return index >= 0 ? `${index + 1}` : value.trim();
+}
+
+// Parse dates like 2020, 2020-03, 2020-03-15 and 2020/03/15/.
+function dateOf(value?: string) {
+  const match = /(\d{4})(?:[-/](\d{1,2}))?/.exec(value || "");
+  return {
+    year: match?.[1],
+    month: match?.[2] ? `${parseInt(match[2])}` : undefined,
+  };
+}
+
+function doiOf(value?: string) {
+  const doi = (value || "")
+    .trim()
+    .replace(/^(https?:\/\/)?(dx\.)?doi\.org\//i, "")
+    .replace(/^doi:\s*/i, "");
+  return doi || undefined;
+}
+
+function arxivOf(values: (string | undefined)[]) {
+  for (const value of values) {
+    const match =
+      /arxiv\.org\/(?:abs|pdf)\/([^\s?#]+?)(?:\.pdf)?$/i.exec(value || "") ||
+      /^\s*(?:arxiv:)?\s*(\d{4}\.\d{4,5}(?:v\d+)?|[a-z-]+(?:\.[A-Z]{2})?\/\d{7}(?:v\d+)?)\s*$/i.exec(
+        value || ""
+      );
+    if (match) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
+
+// Split ISBNs and ISSNs, which are told apart by their number of digits.
+function standardNumbersOf(values: string[]) {
+  const isbns: string[] = [];
+  const issns: string[] = [];
+  for (const value of values.flatMap((value) => value.split(/[;,]|\s+/))) {
+    const digits = value.replace(/[^0-9Xx]/g, "");
+    if (digits.length === 8) {
+      issns.push(value.trim());
+    } else if (digits.length === 10 || digits.length === 13) {
+      isbns.push(value.trim());
+    }
+  }
+  return {
+    isbn: isbns.join(", ") || undefined,
+    issn: issns.join(", ") || undefined,
+  };
+}
+
+function fileOf(
+  value: string,
+  baseDir: string,
+  name?: string
+): IReferenceImportFile | undefined {
+  let url = value.trim();
+  if (!url) {
+    return undefined;
+  }
+  if (/^https?:\/\//i.test(url)) {
+    return { name, url };
+  }
+  if (/^file:\/\//i.test(url)) {
+    url = fileURLToPath(url);
+  }
+  return {
+    name,
+    url: `file://${path.resolve(baseDir, url)}`,
+  };
+}
+
+function splitUnescaped(value: string, separator: string) {
+  const parts: string[] = [];
+  let current = "";
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === "\\" && i + 1 < value.length) {
+      current += value.slice(i, i + 2);
+      i += 1;
+    } else if (value[i] === separator) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += value[i];
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * Parse a `file` field written by JabRef, Zotero or Mendeley.
+ * Files are separated by `;`, and each is a path or a `description:path:type` triple, with `\:` escaping `:`.
+ */
+function bibtexFilesOf(value: string, baseDir: string) {
+  const unescape = (part: string) =>
+    part.replace(/\$\\backslash\$/g, "\\").replace(/\\([\\:;_{}&%$#])/g, "$1");
+
+  return splitUnescaped(value, ";")
+    .map((file) => {
+      const parts = splitUnescaped(file, ":").map(unescape);
+      if (parts.length >= 3) {
+        return fileOf(
+          parts.slice(1, parts.length - 1).join(":"),
+          baseDir,
+          parts[0] || undefined
+        );
+      } else if (parts.length === 2 && !/^[a-zA-Z]$/.test(parts[0])) {
+        return fileOf(parts[1], baseDir, parts[0] || undefined);
+      }
+      return fileOf(parts.join(":"), baseDir);
+    })
+    .filter((file): file is IReferenceImportFile => !!file);
+}
+
+function bibtexToRecord(
+  entry: IBibTeXEntry,
+  baseDir: string
+): IReferenceImportRecord {
+  const raw = entry.fields;
+  const field = (...names: string[]) => {
+    for (const name of names) {
+      if (raw[name]?.trim()) {
+        return decodeLaTeX(raw[name]);
+      }
+    }
+    return undefined;
+  };
+  const names = (name: string) =>
+    raw[name]
+      ? splitBibTeXNames(raw[name])
+          .filter((author) => author !== "others")
+          .map(formatBibTeXName)
+          .join(", ")
+      : undefined;
+  const authorList = raw.author
+    ? splitBibTeXNames(raw.author)
+        .filter((author) => author !== "others")
+        .map(parseBibTeXName)
+    : [];
+
+  let type = BIBTEX_TYPES[entry.type] || "misc";
+  const subtype = field("type");
+  if (type === "phdthesis" && subtype && MASTERS_THESIS_REGEX.test(subtype)) {
+    type = "mastersthesis";
+  }
+  const isThesis = type === "phdthesis" || type === "mastersthesis";
+
+  const title = field("title");
+  const subtitle = field("subtitle");
+  const date = dateOf(raw.date);
+  const eprintType = (raw.eprinttype || raw.archiveprefix || "").toLowerCase();
+
+  const fields: Partial<IEntity> = {
+    type,
+    title: title && subtitle ? `${title}: ${subtitle}` : title,
+    authors: formatAuthors(authorList) || undefined,
+    authorList,
+    editor: names("editor"),
+    journal: field("journal", "journaltitle"),
+    booktitle: field(
+      "booktitle",
+      ...(type === "inproceedings" ? ["eventtitle"] : [])
+    ),
+    year: field("year") || date.year,
+    month: monthOf(field("month")) || date.month,
+    volume: field("volume"),
+    number: field("number", "issue"),
+    pages: raw.pages
+      ? decodeLaTeX(raw.pages.replace(/\s*-+\s*/g, "-"))
+      : undefined,
+    publisher: field("publisher"),
+    series: field("series"),
+    edition: field("edition"),
+    howpublished: field("howpublished"),
+    organization: field("organization"),
+    school: field("school", ...(isThesis ? ["institution"] : [])),
+    institution: isThesis ? undefined : field("institution"),
+    address: field("address", "location"),
+    isbn: field("isbn"),
+    issn: field("issn"),
+    doi: doiOf(raw.doi),
+    arxiv: arxivOf([
+      eprintType === "arxiv" ? raw.eprint : undefined,
+      raw.arxiv,
+      raw.arxivid,
+      raw.url,
+    ]),
+    abstract: field("abstract"),
+  };
+
+  return {
+    index: entry.index,
+    key: entry.key || undefined,
+    entity: new Entity(fields, true),
+    files: raw.file ? bibtexFilesOf(raw.file, baseDir) : [],
+  };
+}
+
+function risToRecord(
+  record: IRISRecord,
+  baseDir: string
+): IReferenceImportRecord {
+  const tags = record.tags;
+  const first = (...names: string[]) => {
+    for (const name of names) {
+      const value = tags[name]?.find((value) => value);
+      if (value) {
+        return value;
+      }
+    }
+    return undefined;
+  };
+  const all = (...names: string[]) =>
+    names.flatMap((name) => tags[name] || []).filter((value) => value);
+  const names = (...tagNames: string[]) =>
+    all(...tagNames)
+      .map((name) => formatBibTeXName(name))
+      .join(", ") || undefined;
+  const authorList = all("AU", "A1").map(parseRISName);
+
+  let type = RIS_TYPES[first("TY") || ""] || "misc";
+  if (type === "phdthesis" && MASTERS_THESIS_REGEX.test(first("M3") || "")) {
+    type = "mastersthesis";
+  }
+  const isThesis = type === "phdthesis" || type === "mastersthesis";
+
+  const secondaryTitle = first("T2", "BT");
+  const date = dateOf(first("PY", "Y1", "DA"));
+  const startPage = first("SP");
+  const endPage = first("EP");
+  const publisher = first("PB");
+  const urls = all("UR");
+
+  const fields: Partial<IEntity> = {
+    type,
+    title: first("TI", "T1", "CT"),
+    authors: formatAuthors(authorList) || undefined,
+    authorList,
+    editor: names("A2", "ED"),
+    journal:
+      type === "article" ? first("JO", "JF", "T2", "JA", "J2") : undefined,
+    booktitle:
+      type === "inproceedings" || type === "incollection"
+        ? secondaryTitle
+        : undefined,
+    year: date.year,
+    month: date.month,
+    volume: first("VL"),
+    number: first("IS", "M1"),
+    pages:
+      startPage && endPage && startPage !== endPage
+        ? `${startPage}-${endPage}`
+        : startPage,
+    publisher: isThesis || type === "techreport" ? undefined : publisher,
+    series: first("T3"),
+    edition: first("ET"),
+    school: isThesis ? publisher : undefined,
+    institution: type === "techreport" ? publisher : undefined,
+    address: first("CY", "PP"),
+    ...standardNumbersOf(all("SN")),
+    doi: doiOf(first("DO")),
+    arxiv: arxivOf(urls),
+    abstract: first("AB", "N2"),
+  };
+
+  return {
+    index: record.index,
+    key: first("ID"),
+    entity: new Entity(fields, true),
+    files: all("L1")
+      .flatMap((value) => value.split(";"))
+      .map((value) => fileOf(value, baseDir))
+      .filter((file): file is IReferenceImportFile => !!file),
+  };
+}
+
+// RIS names are in the `Last, First, Suffix` form.
+function parseRISName(name: string) {
+  const [last, first, suffix] = name.split(",").map((part) => part.trim());
+  return parseAuthorName(suffix ? `${last}, ${suffix}, ${first}` : name);
+}
+
+function cslAuthorsOf(names: unknown): IAuthor[] {
+  if (!Array.isArray(names)) {
+    return [];
+  }
+  return names
+    .map((name) =>
+      name.literal
+        ? { literal: `${name.literal}` }
+        : {
+            given: name.given || undefined,
+            family: name.family || undefined,
+            particle:
+              name["non-dropping-particle"] ||
+              name["dropping-particle"] ||
+              undefined,
+            suffix: name.suffix || undefined,
+          }
+    )
+    .filter((author) => author.literal || author.family || author.given);
+}
+
+function cslNamesOf(names: unknown) {
+  if (!Array.isArray(names)) {
+    return undefined;
+  }
+  return (
+    names
+      .map((name) =>
+        name.literal
+          ? `${name.literal}`
+          : [
+              name.given,
+              name["non-dropping-particle"],
+              name.family,
+              name.suffix,
+            ]
+              .filter((part) => part)
+              .join(" ")
+      )
+      .filter((name) => name)
+      .join(", ") || undefined
+  );
+}
+
+function cslToRecord(
+  item: Record<string, any>,
+  index: number
+): IReferenceImportRecord {
+  const text = (...names: string[]) => {
+    for (const name of names) {
+      const value = item[name];
+      if (typeof value === "string" || typeof value === "number") {
+        const trimmed = `${value}`.trim();
+        if (trimmed) {
+          return trimmed;
+        }
+      }
+    }
+    return undefined;
+  };
+
+  let type = CSL_TYPES[item.type] || "misc";
+  if (type === "phdthesis" && MASTERS_THESIS_REGEX.test(text("genre") || "")) {
+    type = "mastersthesis";
+  }
+  const isThesis = type === "phdthesis" || type === "mastersthesis";
+  const containerTitle = text("container-title");
+
+  const dateParts = item.issued?.["date-parts"]?.[0];
+  const date = Array.isArray(dateParts)
+    ? {
+        year: dateParts[0] ? `${dateParts[0]}` : undefined,
+        month: dateParts[1] ? `${dateParts[1]}` : undefined,
+      }
+    : dateOf(item.issued?.raw || item.issued?.literal);
+  const publisher = text("publisher");
+  const authorList = cslAuthorsOf(item.author);
+
+  const fields: Partial<IEntity> = {
+    type,
+    title: text("title"),
+    authors: formatAuthors(authorList) || undefined,
+    authorList,
+    editor: cslNamesOf(item.editor),
+    journal: type === "article" ? containerTitle : undefined,
+    booktitle:
+      type === "article"
+        ? undefined
+        : containerTitle || text("event-title", "event"),
+    year: date.year,
+    month: date.month,
+    volume: text("volume"),
+    number: text("issue", "number"),
+    pages: text("page"),
+    publisher: isThesis || type === "techreport" ? undefined : publisher,
+    series: text("collection-title"),
+    edition: text("edition"),
+    school: isThesis ? publisher : undefined,
+    institution: type === "techreport" ? publisher : undefined,
+    address: text("publisher-place", "event-place"),
+    isbn: text("ISBN"),
+    issn: text("ISSN"),
+    doi: doiOf(text("DOI")),
+    arxiv: arxivOf([text("URL"), text("number")]),
+    abstract: text("abstract"),
+  };
+
+  return {
+    index,
+    key: text("citation-key", "id"),
+    entity: new Entity(fields, true),
+    files: [],
+  };
+}
+
+/**
+ * Parse a BibTeX, BibLaTeX, RIS or CSL-JSON file into entity drafts.
+ * Entries that fail to parse or have no title are reported as errors instead of failing the whole file.
+ * @param content - The content of the file.
+ * @param format - The format of the file.
+ * @param baseDir - The folder relative file paths in the entries are resolved against.
+ * @returns The parsed records with their attached files, and the errors.
+ */
+export function parseReferenceFile(
+  content: string,
+  format: ReferenceFileFormat,
+  baseDir: string
+) {
+  const records: IReferenceImportRecord[] = [];
+  const errors: IReferenceImportError[] = [];
+
+  const tryConvert = (
+    index: number,
+    key: string | undefined,
+    convert: () => IReferenceImportRecord
+  ) => {
+    try {
+      const record = convert();
+      if (!record.entity.title) {
+        errors.push({ index, key, message: "The entry has no title." });
+      } else {
+        records.push(record);
+      }
+    } catch (error) {
+      errors.push({ index, key, message: (error as Error).message });
+    }
+  };
+
+  if (format === "bibtex") {
+    const parsed = parseBibTeX(content);
+    for (const error of parsed.errors) {
+      errors.push({
+        index: error.index,
+        key: error.key,
+        message: error.message,
+      });
+    }
+    for (const entry of parsed.entries) {
+      tryConvert(entry.index, entry.key || undefined, () =>
+        bibtexToRecord(entry, baseDir)
+      );
+    }
+  } else if (format === "ris") {
+    const parsed = parseRIS(content);
+    for (const error of parsed.errors) {
+      errors.push({ index: error.index, message: error.message });
+    }
+    for (const record of parsed.records) {
+      tryConvert(record.index, record.tags.ID?.[0], () =>
+        risToRecord(record, baseDir)
+      );
+    }
+  } else {
+    let items: unknown;
+    try {
+      items = JSON.parse(content.replace(/^﻿/, ""));
+    } catch (error) {
+      throw new Error(`Invalid CSL-JSON: ${(error as Error).message}`);
+    }
+    (Array.isArray(items) ? items : [items]).forEach((item, index) => {
+      if (typeof item !== "object" || item === null || Array.isArray(item)) {
+        errors.push({ index, message: "The entry is not a CSL-JSON object." });
+        return;
+      }
+      tryConvert(index, item["citation-key"] || item.id, () =>
+        cslToRecord(item, index)
+      );
+    });
+  }
+
+  errors.sort((a, b) => a.index - b.index);
+  return { records, errors };
+}
@@ -0,0 +1,104 @@
+export interface IRISRecord {
+  // 0-based position of the record in the file.
+  index: number;
+  // Tags to values in their order, a tag can appear several times, e.g., AU.
+  tags: Record<string, string[]>;
+}
+
+export interface IRISParseError {
+  index: number;
+  message: string;
+}
+
+const TAG_REGEX = /^([A-Z][A-Z0-9])  -(?: (.*))?$/;
+
+/**
+ * Parse the records of a RIS file. A record with a syntax error is reported and skipped.
+ * Lines without a tag are appended to the value of the previous tag.
+ * @param text - The content of the file.
+ * @returns The parsed records and the errors of the records failed to parse.
+ */
+export function parseRIS(text: string) {
+  const records: IRISRecord[] = [];
+  const errors: IRISParseError[] = [];
+
+  // The error of the current record is reported when the record ends, an empty one is already reported.
+  let current: { record: IRISRecord; line: number; error?: string } | undefined;
+  let lastTag = "";
+  let index = 0;
+
+  const lines = text.replace(/^﻿/, "").split(/\r?\n/);
+  lines.forEach((rawLine, i) => {
+    const line = rawLine.trimEnd();
+    const match = TAG_REGEX.exec(line);
+
+    if (!match) {
+      if (!line.trim()) {
+        return;
+      }
+      if (current && lastTag) {
+        const values = current.record.tags[lastTag];
+        values[values.length - 1] = `${
+          values[values.length - 1]
+        } ${line.trim()}`;
+      } else if (current) {
+        current.error ??= `Invalid line "${line.trim()}" at line ${i + 1}.`;
+      }
+      return;
+    }
+
+    const [, tag, value = ""] = match;
+    if (tag === "TY") {
+      if (current && current.error !== "") {
+        errors.push({
+          index: current.record.index,
+          message:
+            current.error ||
+            `The record at line ${current.line} is not ended by "ER".`,
+        });
+      }
+      current = { record: { index, tags: {} }, line: i + 1 };
+      index += 1;
+    } else if (!current) {
+      errors.push({
+        index,
+        message: `The record does not start with "TY" at line ${i + 1}.`,
+      });
+      index += 1;
+      // Skip the rest of the broken record.
+      current = { record: { index: index - 1, tags: {} }, line: i + 1 };
+      current.error = "";
+    }
+
+    if (tag === "ER") {
+      if (current.error === undefined) {
+        records.push(current.record);
+      } else if (current.error) {
+        errors.push({
+          index: current.record.index,
+          message: current.error,
+        });
+      }
+      current = undefined;
+      lastTag = "";
+      return;
+    }
+
+    current.record.tags[tag] = [
+      ...(current.record.tags[tag] || []),
+      value.trim(),
+    ];
+    lastTag = tag;
+  });
+
+  if (current && current.error !== "") {
+    errors.push({
+      index: current.record.index,
+      message:
+        current.error ||
+        `The record at line ${current.line} is not ended by "ER".`,
+    });
+  }
+
+  return { records, errors };
+}
@@ -2,19 +2,27 @@ import { LogService } from "@/common/services/log-service";
 import { CacheDatabaseCore } from "@/service/services/database/cache-core";
 import { DatabaseCore } from "@/service/services/database/core";
 import { PreferenceService } from "@/service/services/preference-service";
+import { AnnotationService } from "./annotation-service";
 import { BrowserExtensionService } from "./browser-extension-service";
 import { CacheService } from "./cache-service";
 import { CategorizerService } from "./categorizer-service";
+import { CitationService } from "./citation-service";
 import { DatabaseService } from "./database-service";
+import { DedupService } from "./dedup-service";
+import { FeedRuleService } from "./feed-rule-service";
 import { FeedService } from "./feed-service";
 import { FileService } from "./file-service";
 import { HookService } from "./hook-service";
+import { IntegrityService } from "./integrity-service";
+import { LinkedBibService } from "./linked-bib-service";
 import { PaperService } from "./paper-service";
+import { RecommendService } from "./recommend-service";
 import { ReferenceService } from "./reference-service";
 import { RenderService } from "./render-service";
 import { SchedulerService } from "./scheduler-service";
 import { ScrapeService } from "./scrape-service";
 import { SmartFilterService } from "./smartfilter-service";
+import { WatchedFolderService } from "./watched-folder-service";
 
 import { CategorizerRepository } from "../repositories/db-repository/categorizer-repository";
 import { FeedEntityRepository } from "../repositories/db-repository/feed-entity-repository";
@@ -49,4 +57,12 @@ export type IInjectable =
   | RSSRepository
   | ReferenceService
   | SyncService
+  | DedupService
+  | CitationService
+  | AnnotationService
+  | LinkedBibService
+  | WatchedFolderService
+  | IntegrityService
+  | FeedRuleService
+  | RecommendService
   ;
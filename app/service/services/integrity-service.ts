@@ -0,0 +1,304 @@
+import { existsSync, promises } from "fs";
+import md5 from "md5-file";
+import path from "path";
+
+import { errorcatching } from "@/base/error";
+import { Eventable } from "@/base/event";
+import { createDecorator } from "@/base/injection/injection";
+import { constructFileURL, getProtocol, listAllFiles } from "@/base/url";
+import { ILogService, LogService } from "@/common/services/log-service";
+import { ProcessingKey, processing } from "@/common/utils/processing";
+import { Entity } from "@/models/entity";
+import { OID } from "@/models/id";
+import { Supplementary } from "@/models/supplementary";
+
+import { CacheService, ICacheService } from "./cache-service";
+import { FileService, IFileService } from "./file-service";
+import { IPaperService, PaperService } from "./paper-service";
+
+export interface IIntegrityServiceState {
+  updated: number;
+}
+
+/**
+ * - missing: the file of a supplementary does not exist.
+ * - brokenlink: the file of a supplementary is a symbolic link to a file that does not exist.
+ * - modified: the main file of a paper differs from the md5 recorded when it was indexed, as it is
+ *   annotated or corrupted.
+ * - orphaned: a file in the library folder is not a supplementary of any paper.
+ */
+export type IntegrityIssueType =
+  | "missing"
+  | "brokenlink"
+  | "modified"
+  | "orphaned";
+
+export interface IIntegrityIssue {
+  type: IntegrityIssueType;
+  // Absolute path of the file.
+  filePath: string;
+  // The paper and the supplementary of the file, except for orphaned files.
+  paperId?: string;
+  supId?: string;
+  title?: string;
+  // Whether the file is the main file of the paper, which can be downloaded again.
+  isDefaultSup?: boolean;
+}
+
+// Files of the database in the library folder.
+function isDatabaseFile(filePath: string) {
+  return filePath.includes(".realm") || path.basename(filePath) === ".DS_Store";
+}
+
+// Resolve the symbolic links of the folders of a file, but not of the file itself, which is deleted instead of its target.
+async function resolveFolders(filePath: string) {
+  const folder = path.dirname(path.resolve(filePath));
+  return path.join(
+    await promises.realpath(folder).catch(() => folder),
+    path.basename(filePath)
+  );
+}
+
+function isInside(folder: string, filePath: string) {
+  const relative = path.relative(folder, filePath);
+  return (
+    !!relative &&
+    relative !== ".." &&
+    !relative.startsWith(`..${path.sep}`) &&
+    !path.isAbsolute(relative)
+  );
+}
+
+export const IIntegrityService = createDecorator("integrityService");
+
+/**
+ * Service for auditing the files of the library, and fixing the issues found.
+ */
+export class IntegrityService extends Eventable<IIntegrityServiceState> {
+  constructor(
+    @IPaperService private readonly _paperService: PaperService,
+    @IFileService private readonly _fileService: FileService,
+    @ICacheService private readonly _cacheService: CacheService,
+    @ILogService private readonly _logService: LogService
+  ) {
+    super("integrityService", {
+      updated: 0,
+    });
+  }
+
+  private async _appLibFolder() {
+    if (
+      (await PLMainAPI.preferenceService.get("syncFileStorage")) !== "local"
+    ) {
+      throw new Error(
+        "Checking the library is only available for the local file storage."
+      );
+    }
+    return (await PLMainAPI.preferenceService.get("appLibFolder")) as string;
+  }
+
+  private async _loadSup(paperId: OID, supId: string) {
+    const paperEntity = (await this._paperService.loadByIds([paperId]))[0];
+    if (!paperEntity) {
+      throw new Error(`Paper ${paperId} is not found.`);
+    }
+    const paperEntityDraft = new Entity(paperEntity);
+    const sup = paperEntityDraft.supplementaries[supId];
+    if (!sup) {
+      throw new Error(`Supplementary ${supId} is not found.`);
+    }
+    return { paperEntityDraft, sup };
+  }
+
+  /**
+   * Check the files of all papers and the files in the library folder.
+   * @returns The issues found.
+   */
+  @processing(ProcessingKey.General)
+  @errorcatching("Failed to check the library.", true, "IntegrityService", [])
+  async audit(): Promise<IIntegrityIssue[]> {
+    const appLibFolder = await this._appLibFolder();
+    const paperEntities = Array.from(
+      await this._paperService.load("", "addTime", "desc")
+    );
+    const md5s = await this._cacheService.loadMD5s(
+      paperEntities.map((paperEntity) => paperEntity._id)
+    );
+
+    const issues: IIntegrityIssue[] = [];
+    const referencedFiles = new Set<string>();
+
+    // 1. Files of supplementaries
+    for (const paperEntity of paperEntities) {
+      for (const sup of Object.values(paperEntity.supplementaries)) {
+        if (getProtocol(sup.url) !== "file") {
+          continue;
+        }
+        const filePath = path.normalize(
+          constructFileURL(sup.url, true, false, appLibFolder)
+        );
+        referencedFiles.add(filePath);
+
+        const isDefaultSup = paperEntity.defaultSup === sup._id;
+        const issue = {
+          filePath,
+          paperId: `${paperEntity._id}`,
+          supId: sup._id,
+          title: paperEntity.title,
+          isDefaultSup,
+        };
+        const stat = await promises.lstat(filePath).catch(() => undefined);
+        if (!stat) {
+          issues.push({ type: "missing", ...issue });
+        } else if (stat.isSymbolicLink() && !existsSync(filePath)) {
+          issues.push({ type: "brokenlink", ...issue });
+        } else if (
+          isDefaultSup &&
+          md5s[`${paperEntity._id}`] &&
+          (await md5(filePath)) !== md5s[`${paperEntity._id}`]
+        ) {
+          issues.push({ type: "modified", ...issue });
+        }
+      }
+    }
+
+    // 2. Files in the library folder
+    for (const file of listAllFiles(appLibFolder)) {
+      const filePath = path.normalize(file);
+      if (!referencedFiles.has(filePath) && !isDatabaseFile(filePath)) {
+        issues.push({ type: "orphaned", filePath });
+      }
+    }
+
+    this._logService.info(
+      `Found ${issues.length} issue(s) in the library.`,
+      "",
+      false,
+      "IntegrityService"
+    );
+
+    return issues;
+  }
+
+  /**
+   * Replace the file of a supplementary with another file, which is moved into the library folder.
+   * @param paperId - The id of the paper.
+   * @param supId - The id of the supplementary.
+   * @param filePath - The path of the new file.
+   */
+  @processing(ProcessingKey.General)
+  @errorcatching("Failed to relink the file.", true, "IntegrityService")
+  async relink(paperId: OID, supId: string, filePath: string) {
+    const appLibFolder = await this._appLibFolder();
+    const { paperEntityDraft, sup } = await this._loadSup(paperId, supId);
+
+    // The broken link or the modified file is replaced, as the new file is moved to its path.
+    // It is moved aside until the paper refers to the new file, so that it is not lost if the update fails.
+    const currentPath = constructFileURL(sup.url, true, false, appLibFolder);
+    let backupPath = "";
+    if (
+      path.normalize(currentPath) !== path.normalize(filePath) &&
+      (await promises.lstat(currentPath).catch(() => undefined))
+    ) {
+      backupPath = `${currentPath}.${Date.now()}.bak`;
+      await promises.rename(currentPath, backupPath);
+    }
+
+    const updated = await this._paperService.updateSups(
+      paperEntityDraft,
+      [new Supplementary({ ...sup, url: filePath })],
+      paperEntityDraft.defaultSup === supId ? supId : undefined
+    );
+    if (!updated || updated.length === 0) {
+      // The old file is kept aside if the new one has been moved to its path already.
+      if (
+        backupPath &&
+        !(await promises.lstat(currentPath).catch(() => undefined))
+      ) {
+        await promises.rename(backupPath, currentPath);
+      }
+      throw new Error(`Failed to update ${paperEntityDraft.title}.`);
+    }
+    if (backupPath) {
+      await promises.unlink(backupPath);
+    }
+    this.fire({ updated: Date.now() });
+  }
+
+  /**
+   * Download the main file of a paper again, with the extensions that locate files on the web.
+   * @param paperId - The id of the paper.
+   */
+  @processing(ProcessingKey.General)
+  @errorcatching("Failed to download the file again.", true, "IntegrityService")
+  async redownload(paperId: OID) {
+    const paperEntity = (await this._paperService.loadByIds([paperId]))[0];
+    if (!paperEntity) {
+      throw new Error(`Paper ${paperId} is not found.`);
+    }
+    const oldSup = paperEntity.defaultSup
+      ? paperEntity.supplementaries[paperEntity.defaultSup]
+      : undefined;
+    const oldURL =
+      oldSup && getProtocol(oldSup.url) === "file" ? oldSup.url : "";
+    const [located] = await this._fileService.locateFileOnWeb([
+      new Entity(paperEntity),
+    ]);
+    if (!located?.defaultSup) {
+      throw new Error(`No file of ${paperEntity.title} is found on the web.`);
+    }
+    const [updated] = await this._paperService.update([located], true, true);
+    if (!updated) {
+      throw new Error(`Failed to update ${paperEntity.title}.`);
+    }
+    // The broken link or the modified file is replaced by the downloaded one, once the paper refers to it.
+    const newSup = updated.supplementaries[updated.defaultSup!];
+    if (oldURL && newSup?.url !== oldURL) {
+      await this._fileService.removeFile(oldURL);
+    }
+    this.fire({ updated: Date.now() });
+  }
+
+  /**
+   * Delete a file in the library folder that is not a supplementary of any paper.
+   * @param filePath - The path of the file.
+   */
+  @errorcatching(
+    "Failed to delete the orphaned file.",
+    true,
+    "IntegrityService"
+  )
+  async deleteOrphan(filePath: string) {
+    const appLibFolder = await this._appLibFolder();
+    // A file outside of the library folder can be reached by a linked folder in it.
+    const realPath = await resolveFolders(filePath);
+    if (
+      !isInside(appLibFolder, path.resolve(filePath)) ||
+      !isInside(
+        await promises.realpath(appLibFolder).catch(() => appLibFolder),
+        realPath
+      )
+    ) {
+      throw new Error(`${filePath} is not in the library folder.`);
+    }
+    // The file can have been linked to a paper since the library was checked.
+    for (const paperEntity of await this._paperService.load(
+      "",
+      "addTime",
+      "desc"
+    )) {
+      for (const sup of Object.values(paperEntity.supplementaries)) {
+        if (
+          getProtocol(sup.url) === "file" &&
+          (await resolveFolders(
+            constructFileURL(sup.url, true, false, appLibFolder)
+          )) === realPath
+        ) {
+          throw new Error(`${filePath} is a file of ${paperEntity.title}.`);
+        }
+      }
+    }
+    await this._fileService.removeFile(filePath);
+    this.fire({ updated: Date.now() });
+  }
+}
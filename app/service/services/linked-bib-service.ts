@@ -0,0 +1,537 @@
+import ElectronStore from "electron-store";
+import { existsSync, promises, unwatchFile, watchFile } from "fs";
+import { debounce } from "lodash";
+import path from "path";
+
+import {
+  DEFAULT_CITEKEY_TEMPLATE,
+  disambiguateCiteKey,
+  formatCiteKey,
+} from "@/base/citekey";
+import { errorcatching } from "@/base/error";
+import { Eventable } from "@/base/event";
+import { createDecorator } from "@/base/injection/injection";
+import { uid } from "@/base/misc";
+import { ILogService, LogService } from "@/common/services/log-service";
+import { CategorizerType, PaperFolder } from "@/models/categorizer";
+import { Entity, IEntity } from "@/models/entity";
+import { PaperSmartFilterType } from "@/models/smart-filter";
+import { DatabaseCore, IDatabaseCore } from "@/service/services/database/core";
+
+import {
+  IPaperEntityRepository,
+  PaperEntityRepository,
+} from "../repositories/db-repository/paper-entity-repository";
+import { CategorizerService, ICategorizerService } from "./categorizer-service";
+import {
+  IReferenceImportRecord,
+  parseReferenceFile,
+} from "./import/reference-import";
+import { IPaperService, PaperService } from "./paper-service";
+import { IReferenceService, ReferenceService } from "./reference-service";
+import { ISmartFilterService, SmartFilterService } from "./smartfilter-service";
+
+export interface ILinkedBib {
+  _id: string;
+  // Absolute path of the .bib file.
+  filePath: string;
+  sourceType: CategorizerType.PaperFolder | PaperSmartFilterType.smartfilter;
+  // Id of the folder or smart filter.
+  sourceId: string;
+  // Read edits of the file back into the library.
+  twoWay: boolean;
+}
+
+export interface ILinkedBibServiceState {
+  updated: number;
+}
+
+interface ILinkedBibStore {
+  links: ILinkedBib[];
+  // Citation keys last written to or read from each file, by link id and entity id.
+  citeKeys: Record<string, Record<string, string>>;
+  // The content last written to or read from each file, by link id.
+  contents: Record<string, string>;
+}
+
+// Fields read back from the edited .bib file.
+const READ_BACK_FIELDS: (keyof IEntity)[] = [
+  "type",
+  "title",
+  "authors",
+  "journal",
+  "booktitle",
+  "year",
+  "month",
+  "volume",
+  "number",
+  "pages",
+  "publisher",
+  "series",
+  "edition",
+  "editor",
+  "howpublished",
+  "organization",
+  "school",
+  "institution",
+  "address",
+  "isbn",
+  "issn",
+  "doi",
+  "arxiv",
+  "abstract",
+];
+
+// Interval to check two-way linked files for changes, in ms.
+const WATCH_INTERVAL = 2000;
+
+export const ILinkedBibService = createDecorator("linkedBibService");
+
+/**
+ * Service for .bib files linked to folders or smart filters.
+ * A linked file is regenerated whenever the papers in the library change, with citation keys kept stable.
+ * For two-way links, edits of existing entries in the file are read back into the library,
+ * and new entries are imported. Entries removed from the file are written back at the next regeneration.
+ */
+export class LinkedBibService extends Eventable<ILinkedBibServiceState> {
+  private readonly _store: ElectronStore<ILinkedBibStore>;
+  private readonly _watchedFiles = new Set<string>();
+  // Regenerations and read-backs are run one by one.
+  private _queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    @IDatabaseCore private readonly _databaseCore: DatabaseCore,
+    @IPaperEntityRepository
+    private readonly _paperEntityRepository: PaperEntityRepository,
+    @IPaperService private readonly _paperService: PaperService,
+    @ICategorizerService
+    private readonly _categorizerService: CategorizerService,
+    @ISmartFilterService
+    private readonly _smartFilterService: SmartFilterService,
+    @IReferenceService private readonly _referenceService: ReferenceService,
+    @ILogService private readonly _logService: LogService
+  ) {
+    super("linkedBibService", {
+      updated: 0,
+    });
+
+    this._store = new ElectronStore<ILinkedBibStore>({
+      name: "linkedBib",
+      defaults: { links: [], citeKeys: {}, contents: {} },
+    });
+
+    const regenerateAll = debounce(() => {
+      this._enqueue(() => this._regenerateAll());
+    }, 1000);
+    this._paperEntityRepository.on(["updated", "count"], regenerateAll);
+
+    this._databaseCore.already("dbInitialized", () => {
+      this._watch();
+      this._enqueue(async () => {
+        // Read the edits made while Paperlib was not running before overwriting them.
+        for (const link of this._store.get("links")) {
+          if (link.twoWay) {
+            await this._readBack(link);
+          }
+        }
+        await this._regenerateAll();
+      });
+    });
+  }
+
+  private _enqueue(task: () => Promise<void>) {
+    this._queue = this._queue.then(task).catch((error) => {
+      this._logService.error(
+        "Failed to sync linked .bib files.",
+        error as Error,
+        true,
+        "LinkedBibService"
+      );
+    });
+    return this._queue;
+  }
+
+  private _saveLinks(links: ILinkedBib[]) {
+    this._store.set("links", links);
+    this._watch();
+    this.fire({ updated: Date.now() });
+  }
+
+  // Watch the files of two-way links, and stop watching the others.
+  private _watch() {
+    const files = new Set(
+      this._store
+        .get("links")
+        .filter((link) => link.twoWay)
+        .map((link) => link.filePath)
+    );
+    for (const filePath of this._watchedFiles) {
+      if (!files.has(filePath)) {
+        unwatchFile(filePath);
+        this._watchedFiles.delete(filePath);
+      }
+    }
+    for (const filePath of files) {
+      if (this._watchedFiles.has(filePath)) {
+        continue;
+      }
+      watchFile(filePath, { interval: WATCH_INTERVAL }, () => {
+        this._enqueue(async () => {
+          for (const link of this._store.get("links")) {
+            if (link.twoWay && link.filePath === filePath) {
+              await this._readBack(link);
+            }
+          }
+        });
+      });
+      this._watchedFiles.add(filePath);
+    }
+  }
+
+  private async _loadSource(link: ILinkedBib) {
+    if (link.sourceType === CategorizerType.PaperFolder) {
+      const folder = (
+        await this._categorizerService.loadByIds(CategorizerType.PaperFolder, [
+          link.sourceId,
+        ])
+      )[0];
+      return folder
+        ? {
+            name: folder.name,
+            query: "folders.name == $0",
+            placeholders: [folder.name],
+          }
+        : undefined;
+    } else {
+      const smartfilter = (
+        await this._smartFilterService.loadByIds([link.sourceId])
+      )[0];
+      return smartfilter
+        ? {
+            name: smartfilter.name,
+            query: smartfilter.filter,
+            placeholders: [],
+          }
+        : undefined;
+    }
+  }
+
+  /**
+   * Get the citation keys of the entities in a file, which are their own keys,
+   * with suffixes a, b, c, ... if a key is repeated, e.g., pinned by several entities.
+   */
+  private _citeKeysOf(paperEntities: Entity[]) {
+    const citeKeys: Record<string, string> = {};
+    const usedKeys = new Set<string>();
+    for (const paperEntity of paperEntities) {
+      const key = disambiguateCiteKey(
+        paperEntity.citeKey ||
+          formatCiteKey(DEFAULT_CITEKEY_TEMPLATE, paperEntity),
+        (key) => usedKeys.has(key)
+      );
+      citeKeys[`${paperEntity._id}`] = key;
+      usedKeys.add(key);
+    }
+    return citeKeys;
+  }
+
+  private async _regenerate(link: ILinkedBib) {
+    if (link.twoWay) {
+      // Edits not read back yet would be overwritten.
+      await this._readBack(link);
+    }
+
+    const source = await this._loadSource(link);
+    if (!source) {
+      this._logService.warn(
+        `The folder or smart filter linked to ${link.filePath} is not found.`,
+        "",
+        false,
+        "LinkedBibService"
+      );
+      return;
+    }
+
+    // Sorted by add time, so that older papers keep the keys without suffixes.
+    const paperEntities = Array.from(
+      await this._paperService.load(
+        source.query,
+        "addTime",
+        "asce",
+        undefined,
+        source.placeholders
+      )
+    ).map((paperEntity) => new Entity(paperEntity));
+
+    const citeKeys = this._citeKeysOf(paperEntities);
+    const content = await this._referenceService.exportBibTexBody(
+      paperEntities,
+      citeKeys
+    );
+
+    const currentContent = existsSync(link.filePath)
+      ? await promises.readFile(link.filePath, "utf-8")
+      : undefined;
+    if (currentContent !== content) {
+      await promises.mkdir(path.dirname(link.filePath), { recursive: true });
+      await promises.writeFile(link.filePath, content);
+    }
+
+    this._store.set(`citeKeys.${link._id}`, citeKeys);
+    this._store.set(`contents.${link._id}`, content);
+  }
+
+  private async _regenerateAll() {
+    if (this._databaseCore.getState("dbInitializing")) {
+      return;
+    }
+    for (const link of this._store.get("links")) {
+      await this._regenerate(link);
+    }
+  }
+
+  // Read the edits in the file since the last regeneration back into the library.
+  private async _readBack(link: ILinkedBib) {
+    if (!existsSync(link.filePath)) {
+      return;
+    }
+    const content = await promises.readFile(link.filePath, "utf-8");
+    const lastContent = this._store.get("contents")[link._id];
+    if (lastContent === undefined || content === lastContent) {
+      return;
+    }
+
+    const baseDir = path.dirname(link.filePath);
+    const recordsOf = (text: string) =>
+      new Map(
+        parseReferenceFile(text, "bibtex", baseDir).records.map(
+          (record) => [record.key || "", record] as const
+        )
+      );
+    const lastRecords = recordsOf(lastContent);
+    const { records, errors } = parseReferenceFile(content, "bibtex", baseDir);
+
+    const citeKeys = { ...(this._store.get("citeKeys")[link._id] || {}) };
+    const idsByKey = new Map(
+      Object.entries(citeKeys).map(([id, key]) => [key, id] as const)
+    );
+
+    // 1. Match entries to papers by their keys. An entry with a new key and the title of an entry
+    // removed from the file is the same paper with its key renamed.
+    const keys = new Set(records.map((record) => record.key || ""));
+    const removedKeys = Array.from(lastRecords.keys()).filter(
+      (key) => !keys.has(key) && idsByKey.has(key)
+    );
+    const matches: {
+      id: string;
+      record: IReferenceImportRecord;
+      lastKey: string;
+    }[] = [];
+    const newRecords: IReferenceImportRecord[] = [];
+    for (const record of records) {
+      if (!record.key) {
+        continue;
+      }
+      let lastKey: string | undefined = idsByKey.has(record.key)
+        ? record.key
+        : undefined;
+      if (!lastKey) {
+        const i = removedKeys.findIndex(
+          (key) => lastRecords.get(key)!.entity.title === record.entity.title
+        );
+        if (i >= 0) {
+          lastKey = removedKeys.splice(i, 1)[0];
+        }
+      }
+      if (lastKey) {
+        matches.push({ id: idsByKey.get(lastKey)!, record, lastKey });
+      } else {
+        newRecords.push(record);
+      }
+    }
+
+    // 2. Edited entries
+    const paperEntities = await this._paperService.loadByIds(
+      matches.map((match) => match.id)
+    );
+    const paperEntityDrafts: Entity[] = [];
+    for (const { id, record, lastKey } of matches) {
+      citeKeys[id] = record.key!;
+      const lastRecord = lastRecords.get(lastKey);
+      const paperEntity = Array.from(paperEntities).find(
+        (paperEntity) => `${paperEntity._id}` === id
+      );
+      if (!lastRecord || !paperEntity) {
+        continue;
+      }
+      const editedFields = READ_BACK_FIELDS.filter(
+        (field) =>
+          (record.entity[field] || "") !== (lastRecord.entity[field] || "")
+      );
+      const renamed = record.key !== lastKey;
+      if (editedFields.length > 0 || renamed) {
+        const paperEntityDraft = new Entity(paperEntity);
+        for (const field of editedFields) {
+          paperEntityDraft.setValue(field, record.entity[field]);
+        }
+        // A key renamed in the file is pinned, as it is edited manually.
+        if (renamed) {
+          paperEntityDraft.citeKey = record.key;
+          paperEntityDraft.citeKeyPinned = true;
+        }
+        paperEntityDrafts.push(paperEntityDraft);
+      }
+    }
+
+    // 3. New entries, which keep their keys.
+    const source =
+      link.sourceType === CategorizerType.PaperFolder
+        ? await this._loadSource(link)
+        : undefined;
+    for (const record of newRecords) {
+      if (source) {
+        record.entity.folders = [new PaperFolder({ name: source.name })];
+      }
+      record.entity.citeKey = record.key;
+      record.entity.citeKeyPinned = true;
+    }
+
+    // Keep the content as read, so that it is not read back again if the update fails.
+    this._store.set(`contents.${link._id}`, content);
+
+    if (paperEntityDrafts.length > 0) {
+      await this._paperService.update(paperEntityDrafts, false, true);
+    }
+    if (newRecords.length > 0) {
+      const created = await this._paperService.update(
+        newRecords.map((record) => record.entity),
+        true,
+        false
+      );
+      for (const paperEntity of created) {
+        const record = newRecords.find(
+          (record) => `${record.entity._id}` === `${paperEntity._id}`
+        );
+        if (record?.key) {
+          citeKeys[`${paperEntity._id}`] = record.key;
+        }
+      }
+    }
+    this._store.set(`citeKeys.${link._id}`, citeKeys);
+
+    if (errors.length > 0) {
+      this._logService.warn(
+        `${errors.length} entries of ${path.basename(
+          link.filePath
+        )} are not read back.`,
+        errors
+          .map(
+            (error) =>
+              `#${error.index + 1}${error.key ? ` (${error.key})` : ""}: ${
+                error.message
+              }`
+          )
+          .join("\n"),
+        true,
+        "LinkedBibService"
+      );
+    }
+    if (paperEntityDrafts.length > 0 || newRecords.length > 0) {
+      this._logService.info(
+        `Read ${path.basename(link.filePath)} back into the library.`,
+        `${paperEntityDrafts.length} edited, ${newRecords.length} added.`,
+        true,
+        "LinkedBibService"
+      );
+    }
+  }
+
+  /**
+   * Load the linked .bib files.
+   * @returns The links, with the names of their folders or smart filters.
+   */
+  @errorcatching(
+    "Failed to load linked .bib files.",
+    true,
+    "LinkedBibService",
+    []
+  )
+  async load(): Promise<(ILinkedBib & { sourceName: string })[]> {
+    const links: (ILinkedBib & { sourceName: string })[] = [];
+    for (const link of this._store.get("links")) {
+      const source = await this._loadSource(link);
+      links.push({ ...link, sourceName: source?.name || "" });
+    }
+    return links;
+  }
+
+  /**
+   * Link a .bib file to a folder or a smart filter. The file is generated immediately.
+   * @param sourceType - The type of the source.
+   * @param sourceId - The id of the folder or smart filter.
+   * @param filePath - The path of the .bib file.
+   * @param twoWay - Whether to read edits of the file back into the library.
+   */
+  @errorcatching("Failed to link the .bib file.", true, "LinkedBibService")
+  async link(
+    sourceType: ILinkedBib["sourceType"],
+    sourceId: string,
+    filePath: string,
+    twoWay = false
+  ) {
+    const links = this._store.get("links");
+    if (links.some((link) => link.filePath === filePath)) {
+      throw new Error(`${filePath} is already linked.`);
+    }
+    const link: ILinkedBib = {
+      _id: uid(),
+      filePath,
+      sourceType,
+      sourceId: `${sourceId}`,
+      twoWay,
+    };
+    await this._enqueue(() => this._regenerate(link));
+    this._saveLinks([...links, link]);
+  }
+
+  /**
+   * Unlink a .bib file. The file is kept.
+   * @param id - The id of the link.
+   */
+  @errorcatching("Failed to unlink the .bib file.", true, "LinkedBibService")
+  unlink(id: string) {
+    this._saveLinks(this._store.get("links").filter((link) => link._id !== id));
+    this._store.delete(`citeKeys.${id}` as keyof ILinkedBibStore);
+    this._store.delete(`contents.${id}` as keyof ILinkedBibStore);
+  }
+
+  /**
+   * Set whether to read edits of a linked .bib file back into the library.
+   * @param id - The id of the link.
+   * @param twoWay - Whether to read edits back.
+   */
+  @errorcatching(
+    "Failed to update the linked .bib file.",
+    true,
+    "LinkedBibService"
+  )
+  setTwoWay(id: string, twoWay: boolean) {
+    this._saveLinks(
+      this._store
+        .get("links")
+        .map((link) => (link._id === id ? { ...link, twoWay } : link))
+    );
+  }
+
+  /**
+   * Regenerate all linked .bib files.
+   */
+  @errorcatching(
+    "Failed to regenerate linked .bib files.",
+    true,
+    "LinkedBibService"
+  )
+  async regenerate() {
+    await this._enqueue(() => this._regenerateAll());
+  }
+}
@@ -1,4 +1,22 @@
+import { existsSync, promises } from "fs";
+import path from "path";
+
+import {
+  authorKeyOf,
+  authorListOf,
+  authorQueryOf,
+  formatAuthorName,
+} from "@/base/author";
 import { chunkRun } from "@/base/chunk";
+import {
+  disambiguateCiteKey,
+  formatCiteKey,
+  sanitizeCiteKey,
+} from "@/base/citekey";
+import {
+  ICustomFieldDefinition,
+  normalizeCustomFields,
+} from "@/base/custom-field";
 import { errorcatching } from "@/base/error";
 import { Eventable } from "@/base/event";
 import { PaperFilterOptions } from "@/base/filter";
@@ -16,22 +34,50 @@ import { OID } from "@/models/id";
 import { DatabaseCore, IDatabaseCore } from "@/service/services/database/core";
 
 import { uid } from "@/base/misc";
-import { getDefaultSupplementaryFileURL, getProtocol } from "@/base/url";
+import {
+  eraseProtocol,
+  getDefaultSupplementaryFileURL,
+  getFileType,
+  getProtocol,
+} from "@/base/url";
 import { ISupplementary, Supplementary } from "@/models/supplementary";
 import {
   IPaperEntityRepository,
   PaperEntityRepository,
 } from "../repositories/db-repository/paper-entity-repository";
+import { extractPDFAnnotations } from "./annotation/pdf-annotations";
 import { CacheService, ICacheService } from "./cache-service";
+import { findDuplicateGroups } from "./dedup/entity-dedup";
 import { FileService, IFileService } from "./file-service";
+import {
+  IReferenceImportError,
+  parseReferenceFile,
+  referenceFormatOf,
+} from "./import/reference-import";
 import { ISchedulerService, SchedulerService } from "./scheduler-service";
 import { IScrapeService, ScrapeService } from "./scrape-service";
+import { IEntityFieldChanges, diffEntityFields } from "./sync/entity-merge";
 
 export interface IPaperServiceState {
   count: number;
   updated: number;
 }
 
+export interface IReferenceImportResult {
+  imported: number;
+  // Number of entries skipped as they are already in the library or repeated in the file.
+  duplicated: number;
+  errors: IReferenceImportError[];
+}
+
+export interface IRenamePreview {
+  paperId: string;
+  title: string;
+  // Paths relative to the library folder.
+  from: string;
+  to: string;
+}
+
 export const IPaperService = createDecorator("paperService");
 
 /**
@@ -77,9 +123,10 @@ export class PaperService extends Eventable<IPaperServiceState> {
   /**
    * Load paper entities with filter and sort.
    * @param querySentence - Query sentence, string or PaperFilterOptions
-   * @param sortBy - Sort by
+   * @param sortBy - Sort by, "relevance" sorts fulltext search results by relevance
    * @param sortOrder - Sort order
    * @param fulltextQuerySentence - Fulltext query sentence
+   * @param placeholders - Values of the placeholders in the query sentence and the fulltext query sentence
    * @returns Paper entities
    */
   @processing(ProcessingKey.General)
@@ -88,25 +135,38 @@ export class PaperService extends Eventable<IPaperServiceState> {
     querySentence: string,
     sortBy: string = "addTime",
     sortOrder: "asce" | "desc",
-    fulltextQuerySentence?: string
+    fulltextQuerySentence?: string,
+    placeholders: unknown[] = []
   ): Promise<IEntityCollection> {
     if (this._databaseCore.getState("dbInitializing")) {
       return [];
     }
 
+    const sortByRelevance = sortBy === "relevance";
+    // The score is only defined for feed entities.
+    if (sortByRelevance || sortBy === "score") {
+      sortBy = "addTime";
+    }
+
     if (fulltextQuerySentence) {
       const allPaperEntities = this._paperEntityRepository.load(
         await this._databaseCore.realm(),
         querySentence,
+        placeholders,
         sortBy,
         sortOrder
       );
 
-      return this._cacheService.fullTextFilter(
+      const paperEntities = await this._cacheService.fullTextFilter(
         fulltextQuerySentence,
-        allPaperEntities
+        allPaperEntities,
+        sortByRelevance,
+        placeholders
       );
-      return [];
+      if (sortByRelevance && sortOrder === "asce") {
+        return Array.from(paperEntities).reverse();
+      }
+      return paperEntities;
     } else {
       if (PaperFilterOptions.checkIsDateFilter(querySentence)) {
         querySentence = PaperFilterOptions.parseDateFilter(querySentence);
@@ -115,6 +175,7 @@ export class PaperService extends Eventable<IPaperServiceState> {
       return this._paperEntityRepository.load(
         await this._databaseCore.realm(),
         querySentence,
+        placeholders,
         sortBy,
         sortOrder
       );
@@ -143,6 +204,57 @@ export class PaperService extends Eventable<IPaperServiceState> {
     );
   }
 
+  /**
+   * Load the authors of all paper entities, the same author of different papers is counted once per paper.
+   * @returns Authors with their query sentences and numbers of papers, sorted by the numbers.
+   */
+  @processing(ProcessingKey.General)
+  @errorcatching("Failed to load authors.", true, "PaperService", [])
+  async loadAuthors() {
+    if (this._databaseCore.getState("dbInitializing")) {
+      return [];
+    }
+    const paperEntities = this._paperEntityRepository.load(
+      await this._databaseCore.realm(),
+      "",
+      [],
+      "addTime",
+      "desc"
+    );
+
+    const authors = new Map<
+      string,
+      { key: string; name: string; query: string; count: number }
+    >();
+    for (const paperEntity of paperEntities) {
+      const keys = new Set<string>();
+      for (const author of authorListOf(paperEntity)) {
+        const key = authorKeyOf(author);
+        const name = formatAuthorName(author);
+        if (!name || keys.has(key)) {
+          continue;
+        }
+        keys.add(key);
+
+        const item = authors.get(key);
+        if (item) {
+          item.count += 1;
+        } else {
+          authors.set(key, {
+            key,
+            name,
+            query: authorQueryOf(author),
+            count: 1,
+          });
+        }
+      }
+    }
+
+    return Array.from(authors.values()).sort(
+      (a, b) => b.count - a.count || a.name.localeCompare(b.name)
+    );
+  }
+
   /**
    * Update paper entities.
    * @param paperEntityDrafts - paper entity drafts
@@ -168,14 +280,51 @@ export class PaperService extends Eventable<IPaperServiceState> {
       false,
       "PaperService"
     );
+    // Values of custom fields are converted into the types of their fields, e.g., dates sent as strings.
+    const customFieldDefinitions = ((await PLMainAPI.preferenceService.get(
+      "customFields"
+    )) || []) as ICustomFieldDefinition[];
+    for (const paperEntityDraft of paperEntityDrafts) {
+      paperEntityDraft.customFields = normalizeCustomFields(
+        customFieldDefinitions,
+        paperEntityDraft.customFields
+      );
+    }
+
     // ========================================================
     // #region 0. Add sync logs
     if (!fromSync) {
-      await PLAPILocal.syncService.addSyncLog("paper", "update", {
-        paperEntityDrafts,
-        updateCache,
-        isUpdate,
-      });
+      // Record the changed fields of existing papers for field-level merging on other devices.
+      const changes: Record<string, IEntityFieldChanges> = {};
+      const ids = paperEntityDrafts
+        .filter((paperEntityDraft) => paperEntityDraft._id)
+        .map((paperEntityDraft) => paperEntityDraft._id);
+      if (isUpdate && ids.length > 0) {
+        const paperEntities = await this.loadByIds(ids);
+        for (const paperEntity of paperEntities) {
+          const paperEntityDraft = paperEntityDrafts.find(
+            (paperEntityDraft) =>
+              `${paperEntityDraft._id}` === `${paperEntity._id}`
+          );
+          if (paperEntityDraft) {
+            changes[`${paperEntity._id}`] = diffEntityFields(
+              paperEntity,
+              paperEntityDraft
+            );
+          }
+        }
+      }
+
+      await PLAPILocal.syncService.addSyncLog(
+        "paper",
+        isUpdate ? "update" : "create",
+        {
+          paperEntityDrafts,
+          updateCache,
+          isUpdate,
+          changes,
+        }
+      );
     }
 
     // #endregion =================================================
@@ -210,6 +359,9 @@ export class PaperService extends Eventable<IPaperServiceState> {
     // #region 2. Update database
     const realm = await this._databaseCore.realm();
     const updatedPaperEntityDrafts: (Entity | null)[] = [];
+    const citeKeyTemplate = (await PLMainAPI.preferenceService.get(
+      "citeKeyTemplate"
+    )) as string;
 
     for (const paperEntity of fileMovedPaperEntityDrafts) {
       let success: boolean;
@@ -218,7 +370,8 @@ export class PaperService extends Eventable<IPaperServiceState> {
           realm,
           paperEntity,
           this._databaseCore.getPartition(),
-          isUpdate
+          isUpdate,
+          citeKeyTemplate
         );
 
         if (!success && !isUpdate) {
@@ -331,6 +484,7 @@ export class PaperService extends Eventable<IPaperServiceState> {
    * @param paperEntity - The paper entity.
    * @param sups - The supplementary objects.
    * @param defaultSup - The default supplementary file ID.
+   * @param fromSync - Is from sync, default is false
    * @returns The updated paper entities.
    */
   @processing(ProcessingKey.General)
@@ -343,23 +497,49 @@ export class PaperService extends Eventable<IPaperServiceState> {
   async updateSups(
     paperEntity: Entity,
     sups: ISupplementary[],
-    defaultSup?: string
+    defaultSup?: string,
+    fromSync: boolean = false
   ) {
     if (this._databaseCore.getState("dbInitializing")) {
       return;
     }
 
+    const supIds: string[] = [];
+    let isUpdate = true;
     for (let sup of sups) {
       sup = new Supplementary(sup);
 
+      if (!paperEntity.supplementaries[sup._id]) {
+        isUpdate = false;
+      }
       if (sup._id === defaultSup) {
         paperEntity.defaultSup = sup._id;
       }
       paperEntity.supplementaries[sup._id] = sup as Supplementary;
+      supIds.push(sup._id);
     }
     paperEntity = await this._fileService.move(paperEntity);
 
-    const updatedPaperEntities = await this.update([paperEntity], false, true);
+    if (!fromSync) {
+      await PLAPILocal.syncService.addSyncLog(
+        "supplement",
+        isUpdate ? "update" : "create",
+        {
+          paperEntityId: `${paperEntity._id}`,
+          sups: supIds
+            .map((supId) => paperEntity.supplementaries[supId])
+            .filter((sup) => sup),
+          defaultSup,
+        }
+      );
+    }
+
+    const updatedPaperEntities = await this.update(
+      [paperEntity],
+      false,
+      true,
+      true
+    );
     if (
       defaultSup &&
       getProtocol(paperEntity.supplementaries[defaultSup].url) === "file"
@@ -401,11 +581,19 @@ export class PaperService extends Eventable<IPaperServiceState> {
       });
     }
 
-    const toBeDeletedFiles = this._paperEntityRepository.delete(
-      await this._databaseCore.realm(),
+    const realm = await this._databaseCore.realm();
+    let toBeDeletedFiles = this._paperEntityRepository.delete(
+      realm,
       ids,
       paperEntities
     );
+    // Files taken over by another paper, e.g., when merging duplicates, are kept.
+    if (toBeDeletedFiles.length > 0) {
+      toBeDeletedFiles = this._paperEntityRepository.filterUnreferencedFiles(
+        realm,
+        toBeDeletedFiles
+      );
+    }
 
     await Promise.all(
       toBeDeletedFiles.map((url) => {
@@ -425,12 +613,24 @@ export class PaperService extends Eventable<IPaperServiceState> {
    * Delete suplementaries.
    * @param paperEntity - The paper entity.
    * @param sups - The list of supplementary objects.
+   * @param fromSync - Is from sync, default is false
    */
   @processing(ProcessingKey.General)
   @errorcatching("Failed to delete supplementary file.", true, "PaperService")
-  async deleteSups(paperEntity: Entity, supIds: string[]) {
+  async deleteSups(
+    paperEntity: Entity,
+    supIds: string[],
+    fromSync: boolean = false
+  ) {
     this._logService.info(`Removing supplementaries...`, "", true, "Entity");
 
+    if (!fromSync) {
+      await PLAPILocal.syncService.addSyncLog("supplement", "delete", {
+        paperEntityId: `${paperEntity._id}`,
+        supIds,
+      });
+    }
+
     const toBeDeletedFiles = supIds
       .map((supId) => {
         const sup = paperEntity.supplementaries[supId];
@@ -459,7 +659,7 @@ export class PaperService extends Eventable<IPaperServiceState> {
       }
     }
 
-    await this.update([paperEntity], false, true);
+    await this.update([paperEntity], false, true, true);
   }
 
   /**
@@ -499,10 +699,225 @@ export class PaperService extends Eventable<IPaperServiceState> {
       return paperEntityDraft;
     });
 
-    // 2. Update.
+    // 2. Read the annotations already in PDF files.
+    await this._readPDFAnnotations(scrapedPaperEntityDrafts);
+
+    // 3. Update.
     return await this.update(scrapedPaperEntityDrafts, true, false);
   }
 
+  private async _readPDFAnnotations(paperEntityDrafts: Entity[]) {
+    for (const paperEntityDraft of paperEntityDrafts) {
+      for (const sup of Object.values(paperEntityDraft.supplementaries)) {
+        if (getFileType(sup.url).toLowerCase() !== "pdf") {
+          continue;
+        }
+        try {
+          sup.annotations = extractPDFAnnotations(
+            await promises.readFile(eraseProtocol(sup.url))
+          );
+        } catch (error) {
+          this._logService.warn(
+            `Failed to read annotations of ${sup.url}.`,
+            (error as Error).message,
+            false,
+            "PaperService"
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Import paper entities from a BibTeX, BibLaTeX, RIS or CSL-JSON file.
+   * Files in the `file` fields of entries are imported as supplementaries.
+   * Entries of papers already in the library, or repeated in the file, are skipped.
+   * @param filePath - The path of the reference file.
+   * @returns The numbers of imported and skipped entries, and the errors of the entries failed to import.
+   */
+  @processing(ProcessingKey.General)
+  @errorcatching("Failed to import the reference file.", true, "PaperService", {
+    imported: 0,
+    duplicated: 0,
+    errors: [],
+  })
+  async importFromFile(filePath: string): Promise<IReferenceImportResult> {
+    if (this._databaseCore.getState("dbInitializing")) {
+      return { imported: 0, duplicated: 0, errors: [] };
+    }
+
+    // 1. Parse
+    const content = await promises.readFile(filePath, "utf-8");
+    const format = referenceFormatOf(filePath, content);
+    if (!format) {
+      throw new Error(`Unknown format of the reference file ${filePath}.`);
+    }
+    const { records, errors } = parseReferenceFile(
+      content,
+      format,
+      path.dirname(filePath)
+    );
+
+    // 2. Attach files
+    for (const { index, key, entity, files } of records) {
+      for (const file of files) {
+        if (
+          getProtocol(file.url) === "file" &&
+          !existsSync(eraseProtocol(file.url))
+        ) {
+          errors.push({
+            index,
+            key,
+            message: `The file ${eraseProtocol(file.url)} is not found.`,
+          });
+          continue;
+        }
+        const sup = new Supplementary({ url: file.url, name: file.name });
+        entity.supplementaries[sup._id] = sup;
+        if (
+          !entity.defaultSup &&
+          getFileType(file.url).toLowerCase() === "pdf"
+        ) {
+          entity.defaultSup = sup._id;
+        }
+      }
+    }
+
+    // 3. Skip duplicates. Groups are in the order of the entities, so the first of a group
+    // is kept if none of the group is in the library.
+    const paperEntities = Array.from(await this.load("", "addTime", "desc"));
+    const libraryIds = new Set(
+      paperEntities.map((paperEntity) => `${paperEntity._id}`)
+    );
+    const duplicatedIds = new Set<string>();
+    for (const group of findDuplicateGroups([
+      ...paperEntities,
+      ...records.map((record) => record.entity),
+    ])) {
+      const ids = group.ids.map((id) => `${id}`);
+      const inLibrary = ids.some((id) => libraryIds.has(id));
+      ids
+        .filter((id, i) => !libraryIds.has(id) && (inLibrary || i > 0))
+        .forEach((id) => duplicatedIds.add(id));
+    }
+    const paperEntityDrafts = records
+      .map((record) => record.entity)
+      .filter((entity) => !duplicatedIds.has(`${entity._id}`));
+
+    // Keep the keys of BibTeX entries, which are cited by existing documents, if they are not taken.
+    if (format === "bibtex") {
+      const takenKeys = new Set(
+        paperEntities.map((paperEntity) => paperEntity.citeKey)
+      );
+      for (const { key, entity } of records) {
+        const citeKey = sanitizeCiteKey(key || "");
+        if (
+          citeKey &&
+          !takenKeys.has(citeKey) &&
+          !duplicatedIds.has(`${entity._id}`)
+        ) {
+          entity.citeKey = citeKey;
+          entity.citeKeyPinned = true;
+          takenKeys.add(citeKey);
+        }
+      }
+    }
+
+    // 4. Update
+    await this._readPDFAnnotations(paperEntityDrafts);
+    const imported = await this.update(paperEntityDrafts, true, false);
+
+    errors.sort((a, b) => a.index - b.index);
+    if (errors.length > 0) {
+      this._logService.warn(
+        `${errors.length} problem(s) in importing ${path.basename(filePath)}.`,
+        errors
+          .map(
+            (error) =>
+              `#${error.index + 1}${error.key ? ` (${error.key})` : ""}: ${
+                error.message
+              }`
+          )
+          .join("\n"),
+        true,
+        "PaperService"
+      );
+    }
+    this._logService.info(
+      `Imported ${imported.length} paper(s) from ${path.basename(filePath)}.`,
+      duplicatedIds.size > 0
+        ? `${duplicatedIds.size} paper(s) are skipped as duplicated.`
+        : "",
+      true,
+      "PaperService"
+    );
+
+    return {
+      imported: imported.length,
+      duplicated: duplicatedIds.size,
+      errors,
+    };
+  }
+
+  /**
+   * Regenerate the citation keys of paper entities from the template, e.g., after the template is changed.
+   * Pinned keys are kept. Older paper entities get the keys without suffixes.
+   * @param ids - The IDs of paper entities, all paper entities if not given.
+   * @returns The number of changed keys.
+   */
+  @processing(ProcessingKey.General)
+  @errorcatching("Failed to regenerate citation keys.", true, "PaperService", 0)
+  async regenerateCiteKeys(ids?: OID[]) {
+    if (this._databaseCore.getState("dbInitializing")) {
+      return 0;
+    }
+    const citeKeyTemplate = (await PLMainAPI.preferenceService.get(
+      "citeKeyTemplate"
+    )) as string;
+
+    const paperEntities = Array.from(await this.load("", "addTime", "asce"));
+    const selectedIds = ids ? new Set(ids.map((id) => `${id}`)) : undefined;
+    const regeneratedEntities = paperEntities.filter(
+      (paperEntity) =>
+        !paperEntity.citeKeyPinned &&
+        (!selectedIds || selectedIds.has(`${paperEntity._id}`))
+    );
+    const regeneratedIds = new Set(
+      regeneratedEntities.map((paperEntity) => `${paperEntity._id}`)
+    );
+    const takenKeys = new Set(
+      paperEntities
+        .filter((paperEntity) => !regeneratedIds.has(`${paperEntity._id}`))
+        .map((paperEntity) => paperEntity.citeKey)
+    );
+
+    const paperEntityDrafts: Entity[] = [];
+    for (const paperEntity of regeneratedEntities) {
+      const citeKey = disambiguateCiteKey(
+        formatCiteKey(citeKeyTemplate, paperEntity),
+        (key) => takenKeys.has(key)
+      );
+      takenKeys.add(citeKey);
+      if (citeKey !== paperEntity.citeKey) {
+        const paperEntityDraft = new Entity(paperEntity);
+        paperEntityDraft.citeKey = citeKey;
+        paperEntityDraft.citeKeyPinned = false;
+        paperEntityDrafts.push(paperEntityDraft);
+      }
+    }
+
+    if (paperEntityDrafts.length > 0) {
+      await this.update(paperEntityDrafts, false, true);
+    }
+    this._logService.info(
+      `Regenerated ${paperEntityDrafts.length} citation key(s).`,
+      "",
+      true,
+      "PaperService"
+    );
+    return paperEntityDrafts.length;
+  }
+
   /**
    * Create paper entity from a URL with a given categorizer.
    * @param urlList - The list of URLs.
@@ -572,6 +987,32 @@ export class PaperService extends Eventable<IPaperServiceState> {
     await this.update(scrapedPaperEntityDrafts, false, true);
   }
 
+  /**
+   * Scrape the papers referenced by paper entities.
+   * @param paperEntities - The list of paper entities.
+   */
+  @processing(ProcessingKey.General)
+  @errorcatching("Failed to scrape references.", true, "PaperService")
+  async scrapeReferences(paperEntities: IEntityCollection) {
+    if (this._databaseCore.getState("dbInitializing")) {
+      return;
+    }
+    this._logService.info(
+      `Scraping references of ${paperEntities.length} paper(s)...`,
+      "",
+      true,
+      "PaperService"
+    );
+
+    const scrapedPaperEntityDrafts = await this._scrapeService.scrapeReferences(
+      paperEntities.map((paperEntity) => {
+        return new Entity(paperEntity);
+      })
+    );
+
+    await this.update(scrapedPaperEntityDrafts, false, true);
+  }
+
   /**
    * Scrape preprint paper entities.
    */
@@ -594,6 +1035,7 @@ export class PaperService extends Eventable<IPaperServiceState> {
     const preprintPaperEntities = this._paperEntityRepository.load(
       await this._databaseCore.realm(),
       '(publication contains[c] "arXiv") OR (publication contains[c] "openreview") OR publication == ""',
+      [],
       "addTime",
       "desc"
     );
@@ -636,6 +1078,42 @@ export class PaperService extends Eventable<IPaperServiceState> {
     }
   }
 
+  /**
+   * Preview renaming all paper entities, without moving any file.
+   * @returns The files that would be renamed, with their current and new paths
+   */
+  @processing(ProcessingKey.General)
+  @errorcatching("Failed to preview renaming.", true, "PaperService", [])
+  async previewRenameAll(): Promise<IRenamePreview[]> {
+    if (this._databaseCore.getState("dbInitializing")) {
+      return [];
+    }
+    const paperEntities = await this.load("", "title", "desc");
+
+    // Paths are planned in the same order as renaming.
+    const planned = new Set<string>();
+    const previews: IRenamePreview[] = [];
+    for (const paperEntity of paperEntities) {
+      const paperEntityDraft = new Entity(paperEntity);
+      const fileNames = await this._fileService.planFileNames(
+        paperEntityDraft,
+        planned
+      );
+      for (const [id, fileName] of Object.entries(fileNames)) {
+        const from = eraseProtocol(paperEntityDraft.supplementaries[id].url);
+        if (from !== fileName) {
+          previews.push({
+            paperId: `${paperEntityDraft._id}`,
+            title: paperEntityDraft.title,
+            from,
+            to: fileName,
+          });
+        }
+      }
+    }
+    return previews;
+  }
+
   /**
    * Rename all paper entities.
    */
@@ -651,11 +1129,11 @@ export class PaperService extends Eventable<IPaperServiceState> {
       return new Entity(paperEntity);
     });
 
-    const movedEntityDrafts = await Promise.all(
-      paperEntityDrafts.map((paperEntityDraft: Entity) =>
-        this._fileService.move(paperEntityDraft)
-      )
-    );
+    // Files are moved one by one, so that collisions get the same suffixes as in the preview.
+    const movedEntityDrafts: Entity[] = [];
+    for (const paperEntityDraft of paperEntityDrafts) {
+      movedEntityDrafts.push(await this._fileService.move(paperEntityDraft));
+    }
 
     for (let i = 0; i < movedEntityDrafts.length; i++) {
       if (movedEntityDrafts[i] === null) {
@@ -1,3 +1,4 @@
+import { ICustomFieldDefinition } from "@/base/custom-field";
 import { errorcatching } from "@/base/error";
 import { Eventable } from "@/base/event";
 import { createDecorator } from "@/base/injection/injection";
@@ -19,6 +20,7 @@ export interface IPreferenceStore {
   isSidebarCompact: boolean;
 
   mainTableFields: IDataViewField[];
+  customFields: ICustomFieldDefinition[];
 
   feedFields: IDataViewField[];
 
@@ -28,17 +30,20 @@ export interface IPreferenceStore {
   sidebarSortOrder: "asce" | "desc";
   renamingFormat: "full" | "short" | "authortitle" | "custom";
   customRenamingFormat: string;
+  supRenamingFormat: string;
 
   language: string;
 
   enableExportReplacement: boolean;
   exportReplacement: Array<{ from: string; to: string }>;
+  citeKeyTemplate: string;
 
   useSync: "none" | "official" | "realm" | "self-host";
   isFlexibleSync: boolean;
   syncAPPID: "";
   syncAPIKey: string;
   syncEmail: string;
+  selfHostSyncURL: string;
 
 
   syncFileStorage: string;
@@ -85,6 +90,8 @@ export interface IPreferenceStore {
 
   selectedCSLStyle: string;
   importedCSLStylesPath: string;
+  selectedCSLLocale: string;
+  importedCSLLocalesPath: string;
 
   showPresetting: boolean;
   showGuide: boolean;
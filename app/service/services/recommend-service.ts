@@ -0,0 +1,89 @@
+import { errorcatching } from "@/base/error";
+import { Eventable } from "@/base/event";
+import { createDecorator } from "@/base/injection/injection";
+import {
+  IRecommendNeighbor,
+  IRecommendProfile,
+  buildRecommendProfile,
+  closestDocuments,
+  recommendationOf,
+} from "@/base/recommend";
+import { IFeedEntityObject } from "@/models/feed-entity";
+
+import { IPaperService, PaperService } from "./paper-service";
+
+export interface IRecommendServiceState {
+  updated: number;
+}
+
+export const IRecommendService = createDecorator("recommendService");
+
+/**
+ * Service for recommending feed entities by their similarity to the papers in the library.
+ * The profile of the library is built from the titles and abstracts of papers, and rebuilt lazily after papers change.
+ */
+export class RecommendService extends Eventable<IRecommendServiceState> {
+  private _profile?: IRecommendProfile;
+
+  constructor(@IPaperService private readonly _paperService: PaperService) {
+    super("recommendService", {
+      updated: 0,
+    });
+
+    this._paperService.on(["updated", "count"], () => {
+      this._profile = undefined;
+      this.fire({ updated: Date.now() });
+    });
+  }
+
+  private async _libraryProfile() {
+    if (!this._profile) {
+      const paperEntities = await this._paperService.load(
+        "",
+        "addTime",
+        "desc"
+      );
+      this._profile = buildRecommendProfile(
+        Array.from(paperEntities).map((paperEntity) => ({
+          id: `${paperEntity._id}`,
+          title: paperEntity.title,
+          abstract: paperEntity.abstract || "",
+          rating: paperEntity.rating,
+          flag: paperEntity.flag,
+          folders: paperEntity.folders,
+        }))
+      );
+    }
+    return this._profile;
+  }
+
+  /**
+   * Set the recommendations of feed entities.
+   * @param feedEntities - Feed entities.
+   */
+  @errorcatching("Failed to recommend feed entities.", true, "RecommendService")
+  async recommend(feedEntities: IFeedEntityObject[]) {
+    const profile = await this._libraryProfile();
+    for (const feedEntity of feedEntities) {
+      feedEntity.recommendation = recommendationOf(profile, feedEntity);
+    }
+  }
+
+  /**
+   * Explain why a feed entity is recommended.
+   * @param feedEntity - The feed entity.
+   * @returns The papers in the library closest to the feed entity, the most similar first.
+   */
+  @errorcatching(
+    "Failed to explain the recommendation.",
+    true,
+    "RecommendService",
+    []
+  )
+  async explain(feedEntity: {
+    title: string;
+    abstract: string;
+  }): Promise<IRecommendNeighbor[]> {
+    return closestDocuments(await this._libraryProfile(), feedEntity);
+  }
+}
@@ -3,13 +3,27 @@ import { XMLParser } from "fast-xml-parser";
 import { existsSync, readFileSync, readdirSync } from "fs";
 import path from "path";
 
+import { authorListOf, toCSLName } from "@/base/author";
+import { DEFAULT_CITEKEY_TEMPLATE, formatCiteKey } from "@/base/citekey";
+import {
+  ICustomFieldDefinition,
+  customFieldNamesOf,
+  formatCustomFields,
+} from "@/base/custom-field";
 import { errorcatching } from "@/base/error";
 import { createDecorator } from "@/base/injection/injection";
-import { formatString } from "@/base/string";
 import { ILogService, LogService } from "@/common/services/log-service";
 import { CSL } from "@/models/csl";
 import { Entity } from "@/models/entity";
 
+import {
+  addBibTeXCustomFields,
+  formatCSLJSON,
+  formatCSV,
+  formatEndNoteXML,
+  formatMarkdown,
+  formatRIS,
+} from "./export/reference-export";
 import { HookService, IHookService } from "./hook-service";
 import { IPaperService, PaperService } from "./paper-service";
 
@@ -24,6 +38,11 @@ export class ReferenceService {
     this._setupCitePlugin();
   }
 
+  private async _customFieldDefinitions() {
+    return ((await PLMainAPI.preferenceService.get("customFields")) ||
+      []) as ICustomFieldDefinition[];
+  }
+
   private _setupCitePlugin() {
     const parseSingle = (paperEntityDraft: Entity) => {
       const output = {
@@ -32,49 +51,14 @@ export class ReferenceService {
         title: paperEntityDraft.title,
       };
 
-      let nameArray: string[];
-      if (paperEntityDraft.authors.includes(";")) {
-        nameArray = paperEntityDraft.authors.split(";");
-      } else {
-        nameArray = paperEntityDraft.authors.split(",");
-      }
-      const nameObjects = nameArray.map((name) => {
-        name = name.trim();
-        const nameParts = name.split(" ");
-        const given = nameParts.slice(0, nameParts.length - 1).join(" ");
-        const family = nameParts[nameParts.length - 1];
-
-        return {
-          given: given,
-          family: family,
-        };
-      });
-      output["author"] = nameObjects;
+      output["author"] = authorListOf(paperEntityDraft).map((author) =>
+        toCSLName(author)
+      );
 
-      let citeKey = "";
-      if (nameObjects.length >= 1) {
-        citeKey += nameObjects[0].family.toLowerCase();
-      }
-      citeKey += paperEntityDraft.year;
-      const titleArray = paperEntityDraft.title.split(" ");
-      for (const word of titleArray) {
-        if (
-          word.toLocaleLowerCase() !== "the" &&
-          word.toLocaleLowerCase() !== "a" &&
-          word.toLocaleLowerCase() !== "an" &&
-          word.length > 3
-        ) {
-          citeKey += formatString({
-            str: word.toLowerCase(),
-            removeNewline: true,
-            removeSymbol: true,
-            removeWhite: true,
-            trimWhite: true,
-          });
-          break;
-        }
-      }
-      output["citation-key"] = citeKey;
+      // Drafts not in the library yet, e.g., feed entities, have no keys.
+      output["citation-key"] =
+        paperEntityDraft.citeKey ||
+        formatCiteKey(DEFAULT_CITEKEY_TEMPLATE, paperEntityDraft);
 
       for (const key of ["doi", "issn", "isbn"]) {
         if (paperEntityDraft[key]) {
@@ -257,7 +241,10 @@ export class ReferenceService {
 
     const getAuthors = (authors) =>
       authors.map((author) => {
-        const { family, given } = author;
+        const { family, given, literal } = author;
+        if (literal) {
+          return literal;
+        }
         if (family && given) {
           return `${capitalize(family)}, ${given.charAt(0).toUpperCase()}.`;
         }
@@ -388,6 +375,7 @@ export class ReferenceService {
   /**
    * Export BibTex body string.
    * @param paperEntities - The paper entities.
+   * @param citeKeys - The citation keys to use instead of the generated ones, by entity id.
    * @returns The BibTex body string.
    */
   @errorcatching(
@@ -396,7 +384,10 @@ export class ReferenceService {
     "ReferenceService",
     ""
   )
-  async exportBibTexBody(paperEntities: Entity[]): Promise<string> {
+  async exportBibTexBody(
+    paperEntities: Entity[],
+    citeKeys?: Record<string, string>
+  ): Promise<string> {
     if (this._hookService.hasHook("beforeExportBibTexBody")) {
       [paperEntities] = await this._hookService.modifyHookPoint(
         "beforeExportBibTexBody",
@@ -416,6 +407,14 @@ export class ReferenceService {
       );
     }
 
+    if (citeKeys) {
+      for (const data of cite.data) {
+        if (citeKeys[data.id]) {
+          data["citation-key"] = citeKeys[data.id];
+        }
+      }
+    }
+
     const mathEnvStrs: string[] = [];
     let idx = 0;
     for (const i in cite.data) {
@@ -432,7 +431,17 @@ export class ReferenceService {
       }
     }
 
-    let bibtexBody = escapeLaTexString(cite.format("bibtex"));
+    let bibtexBody = escapeLaTexString(
+      addBibTeXCustomFields(
+        cite.format("bibtex"),
+        cite.data.map((data: CSL) => ({
+          id: data.id,
+          citationKey: data["citation-key"],
+        })),
+        paperEntities,
+        await this._customFieldDefinitions()
+      )
+    );
 
     for (const i in mathEnvStrs) {
       bibtexBody = bibtexBody
@@ -463,9 +472,11 @@ export class ReferenceService {
   )
   async exportBibTexBodyInFolder(folderName: string) {
     const paperEntities = (await this._paperService.load(
-      `folders.name == '${folderName}'`,
+      "folders.name == $0",
       "title",
-      "asce"
+      "asce",
+      undefined,
+      [folderName]
     )) as Entity[];
     return this.exportBibTexBody(paperEntities);
   }
@@ -501,50 +512,177 @@ export class ReferenceService {
       );
     }
 
-    const csl = (await PLMainAPI.preferenceService.get(
-      "selectedCSLStyle"
-    )) as string;
+    let outStr = cite.format("bibliography", {
+      template: await this._loadCSLStyle(),
+      lang: await this._loadCSLLocale(),
+    });
 
-    let outStr = "";
-    if (["apa", "vancouver", "harvard1"].includes(csl)) {
-      outStr = cite.format("bibliography", { template: csl });
-    } else {
-      let templatePath = path.join(
-        (await PLMainAPI.preferenceService.get(
-          "importedCSLStylesPath"
-        )) as string,
-        csl + ".csl"
+    if (this._hookService.hasHook("afterExportPlainText")) {
+      [outStr] = await this._hookService.modifyHookPoint(
+        "afterExportPlainText",
+        60000, // 1 min
+        outStr
       );
+    }
 
-      let config = Cite.plugins.config.get("@csl");
-      if (existsSync(templatePath)) {
-        if (!config.templates.has(csl)) {
-          const template = readFileSync(templatePath, "utf8");
-          config.templates.add(csl, template);
-        }
+    return outStr;
+  }
 
-        outStr = cite.format("bibliography", { template: csl });
-      } else {
-        this._logService.error(
-          `CSL template file: ${csl}.csl not found.`,
-          "",
-          true,
-          "Reference"
-        );
+  /**
+   * Load a CSL style into citation.js, which is built-in or imported from the folder set in the preference.
+   * @param csl - The key of the style, the selected one if not given.
+   * @returns The key of the loaded style, or "apa" if the style is not found.
+   */
+  private async _loadCSLStyle(csl?: string) {
+    csl =
+      csl ||
+      ((await PLMainAPI.preferenceService.get("selectedCSLStyle")) as string);
+
+    const config = Cite.plugins.config.get("@csl");
+    if (
+      ["apa", "vancouver", "harvard1"].includes(csl) ||
+      config.templates.has(csl)
+    ) {
+      return csl;
+    }
 
-        outStr = cite.format("bibliography", { template: "apa" });
-      }
+    const templatePath = path.join(
+      (await PLMainAPI.preferenceService.get(
+        "importedCSLStylesPath"
+      )) as string,
+      csl + ".csl"
+    );
+    if (existsSync(templatePath)) {
+      config.templates.add(csl, readFileSync(templatePath, "utf8"));
+      return csl;
     }
 
-    if (this._hookService.hasHook("afterExportPlainText")) {
-      [outStr] = await this._hookService.modifyHookPoint(
-        "afterExportPlainText",
+    this._logService.error(
+      `CSL template file: ${csl}.csl not found.`,
+      "",
+      true,
+      "Reference"
+    );
+    return "apa";
+  }
+
+  /**
+   * Load a CSL locale into citation.js, which is built-in or imported from the folder set in the preference.
+   * @param lang - The language of the locale, e.g., "en-US", the selected one if not given.
+   * @returns The language of the loaded locale, or "en-US" if the locale is not found.
+   */
+  private async _loadCSLLocale(lang?: string) {
+    lang =
+      lang ||
+      ((await PLMainAPI.preferenceService.get(
+        "selectedCSLLocale"
+      )) as string) ||
+      "en-US";
+
+    const config = Cite.plugins.config.get("@csl");
+    if (config.locales.has(lang)) {
+      return lang;
+    }
+
+    const localePath = path.join(
+      (await PLMainAPI.preferenceService.get(
+        "importedCSLLocalesPath"
+      )) as string,
+      `locales-${lang}.xml`
+    );
+    if (existsSync(localePath)) {
+      config.locales.add(lang, readFileSync(localePath, "utf8"));
+      return lang;
+    }
+
+    this._logService.error(
+      `CSL locale file: locales-${lang}.xml not found.`,
+      "",
+      true,
+      "Reference"
+    );
+    return "en-US";
+  }
+
+  /**
+   * Export a bibliography, ordered and numbered as the style specifies.
+   * @param paperEntities - The paper entities.
+   * @param format - The output format.
+   * @param csl - The key of the CSL style, the selected one if not given.
+   * @returns The bibliography.
+   */
+  @errorcatching(
+    "Failed to convert cite object to bibliography.",
+    true,
+    "ReferenceService",
+    ""
+  )
+  async exportBibliography(
+    paperEntities: Entity[],
+    format: "html" | "rtf" | "text" = "html",
+    csl?: string
+  ): Promise<string> {
+    if (this._hookService.hasHook("beforeExportBibliography")) {
+      [paperEntities, format] = await this._hookService.modifyHookPoint(
+        "beforeExportBibliography",
         60000, // 1 min
-        outStr
+        paperEntities,
+        format
       );
     }
 
-    return outStr;
+    let cite = await this.toCite(paperEntities);
+
+    if (this._hookService.hasHook("citeObjCreatedInExportBibliography")) {
+      [cite, paperEntities] = await this._hookService.modifyHookPoint(
+        "citeObjCreatedInExportBibliography",
+        60000, // 1 min
+        cite,
+        paperEntities
+      );
+    }
+
+    let bibliography = cite.format("bibliography", {
+      template: await this._loadCSLStyle(csl),
+      lang: await this._loadCSLLocale(),
+      format,
+    });
+
+    if (this._hookService.hasHook("afterExportBibliography")) {
+      [bibliography] = await this._hookService.modifyHookPoint(
+        "afterExportBibliography",
+        60000, // 1 min
+        bibliography,
+        format
+      );
+    }
+
+    return bibliography;
+  }
+
+  /**
+   * Export a bibliography of papers in folder.
+   * @param folderName - The folder name.
+   * @param format - The output format.
+   */
+  @errorcatching(
+    "Failed to export bibliography in folder.",
+    true,
+    "ReferenceService",
+    ""
+  )
+  async exportBibliographyInFolder(
+    folderName: string,
+    format: "html" | "rtf" | "text" = "html"
+  ) {
+    const paperEntities = (await this._paperService.load(
+      "folders.name == $0",
+      "title",
+      "asce",
+      undefined,
+      [folderName]
+    )) as Entity[];
+    return this.exportBibliography(paperEntities, format);
   }
 
   /**
@@ -559,13 +697,164 @@ export class ReferenceService {
   )
   async exportPlainTextInFolder(folderName: string) {
     const paperEntities = (await this._paperService.load(
-      `folders.name == '${folderName}'`,
+      "folders.name == $0",
       "title",
-      "asce"
+      "asce",
+      undefined,
+      [folderName]
     )) as Entity[];
     return this.exportPlainText(paperEntities);
   }
 
+  /**
+   * Export CSL-JSON.
+   * @param paperEntities - The paper entities.
+   * @returns The CSL-JSON string.
+   */
+  @errorcatching(
+    "Failed to convert papers to CSL-JSON.",
+    true,
+    "ReferenceService",
+    ""
+  )
+  async exportCSLJSON(paperEntities: Entity[]): Promise<string> {
+    if (this._hookService.hasHook("beforeExportCSLJSON")) {
+      [paperEntities] = await this._hookService.modifyHookPoint(
+        "beforeExportCSLJSON",
+        60000, // 1 min
+        paperEntities
+      );
+    }
+
+    let cslJSON = formatCSLJSON(
+      await Promise.all(
+        paperEntities.map((paperEntity) => this.replacePublication(paperEntity))
+      ),
+      await this._customFieldDefinitions()
+    );
+
+    if (this._hookService.hasHook("afterExportCSLJSON")) {
+      [cslJSON] = await this._hookService.modifyHookPoint(
+        "afterExportCSLJSON",
+        60000, // 1 min
+        cslJSON
+      );
+    }
+
+    return cslJSON;
+  }
+
+  /**
+   * Export RIS.
+   * @param paperEntities - The paper entities.
+   * @returns The RIS string.
+   */
+  @errorcatching(
+    "Failed to convert papers to RIS.",
+    true,
+    "ReferenceService",
+    ""
+  )
+  async exportRIS(paperEntities: Entity[]): Promise<string> {
+    if (this._hookService.hasHook("beforeExportRIS")) {
+      [paperEntities] = await this._hookService.modifyHookPoint(
+        "beforeExportRIS",
+        60000, // 1 min
+        paperEntities
+      );
+    }
+
+    let ris = formatRIS(
+      await Promise.all(
+        paperEntities.map((paperEntity) => this.replacePublication(paperEntity))
+      )
+    );
+
+    if (this._hookService.hasHook("afterExportRIS")) {
+      [ris] = await this._hookService.modifyHookPoint(
+        "afterExportRIS",
+        60000, // 1 min
+        ris
+      );
+    }
+
+    return ris;
+  }
+
+  /**
+   * Export EndNote XML.
+   * @param paperEntities - The paper entities.
+   * @returns The EndNote XML string.
+   */
+  @errorcatching(
+    "Failed to convert papers to EndNote XML.",
+    true,
+    "ReferenceService",
+    ""
+  )
+  async exportEndNoteXML(paperEntities: Entity[]): Promise<string> {
+    if (this._hookService.hasHook("beforeExportEndNoteXML")) {
+      [paperEntities] = await this._hookService.modifyHookPoint(
+        "beforeExportEndNoteXML",
+        60000, // 1 min
+        paperEntities
+      );
+    }
+
+    let endNoteXML = formatEndNoteXML(
+      await Promise.all(
+        paperEntities.map((paperEntity) => this.replacePublication(paperEntity))
+      )
+    );
+
+    if (this._hookService.hasHook("afterExportEndNoteXML")) {
+      [endNoteXML] = await this._hookService.modifyHookPoint(
+        "afterExportEndNoteXML",
+        60000, // 1 min
+        endNoteXML
+      );
+    }
+
+    return endNoteXML;
+  }
+
+  /**
+   * Export Markdown list with links.
+   * @param paperEntities - The paper entities.
+   * @returns The Markdown string.
+   */
+  @errorcatching(
+    "Failed to convert papers to Markdown.",
+    true,
+    "ReferenceService",
+    ""
+  )
+  async exportMarkdown(paperEntities: Entity[]): Promise<string> {
+    if (this._hookService.hasHook("beforeExportMarkdown")) {
+      [paperEntities] = await this._hookService.modifyHookPoint(
+        "beforeExportMarkdown",
+        60000, // 1 min
+        paperEntities
+      );
+    }
+
+    let markdown = formatMarkdown(
+      await Promise.all(
+        paperEntities.map((paperEntity) => this.replacePublication(paperEntity))
+      )
+    );
+
+    if (this._hookService.hasHook("afterExportMarkdown")) {
+      [markdown] = await this._hookService.modifyHookPoint(
+        "afterExportMarkdown",
+        60000, // 1 min
+        markdown
+      );
+    }
+
+    return markdown;
+  }
+
   /**
    * Export papers as csv string.
    * @param paperEntities - The paper entities.
@@ -577,51 +866,68 @@ export class ReferenceService {
     "ReferenceService",
     ""
   )
-  exportCSV(paperEntities: Entity[]): string {
-    let csv: string = "";
-
-    // Headers
-    const isExportProperty = (key: string): boolean => {
-      if (key.startsWith("_")) {
-        return false;
-      }
-      return true;
-    };
-    const headers: string[] = [];
-    for (const key in Entity.schema.properties) {
-      if (isExportProperty(key)) {
-        csv += key + ",";
-        headers.push(key);
-      }
+  async exportCSV(paperEntities: Entity[]): Promise<string> {
+    if (this._hookService.hasHook("beforeExportCSV")) {
+      [paperEntities] = await this._hookService.modifyHookPoint(
+        "beforeExportCSV",
+        60000, // 1 min
+        paperEntities
+      );
     }
-    csv += "\n";
+
+    // Headers, custom fields are in columns of their own.
+    const headers = Object.keys(Entity.schema.properties).filter(
+      (key) => !key.startsWith("_") && key !== "customFields"
+    );
+    const customFieldDefinitions = await this._customFieldDefinitions();
+    const customFieldNames = customFieldNamesOf(
+      customFieldDefinitions,
+      paperEntities
+    );
 
     // Data
-    for (const paper of paperEntities) {
-      for (const key of headers) {
-        let content = "";
-        if (key === "tags" || key === "folders") {
-          content = paper[key].map((item) => item.name).join(";");
-        } else if (key === "supplementaries") {
-          content = JSON.stringify(paper[key]);
-        } else {
-          content = paper[key];
-        }
-        csv += '"' + content + '",';
-      }
-      csv += "\n";
+    const rows = paperEntities.map((paper) => {
+      const customFields = formatCustomFields(
+        customFieldDefinitions,
+        paper.customFields
+      );
+      return [
+        ...headers.map((key) => {
+          if (key === "tags" || key === "folders") {
+            return (paper[key] || []).map((item) => item.name).join(";");
+          } else if (key === "supplementaries" || key === "references") {
+            return JSON.stringify(paper[key]);
+          } else if (key === "feed") {
+            return paper.feed?.name;
+          } else {
+            return paper[key];
+          }
+        }),
+        ...customFieldNames.map((name) => customFields[name]),
+      ];
+    });
+
+    let csv = formatCSV([[...headers, ...customFieldNames], ...rows]);
+
+    if (this._hookService.hasHook("afterExportCSV")) {
+      [csv] = await this._hookService.modifyHookPoint(
+        "afterExportCSV",
+        60000, // 1 min
+        csv
+      );
     }
 
     return csv;
   }
 
   /**
-   * Export paper entities.
+   * Export paper entities to the clipboard, or to a file.
    * @param paperEntities - The paper entities.
-   * @param format - The export format: "BibTex" | "BibTex-Key" | "PlainText"
+   * @param format - The export format: "BibTex" | "BibItem" | "BibTex-Key" | "PlainText" | "CSV" | "CSL-JSON" | "RIS" | "EndNote-XML" | "Markdown" | "BibTex-In-Folder" | "PlainText-In-Folder"
+   * @param filePath - The path of the file to write, the clipboard if not given.
    */
   @errorcatching("Failed to export paper entities.", true, "ReferenceService")
-  async export(paperEntities: Entity[], format: string) {
+  async export(paperEntities: Entity[], format: string, filePath?: string) {
     let paperEntityDrafts = paperEntities.map((paperEntity) => {
       return new Entity(paperEntity);
     });
@@ -642,7 +948,19 @@ export class ReferenceService {
         copyStr = await this.exportPlainText(paperEntityDrafts);
         break;
       case "CSV":
-        copyStr = this.exportCSV(paperEntityDrafts);
+        copyStr = await this.exportCSV(paperEntityDrafts);
+        break;
+      case "CSL-JSON":
+        copyStr = await this.exportCSLJSON(paperEntityDrafts);
+        break;
+      case "RIS":
+        copyStr = await this.exportRIS(paperEntityDrafts);
+        break;
+      case "EndNote-XML":
+        copyStr = await this.exportEndNoteXML(paperEntityDrafts);
+        break;
+      case "Markdown":
+        copyStr = await this.exportMarkdown(paperEntityDrafts);
         break;
       case "BibTex-In-Folder":
         folderName = (await PLMainAPI.preferenceService.get(
@@ -668,6 +986,17 @@ export class ReferenceService {
         break;
     }
 
+    if (filePath) {
+      await PLMainAPI.fileSystemService.writeToFile(filePath, copyStr);
+      this._logService.info(
+        `Exported ${paperEntityDrafts.length} paper(s).`,
+        filePath,
+        true,
+        "ReferenceService"
+      );
+      return;
+    }
+
     PLMainAPI.systemService.writeClipboard(copyStr);
     this._logService.info(
       "Copied to clipboard.",
@@ -739,6 +1068,40 @@ export class ReferenceService {
 
     return CSLStyles;
   }
+
+  /**
+   * Load CSL locales, which are built-in or imported from the folder set in the preference.
+   * @returns The CSL locales.
+   */
+  @errorcatching("Failed to load CSL locales.", true, "ReferenceService", [])
+  async loadCSLLocales(): Promise<{ key: string; name: string }[]> {
+    const CSLLocales = [
+      { key: "en-US", name: "English (US)" },
+      { key: "de-DE", name: "Deutsch" },
+      { key: "es-ES", name: "Español" },
+      { key: "fr-FR", name: "Français" },
+      { key: "nl-NL", name: "Nederlands" },
+    ];
+
+    const importedCSLLocalesPath = (await PLMainAPI.preferenceService.get(
+      "importedCSLLocalesPath"
+    )) as string;
+
+    if (importedCSLLocalesPath && existsSync(importedCSLLocalesPath)) {
+      // Locale files are named like locales-ja-JP.xml
+      const importedCSLLocales = readdirSync(importedCSLLocalesPath)
+        .map((file) => /^locales-(.+)\.xml$/.exec(file)?.[1])
+        .filter(
+          (lang): lang is string =>
+            !!lang && !CSLLocales.some((locale) => locale.key === lang)
+        )
+        .map((lang) => ({ key: lang, name: lang }));
+
+      return [...CSLLocales, ...importedCSLLocales];
+    }
+
+    return CSLLocales;
+  }
 }
 
 function escapeLaTexString(str: string) {
@@ -132,12 +132,17 @@ export class ScrapeService extends Eventable<{}> {
         // ENHANCE: merge duplicated paperEntityDrafts?
 
         // 2. Metadata scraper fullfills the metadata of PaperEntitys.
-        const scrapedPaperEntityDrafts = await this.scrapeMetadata(
+        let scrapedPaperEntityDrafts = await this.scrapeMetadata(
           paperEntityDrafts,
           specificScrapers,
           force
         );
 
+        // 3. Reference scraper fills the papers referenced by PaperEntitys.
+        scrapedPaperEntityDrafts = await this.scrapeReferences(
+          scrapedPaperEntityDrafts
+        );
+
         results.push(...scrapedPaperEntityDrafts);
       } catch (e) {
         this._logService.error(
@@ -249,6 +254,37 @@ export class ScrapeService extends Eventable<{}> {
     return scrapedPaperEntityDrafts;
   }
 
+  /**
+   * Scrape the papers referenced by PaperEntitys. Extensions fill the `references` of each PaperEntity in the `scrapeReferences` hook point.
+   * @param paperEntityDrafts - list of paper entities.
+   * @returns List of paper entities. The given paper entities if the scraping fails. */
+  @processing(ProcessingKey.General)
+  async scrapeReferences(paperEntityDrafts: Entity[]) {
+    if (!this._hookService.hasHook("scrapeReferences")) {
+      return paperEntityDrafts;
+    }
+
+    try {
+      const [scrapedPaperEntityDrafts] =
+        await this._hookService.modifyHookPoint(
+          "scrapeReferences",
+          60000,
+          paperEntityDrafts
+        );
+      return scrapedPaperEntityDrafts.map((p) => {
+        return new Entity(p);
+      });
+    } catch (e) {
+      this._logService.error(
+        "Failed to scrape references.",
+        e as Error,
+        true,
+        "ScrapeService"
+      );
+      return paperEntityDrafts;
+    }
+  }
+
   /**
    * Scrape a data source's metadata.
    * @param payloads - data source payloads.
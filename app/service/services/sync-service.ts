@@ -6,6 +6,27 @@
 import { errorcatching } from "@/base/error";
 import { Eventable } from "@/base/event";
 import { processing, ProcessingKey } from "@/common/utils/processing";
+import {
+  Categorizer,
+  CategorizerType,
+  ICategorizerDraft,
+} from "@/models/categorizer";
+import { Entity, IEntity } from "@/models/entity";
+import {
+  IEntityFieldChanges,
+  IEntityFieldConflict,
+  mergeEntityFields,
+} from "@/service/services/sync/entity-merge";
+import { compactSyncLogs } from "@/service/services/sync/log-compaction";
+import {
+  ISyncKey,
+  decryptSyncLogValue,
+  deriveSyncKey,
+  encryptSyncLogValue,
+  generateSyncKeySalt,
+  isEncryptedSyncLogValue,
+  isSyncKeyOf,
+} from "@/service/services/sync/log-encryption";
 import ElectronStore from "electron-store";
 import * as openidClient from "openid-client";
 import { v4 as uuidv4 } from "uuid";
@@ -22,7 +43,24 @@ export interface ISyncServiceState {
   userInfo: string;
   expiredAt: number;
   syncLogs: z.infer<typeof SyncLog>[];
+  pendingChanges: number;
   lastSyncAt: string;
+  syncedLogIds: string[];
+  conflicts: ISyncConflict[];
+  encryptionEnabled: boolean;
+  encryptionSalt: string;
+  encryptionKeyError: string;
+}
+
+/**
+ * A field of a paper changed differently on this device and a remote device.
+ * It is kept until the user picks one of the values.
+ */
+export interface ISyncConflict extends IEntityFieldConflict {
+  conflict_id: string;
+  entity_id: string;
+  title: string;
+  timestamp: string;
 }
 
 export const SyncLog = z.object({
@@ -53,9 +91,20 @@ const _DEFAULTSTATE = {
     userInfo: "{}",
     expiredAt: 0,
     syncLogs: [],
+    pendingChanges: 0,
     lastSyncAt: "",
+    syncedLogIds: [],
+    conflicts: [],
+    encryptionEnabled: false,
+    encryptionSalt: "",
+    encryptionKeyError: "",
   }
 
+// Number of logs pushed to the server in one request.
+const SYNC_UPLOAD_CHUNK_SIZE = 100;
+// Delays in seconds of retrying a failed sync, doubled on every failure.
+const SYNC_RETRY_BASE_DELAY = 10;
+const SYNC_RETRY_MAX_DELAY = 3600;
 
 /**
  * Service for synchronization maintenance.
@@ -71,6 +120,14 @@ export class SyncService extends Eventable<ISyncServiceState> {
   private _openidClientConfig?: openidClient.Configuration;
   private readonly _store: ElectronStore<ISyncServiceState>;
 
+  private _syncing = false;
+  private _retryAttempts = 0;
+  private _retryAt = 0;
+
+  // Derived keys of the current passphrase, keyed by their salts.
+  private _syncKeys = new Map<string, ISyncKey>();
+  private _syncKeysPassphrase = "";
+
   constructor() {
     const _store = new ElectronStore<ISyncServiceState>({
       name: "sync",
@@ -117,6 +174,11 @@ export class SyncService extends Eventable<ISyncServiceState> {
     this._setStoreValue(key, _DEFAULTSTATE[key]);
   }
 
+  private _setSyncLogs(syncLogs: z.infer<typeof SyncLog>[]) {
+    this._setStoreValue("syncLogs", syncLogs);
+    this._setStoreValue("pendingChanges", syncLogs.length);
+  }
+
   /**
    * Ensure _openidClientConfig is loaded, if not, perform discovery.
    * Avoid writing repeated if (!this._openidClientConfig) {...} in multiple places.
@@ -136,11 +198,25 @@ export class SyncService extends Eventable<ISyncServiceState> {
   @processing(ProcessingKey.General)
   @errorcatching("Failed to initialize sync service.", true, "SyncService")
   async initialize(reinit: boolean = true) {
-    // 1) Initialize OIDC configuration
+    // 1) Check preferences, a self-hosted server needs no OIDC configuration
+    const syncType = await PLMainAPI.preferenceService.get("useSync");
+    if (syncType === "self-host") {
+      this._setStoreValue("connected", true);
+      PLAPILocal.schedulerService.createTask(
+        "syncService.invokeSync",
+        this._invokeScheduledSync.bind(this),
+        10, // Try to sync every 10 seconds
+        undefined,
+        false,
+        false
+      );
+      return;
+    }
+
+    // 2) Initialize OIDC configuration
     await this._ensureOidcConfig();
 
-    // 2) Check preferences, if using official sync, try to refresh token
-    const syncType = await PLMainAPI.preferenceService.get("useSync");
+    // 3) If using official sync, try to refresh token
     if (syncType === "official") {
       const tokens = await this.refreshAuth();
       if (!tokens) {
@@ -166,7 +242,7 @@ export class SyncService extends Eventable<ISyncServiceState> {
       // Schedule a sync and create a sync task
       PLAPILocal.schedulerService.createTask(
         "syncService.invokeSync",
-        this.invokeSync.bind(this),
+        this._invokeScheduledSync.bind(this),
         10, // Try to sync every 10 seconds
         undefined,
         false,
@@ -302,7 +378,7 @@ export class SyncService extends Eventable<ISyncServiceState> {
     // 7) Schedule a sync
     PLAPILocal.schedulerService.createTask(
       "syncService.invokeSync",
-      this.invokeSync.bind(this),
+      this._invokeScheduledSync.bind(this),
       // 10, // Try to sync after 10 seconds
       // For testing convenience, change to 1 second
       10,
@@ -312,6 +388,106 @@ export class SyncService extends Eventable<ISyncServiceState> {
     );
   }
 
+  /**
+   * Get the URL of the `/sync` endpoint and the token to access it.
+   * A self-hosted server uses the configured URL and static token, the official one uses the OIDC access token.
+   */
+  private async _getSyncEndpoint(): Promise<{
+    syncUrl: URL;
+    accessToken: string;
+  }> {
+    const syncType = await PLMainAPI.preferenceService.get("useSync");
+    if (syncType === "self-host") {
+      const selfHostSyncURL = (await PLMainAPI.preferenceService.get(
+        "selfHostSyncURL"
+      )) as string;
+      const selfHostSyncToken = await PLMainAPI.preferenceService.getPassword(
+        "selfHostSync"
+      );
+      if (!selfHostSyncURL || !selfHostSyncToken) {
+        throw new Error(
+          "The URL or token of the self-hosted sync server is not set."
+        );
+      }
+      return {
+        syncUrl: this._toSyncUrl(selfHostSyncURL),
+        accessToken: selfHostSyncToken,
+      };
+    }
+
+    const accessToken = await this._getValidAccessToken();
+    if (!accessToken) {
+      throw new Error("Access token is not available for syncing.");
+    }
+    return { syncUrl: this._toSyncUrl(this.syncBaseUrl.href), accessToken };
+  }
+
+  /**
+   * Get the `/sync` endpoint under a base URL, keeping the path of the base URL.
+   * @param baseUrl - The base URL of the sync server.
+   */
+  private _toSyncUrl(baseUrl: string) {
+    return new URL("sync", baseUrl.endsWith("/") ? baseUrl : baseUrl + "/");
+  }
+
+  /**
+   * Connect to a self-hosted sync server with a static token.
+   * The server is checked with a request before the preferences are saved.
+   * @param url - The base URL of the server.
+   * @param token - The static token of the server.
+   */
+  @processing(ProcessingKey.General)
+  @errorcatching(
+    "Failed to connect to the self-hosted sync server.",
+    true,
+    "SyncService"
+  )
+  async connectSelfHost(url: string, token: string) {
+    const syncUrl = this._toSyncUrl(url);
+    syncUrl.searchParams.set("since", new Date().toISOString());
+
+    const response = await fetch(syncUrl, {
+      method: "GET",
+      headers: { Authorization: `Bearer ${token}` },
+    }).catch((error) => {
+      throw new Error("Failed to reach the sync server. " + error);
+    });
+    const responseData = await response.json().catch(() => ({}));
+    if (responseData.code !== 2000) {
+      throw new Error(
+        "Unexpected response of the sync server: " +
+          JSON.stringify(responseData)
+      );
+    }
+
+    await PLMainAPI.preferenceService.set({ selfHostSyncURL: url });
+    await PLMainAPI.preferenceService.setPassword("selfHostSync", token);
+    await PLMainAPI.preferenceService.set({ useSync: "self-host" });
+
+    // Pull everything from the new server in the next sync.
+    this._deleteStoreValue("lastSyncAt");
+    this._deleteStoreValue("syncedLogIds");
+    await this.initialize();
+  }
+
+  /**
+   * Disconnect from the self-hosted sync server. Pending logs are kept for the next connection.
+   */
+  @errorcatching(
+    "Failed to disconnect from the self-hosted sync server.",
+    true,
+    "SyncService"
+  )
+  async disconnectSelfHost() {
+    PLAPILocal.schedulerService.removeTask("syncService.invokeSync");
+    PLAPILocal.schedulerService.removeTask("syncService.retry");
+    this._setStoreValue("connected", false);
+    this._deleteStoreValue("lastSyncAt");
+    this._deleteStoreValue("syncedLogIds");
+
+    await PLMainAPI.preferenceService.set({ useSync: "none" });
+  }
+
   /**
    * Get a valid accessToken, if expired, automatically try to refresh
    */
@@ -371,17 +547,63 @@ export class SyncService extends Eventable<ISyncServiceState> {
  // 5. **Apply merged `syncLogs` to local**
  // 6. Push `mergedSyncLogs` to server
  // 7. Clear local `syncLogs` after confirming successful push
+  // If it fails, retry with an exponential backoff.
   // ---------------------------
   public async invokeSync() {
-    // TODO: check if network is available.
+    if (this._syncing || Date.now() < this._retryAt) {
+      // A sync is running or backing off, the scheduled retry will sync later.
+      return;
+    }
 
-    // 1) Get a valid accessToken
-    const accessToken = await this._getValidAccessToken();
-    if (!accessToken) {
-      throw new Error("Access token is not available for syncing.");
+    this._syncing = true;
+    try {
+      await this._invokeSync();
+      this._retryAttempts = 0;
+    } catch (error) {
+      this._retryAttempts += 1;
+      const delay = Math.min(
+        SYNC_RETRY_BASE_DELAY * 2 ** (this._retryAttempts - 1),
+        SYNC_RETRY_MAX_DELAY
+      );
+      this._retryAt = Date.now() + delay * 1000;
+      PLAPILocal.schedulerService.createTask(
+        "syncService.retry",
+        () => {
+          this._retryAt = 0;
+          this._invokeScheduledSync();
+        },
+        delay,
+        undefined,
+        false,
+        true
+      );
+      throw error;
+    } finally {
+      this._syncing = false;
+    }
+  }
+
+  /**
+   * Sync from a scheduled task. A failure is logged instead of rejected, its retry is already scheduled.
+   */
+  private async _invokeScheduledSync() {
+    try {
+      await this.invokeSync();
+    } catch (error) {
+      PLAPILocal.logService.warn(
+        "Failed to sync, retrying later.",
+        `${error}`,
+        false,
+        "SyncService"
+      );
     }
+  }
 
-    const syncUrl = new URL("/sync", this.syncBaseUrl);
+  private async _invokeSync() {
+    // TODO: check if network is available.
+
+    // 1) Get the sync endpoint and a valid accessToken
+    const { syncUrl, accessToken } = await this._getSyncEndpoint();
 
     // 2) Pull incremental logs from the remote
 
@@ -391,45 +613,82 @@ export class SyncService extends Eventable<ISyncServiceState> {
     }
 
     // FIXME: replace fetch with a network service for proxy?
-    const getResponse: { code: number; data: z.infer<typeof SyncLog>[] } =
-      await fetch(syncUrl, {
-        method: "GET",
-        headers: { Authorization: `Bearer ${accessToken}` },
+    let serverDate: string | null = null;
+    const getResponse: {
+      code: number;
+      data: z.infer<typeof SyncLog>[];
+      cursor?: string;
+    } = await fetch(syncUrl, {
+      method: "GET",
+      headers: { Authorization: `Bearer ${accessToken}` },
+    })
+      .then((res) => {
+        serverDate = res.headers.get("date");
+        return res.json();
       })
-        .then((res) => res.json())
-        .catch((error) => {
-          throw new Error("Failed to sync data (GET). " + error);
-        });
+      .catch((error) => {
+        throw new Error("Failed to sync data (GET). " + error);
+      });
 
     // 3) Process the data returned from the remote and merge it with the local database
     if (getResponse.code !== 2000) {
       throw new Error("Failed to sync data (GET): " + JSON.stringify(getResponse));
     }
 
-    const localLogs = this._getStoreValue("syncLogs") || [];
+    const localLogs = compactSyncLogs(this._getStoreValue("syncLogs") || []);
+    this._setSyncLogs(localLogs);
 
-    const remoteLogs = getResponse.data || [];
-    // Filter out logs that have already been pushed locally
+    // Decrypt all remote logs before pushing or applying anything, a wrong passphrase stops the sync here.
+    const passphrase = await this._getSyncPassphrase();
+    let remoteLogs: z.infer<typeof SyncLog>[];
+    try {
+      remoteLogs = await this._decryptSyncLogs(
+        getResponse.data || [],
+        passphrase
+      );
+    } catch (error) {
+      this._setStoreValue("encryptionKeyError", (error as Error).message);
+      throw error;
+    }
+    if (this._getStoreValue("encryptionKeyError")) {
+      this._deleteStoreValue("encryptionKeyError");
+    }
+    // The next pull starts from the time of the server when responding, not of this device,
+    // so that logs the server receives during this sync are pulled next time.
+    // A server without a cursor is pulled from the Date header of its response.
+    const cursor =
+      getResponse.cursor ||
+      (serverDate ? new Date(serverDate).toISOString() : "");
+    // Logs pushed or applied by the last syncs can be pulled again from the cursor.
+    const syncedLogIds = new Set(this._getStoreValue("syncedLogIds") || []);
+
+    // Filter out logs that have already been pushed or applied locally.
+    // Timestamps are not compared with the cursor, logs made offline are pushed later than they happened.
     const filteredLogs = remoteLogs.filter(
-      // 1. local log_id is different from remote log_id
-      // 2. timestamp is later than lastSyncAt
       (r) =>
-        (!localLogs.some(
-          (local) =>
-            local.log_id === r.log_id)) &&
-        (!lastSyncAt || new Date(r.timestamp) > new Date(lastSyncAt))
+        !localLogs.some((local) => local.log_id === r.log_id) &&
+        !syncedLogIds.has(r.log_id)
     );
 
-    let synced = false;
-    // 4) Push local logs to the server
-    if (localLogs.length > 0) {
+    // The logs of the same second as a Date header cursor are pulled again, so all pulled logs are kept.
+    // The pulled logs not pushed or applied yet are only kept after they are applied,
+    // so that a log failed to be applied, e.g., by quitting the app during the sync, is applied by the next sync.
+    const filteredLogIds = new Set(filteredLogs.map((log) => log.log_id));
+    const thisSyncedLogIds = remoteLogs
+      .map((log) => log.log_id)
+      .filter((logId) => !filteredLogIds.has(logId));
+    // 4) Push local logs to the server in chunks, the logs of a failed chunk stay pending
+    for (let i = 0; i < localLogs.length; i += SYNC_UPLOAD_CHUNK_SIZE) {
+      const chunk = localLogs.slice(i, i + SYNC_UPLOAD_CHUNK_SIZE);
       const postResponse = await fetch(syncUrl, {
         method: "POST",
         headers: {
           Authorization: `Bearer ${accessToken}`,
           "Content-Type": "application/json",
         },
-        body: JSON.stringify(localLogs),
+        body: JSON.stringify(
+          passphrase ? await this._encryptSyncLogs(chunk, passphrase) : chunk
+        ),
       }).catch((error) => {
         throw new Error("Failed to sync data (POST). " + error);
       });
@@ -444,66 +703,479 @@ export class SyncService extends Eventable<ISyncServiceState> {
           "Failed to sync data: " + JSON.stringify(postResponseData)
         );
       }
-      // If push is successful, update lastSyncAt
-      this._deleteStoreValue("syncLogs");
-      synced = true;
+      // Remove the pushed logs, keeping the ones added during the push
+      const pushedLogIds = new Set(chunk.map((log) => log.log_id));
+      this._setSyncLogs(
+        (this._getStoreValue("syncLogs") || []).filter(
+          (log) => !pushedLogIds.has(log.log_id)
+        )
+      );
+      thisSyncedLogIds.push(...pushedLogIds);
+      this._setStoreValue("syncedLogIds", [
+        ...syncedLogIds,
+        ...thisSyncedLogIds,
+      ]);
     }
     console.log(filteredLogs);
     // 5) Execute merge logic
     for (const log of filteredLogs) {
-      if (!log.value) continue;
+      if (log.value) {
+        await this._applySyncLog(log);
+      }
+      thisSyncedLogIds.push(log.log_id);
+      this._setStoreValue("syncedLogIds", [
+        ...syncedLogIds,
+        ...thisSyncedLogIds,
+      ]);
+    }
 
-      const logValue = typeof log.value === "string" ? JSON.parse(log.value) : log.value;
-      switch (log.entity_type) {
-        case "paper":
-          switch (log.operation) {
-            case "update":
+    if (cursor) {
+      // Logs synced before this sync are not after the new cursor anymore.
+      this._setStoreValue("lastSyncAt", cursor);
+      this._setStoreValue("syncedLogIds", thisSyncedLogIds);
+    }
+  }
+
+  /**
+   * Set the passphrase for end-to-end encryption of sync logs, or disable the encryption with an empty one.
+   * If the synced data is already encrypted, e.g. on a new device, the passphrase is verified against it first.
+   * @param passphrase - The sync passphrase.
+   */
+  @processing(ProcessingKey.General)
+  @errorcatching("Failed to set the sync passphrase.", true, "SyncService")
+  async setSyncPassphrase(passphrase: string) {
+    if (passphrase && this._getStoreValue("connected")) {
+      const { syncUrl, accessToken } = await this._getSyncEndpoint();
+      const getResponse: { code: number; data: z.infer<typeof SyncLog>[] } =
+        await fetch(syncUrl, {
+          method: "GET",
+          headers: { Authorization: `Bearer ${accessToken}` },
+        })
+          .then((res) => res.json())
+          .catch((error) => {
+            throw new Error("Failed to verify the sync passphrase. " + error);
+          });
+      if (getResponse.code !== 2000) {
+        throw new Error(
+          "Failed to verify the sync passphrase: " + JSON.stringify(getResponse)
+        );
+      }
+
+      const encryptedValue = (getResponse.data || [])
+        .map((log) => log.value)
+        .find(isEncryptedSyncLogValue);
+      if (encryptedValue) {
+        const syncKey = await this._getSyncKey(passphrase, encryptedValue.salt);
+        if (!isSyncKeyOf(encryptedValue, syncKey)) {
+          throw new Error(
+            "The passphrase does not match the one used to encrypt the synced data."
+          );
+        }
+        // Share the salt with other devices, so that the key is derived only once.
+        this._setStoreValue("encryptionSalt", encryptedValue.salt);
+      }
+    }
+
+    await PLMainAPI.preferenceService.setPassword("syncPassphrase", passphrase);
+    this._setStoreValue("encryptionEnabled", !!passphrase);
+    this._deleteStoreValue("encryptionKeyError");
+  }
+
+  private async _getSyncPassphrase() {
+    return (
+      (await PLMainAPI.preferenceService.getPassword("syncPassphrase")) || ""
+    );
+  }
+
+  private async _getSyncKey(passphrase: string, salt: string) {
+    if (passphrase !== this._syncKeysPassphrase) {
+      this._syncKeys.clear();
+      this._syncKeysPassphrase = passphrase;
+    }
+    let syncKey = this._syncKeys.get(salt);
+    if (!syncKey) {
+      syncKey = await deriveSyncKey(passphrase, salt);
+      this._syncKeys.set(salt, syncKey);
+    }
+    return syncKey;
+  }
+
+  /**
+   * Encrypt the values of sync logs to be pushed.
+   * @param logs - The sync logs.
+   * @param passphrase - The sync passphrase.
+   */
+  private async _encryptSyncLogs(
+    logs: z.infer<typeof SyncLog>[],
+    passphrase: string
+  ) {
+    let salt = this._getStoreValue("encryptionSalt");
+    if (!salt) {
+      salt = generateSyncKeySalt();
+      this._setStoreValue("encryptionSalt", salt);
+    }
+    const syncKey = await this._getSyncKey(passphrase, salt);
+
+    return logs.map((log) => ({
+      ...log,
+      value: encryptSyncLogValue(log.value, syncKey),
+    }));
+  }
+
+  /**
+   * Decrypt the values of pulled sync logs. Logs from devices without encryption are kept as they are.
+   * @param logs - The sync logs.
+   * @param passphrase - The sync passphrase.
+   */
+  private async _decryptSyncLogs(
+    logs: z.infer<typeof SyncLog>[],
+    passphrase: string
+  ) {
+    const decryptedLogs: z.infer<typeof SyncLog>[] = [];
+    for (const log of logs) {
+      if (!isEncryptedSyncLogValue(log.value)) {
+        decryptedLogs.push(log);
+        continue;
+      }
+      if (!passphrase) {
+        throw new Error(
+          "The synced data is end-to-end encrypted, please set the sync passphrase on this device."
+        );
+      }
+      const syncKey = await this._getSyncKey(passphrase, log.value.salt);
+      decryptedLogs.push({
+        ...log,
+        value: decryptSyncLogValue(log.value, syncKey),
+      });
+    }
+    return decryptedLogs;
+  }
+
+  /**
+   * Apply a remote sync log to the local database.
+   * The value of each log is the argument list of the local operation that produced it:
+   *   - paper: { paperEntityDrafts, updateCache, isUpdate, changes } for create/update, { ids, paperEntities } for delete.
+   *   - tag/folder: { categorizer, parentCategorizer } for create/update, { ids, categorizers } for delete.
+   *   - supplement: { paperEntityId, sups, defaultSup } for create/update, { paperEntityId, supIds } for delete.
+   *   - feed: { feeds } for create/update, { ids, feeds } for delete.
+   * Authors are not logged on their own, their changes are part of the paper logs.
+   * @param log - The sync log to apply.
+   */
+  private async _applySyncLog(log: z.infer<typeof SyncLog>) {
+    const logValue =
+      typeof log.value === "string" ? JSON.parse(log.value) : log.value;
+
+    switch (log.entity_type) {
+      case "paper":
+        switch (log.operation) {
+          case "create":
+            await PLAPILocal.paperService.update(
+              this._toEntityDrafts(logValue.paperEntityDrafts),
+              logValue.updateCache,
+              false,
+              true
+            );
+            break;
+          case "update":
+            if (logValue.changes) {
+              await this._mergePaperUpdate(log, logValue);
+            } else {
               await PLAPILocal.paperService.update(
-                logValue.paperEntityDrafts,
+                this._toEntityDrafts(logValue.paperEntityDrafts),
                 logValue.updateCache,
-                logValue.isUpdate,
+                // Logs from older clients also carry inserts as updates.
+                logValue.isUpdate ?? true,
                 true
               );
-              break;
-            case "delete":
-              await PLAPILocal.paperService.delete(
-                logValue.ids,
-                logValue.paperEntities,
-                true
-              );
-              break;
-            case "create":
-              // If create needs to be supported, add it yourself.
-              // Currently we merged the create operation into the update operation.
-              break;
-            default:
-              throw new Error("Unsupported paper operation: " + log.operation);
-          }
-          break;
-        case "feed":
-          switch (log.operation) {
-            case "create":
-              await PLAPILocal.feedService.create(logValue.feeds, true);
-              break;
-            case "update":
-              await PLAPILocal.feedService.update(logValue.feeds, true);
-              break;
-            case "delete":
-              await PLAPILocal.feedService.delete(logValue.ids, logValue.feeds);
-              break;
-            default:
-              throw new Error("Unsupported feed operation: " + log.operation);
-          }
+            }
+            break;
+          case "delete":
+            await PLAPILocal.paperService.delete(
+              logValue.ids,
+              logValue.paperEntities,
+              true
+            );
+            break;
+          default:
+            throw new Error("Unsupported paper operation: " + log.operation);
+        }
+        break;
+      case "tag":
+      case "folder": {
+        const type =
+          log.entity_type === "tag"
+            ? CategorizerType.PaperTag
+            : CategorizerType.PaperFolder;
+        const parentCategorizer = logValue.parentCategorizer
+          ? new Categorizer(logValue.parentCategorizer)
+          : undefined;
+
+        switch (log.operation) {
+          case "create":
+            await PLAPILocal.categorizerService.create(
+              type,
+              new Categorizer(logValue.categorizer),
+              parentCategorizer,
+              true
+            );
+            break;
+          case "update":
+            await PLAPILocal.categorizerService.update(
+              type,
+              new Categorizer(logValue.categorizer),
+              parentCategorizer,
+              true
+            );
+            break;
+          case "delete":
+            await PLAPILocal.categorizerService.delete(
+              type,
+              logValue.ids,
+              logValue.categorizers?.map(
+                (categorizer: ICategorizerDraft) => new Categorizer(categorizer)
+              ),
+              true
+            );
+            break;
+          default:
+            throw new Error(
+              `Unsupported ${log.entity_type} operation: ` + log.operation
+            );
+        }
+        break;
+      }
+      case "supplement": {
+        const paperEntities = await PLAPILocal.paperService.loadByIds([
+          logValue.paperEntityId,
+        ]);
+        if (paperEntities.length === 0) {
+          // The paper has been deleted locally, nothing to attach to.
           break;
-        default:
-          throw new Error("Unsupported entity type: " + log.entity_type);
+        }
+        const paperEntity = new Entity(paperEntities[0]);
+
+        switch (log.operation) {
+          case "create":
+          case "update":
+            await PLAPILocal.paperService.updateSups(
+              paperEntity,
+              logValue.sups,
+              logValue.defaultSup,
+              true
+            );
+            break;
+          case "delete":
+            await PLAPILocal.paperService.deleteSups(
+              paperEntity,
+              logValue.supIds,
+              true
+            );
+            break;
+          default:
+            throw new Error(
+              "Unsupported supplement operation: " + log.operation
+            );
+        }
+        break;
       }
-      synced = true;
+      case "feed":
+        switch (log.operation) {
+          case "create":
+            await PLAPILocal.feedService.create(logValue.feeds, true);
+            break;
+          case "update":
+            await PLAPILocal.feedService.update(logValue.feeds, true);
+            break;
+          case "delete":
+            await PLAPILocal.feedService.delete(
+              logValue.ids,
+              logValue.feeds,
+              true
+            );
+            break;
+          default:
+            throw new Error("Unsupported feed operation: " + log.operation);
+        }
+        break;
+      default:
+        throw new Error("Unsupported entity type: " + log.entity_type);
     }
+  }
 
-    if (synced) {
-      this._setStoreValue("lastSyncAt", new Date().toISOString());
+  /**
+   * Merge a remote paper update into the local papers field by field.
+   * Fields changed on both sides to different values are recorded as conflicts instead of being overwritten.
+   * @param log - The sync log of the update.
+   * @param logValue - The parsed value of the log, whose changes are keyed by paper id.
+   */
+  private async _mergePaperUpdate(
+    log: z.infer<typeof SyncLog>,
+    logValue: {
+      paperEntityDrafts: Partial<IEntity>[];
+      updateCache: boolean;
+      changes: Record<string, IEntityFieldChanges>;
     }
+  ) {
+    const paperEntityDrafts = this._toEntityDrafts(logValue.paperEntityDrafts);
+    const paperEntities = await PLAPILocal.paperService.loadByIds(
+      paperEntityDrafts
+        .filter((paperEntityDraft) => paperEntityDraft._id)
+        .map((paperEntityDraft) => paperEntityDraft._id)
+    );
+
+    const mergedPaperEntityDrafts: Entity[] = [];
+    let conflicts = this._getStoreValue("conflicts") || [];
+    let conflicted = false;
+
+    for (const paperEntityDraft of paperEntityDrafts) {
+      const paperEntity = paperEntities.find(
+        (paperEntity: Entity) =>
+          `${paperEntity._id}` === `${paperEntityDraft._id}`
+      );
+      const changes = logValue.changes[`${paperEntityDraft._id}`];
+      if (!paperEntity || !changes) {
+        // Nothing to merge with, or no recorded changes to merge.
+        mergedPaperEntityDrafts.push(paperEntityDraft);
+        continue;
+      }
+
+      const { merged, conflicts: fieldConflicts } = mergeEntityFields(
+        paperEntity,
+        changes
+      );
+
+      if (Object.keys(merged).length > 0) {
+        mergedPaperEntityDrafts.push(
+          this._withFieldValues(
+            paperEntity,
+            Object.fromEntries(
+              Object.entries(merged).map(([field, change]) => [
+                field,
+                change.value,
+              ])
+            )
+          )
+        );
+      }
+
+      for (const fieldConflict of fieldConflicts) {
+        // A newer conflict on the same field replaces the older one.
+        conflicts = conflicts.filter(
+          (conflict) =>
+            conflict.entity_id !== `${paperEntity._id}` ||
+            conflict.field !== fieldConflict.field
+        );
+        conflicts.push({
+          ...fieldConflict,
+          conflict_id: uuidv4(),
+          entity_id: `${paperEntity._id}`,
+          title: paperEntity.title,
+          timestamp: log.timestamp,
+        });
+        conflicted = true;
+      }
+    }
+
+    if (mergedPaperEntityDrafts.length > 0) {
+      await PLAPILocal.paperService.update(
+        mergedPaperEntityDrafts,
+        logValue.updateCache,
+        true,
+        true
+      );
+    }
+    if (conflicted) {
+      this._setStoreValue("conflicts", conflicts);
+    }
+  }
+
+  /**
+   * Resolve sync conflicts with the values picked by the user.
+   * The picked values are applied locally and pushed to other devices with the next sync.
+   * @param resolutions - The picked side of each conflict, keyed by the conflict id.
+   */
+  @errorcatching("Failed to resolve sync conflicts.", true, "SyncService")
+  async resolveConflicts(resolutions: Record<string, "local" | "remote">) {
+    const conflicts = this._getStoreValue("conflicts") || [];
+    const resolvedConflicts = conflicts.filter(
+      (conflict) => resolutions[conflict.conflict_id]
+    );
+    if (resolvedConflicts.length === 0) {
+      return;
+    }
+
+    const paperEntities = await PLAPILocal.paperService.loadByIds([
+      ...new Set(resolvedConflicts.map((conflict) => conflict.entity_id)),
+    ]);
+
+    const paperEntityDrafts: Entity[] = [];
+    const changes: Record<string, IEntityFieldChanges> = {};
+    for (const paperEntity of paperEntities) {
+      const id = `${paperEntity._id}`;
+      const fieldValues: Record<string, unknown> = {};
+      changes[id] = {};
+
+      for (const conflict of resolvedConflicts) {
+        if (conflict.entity_id !== id) {
+          continue;
+        }
+        const [value, base] =
+          resolutions[conflict.conflict_id] === "local"
+            ? [conflict.local, conflict.remote]
+            : [conflict.remote, conflict.local];
+        fieldValues[conflict.field] = value;
+        // Use the discarded value as the base, so that devices still holding it take the picked value.
+        changes[id][conflict.field] = { base, value };
+      }
+
+      paperEntityDrafts.push(this._withFieldValues(paperEntity, fieldValues));
+    }
+
+    if (paperEntityDrafts.length > 0) {
+      await PLAPILocal.paperService.update(paperEntityDrafts, false, true, true);
+      await this.addSyncLog("paper", "update", {
+        paperEntityDrafts,
+        updateCache: false,
+        isUpdate: true,
+        changes,
+      });
+    }
+
+    this._setStoreValue(
+      "conflicts",
+      conflicts.filter((conflict) => !resolutions[conflict.conflict_id])
+    );
+  }
+
+  /**
+   * Create an entity draft with the given field values.
+   * @param paperEntity - The entity to copy from.
+   * @param fieldValues - The field values to set, in the JSON form of sync logs.
+   */
+  private _withFieldValues(
+    paperEntity: Partial<IEntity>,
+    fieldValues: Record<string, unknown>
+  ) {
+    return new Entity({
+      ...new Entity(paperEntity),
+      ...fieldValues,
+    } as Partial<IEntity>);
+  }
+
+  /**
+   * Revive entity drafts from the JSON value of a sync log.
+   * @param paperEntityDrafts - The JSON objects of the entity drafts.
+   */
+  private _toEntityDrafts(paperEntityDrafts: Partial<IEntity>[]) {
+    return (paperEntityDrafts || []).map(
+      (paperEntityDraft) =>
+        new Entity({
+          ...paperEntityDraft,
+          addTime: paperEntityDraft.addTime
+            ? new Date(paperEntityDraft.addTime)
+            : undefined,
+        })
+    );
   }
 
   /**
@@ -526,7 +1198,8 @@ export class SyncService extends Eventable<ISyncServiceState> {
       updated_at: syncLogDatetime,
     };
     logs.push(syncLog);
-    this._setStoreValue("syncLogs", logs);
+    // Logs being pushed must not be changed, they are compacted before the next push.
+    this._setSyncLogs(this._syncing ? logs : compactSyncLogs(logs));
   }
 
   /**
@@ -608,6 +1281,7 @@ export class SyncService extends Eventable<ISyncServiceState> {
     // this._deleteStoreValue("syncLogs");
 
     this._deleteStoreValue("lastSyncAt");
+    this._deleteStoreValue("syncedLogIds");
 
     // Update user preferences
     await PLMainAPI.preferenceService.set({ useSync: "none" });
@@ -0,0 +1,193 @@
+import { Author, IAuthor } from "@/models/author";
+import { IEntity } from "@/models/entity";
+
+/**
+ * Fields of a paper entity that are merged one by one when syncing.
+ * Supplementaries are synced by their own logs, and the identity fields are never changed.
+ */
+export const MERGEABLE_ENTITY_FIELDS = [
+  "library",
+  "type",
+  "abstract",
+  "defaultSup",
+  "doi",
+  "arxiv",
+  "issn",
+  "isbn",
+  "citeKey",
+  "citeKeyPinned",
+  "title",
+  "authors",
+  "authorList",
+  "journal",
+  "booktitle",
+  "year",
+  "month",
+  "volume",
+  "number",
+  "pages",
+  "publisher",
+  "series",
+  "edition",
+  "editor",
+  "howpublished",
+  "organization",
+  "school",
+  "institution",
+  "address",
+  "rating",
+  "tags",
+  "folders",
+  "flag",
+  "note",
+  "customFields",
+] as const;
+
+export type MergeableEntityField = (typeof MERGEABLE_ENTITY_FIELDS)[number];
+
+/**
+ * A changed field of an entity, with the value before and after the change.
+ */
+export interface IEntityFieldChange {
+  base: unknown;
+  value: unknown;
+}
+
+export type IEntityFieldChanges = Partial<
+  Record<MergeableEntityField, IEntityFieldChange>
+>;
+
+/**
+ * A field changed both locally and remotely to different values.
+ */
+export interface IEntityFieldConflict {
+  field: MergeableEntityField;
+  base: unknown;
+  local: unknown;
+  remote: unknown;
+}
+
+/**
+ * Convert a field value to a plain JSON value for comparing and logging.
+ * Empty values are all treated as `null`, categorizers are reduced to their names,
+ * authors to their plain fields, and custom fields to their values sorted by names.
+ */
+export function toFieldValue(field: MergeableEntityField, value: any): unknown {
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+  if (field === "tags" || field === "folders") {
+    return Array.from(value as { _id?: unknown; name: string }[]).map(
+      (categorizer) => ({
+        _id: categorizer._id ? `${categorizer._id}` : undefined,
+        name: categorizer.name,
+      })
+    );
+  }
+  if (field === "authorList") {
+    const authors = Array.from(value as IAuthor[]).map((author) => ({
+      ...new Author(author),
+    }));
+    return authors.length > 0 ? authors : null;
+  }
+  if (field === "customFields") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(
+        ([, fieldValue]) =>
+          fieldValue !== undefined && fieldValue !== null && fieldValue !== ""
+      )
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return entries.length > 0
+      ? JSON.parse(JSON.stringify(Object.fromEntries(entries)))
+      : null;
+  }
+  return value;
+}
+
+function isSameFieldValue(
+  field: MergeableEntityField,
+  a: unknown,
+  b: unknown
+): boolean {
+  if (field === "tags" || field === "folders") {
+    const names = (value: unknown) =>
+      ((value as { name: string }[] | null) || [])
+        .map((categorizer) => categorizer.name)
+        .sort()
+        .join("\n");
+    return names(a) === names(b);
+  }
+  if (field === "authorList" || field === "customFields") {
+    return (
+      JSON.stringify(toFieldValue(field, a)) ===
+      JSON.stringify(toFieldValue(field, b))
+    );
+  }
+  return toFieldValue(field, a) === toFieldValue(field, b);
+}
+
+/**
+ * Get the changed fields between the stored entity and its draft.
+ * @param base - The entity before the change.
+ * @param draft - The entity draft after the change.
+ * @returns The changed fields with their previous and new values.
+ */
+export function diffEntityFields(
+  base: Partial<IEntity>,
+  draft: Partial<IEntity>
+): IEntityFieldChanges {
+  const changes: IEntityFieldChanges = {};
+  for (const field of MERGEABLE_ENTITY_FIELDS) {
+    const baseValue = toFieldValue(field, base[field]);
+    const value = toFieldValue(field, draft[field]);
+    if (!isSameFieldValue(field, baseValue, value)) {
+      changes[field] = { base: baseValue, value };
+    }
+  }
+  return changes;
+}
+
+/**
+ * Three-way merge remote field changes into a local entity.
+ *   - If the local value is still the base value, the remote value is taken.
+ *   - If the local value already equals the remote value, nothing is changed.
+ *   - Otherwise, both sides changed the field differently, it is a conflict.
+ * @param local - The local entity.
+ * @param changes - The remote field changes.
+ * @returns The fields to be applied to the local entity and the conflicts.
+ */
+export function mergeEntityFields(
+  local: Partial<IEntity>,
+  changes: IEntityFieldChanges
+): {
+  merged: IEntityFieldChanges;
+  conflicts: IEntityFieldConflict[];
+} {
+  const merged: IEntityFieldChanges = {};
+  const conflicts: IEntityFieldConflict[] = [];
+
+  for (const [field, change] of Object.entries(changes) as [
+    MergeableEntityField,
+    IEntityFieldChange
+  ][]) {
+    if (!MERGEABLE_ENTITY_FIELDS.includes(field)) {
+      continue;
+    }
+    const localValue = toFieldValue(field, local[field]);
+
+    if (isSameFieldValue(field, localValue, change.value)) {
+      continue;
+    } else if (isSameFieldValue(field, localValue, change.base)) {
+      merged[field] = change;
+    } else {
+      conflicts.push({
+        field,
+        base: change.base,
+        local: localValue,
+        remote: change.value,
+      });
+    }
+  }
+
+  return { merged, conflicts };
+}
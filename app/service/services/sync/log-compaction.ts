@@ -0,0 +1,185 @@
+import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
+
+import { IEntityFieldChanges } from "@/service/services/sync/entity-merge";
+import { SyncLog } from "@/service/services/sync-service";
+
+type ISyncLog = z.infer<typeof SyncLog>;
+
+/**
+ * Split update logs of several papers or feeds into one log per entity,
+ * so that they can be collapsed with other updates of the same entity.
+ */
+function splitSyncLog(log: ISyncLog): ISyncLog[] {
+  if (log.operation !== "update") {
+    return [log];
+  }
+
+  if (log.entity_type === "paper" && log.value.paperEntityDrafts?.length > 1) {
+    return log.value.paperEntityDrafts.map((paperEntityDraft, i: number) => ({
+      ...log,
+      log_id: i === 0 ? log.log_id : uuidv4(),
+      value: {
+        ...log.value,
+        paperEntityDrafts: [paperEntityDraft],
+        changes: log.value.changes
+          ? { [paperEntityDraft._id]: log.value.changes[paperEntityDraft._id] }
+          : undefined,
+      },
+    }));
+  } else if (log.entity_type === "feed" && log.value.feeds?.length > 1) {
+    return log.value.feeds.map((feed, i: number) => ({
+      ...log,
+      log_id: i === 0 ? log.log_id : uuidv4(),
+      value: { ...log.value, feeds: [feed] },
+    }));
+  }
+
+  return [log];
+}
+
+/**
+ * Get the key of the entity updated by a log, if the update can be collapsed.
+ */
+function updateKeyOf(log: ISyncLog): string | undefined {
+  if (log.operation !== "update") {
+    return undefined;
+  }
+
+  let id: unknown;
+  switch (log.entity_type) {
+    case "paper":
+      if (log.value.paperEntityDrafts?.length === 1) {
+        id = log.value.paperEntityDrafts[0]._id;
+      }
+      break;
+    case "tag":
+    case "folder":
+      id = log.value.categorizer?._id;
+      break;
+    case "feed":
+      if (log.value.feeds?.length === 1) {
+        id = log.value.feeds[0]._id;
+      }
+      break;
+  }
+
+  return id ? `${log.entity_type}:${id}` : undefined;
+}
+
+/**
+ * Get the keys of entities removed by a delete log.
+ */
+function deletedKeysOf(log: ISyncLog): string[] {
+  if (log.operation !== "delete") {
+    return [];
+  }
+
+  let ids: unknown[] = [];
+  switch (log.entity_type) {
+    case "paper":
+      ids = log.value.ids || log.value.paperEntities?.map((p) => p._id) || [];
+      break;
+    case "tag":
+    case "folder":
+      ids =
+        log.value.ids || log.value.categorizers?.map((c) => c._id) || [];
+      break;
+    case "feed":
+      ids = log.value.ids || log.value.feeds?.map((f) => f._id) || [];
+      break;
+  }
+
+  return ids.filter((id) => id).map((id) => `${log.entity_type}:${id}`);
+}
+
+/**
+ * Collapse the field changes of an earlier update into a later one.
+ * The base of each field comes from the earliest change, and the value from the latest.
+ */
+function collapseChanges(
+  earlier: IEntityFieldChanges | undefined,
+  later: IEntityFieldChanges | undefined
+): IEntityFieldChanges {
+  const changes: IEntityFieldChanges = { ...(earlier || {}) };
+  for (const [field, change] of Object.entries(later || {})) {
+    changes[field] = {
+      base: field in changes ? changes[field].base : change.base,
+      value: change.value,
+    };
+  }
+  for (const [field, change] of Object.entries(changes)) {
+    if (JSON.stringify(change.base) === JSON.stringify(change.value)) {
+      delete changes[field];
+    }
+  }
+  return changes;
+}
+
+/**
+ * Compact pending sync logs before they are pushed.
+ *   - Multiple updates of the same paper, tag, folder or feed are collapsed into the latest one.
+ *   - Updates of an entity followed by its deletion are dropped, so are supplement changes of a deleted paper.
+ *   - Creates, deletes and author logs are kept as they are.
+ * @param logs - The pending sync logs in the order they were added.
+ * @returns The compacted sync logs, still in order.
+ */
+export function compactSyncLogs(logs: ISyncLog[]): ISyncLog[] {
+  const splitLogs = logs.flatMap(splitSyncLog);
+
+  const compactedLogs: ISyncLog[] = [];
+  const laterUpdates = new Map<string, ISyncLog>();
+  const deletedKeys = new Set<string>();
+
+  // Walk backwards so that every log is compared with the ones after it.
+  for (const log of splitLogs.reverse()) {
+    if (log.operation === "delete") {
+      for (const key of deletedKeysOf(log)) {
+        deletedKeys.add(key);
+        laterUpdates.delete(key);
+      }
+      compactedLogs.push(log);
+      continue;
+    }
+
+    if (
+      log.entity_type === "supplement" &&
+      deletedKeys.has(`paper:${log.value.paperEntityId}`)
+    ) {
+      continue;
+    }
+
+    const key = updateKeyOf(log);
+    if (!key) {
+      compactedLogs.push(log);
+      continue;
+    }
+    if (deletedKeys.has(key)) {
+      continue;
+    }
+
+    const laterUpdate = laterUpdates.get(key);
+    if (laterUpdate) {
+      if (log.entity_type === "paper") {
+        const id = `${log.value.paperEntityDrafts[0]._id}`;
+        const earlierChanges = log.value.changes?.[id];
+        const laterChanges = laterUpdate.value.changes?.[id];
+        laterUpdate.value = {
+          ...laterUpdate.value,
+          updateCache: laterUpdate.value.updateCache || log.value.updateCache,
+          // Without the changes of both, the latest draft is replayed as a whole.
+          changes:
+            earlierChanges && laterChanges
+              ? { [id]: collapseChanges(earlierChanges, laterChanges) }
+              : undefined,
+        };
+      }
+      continue;
+    }
+
+    laterUpdates.set(key, log);
+    compactedLogs.push(log);
+  }
+
+  return compactedLogs.reverse();
+}
@@ -0,0 +1,145 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHmac,
+  randomBytes,
+  scrypt,
+  timingSafeEqual,
+} from "crypto";
+
+/**
+ * The encrypted value of a sync log.
+ * The key is derived from the passphrase and `salt` with scrypt, and `kid` identifies the key,
+ * so that a device holding another passphrase can be told apart from corrupted data.
+ */
+export interface IEncryptedSyncLogValue {
+  encryption: "aes-256-gcm";
+  salt: string;
+  kid: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export interface ISyncKey {
+  salt: string;
+  kid: string;
+  key: Buffer;
+}
+
+export function isEncryptedSyncLogValue(
+  value: unknown
+): value is IEncryptedSyncLogValue {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as IEncryptedSyncLogValue).encryption === "aes-256-gcm"
+  );
+}
+
+/**
+ * Derive the encryption key of sync logs from a passphrase.
+ * @param passphrase - The sync passphrase.
+ * @param salt - The base64 encoded salt.
+ */
+export async function deriveSyncKey(
+  passphrase: string,
+  salt: string
+): Promise<ISyncKey> {
+  const key = await new Promise<Buffer>((resolve, reject) => {
+    scrypt(
+      passphrase,
+      Buffer.from(salt, "base64"),
+      32,
+      { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 },
+      (error, derivedKey) => (error ? reject(error) : resolve(derivedKey))
+    );
+  });
+  const kid = createHmac("sha256", key)
+    .update("paperlib-sync-key-id")
+    .digest("base64")
+    .slice(0, 16);
+
+  return { salt, kid, key };
+}
+
+/**
+ * Generate a random base64 encoded salt for deriving a sync key.
+ */
+export function generateSyncKeySalt() {
+  return randomBytes(16).toString("base64");
+}
+
+/**
+ * Check whether a key is the one that encrypted a value.
+ * @param value - The encrypted value.
+ * @param syncKey - The key derived with the salt of the value.
+ */
+export function isSyncKeyOf(
+  value: IEncryptedSyncLogValue,
+  syncKey: ISyncKey
+): boolean {
+  const kid = Buffer.from(value.kid);
+  const expectedKid = Buffer.from(syncKey.kid);
+  return (
+    value.salt === syncKey.salt &&
+    kid.length === expectedKid.length &&
+    timingSafeEqual(kid, expectedKid)
+  );
+}
+
+/**
+ * Encrypt the value of a sync log.
+ * @param value - The JSON value of the log.
+ * @param syncKey - The key to encrypt with.
+ */
+export function encryptSyncLogValue(
+  value: unknown,
+  syncKey: ISyncKey
+): IEncryptedSyncLogValue {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", syncKey.key, iv);
+  const data = Buffer.concat([
+    cipher.update(JSON.stringify(value), "utf-8"),
+    cipher.final(),
+  ]);
+
+  return {
+    encryption: "aes-256-gcm",
+    salt: syncKey.salt,
+    kid: syncKey.kid,
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+}
+
+/**
+ * Decrypt the value of a sync log.
+ * @param value - The encrypted value.
+ * @param syncKey - The key derived with the salt of the value.
+ * @returns The JSON value of the log.
+ */
+export function decryptSyncLogValue(
+  value: IEncryptedSyncLogValue,
+  syncKey: ISyncKey
+): unknown {
+  if (!isSyncKeyOf(value, syncKey)) {
+    throw new Error(
+      "The sync passphrase of this device does not match the one used to encrypt the synced data."
+    );
+  }
+
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    syncKey.key,
+    Buffer.from(value.iv, "base64")
+  );
+  decipher.setAuthTag(Buffer.from(value.tag, "base64"));
+  const data = Buffer.concat([
+    decipher.update(Buffer.from(value.data, "base64")),
+    decipher.final(),
+  ]);
+
+  return JSON.parse(data.toString("utf-8"));
+}
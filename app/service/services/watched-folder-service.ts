@@ -0,0 +1,365 @@
+import ElectronStore from "electron-store";
+import { existsSync, promises, realpathSync } from "fs";
+import path from "path";
+import Watcher from "watcher";
+
+import { errorcatching } from "@/base/error";
+import { Eventable } from "@/base/event";
+import { createDecorator } from "@/base/injection/injection";
+import { uid } from "@/base/misc";
+import { ILogService, LogService } from "@/common/services/log-service";
+import { PaperFolder, PaperTag } from "@/models/categorizer";
+import { DatabaseCore, IDatabaseCore } from "@/service/services/database/core";
+
+import { IPaperService, PaperService } from "./paper-service";
+import { IScrapeService, ScrapeService } from "./scrape-service";
+
+export interface IWatchedFolder {
+  _id: string;
+  // Absolute path of the watched directory.
+  folderPath: string;
+  // Name of the tag assigned to the imported papers.
+  tag: string;
+  // Name of the folder assigned to the imported papers.
+  folder: string;
+}
+
+export interface IWatchedFolderServiceState {
+  updated: number;
+}
+
+interface IWatchedFolderStore {
+  folders: IWatchedFolder[];
+  // Files processed in each watched directory, by watched folder id and file path,
+  // with the size and modification time when they were processed.
+  processed: Record<string, Record<string, string>>;
+}
+
+// Extensions of the files imported from watched directories.
+const WATCHED_EXTENSIONS = [".pdf", ".epub"];
+
+// A file is imported when its size has not changed for this period, in ms,
+// so that files still being written by scanners or mail clients are not read partially.
+const STABLE_DELAY = 3000;
+
+export const IWatchedFolderService = createDecorator("watchedFolderService");
+
+function realPathOf(filePath: string) {
+  try {
+    return realpathSync(filePath);
+  } catch (e) {
+    return path.resolve(filePath);
+  }
+}
+
+// Whether two folders are the same, or one of them is inside the other.
+function isOverlapping(folderA: string, folderB: string) {
+  const isInside = (folder: string, filePath: string) => {
+    const relative = path.relative(folder, filePath);
+    return (
+      relative !== ".." &&
+      !relative.startsWith(`..${path.sep}`) &&
+      !path.isAbsolute(relative)
+    );
+  };
+  const [realA, realB] = [realPathOf(folderA), realPathOf(folderB)];
+  return isInside(realA, realB) || isInside(realB, realA);
+}
+
+/**
+ * Service for watched directories, e.g., an inbox shared with scanners.
+ * New PDF and EPUB files in a watched directory are scraped and added to the library,
+ * optionally with a tag and a folder. Processed files are recorded, so that they are not
+ * imported again after a restart or when they are modified, e.g., annotated, as long as
+ * they are kept in the directory.
+ */
+export class WatchedFolderService extends Eventable<IWatchedFolderServiceState> {
+  private readonly _store: ElectronStore<IWatchedFolderStore>;
+  private readonly _watchers = new Map<string, Watcher>();
+  // Files waiting for their writes to finish, with their last seen sizes.
+  private readonly _pendingFiles = new Map<
+    string,
+    { timer: NodeJS.Timeout; size: number }
+  >();
+  // Imports are run one by one.
+  private _queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    @IDatabaseCore private readonly _databaseCore: DatabaseCore,
+    @IPaperService private readonly _paperService: PaperService,
+    @IScrapeService private readonly _scrapeService: ScrapeService,
+    @ILogService private readonly _logService: LogService
+  ) {
+    super("watchedFolderService", {
+      updated: 0,
+    });
+
+    this._store = new ElectronStore<IWatchedFolderStore>({
+      name: "watchedFolder",
+      defaults: { folders: [], processed: {} },
+    });
+
+    this._databaseCore.already("dbInitialized", () => {
+      this._watch();
+    });
+  }
+
+  private _enqueue(task: () => Promise<void>) {
+    this._queue = this._queue.then(task).catch((error) => {
+      this._logService.error(
+        "Failed to import files from watched folders.",
+        error as Error,
+        true,
+        "WatchedFolderService"
+      );
+    });
+    return this._queue;
+  }
+
+  private _saveFolders(folders: IWatchedFolder[]) {
+    this._store.set("folders", folders);
+    this._watch();
+    this.fire({ updated: Date.now() });
+  }
+
+  // Papers moved or copied into the library folder would be imported again from a watched directory overlapping it.
+  private async _appLibFolder() {
+    return (await PLMainAPI.preferenceService.get("appLibFolder")) as string;
+  }
+
+  private _isWatchedFile(filePath: string) {
+    return (
+      WATCHED_EXTENSIONS.includes(path.extname(filePath).toLowerCase()) &&
+      !path.basename(filePath).startsWith(".")
+    );
+  }
+
+  // Watch the watched directories, and stop watching the removed ones.
+  // Files already in a directory are reported as added, and skipped if they are processed.
+  private async _watch() {
+    const appLibFolder = await this._appLibFolder();
+    const folders = this._store.get("folders");
+    const ids = new Set(folders.map((folder) => folder._id));
+    for (const [id, watcher] of this._watchers) {
+      if (!ids.has(id)) {
+        watcher.close();
+        this._watchers.delete(id);
+      }
+    }
+    for (const folder of folders) {
+      if (this._watchers.has(folder._id)) {
+        continue;
+      }
+      if (!existsSync(folder.folderPath)) {
+        this._logService.warn(
+          `The watched folder ${folder.folderPath} is not found.`,
+          "",
+          true,
+          "WatchedFolderService"
+        );
+        continue;
+      }
+      if (appLibFolder && isOverlapping(folder.folderPath, appLibFolder)) {
+        this._logService.warn(
+          `The watched folder ${folder.folderPath} overlaps the library folder, and is not watched.`,
+          "",
+          true,
+          "WatchedFolderService"
+        );
+        continue;
+      }
+      const watcher = new Watcher(folder.folderPath, {
+        recursive: true,
+        ignoreInitial: false,
+      });
+      const onFileEvent = (filePath: string) => {
+        if (this._isWatchedFile(filePath)) {
+          this._schedule(folder._id, filePath);
+        }
+      };
+      watcher
+        .on("add", onFileEvent)
+        .on("change", (filePath: string) => {
+          // Processed files are changed when they are annotated in place, which is not a new paper.
+          if (!this._isProcessed(folder._id, filePath)) {
+            onFileEvent(filePath);
+          }
+        })
+        .on("unlink", (filePath: string) => {
+          // A new file with the same name is a new paper.
+          this._forget(folder._id, [filePath]);
+        })
+        .on("error", (error) => {
+          this._logService.error(
+            `Failed to watch ${folder.folderPath}.`,
+            error as Error,
+            false,
+            "WatchedFolderService"
+          );
+        });
+      this._watchers.set(folder._id, watcher);
+
+      // Files removed while Paperlib was not running.
+      this._forget(
+        folder._id,
+        Object.keys(this._store.get("processed")[folder._id] || {}).filter(
+          (filePath) => !existsSync(filePath)
+        )
+      );
+    }
+  }
+
+  private _isProcessed(id: string, filePath: string) {
+    return (this._store.get("processed")[id] || {})[filePath] !== undefined;
+  }
+
+  private _forget(id: string, filePaths: string[]) {
+    const processed = { ...(this._store.get("processed")[id] || {}) };
+    if (!filePaths.some((filePath) => processed[filePath] !== undefined)) {
+      return;
+    }
+    for (const filePath of filePaths) {
+      delete processed[filePath];
+    }
+    this._store.set(`processed.${id}`, processed);
+  }
+
+  // Wait until the size of a file is stable before importing it.
+  private _schedule(id: string, filePath: string, size = -1) {
+    const key = `${id}:${filePath}`;
+    clearTimeout(this._pendingFiles.get(key)?.timer);
+    const timer = setTimeout(async () => {
+      let stat: Awaited<ReturnType<typeof promises.stat>>;
+      try {
+        stat = await promises.stat(filePath);
+      } catch {
+        // Removed or moved away before it is imported.
+        this._pendingFiles.delete(key);
+        return;
+      }
+      if (stat.size !== this._pendingFiles.get(key)?.size || stat.size === 0) {
+        this._schedule(id, filePath, stat.size);
+        return;
+      }
+      this._pendingFiles.delete(key);
+      this._enqueue(() => this._import(id, filePath));
+    }, STABLE_DELAY);
+    this._pendingFiles.set(key, { timer, size });
+  }
+
+  private async _import(id: string, filePath: string) {
+    const folder = this._store
+      .get("folders")
+      .find((folder) => folder._id === id);
+    if (!folder || !existsSync(filePath)) {
+      return;
+    }
+    if (this._isProcessed(id, filePath)) {
+      return;
+    }
+    const stat = await promises.stat(filePath);
+
+    const paperEntityDrafts = await this._scrapeService.scrape(
+      [{ type: "file", value: filePath }],
+      [],
+      false
+    );
+    for (const paperEntityDraft of paperEntityDrafts) {
+      if (folder.tag) {
+        paperEntityDraft.tags.push(new PaperTag({ name: folder.tag }));
+      }
+      if (folder.folder) {
+        paperEntityDraft.folders.push(new PaperFolder({ name: folder.folder }));
+      }
+    }
+    if (paperEntityDrafts.length > 0) {
+      await this._paperService.update(paperEntityDrafts, true, false);
+    }
+
+    // Recorded even if nothing is scraped, so that the file is not tried again at every restart.
+    this._store.set(`processed.${id}`, {
+      ...(this._store.get("processed")[id] || {}),
+      [filePath]: `${stat.size}:${stat.mtimeMs}`,
+    });
+    this._logService.info(
+      `Imported ${path.basename(filePath)} from the watched folder.`,
+      folder.folderPath,
+      true,
+      "WatchedFolderService"
+    );
+  }
+
+  /**
+   * Load the watched folders.
+   * @returns The watched folders.
+   */
+  @errorcatching(
+    "Failed to load watched folders.",
+    true,
+    "WatchedFolderService",
+    []
+  )
+  async load(): Promise<IWatchedFolder[]> {
+    return this._store.get("folders");
+  }
+
+  /**
+   * Watch a directory for new PDF and EPUB files. Files already in the directory are imported too.
+   * @param folderPath - The path of the directory.
+   * @param tag - The name of the tag assigned to the imported papers.
+   * @param folder - The name of the folder assigned to the imported papers.
+   */
+  @errorcatching("Failed to watch the folder.", true, "WatchedFolderService")
+  async add(folderPath: string, tag = "", folder = "") {
+    const folders = this._store.get("folders");
+    if (folders.some((watched) => watched.folderPath === folderPath)) {
+      throw new Error(`${folderPath} is already watched.`);
+    }
+    const appLibFolder = await this._appLibFolder();
+    if (appLibFolder && isOverlapping(folderPath, appLibFolder)) {
+      throw new Error(
+        `${folderPath} cannot be watched, as it is, contains, or is inside the library folder.`
+      );
+    }
+    this._saveFolders([...folders, { _id: uid(), folderPath, tag, folder }]);
+  }
+
+  /**
+   * Set the tag and the folder assigned to the papers imported from a watched directory.
+   * @param id - The id of the watched folder.
+   * @param tag - The name of the tag, or an empty string for none.
+   * @param folder - The name of the folder, or an empty string for none.
+   */
+  @errorcatching(
+    "Failed to update the watched folder.",
+    true,
+    "WatchedFolderService"
+  )
+  setCategorizers(id: string, tag: string, folder: string) {
+    this._saveFolders(
+      this._store
+        .get("folders")
+        .map((watched) =>
+          watched._id === id ? { ...watched, tag, folder } : watched
+        )
+    );
+  }
+
+  /**
+   * Stop watching a directory. Its processed files are forgotten.
+   * @param id - The id of the watched folder.
+   */
+  @errorcatching("Failed to unwatch the folder.", true, "WatchedFolderService")
+  remove(id: string) {
+    this._saveFolders(
+      this._store.get("folders").filter((watched) => watched._id !== id)
+    );
+    this._store.delete(`processed.${id}` as keyof IWatchedFolderStore);
+    for (const [key, { timer }] of this._pendingFiles) {
+      if (key.startsWith(`${id}:`)) {
+        clearTimeout(timer);
+        this._pendingFiles.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,11 @@
+import { Server } from "node:http";
+
+/**
+ * Create a sync server.
+ * @param options - The static token and the data folder.
+ * @returns The HTTP server, not listening yet.
+ */
+export function createSyncServer(options: {
+  token: string;
+  dataDir: string;
+}): Server;
@@ -0,0 +1,167 @@
+/**
+ * A minimal self-hosted sync server for Paperlib.
+ * It implements the `/sync` protocol of the official sync service:
+ *   - GET `/sync?since=<ISO datetime>` responds `{ code: 2000, data: SyncLog[] }` with the logs received after `since`.
+ *   - POST `/sync` with a JSON array of logs responds `{ code: 2010 }`.
+ * Every request must carry the static token in the `Authorization: Bearer <token>` header.
+ * Logs are appended to a JSON lines file in the data folder.
+ *
+ * Usage:
+ *   PAPERLIB_SYNC_TOKEN=<token> node sync-server/server.mjs
+ * Environment variables:
+ *   - PAPERLIB_SYNC_TOKEN: the static token, required.
+ *   - PAPERLIB_SYNC_PORT: the port to listen on, default is 8080.
+ *   - PAPERLIB_SYNC_HOST: the host to listen on, default is 127.0.0.1.
+ *   - PAPERLIB_SYNC_DATA: the data folder, default is ./paperlib-sync-data.
+ */
+
+import { timingSafeEqual } from "node:crypto";
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "node:fs";
+import { createServer } from "node:http";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+
+// Maximum size of a POST body in bytes.
+const MAX_BODY_SIZE = 50 * 1024 * 1024;
+
+/**
+ * Create a sync server.
+ * @param {{ token: string, dataDir: string }} options - The static token and the data folder.
+ * @returns {import("node:http").Server} The HTTP server, not listening yet.
+ */
+export function createSyncServer({ token, dataDir }) {
+  if (!token) {
+    throw new Error("A token is required to start the sync server.");
+  }
+
+  mkdirSync(dataDir, { recursive: true });
+  const logsFile = path.join(dataDir, "sync-logs.jsonl");
+
+  // Records of { received_at, log }, in the order they were received.
+  const records = existsSync(logsFile)
+    ? readFileSync(logsFile, "utf-8")
+        .split("\n")
+        .filter((line) => line.trim())
+        .map((line) => JSON.parse(line))
+    : [];
+  const logIds = new Set(records.map((record) => record.log.log_id));
+  let lastReceivedAt =
+    records.length > 0
+      ? new Date(records[records.length - 1].received_at).getTime()
+      : 0;
+
+  const isAuthorized = (authorization) => {
+    const expected = Buffer.from(`Bearer ${token}`);
+    const actual = Buffer.from(`${authorization}`);
+    return (
+      expected.length === actual.length && timingSafeEqual(expected, actual)
+    );
+  };
+
+  const send = (res, status, body) => {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  };
+
+  const isSyncLog = (log) =>
+    log &&
+    typeof log.log_id === "string" &&
+    ["create", "update", "delete"].includes(log.operation) &&
+    typeof log.entity_type === "string" &&
+    typeof log.timestamp === "string";
+
+  const onGet = (url, res) => {
+    const since = url.searchParams.get("since");
+    if (since && isNaN(new Date(since).getTime())) {
+      send(res, 400, { code: 4000, message: "Invalid since datetime." });
+      return;
+    }
+
+    const data = records
+      .filter(
+        (record) => !since || new Date(record.received_at) > new Date(since)
+      )
+      .map((record) => record.log);
+    // Clients pull from the cursor next time, the receiving time of the last log.
+    const cursor =
+      records.length > 0 ? records[records.length - 1].received_at : since;
+    send(res, 200, { code: 2000, data, cursor: cursor || undefined });
+  };
+
+  const onPost = (req, res) => {
+    const chunks = [];
+    let size = 0;
+    req.on("data", (chunk) => {
+      size += chunk.length;
+      if (size <= MAX_BODY_SIZE) {
+        chunks.push(chunk);
+      }
+    });
+    req.on("end", () => {
+      if (size > MAX_BODY_SIZE) {
+        send(res, 413, { code: 4130, message: "Payload too large." });
+        return;
+      }
+
+      let logs;
+      try {
+        logs = JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+      } catch (error) {
+        send(res, 400, { code: 4000, message: `Invalid JSON. ${error}` });
+        return;
+      }
+      if (!Array.isArray(logs) || !logs.every(isSyncLog)) {
+        send(res, 400, { code: 4000, message: "Invalid sync logs." });
+        return;
+      }
+
+      // Receiving times are unique, so that a cursor never splits the logs of a request.
+      lastReceivedAt = Math.max(Date.now(), lastReceivedAt + 1);
+      const receivedAt = new Date(lastReceivedAt).toISOString();
+      const newRecords = logs
+        .filter((log) => !logIds.has(log.log_id))
+        .map((log) => ({ received_at: receivedAt, log }));
+      if (newRecords.length > 0) {
+        appendFileSync(
+          logsFile,
+          newRecords.map((record) => JSON.stringify(record) + "\n").join("")
+        );
+        for (const record of newRecords) {
+          records.push(record);
+          logIds.add(record.log.log_id);
+        }
+      }
+      send(res, 201, { code: 2010 });
+    });
+  };
+
+  return createServer((req, res) => {
+    const url = new URL(req.url || "/", "http://localhost");
+
+    if (!isAuthorized(req.headers.authorization)) {
+      send(res, 401, { code: 4010, message: "Unauthorized." });
+    } else if (url.pathname !== "/sync") {
+      send(res, 404, { code: 4040, message: "Not found." });
+    } else if (req.method === "GET") {
+      onGet(url, res);
+    } else if (req.method === "POST") {
+      onPost(req, res);
+    } else {
+      send(res, 405, { code: 4050, message: "Method not allowed." });
+    }
+  });
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] || "").href) {
+  const port = parseInt(process.env.PAPERLIB_SYNC_PORT || "8080");
+  const host = process.env.PAPERLIB_SYNC_HOST || "127.0.0.1";
+  const server = createSyncServer({
+    token: process.env.PAPERLIB_SYNC_TOKEN || "",
+    dataDir: path.resolve(
+      process.env.PAPERLIB_SYNC_DATA || "paperlib-sync-data"
+    ),
+  });
+  server.listen(port, host, () => {
+    console.log(`Paperlib sync server is listening on http://${host}:${port}`);
+  });
+}
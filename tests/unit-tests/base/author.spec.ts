@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  authorKeyOf,
+  authorListOf,
+  authorQueryOf,
+  formatAuthors,
+  parseAuthorName,
+  parseAuthors,
+  toCSLName,
+} from "@/base/author";
+
+describe("Author", () => {
+  it("parses names", () => {
+    expect(parseAuthorName("Jan van der Berg")).toEqual({
+      given: "Jan",
+      particle: "van der",
+      family: "Berg",
+    });
+    expect(parseAuthorName("Martin Luther  King Jr.")).toEqual({
+      given: "Martin Luther",
+      family: "King",
+      suffix: "Jr.",
+    });
+    expect(parseAuthorName("King, Jr., Martin Luther")).toEqual({
+      given: "Martin Luther",
+      family: "King",
+      suffix: "Jr.",
+    });
+    expect(parseAuthorName("van der Berg, Jan")).toEqual({
+      given: "Jan",
+      particle: "van der",
+      family: "Berg",
+    });
+    expect(parseAuthorName("Plato")).toEqual({ family: "Plato" });
+    expect(parseAuthorName("{World Health Organization}")).toEqual({
+      literal: "World Health Organization",
+    });
+  });
+
+  it("parses and formats authors strings", () => {
+    expect(parseAuthors("Li, Wei; Berg, Jan")).toEqual([
+      { given: "Wei", family: "Li" },
+      { given: "Jan", family: "Berg" },
+    ]);
+    expect(formatAuthors(parseAuthors("Wei Li, Jan van der Berg, , "))).toBe(
+      "Wei Li, Jan van der Berg"
+    );
+  });
+
+  it("uses the author list only if it matches the authors string", () => {
+    const authorList = [{ given: "Wei", family: "Li" }, { literal: "WHO" }];
+    expect(authorListOf({ authors: "Wei Li, WHO", authorList })).toEqual(
+      authorList
+    );
+    expect(authorListOf({ authors: "Jan Berg", authorList })).toEqual([
+      { given: "Jan", family: "Berg" },
+    ]);
+  });
+
+  it("converts authors into CSL names, keys and queries", () => {
+    const author = parseAuthorName("Jan van der Berg");
+    expect(toCSLName(author)).toEqual({
+      given: "Jan",
+      family: "Berg",
+      "non-dropping-particle": "van der",
+    });
+    expect(authorKeyOf(author)).toBe("berg:jan");
+    expect(authorKeyOf({ literal: "WHO" })).toBe("literal:who");
+
+    expect(authorQueryOf({ family: 'O"Brien' })).toBe(
+      'SUBQUERY(authorList, $author, $author.family ==[c] "O\\"Brien" AND $author.given == nil).@count > 0'
+    );
+    expect(authorQueryOf({ literal: "WHO" })).toBe(
+      'ANY authorList.literal ==[c] "WHO"'
+    );
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  DEFAULT_CITEKEY_TEMPLATE,
+  disambiguateCiteKey,
+  formatCiteKey,
+  sanitizeCiteKey,
+  validateCiteKeyTemplate,
+} from "@/base/citekey";
+
+const entity = {
+  title: "The Attention Is All You Need",
+  authors:
+    "Ashish Vaswani, Noam Shazeer, Niki Parmar, Jakob Uszkoreit, Llion Jones",
+  year: "2017",
+  booktitle: "Advances in Neural Information Processing Systems",
+  pages: "5998-6008",
+};
+
+describe("Citation key", () => {
+  it("formats the default template", () => {
+    expect(formatCiteKey(DEFAULT_CITEKEY_TEMPLATE, entity)).toBe(
+      "vaswani2017attention"
+    );
+  });
+
+  it("formats fields and modifiers", () => {
+    expect(formatCiteKey("{authors}_{shortyear}", entity)).toBe(
+      "VaswaniShazeerParmarEtAl_17"
+    );
+    expect(formatCiteKey("{authini}:{venue}:{firstpage}", entity)).toBe(
+      "VSPU:ANIPS:5998"
+    );
+    expect(formatCiteKey("{auth:upper}{title}", entity)).toBe(
+      "VASWANIAttentionNeed"
+    );
+  });
+
+  it("falls back to the default template and to ref", () => {
+    expect(formatCiteKey("{nope}", entity)).toBe("vaswani2017attention");
+    expect(formatCiteKey("{auth}", { title: "", authors: "", year: "" })).toBe(
+      "ref"
+    );
+  });
+
+  it("validates templates", () => {
+    expect(validateCiteKeyTemplate("{auth:capitalize}-{year}")).toBe("");
+    expect(validateCiteKeyTemplate(" ")).toBe("The template is empty.");
+    expect(validateCiteKeyTemplate("{nope}")).toMatch(/^Unknown field "nope"/);
+    expect(validateCiteKeyTemplate("{auth:bold}")).toMatch(
+      /^Unknown modifier "bold"/
+    );
+    expect(validateCiteKeyTemplate("{auth}{")).toBe("Unbalanced braces.");
+  });
+
+  it("sanitizes keys", () => {
+    expect(sanitizeCiteKey("Gödel Straße Łukasiewicz Ærø #1")).toBe(
+      "GodelStrasseLukasiewiczAEro1"
+    );
+  });
+
+  it("disambiguates keys", () => {
+    const taken = new Set(["key", "keya", "keyb"]);
+    expect(disambiguateCiteKey("free", (key) => taken.has(key))).toBe("free");
+    expect(disambiguateCiteKey("key", (key) => taken.has(key))).toBe("keyc");
+
+    const many = (key: string) => key === "k" || /^k[a-z]$/.test(key);
+    expect(disambiguateCiteKey("k", many)).toBe("kaa");
+  });
+});
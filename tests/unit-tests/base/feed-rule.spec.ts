@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  IFeedRule,
+  matchFeedRule,
+  scoreFeedEntity,
+  validateFeedRule,
+} from "@/base/feed-rule";
+
+function ruleOf(rule: Partial<IFeedRule>): IFeedRule {
+  return {
+    _id: "rule",
+    feedId: "",
+    type: "include",
+    pattern: "",
+    weight: 1,
+    action: "none",
+    tag: "",
+    ...rule,
+  };
+}
+
+const entity = {
+  title: "Generative Adversarial Networks",
+  authors: "Ian Goodfellow, Yoshua Bengio",
+  abstract:
+    "We propose a new framework (GAN) for estimating generative models.",
+};
+
+describe("Feed rule", () => {
+  it("matches whole keywords in the title and the abstract", () => {
+    expect(
+      matchFeedRule(ruleOf({ pattern: "diffusion, gan" }), entity)
+    ).toBeTruthy();
+    expect(
+      matchFeedRule(ruleOf({ pattern: "gan" }), {
+        ...entity,
+        title: "Organ segmentation",
+        abstract: "",
+      })
+    ).toBeFalsy();
+  });
+
+  it("matches authors and regular expressions", () => {
+    expect(
+      matchFeedRule(ruleOf({ type: "author", pattern: "bengio" }), entity)
+    ).toBeTruthy();
+    expect(
+      matchFeedRule(ruleOf({ type: "author", pattern: "Ian Bengio" }), entity)
+    ).toBeFalsy();
+    expect(
+      matchFeedRule(
+        ruleOf({ type: "regex", pattern: "generative\\s+models" }),
+        entity
+      )
+    ).toBeTruthy();
+    // Only the abstract is matched by regular expressions.
+    expect(
+      matchFeedRule(ruleOf({ type: "regex", pattern: "^Generative" }), entity)
+    ).toBeFalsy();
+    expect(matchFeedRule(ruleOf({ type: "regex", pattern: "(" }), entity)).toBe(
+      false
+    );
+  });
+
+  it("scores by the rules of the feed and the global rules", () => {
+    const rules = [
+      ruleOf({ _id: "a", pattern: "GAN", weight: 3 }),
+      ruleOf({ _id: "b", type: "exclude", pattern: "framework", weight: 1 }),
+      ruleOf({ _id: "c", feedId: "other", pattern: "GAN", weight: 10 }),
+      ruleOf({
+        _id: "d",
+        feedId: "arxiv",
+        type: "author",
+        pattern: "Goodfellow",
+      }),
+      ruleOf({ _id: "e", pattern: "transformer", weight: 5 }),
+    ];
+
+    const { score, matched } = scoreFeedEntity(rules, entity, "arxiv");
+    expect(score).toBe(3);
+    expect(matched.map((rule) => rule._id)).toEqual(["a", "b", "d"]);
+  });
+
+  it("validates rules", () => {
+    expect(validateFeedRule(ruleOf({ pattern: "GAN" }))).toBe("");
+    expect(validateFeedRule(ruleOf({ pattern: " " }))).toBe(
+      "The pattern is empty."
+    );
+    expect(validateFeedRule(ruleOf({ pattern: ", ," }))).toBe(
+      "The pattern has no keyword."
+    );
+    expect(validateFeedRule(ruleOf({ type: "regex", pattern: "(" }))).toMatch(
+      /^Invalid regular expression/
+    );
+    expect(validateFeedRule(ruleOf({ pattern: "GAN", weight: NaN }))).toBe(
+      "The weight should be a number."
+    );
+    expect(
+      validateFeedRule(ruleOf({ pattern: "GAN", action: "tag", tag: " " }))
+    ).toBe("The tag of the rule is empty.");
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  disambiguateFileName,
+  formatFileName,
+  RENAMING_FORMAT_TEMPLATES,
+  validateFileNameTemplate,
+} from "@/base/filename";
+
+const entity = {
+  _id: "64f0",
+  title: "Masked Autoencoders Are Scalable Vision Learners",
+  authors: "Kaiming He, Xinlei Chen, Saining Xie",
+  year: "2022",
+  journal: "CVPR/Proceedings",
+  citeKey: "he2022masked",
+  customFields: { dataset: "ImageNet" },
+};
+
+describe("File name", () => {
+  it("formats the preset templates", () => {
+    expect(formatFileName(RENAMING_FORMAT_TEMPLATES.full, entity)).toBe(
+      "Masked_Autoencoders_Are_Scalable_Vision_Learners"
+    );
+    expect(formatFileName(RENAMING_FORMAT_TEMPLATES.short, entity)).toBe(
+      "MAASVL"
+    );
+    expect(formatFileName(RENAMING_FORMAT_TEMPLATES.authortitle, entity)).toBe(
+      "Kaiming He et al - Masked_Autoencoders"
+    );
+  });
+
+  it("formats folders, filters and sections", () => {
+    expect(
+      formatFileName(
+        "{year}/{#journal}{journal|slug}/{/journal}{^doi}nodoi/{/doi}{citekey}.pdf",
+        entity
+      )
+    ).toBe("2022/cvpr-proceedings/nodoi/he2022masked");
+    expect(
+      formatFileName(
+        "{authors} - {title|words:2|upper} {custom.dataset} {month|default:na}",
+        entity
+      )
+    ).toBe("He, Chen, Xie - MASKED_AUTOENCODERS ImageNet na");
+    // Values never create folders.
+    expect(formatFileName("{journal}", entity)).toBe("CVPR-Proceedings");
+  });
+
+  it("formats supplementary files after the main file", () => {
+    expect(
+      formatFileName("{main}_{name}", entity, {
+        name: "Appendix",
+        main: "2022/he2022masked",
+      })
+    ).toBe("2022/he2022masked_Appendix");
+  });
+
+  it("falls back to the full title and to untitled", () => {
+    expect(formatFileName("{nope}", entity)).toBe(
+      "Masked_Autoencoders_Are_Scalable_Vision_Learners"
+    );
+    expect(formatFileName("../{doi}/..", entity)).toBe("untitled");
+  });
+
+  it("validates templates", () => {
+    expect(validateFileNameTemplate("{title|max:40}")).toBe("");
+    expect(validateFileNameTemplate("")).toBe("The template is empty.");
+    expect(validateFileNameTemplate("{nope}")).toMatch(/^Unknown field "nope"/);
+    expect(validateFileNameTemplate("{title|bold}")).toMatch(
+      /^Unknown filter "bold"/
+    );
+    expect(validateFileNameTemplate("{title|max:n}")).toBe(
+      'The argument of "max" in "{title|max:n}" should be a number.'
+    );
+    expect(validateFileNameTemplate("{#doi}x")).toBe(
+      'The section "doi" is not closed.'
+    );
+    expect(validateFileNameTemplate("{/doi}")).toBe(
+      '"{/doi}" does not close an open section.'
+    );
+    expect(validateFileNameTemplate("{title")).toBe("Unbalanced braces.");
+  });
+
+  it("disambiguates file names", async () => {
+    const taken = new Set(["a.pdf", "a_2.pdf"]);
+    expect(
+      await disambiguateFileName("a", ".pdf", (filePath) => taken.has(filePath))
+    ).toBe("a_3.pdf");
+    expect(await disambiguateFileName("b", ".pdf", async () => false)).toBe(
+      "b.pdf"
+    );
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+
+import { makeSnippet, stem, tokenize } from "@/base/fulltext";
+
+describe("Fulltext", () => {
+  it("stems English words", () => {
+    expect(stem("caresses")).toBe("caress");
+    expect(stem("ponies")).toBe("poni");
+    expect(stem("hopping")).toBe("hop");
+    expect(stem("relational")).toBe("relat");
+    expect(stem("networks")).toBe("network");
+    expect(stem("generalization")).toBe(stem("generalize"));
+    expect(stem("bert")).toBe("bert");
+    expect(stem("naïve")).toBe("naïve");
+  });
+
+  it("tokenizes a text with offsets", () => {
+    const text = "The Training of Neural Networks";
+    const tokens = tokenize(text);
+
+    expect(tokens.map((token) => token.term)).toEqual([
+      "train",
+      "neural",
+      "network",
+    ]);
+    expect(
+      tokens.map((token) =>
+        text.slice(token.offset, token.offset + token.length)
+      )
+    ).toEqual(["Training", "Neural", "Networks"]);
+  });
+
+  it("keeps numbers and splits CJK characters", () => {
+    expect(tokenize("A 3 d").map((token) => token.term)).toEqual(["3"]);
+    expect(tokenize("深度学习 GPT").map((token) => token.term)).toEqual([
+      "深",
+      "度",
+      "学",
+      "习",
+      "gpt",
+    ]);
+  });
+
+  it("cuts snippets around a hit without cutting words", () => {
+    const text = "word ".repeat(40) + "target " + "word ".repeat(40);
+    const offset = text.indexOf("target");
+    const snippet = makeSnippet(text, offset, 6, 10);
+
+    expect(snippet.startsWith("…")).toBe(true);
+    expect(snippet.endsWith("…")).toBe(true);
+    // Only whole words are kept.
+    expect(new Set(snippet.slice(1, -1).trim().split(" "))).toEqual(
+      new Set(["word", "target"])
+    );
+
+    expect(makeSnippet("short text", 0, 5)).toBe("short text");
+  });
+});
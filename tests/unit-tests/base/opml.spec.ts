@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+
+import { formatOPML, parseOPML } from "@/base/opml";
+
+describe("parseOPML", () => {
+  it("parses flat and grouped outlines", () => {
+    const content = `<?xml version="1.0" encoding="UTF-8"?>
+<opml version="2.0">
+  <head><title>Subscriptions</title></head>
+  <body>
+    <outline text="arXiv CS.LG" xmlUrl="https://rss.arxiv.org/rss/cs.LG" />
+    <outline text="Journals">
+      <outline text="Nature" title="Nature Journal" xmlUrl=" https://www.nature.com/nature.rss " />
+      <outline text="Duplicated" xmlUrl="https://rss.arxiv.org/rss/cs.LG" />
+    </outline>
+    <outline text="No URL" />
+  </body>
+</opml>`;
+
+    expect(parseOPML(content)).toEqual([
+      { name: "arXiv CS.LG", url: "https://rss.arxiv.org/rss/cs.LG" },
+      { name: "Nature Journal", url: "https://www.nature.com/nature.rss" },
+    ]);
+  });
+
+  it("falls back to the URL as the name", () => {
+    const content = `<opml version="1.0"><body><outline xmlUrl="https://example.com/feed.xml" /></body></opml>`;
+
+    expect(parseOPML(content)).toEqual([
+      {
+        name: "https://example.com/feed.xml",
+        url: "https://example.com/feed.xml",
+      },
+    ]);
+  });
+
+  it("returns no feeds for an empty body", () => {
+    expect(parseOPML(`<opml version="2.0"><body></body></opml>`)).toEqual([]);
+  });
+
+  it("throws for other documents", () => {
+    expect(() => parseOPML(`<rss version="2.0"><channel /></rss>`)).toThrow(
+      "not an OPML document"
+    );
+  });
+});
+
+describe("formatOPML", () => {
+  it("round-trips feeds", () => {
+    const feeds = [
+      { name: "arXiv CS.LG", url: "https://rss.arxiv.org/rss/cs.LG" },
+      { name: "Nature & Science", url: "https://example.com/feed?a=1&b=2" },
+    ];
+
+    const content = formatOPML(feeds);
+
+    expect(content).toContain('<opml version="2.0">');
+    expect(content).toContain("<title>Paperlib Feeds</title>");
+    expect(parseOPML(content)).toEqual(feeds);
+  });
+
+  it("formats an empty list", () => {
+    expect(parseOPML(formatOPML([]))).toEqual([]);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  compileKeywords,
+  compileQuery,
+  IQueryFields,
+  QuerySyntaxError,
+  quoteQueryValue,
+} from "@/base/query";
+
+const fields: IQueryFields = {
+  fields: {
+    title: { type: "text", properties: ["title"] },
+    tag: { type: "name", properties: ["tags.name"] },
+    flag: { type: "boolean", properties: ["flag"] },
+    rating: { type: "number", properties: ["rating"] },
+    year: { type: "year", properties: ["pubTime"] },
+    added: { type: "date", properties: ["addTime"] },
+  },
+  defaultProperties: ["title", "authors"],
+};
+
+describe("Query", () => {
+  it("binds values to placeholders", () => {
+    expect(compileQuery('title:"graph networks" -flag', fields)).toEqual({
+      filter: "((title CONTAINS[c] $0) AND (NOT (flag == true)))",
+      placeholders: ["graph networks"],
+    });
+  });
+
+  it("compiles terms without a field against the default properties", () => {
+    expect(compileQuery('bert OR "it\'s"', fields, 2)).toEqual({
+      filter:
+        "(((title CONTAINS[c] $2) OR (authors CONTAINS[c] $2)) OR ((title CONTAINS[c] $3) OR (authors CONTAINS[c] $3)))",
+      placeholders: ["bert", "it's"],
+    });
+  });
+
+  it("compiles names, numbers and years", () => {
+    expect(compileQuery("tag:=ToRead rating:>=3", fields)).toEqual({
+      filter: "((ANY tags.name ==[c] $0) AND (rating >= $1))",
+      placeholders: ["ToRead", 3],
+    });
+
+    const { filter, placeholders } = compileQuery("year:2019..2021", fields);
+    expect(filter).toBe("(pubTime IN $0)");
+    expect(placeholders).toEqual([["2019", "2020", "2021"]]);
+  });
+
+  it("writes dates as timestamp literals", () => {
+    // Dates are in local time.
+    const literal = (date: Date) =>
+      date.toISOString().slice(0, -5).replace("T", "@");
+    const start = literal(new Date(2023, 5, 1));
+    const end = literal(new Date(2023, 6, 1));
+
+    expect(compileQuery("added:2023-06", fields)).toEqual({
+      filter: `(addTime >= ${start} AND addTime < ${end})`,
+      placeholders: [],
+    });
+  });
+
+  it("reports syntax errors with their positions", () => {
+    expect(() => compileQuery("rating:many", fields)).toThrow(QuerySyntaxError);
+    expect(() => compileQuery("unknown:x", fields)).toThrow(/column 1/);
+    expect(() => compileQuery("(title:a", fields)).toThrow(QuerySyntaxError);
+  });
+
+  it("compiles keywords", () => {
+    expect(compileKeywords(" a  b ", ["title"], 1)).toEqual({
+      filter: "(title CONTAINS[c] $1) AND (title CONTAINS[c] $2)",
+      placeholders: ["a", "b"],
+    });
+  });
+
+  it("quotes values", () => {
+    expect(quoteQueryValue('say "hi" \\')).toBe('"say \\"hi\\" \\\\"');
+    expect(
+      compileQuery(`title:${quoteQueryValue('say "hi"')}`, fields)
+    ).toEqual({ filter: "(title CONTAINS[c] $0)", placeholders: ['say "hi"'] });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  buildRecommendProfile,
+  closestDocuments,
+  documentWeightOf,
+  IRecommendDocument,
+  recommendationOf,
+  tokenize,
+} from "@/base/recommend";
+
+const library: IRecommendDocument[] = [
+  {
+    id: "gan",
+    title: "Generative Adversarial Networks",
+    abstract:
+      "A framework for estimating generative models via adversarial training.",
+    rating: 5,
+    flag: true,
+  },
+  {
+    id: "vit",
+    title: "An Image is Worth 16x16 Words: Transformers for Image Recognition",
+    abstract: "Vision transformers applied to sequences of image patches.",
+  },
+  {
+    id: "protein",
+    title: "Protein Structure Prediction",
+    abstract: "Predicting the folded structures of proteins from sequences.",
+  },
+];
+
+describe("Recommend", () => {
+  it("tokenizes without stopwords, numbers and plurals", () => {
+    expect(
+      tokenize("The neural networks of 2020 via graphs, or focus")
+    ).toEqual(["neural", "network", "graph", "focus"]);
+  });
+
+  it("weights papers by rating, flag and folders", () => {
+    expect(documentWeightOf({ id: "", title: "", abstract: "" })).toBe(1);
+    expect(
+      documentWeightOf({
+        id: "",
+        title: "",
+        abstract: "",
+        rating: 9,
+        flag: true,
+        folders: [{}],
+      })
+    ).toBeCloseTo(2);
+  });
+
+  it("finds the closest papers", () => {
+    const profile = buildRecommendProfile(library);
+    const closest = closestDocuments(profile, {
+      title: "Adversarial Training of Generative Networks",
+      abstract: "",
+    });
+
+    expect(closest.map((document) => document.id)).toEqual(["gan"]);
+    expect(closest[0].title).toBe("Generative Adversarial Networks");
+    expect(closest[0].similarity).toBeGreaterThan(0.5);
+  });
+
+  it("recommends papers similar to important ones", () => {
+    const profile = buildRecommendProfile(library);
+    const gan = recommendationOf(profile, {
+      title: "Conditional Generative Adversarial Networks",
+      abstract: "Adversarial training of generative models with labels.",
+    });
+    const vit = recommendationOf(profile, {
+      title: "Vision Transformers for Image Recognition",
+      abstract: "Transformers on image patches.",
+    });
+
+    expect(gan).toBeGreaterThan(vit);
+    expect(vit).toBeGreaterThan(0);
+    expect(
+      recommendationOf(profile, { title: "Medieval poetry", abstract: "" })
+    ).toBe(0);
+  });
+});
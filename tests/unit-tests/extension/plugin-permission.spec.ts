@@ -0,0 +1,216 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import {
+  IPluginPermissions,
+  coversPermissions,
+  emptyPermissions,
+  intersectPermissions,
+  isHostPermitted,
+  isPathPermitted,
+  parsePluginPermissions,
+} from "@/extension/manager/plugin-permission";
+
+function permissionsOf(
+  permissions: Partial<IPluginPermissions>
+): IPluginPermissions {
+  return { ...emptyPermissions(), ...permissions };
+}
+
+describe("parsePluginPermissions", () => {
+  it("permits nothing without the field", () => {
+    expect(parsePluginPermissions(undefined)).toEqual(emptyPermissions());
+    expect(parsePluginPermissions(null)).toEqual(emptyPermissions());
+  });
+
+  it("parses declared permissions", () => {
+    expect(
+      parsePluginPermissions({
+        network: [" api.semanticscholar.org ", "*.arxiv.org"],
+        hooks: ["scrapeMetadata", "scrapeMetadata"],
+      })
+    ).toEqual({
+      network: ["api.semanticscholar.org", "*.arxiv.org"],
+      filesystem: [],
+      services: [],
+      hooks: ["scrapeMetadata"],
+    });
+  });
+
+  it("throws for invalid declarations", () => {
+    expect(() => parsePluginPermissions("network")).toThrow(
+      "must be an object"
+    );
+    expect(() => parsePluginPermissions(["network"])).toThrow(
+      "must be an object"
+    );
+    expect(() => parsePluginPermissions({ network: "arxiv.org" })).toThrow(
+      "'permissions.network'"
+    );
+    expect(() => parsePluginPermissions({ services: [" "] })).toThrow(
+      "'permissions.services'"
+    );
+    expect(() => parsePluginPermissions({ hooks: [1] })).toThrow(
+      "'permissions.hooks'"
+    );
+  });
+});
+
+describe("coversPermissions", () => {
+  const granted = permissionsOf({
+    network: ["arxiv.org", "doi.org"],
+    services: ["paperService"],
+  });
+
+  it("covers requested subsets", () => {
+    expect(coversPermissions(granted, emptyPermissions())).toBe(true);
+    expect(
+      coversPermissions(granted, permissionsOf({ network: ["doi.org"] }))
+    ).toBe(true);
+    expect(coversPermissions(granted, granted)).toBe(true);
+  });
+
+  it("does not cover more permissions", () => {
+    expect(
+      coversPermissions(granted, permissionsOf({ network: ["example.com"] }))
+    ).toBe(false);
+    expect(
+      coversPermissions(granted, permissionsOf({ hooks: ["scrapeMetadata"] }))
+    ).toBe(false);
+  });
+});
+
+describe("intersectPermissions", () => {
+  it("keeps the permissions granted by all", () => {
+    expect(
+      intersectPermissions([
+        permissionsOf({
+          network: ["arxiv.org", "doi.org"],
+          hooks: ["scrapeMetadata"],
+        }),
+        permissionsOf({ network: ["doi.org"], hooks: ["scrapeMetadata"] }),
+      ])
+    ).toEqual(
+      permissionsOf({ network: ["doi.org"], hooks: ["scrapeMetadata"] })
+    );
+  });
+
+  it("permits nothing for no permissions", () => {
+    expect(intersectPermissions([])).toEqual(emptyPermissions());
+  });
+});
+
+describe("isHostPermitted", () => {
+  const permissions = permissionsOf({
+    network: ["api.semanticscholar.org", "*.arxiv.org"],
+  });
+
+  it("matches hosts of URLs", () => {
+    expect(
+      isHostPermitted(
+        permissions,
+        "https://API.semanticscholar.org/graph/v1/paper"
+      )
+    ).toBe(true);
+    expect(isHostPermitted(permissions, "api.semanticscholar.org.")).toBe(true);
+    expect(isHostPermitted(permissions, "https://semanticscholar.org")).toBe(
+      false
+    );
+  });
+
+  it("matches subdomains of wildcards", () => {
+    expect(isHostPermitted(permissions, "https://arxiv.org/abs/1")).toBe(true);
+    expect(isHostPermitted(permissions, "http://export.arxiv.org/api")).toBe(
+      true
+    );
+    expect(isHostPermitted(permissions, "https://notarxiv.org")).toBe(false);
+    expect(isHostPermitted(permissions, "https://arxiv.org.evil.com")).toBe(
+      false
+    );
+  });
+
+  it("matches all hosts by *", () => {
+    expect(
+      isHostPermitted(permissionsOf({ network: ["*"] }), "https://a.b.c")
+    ).toBe(true);
+  });
+
+  it("denies invalid URLs", () => {
+    expect(isHostPermitted(permissionsOf({ network: ["*"] }), "")).toBe(false);
+  });
+});
+
+describe("isPathPermitted", () => {
+  let root: string;
+  let location: string;
+  let permitted: string;
+  let other: string;
+
+  beforeAll(() => {
+    root = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), "plugin-permission-"))
+    );
+    location = path.join(root, "extension");
+    permitted = path.join(root, "permitted");
+    other = path.join(root, "other");
+    for (const folder of [location, permitted, other]) {
+      fs.mkdirSync(folder);
+    }
+    fs.symlinkSync(other, path.join(permitted, "link"));
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("permits the folder of the extension", () => {
+    const permissions = emptyPermissions();
+    expect(
+      isPathPermitted(permissions, location, path.join(location, "a.json"))
+    ).toBe(true);
+    expect(
+      isPathPermitted(permissions, location, path.join(permitted, "a.pdf"))
+    ).toBe(false);
+  });
+
+  it("permits declared folders and their missing files", () => {
+    const permissions = permissionsOf({ filesystem: [permitted] });
+    expect(
+      isPathPermitted(
+        permissions,
+        location,
+        path.join(permitted, "missing", "a.pdf")
+      )
+    ).toBe(true);
+    expect(
+      isPathPermitted(
+        permissions,
+        location,
+        path.join(permitted, "..", "other")
+      )
+    ).toBe(false);
+    expect(isPathPermitted(permissions, location, `${permitted}-suffix`)).toBe(
+      false
+    );
+  });
+
+  it("follows symbolic links", () => {
+    const permissions = permissionsOf({ filesystem: [permitted] });
+    expect(
+      isPathPermitted(permissions, location, path.join(permitted, "link", "a"))
+    ).toBe(false);
+  });
+
+  it("expands the home folder", () => {
+    const permissions = permissionsOf({ filesystem: ["~/Downloads"] });
+    expect(
+      isPathPermitted(
+        permissions,
+        location,
+        path.join(os.homedir(), "Downloads", "a.pdf")
+      )
+    ).toBe(true);
+  });
+});
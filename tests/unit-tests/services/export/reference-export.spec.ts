@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+
+import type { Entity } from "@/models/entity";
+import {
+  addBibTeXCustomFields,
+  escapeCSVField,
+  formatCSV,
+  formatEndNoteXML,
+  formatMarkdown,
+  formatRIS,
+  toCSLJSON,
+} from "@/service/services/export/reference-export";
+
+function paperOf(fields: Partial<Entity>) {
+  return {
+    _id: "id",
+    type: "article",
+    title: "",
+    authors: "",
+    year: "",
+    ...fields,
+  } as Entity;
+}
+
+const paper = paperOf({
+  _id: "1",
+  type: "inproceedings",
+  citeKey: "vaswani2017attention",
+  title: "Attention Is All You Need",
+  authors: "Ashish Vaswani, Jan van der Berg",
+  booktitle: "NeurIPS",
+  year: "2017",
+  month: "12",
+  pages: "5998--6008",
+  doi: "10.5555/3295222",
+  customFields: { dataset: "WMT 2014" },
+});
+
+describe("Reference export", () => {
+  it("converts papers into CSL-JSON", () => {
+    expect(toCSLJSON([paper], [{ name: "dataset", type: "text" }])).toEqual([
+      {
+        id: "vaswani2017attention",
+        "citation-key": "vaswani2017attention",
+        type: "paper-conference",
+        title: "Attention Is All You Need",
+        author: [
+          { given: "Ashish", family: "Vaswani" },
+          { given: "Jan", family: "Berg", "non-dropping-particle": "van der" },
+        ],
+        "container-title": "NeurIPS",
+        issued: { "date-parts": [[2017, 12]] },
+        page: "5998--6008",
+        DOI: "10.5555/3295222",
+        URL: "https://doi.org/10.5555/3295222",
+        custom: { dataset: "WMT 2014" },
+      },
+    ]);
+  });
+
+  it("adds custom fields to BibTeX entries", () => {
+    expect(
+      addBibTeXCustomFields(
+        "@inproceedings{vaswani2017attention,\n\ttitle = {Attention},\n}\n",
+        [{ id: "1", citationKey: "vaswani2017attention" }],
+        [paper],
+        [{ name: "dataset", type: "text" }]
+      )
+    ).toBe(
+      "@inproceedings{vaswani2017attention,\n\tdataset = {WMT 2014},\n\ttitle = {Attention},\n}\n"
+    );
+  });
+
+  it("formats RIS", () => {
+    expect(formatRIS([paper])).toBe(
+      [
+        "TY  - CPAPER",
+        "ID  - vaswani2017attention",
+        "TI  - Attention Is All You Need",
+        "AU  - Vaswani, Ashish",
+        "AU  - van der Berg, Jan",
+        "T2  - NeurIPS",
+        "PY  - 2017",
+        "DA  - 2017/12//",
+        "SP  - 5998",
+        "EP  - 6008",
+        "DO  - 10.5555/3295222",
+        "UR  - https://doi.org/10.5555/3295222",
+        "ER  - ",
+        "",
+      ].join("\n")
+    );
+    expect(formatRIS([])).toBe("");
+  });
+
+  it("formats EndNote XML with escaped values", () => {
+    const xml = formatEndNoteXML([
+      paperOf({ title: "Rock & <Roll>", arxiv: "arXiv:1706.03762" }),
+    ]);
+    expect(xml).toContain('<ref-type name="Journal Article">17</ref-type>');
+    expect(xml).toContain("<title>Rock &amp; &lt;Roll&gt;</title>");
+    expect(xml).toContain("<url>https://arxiv.org/abs/1706.03762</url>");
+    expect(xml).not.toContain("<contributors>");
+  });
+
+  it("formats a Markdown list", () => {
+    expect(
+      formatMarkdown([paper, paperOf({ title: "A *starred* title" })])
+    ).toBe(
+      "- [Attention Is All You Need](https://doi.org/10.5555/3295222). Ashish Vaswani, Jan van der Berg. *NeurIPS*, 2017.\n" +
+        "- A \\*starred\\* title.\n"
+    );
+  });
+
+  it("formats CSV", () => {
+    expect(escapeCSVField('say "hi", bye')).toBe('"say ""hi"", bye"');
+    expect(escapeCSVField(new Date(Date.UTC(2020, 0, 1)))).toBe(
+      "2020-01-01T00:00:00.000Z"
+    );
+    expect(
+      formatCSV([
+        ["title", "year"],
+        ["A\nB", undefined],
+      ])
+    ).toBe('title,year\r\n"A\nB",\r\n');
+  });
+});
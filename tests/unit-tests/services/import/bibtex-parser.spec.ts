@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  decodeLaTeX,
+  formatBibTeXName,
+  parseBibTeX,
+  parseBibTeXName,
+  splitBibTeXNames,
+} from "@/service/services/import/bibtex-parser";
+
+describe("BibTeX parser", () => {
+  it("parses entries with macros and concatenations", () => {
+    const { entries, errors } = parseBibTeX(`
+      @string{conf = "Proceedings of "}
+      @comment{ignored @article{x, title = {no}} }
+      @inproceedings{vaswani2017,
+        title = {Attention Is {All} You Need},
+        booktitle = conf # "NeurIPS",
+        year = 2017,
+        month = dec,
+      }
+      @Article(key2, Title = "Second")
+    `);
+
+    expect(errors).toEqual([]);
+    expect(entries).toEqual([
+      {
+        index: 0,
+        type: "inproceedings",
+        key: "vaswani2017",
+        fields: {
+          title: "Attention Is {All} You Need",
+          booktitle: "Proceedings of NeurIPS",
+          year: "2017",
+          month: "12",
+        },
+      },
+      { index: 1, type: "article", key: "key2", fields: { title: "Second" } },
+    ]);
+  });
+
+  it("reports broken entries and goes on", () => {
+    const { entries, errors } = parseBibTeX(
+      "@article{a, title = {Unclosed}\n@article{b, title = undefinedmacro}\n@book{c, title = {Fine}}"
+    );
+
+    expect(entries.map((entry) => entry.key)).toEqual(["c"]);
+    expect(errors.map((error) => [error.index, error.key])).toEqual([
+      [0, "a"],
+      [1, "b"],
+    ]);
+    expect(errors[1].message).toMatch(
+      /Undefined string "undefinedmacro" at line 2/
+    );
+  });
+
+  it("skips an @ between entries", () => {
+    const { entries, errors } = parseBibTeX(
+      "Mail me at someone@ example.org\n@misc{m, note = {x}}"
+    );
+    expect(entries.map((entry) => entry.key)).toEqual(["m"]);
+    expect(errors).toEqual([]);
+  });
+
+  it("decodes LaTeX", () => {
+    expect(
+      decodeLaTeX("Schr\\\"{o}dinger's {\\v{C}}ech \\textit{et al.}")
+    ).toBe("Schrödinger's Čech et al.");
+    expect(decodeLaTeX("pages 1--2, \\ss, 50\\%")).toBe("pages 1–2, ß, 50%");
+    expect(decodeLaTeX("The $O(n^{2})$   bound")).toBe("The $O(n^{2})$ bound");
+  });
+
+  it("splits and formats names", () => {
+    expect(
+      splitBibTeXNames("Knuth, Donald E. and {Barnes and Noble} AND Jane Doe")
+    ).toEqual(["Knuth, Donald E.", "{Barnes and Noble}", "Jane Doe"]);
+    expect(formatBibTeXName("Knuth, Donald E.")).toBe("Donald E. Knuth");
+    expect(formatBibTeXName("King, Jr, Martin Luther")).toBe(
+      "Martin Luther King Jr"
+    );
+    expect(formatBibTeXName('G{\\"o}del, Kurt')).toBe("Kurt Gödel");
+    expect(parseBibTeXName("{World Health Organization}")).toEqual({
+      literal: "World Health Organization",
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+
+import { parseRIS } from "@/service/services/import/ris-parser";
+
+describe("RIS parser", () => {
+  it("parses records with repeated tags and continued lines", () => {
+    const { records, errors } = parseRIS(
+      [
+        "\ufeffTY  - JOUR",
+        "AU  - Doe, Jane",
+        "AU  - Roe, Richard",
+        "TI  - A title that",
+        "  goes on",
+        "PY  - 2020",
+        "ER  -",
+        "",
+        "TY  - BOOK",
+        "TI  - Second",
+        "ER  - ",
+      ].join("\r\n")
+    );
+
+    expect(errors).toEqual([]);
+    expect(records).toEqual([
+      {
+        index: 0,
+        tags: {
+          TY: ["JOUR"],
+          AU: ["Doe, Jane", "Roe, Richard"],
+          TI: ["A title that goes on"],
+          PY: ["2020"],
+        },
+      },
+      { index: 1, tags: { TY: ["BOOK"], TI: ["Second"] } },
+    ]);
+  });
+
+  it("reports broken records and goes on", () => {
+    const { records, errors } = parseRIS(
+      [
+        "TI  - No type",
+        "ER  -",
+        "TY  - JOUR",
+        "TI  - Not ended",
+        "TY  - JOUR",
+        "TI  - Fine",
+        "ER  -",
+        "TY  - JOUR",
+      ].join("\n")
+    );
+
+    expect(records).toEqual([
+      { index: 2, tags: { TY: ["JOUR"], TI: ["Fine"] } },
+    ]);
+    expect(errors).toEqual([
+      { index: 0, message: 'The record does not start with "TY" at line 1.' },
+      { index: 1, message: 'The record at line 3 is not ended by "ER".' },
+      { index: 3, message: 'The record at line 8 is not ended by "ER".' },
+    ]);
+  });
+});
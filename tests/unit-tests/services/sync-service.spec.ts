@@ -0,0 +1,446 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { createSyncServer } from "../../../sync-server/server.mjs";
+import { StandInSyncServer } from "../utils/stand-in-sync-server";
+
+vi.mock("realm", () => ({
+  default: { Object: class {} },
+  List: class {},
+  Results: class {},
+}));
+
+// An in-memory store that, like electron-store, keeps JSON copies of values.
+vi.mock("electron-store", () => ({
+  default: class {
+    private _store: Record<string, string> = {};
+    has(key: string) {
+      return key in this._store;
+    }
+    get(key: string) {
+      return this.has(key) ? JSON.parse(this._store[key]) : undefined;
+    }
+    set(key: string, value: unknown) {
+      this._store[key] = JSON.stringify(value);
+    }
+    delete(key: string) {
+      delete this._store[key];
+    }
+  },
+}));
+
+const { SyncService } = await import("@/service/services/sync-service");
+const { CategorizerType } = await import("@/models/categorizer");
+
+const log = (
+  entity_type: string,
+  operation: "create" | "update" | "delete",
+  value: unknown
+) => {
+  const timestamp = new Date().toISOString();
+  return {
+    log_id: crypto.randomUUID(),
+    entity_type,
+    operation,
+    value,
+    timestamp,
+    created_at: timestamp,
+    updated_at: timestamp,
+  };
+};
+
+// Stand-ins of the services called by the sync service, set as the global PLAPILocal.
+const stubServices = () => {
+  const services = {
+    paperService: {
+      update: vi.fn().mockImplementation(async (drafts) => drafts),
+      delete: vi.fn(),
+      loadByIds: vi.fn(async () => [
+        { _id: "65a000000000000000000001", title: "A", authors: "X, Y" },
+      ]),
+      updateSups: vi.fn(),
+      deleteSups: vi.fn(),
+    },
+    categorizerService: {
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    feedService: {
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    schedulerService: {
+      createTask: vi.fn(),
+    },
+    logService: {
+      warn: vi.fn(),
+    },
+  };
+  vi.stubGlobal("PLAPILocal", services);
+  return services;
+};
+
+// A stand-in preference service with the given preferences and passwords, set as the global PLMainAPI.
+const stubPreferences = (
+  preferences: Record<string, string>,
+  passwords: Record<string, string>
+) => {
+  vi.stubGlobal("PLMainAPI", {
+    preferenceService: {
+      get: vi.fn(async (key: string) => preferences[key]),
+      getPassword: vi.fn(async (key: string) => passwords[key]),
+    },
+  });
+};
+
+describe("Sync Service", () => {
+  const server = new StandInSyncServer();
+  let baseURL: URL;
+
+  beforeAll(async () => {
+    baseURL = await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  let services: ReturnType<typeof stubServices>;
+
+  beforeEach(() => {
+    server.logs = [];
+    server.requests = [];
+    server.failures = 0;
+    services = stubServices();
+  });
+
+  const createSyncService = (syncPassphrase = "") => {
+    stubPreferences(
+      { useSync: "self-host", selfHostSyncURL: baseURL.href },
+      { selfHostSync: "stand-in-token", syncPassphrase }
+    );
+    return new SyncService();
+  };
+
+  it("replays every entity type from the remote logs", async () => {
+    server.logs = [
+      log("paper", "create", {
+        paperEntityDrafts: [{ title: "A", addTime: new Date().toISOString() }],
+      }),
+      log("tag", "create", { categorizer: { name: "to read" } }),
+      log("folder", "delete", { ids: ["65a000000000000000000002"] }),
+      log("supplement", "delete", {
+        paperEntityId: "65a000000000000000000001",
+        supIds: ["sup"],
+      }),
+    ];
+
+    await createSyncService().invokeSync();
+
+    const { paperService, categorizerService } = services;
+
+    const [drafts, , isUpdate, fromSync] = paperService.update.mock.calls[0];
+    expect(drafts[0].title).toBe("A");
+    expect(drafts[0].addTime).toBeInstanceOf(Date);
+    expect(isUpdate).toBe(false);
+    expect(fromSync).toBe(true);
+
+    expect(categorizerService.create.mock.calls[0][0]).toBe(
+      CategorizerType.PaperTag
+    );
+    expect(categorizerService.create.mock.calls[0][1].name).toBe("to read");
+    expect(categorizerService.delete.mock.calls[0][0]).toBe(
+      CategorizerType.PaperFolder
+    );
+
+    expect(paperService.deleteSups.mock.calls[0][1]).toEqual(["sup"]);
+  });
+
+  it("merges remote paper updates field by field", async () => {
+    const id = "65a000000000000000000001";
+    server.logs = [
+      log("paper", "update", {
+        paperEntityDrafts: [{ _id: id, title: "B", note: "remote note" }],
+        updateCache: false,
+        isUpdate: true,
+        changes: {
+          [id]: {
+            title: { base: "Old", value: "B" },
+            note: { base: null, value: "remote note" },
+          },
+        },
+      }),
+    ];
+
+    const syncService = createSyncService();
+    await syncService.invokeSync();
+
+    const [drafts, , isUpdate, fromSync] =
+      services.paperService.update.mock.calls[0];
+    expect(drafts[0].title).toBe("A");
+    expect(drafts[0].authors).toBe("X, Y");
+    expect(drafts[0].note).toBe("remote note");
+    expect(isUpdate).toBe(true);
+    expect(fromSync).toBe(true);
+
+    const conflicts = syncService.getState("conflicts");
+    expect(conflicts.length).toBe(1);
+    expect(conflicts[0]).toMatchObject({
+      entity_id: id,
+      field: "title",
+      base: "Old",
+      local: "A",
+      remote: "B",
+    });
+
+    await syncService.resolveConflicts({ [conflicts[0].conflict_id]: "remote" });
+
+    expect(services.paperService.update.mock.calls[1][0][0].title).toBe("B");
+    expect(syncService.getState("conflicts")).toEqual([]);
+    expect(syncService.getState("syncLogs")[0].value.changes[id]).toEqual({
+      title: { base: "A", value: "B" },
+    });
+  });
+
+  it("pushes local logs and does not replay them again", async () => {
+    const syncService = createSyncService();
+    await syncService.addSyncLog("folder", "create", {
+      categorizer: { name: "project" },
+    });
+
+    await syncService.invokeSync();
+    await syncService.invokeSync();
+
+    expect(server.logs.length).toBe(1);
+    expect(syncService.getState("syncLogs")).toEqual([]);
+    expect(services.categorizerService.create).not.toHaveBeenCalled();
+  });
+
+  it("pulls logs the server receives during a sync", async () => {
+    server.logs = [log("tag", "create", { categorizer: { name: "first" } })];
+    // Another device pushes while this device is applying the pulled logs.
+    services.categorizerService.create.mockImplementationOnce(async () => {
+      server.receive([
+        log("tag", "create", { categorizer: { name: "second" } }),
+      ]);
+    });
+
+    const syncService = createSyncService();
+    await syncService.invokeSync();
+    await syncService.invokeSync();
+
+    const { create } = services.categorizerService;
+    expect(create.mock.calls.map((call) => call[1].name)).toEqual([
+      "first",
+      "second",
+    ]);
+  });
+
+  it("pulls logs made offline before the last sync", async () => {
+    const syncService = createSyncService();
+    await syncService.invokeSync();
+
+    const offlineLog = log("tag", "create", { categorizer: { name: "offline" } });
+    offlineLog.timestamp = new Date(Date.now() - 86400000).toISOString();
+    server.receive([offlineLog]);
+    await syncService.invokeSync();
+
+    const { create } = services.categorizerService;
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(create.mock.calls[0][1].name).toBe("offline");
+  });
+
+  it("applies pulled logs again after failing to apply them", async () => {
+    server.logs = [log("tag", "create", { categorizer: { name: "remote" } })];
+    services.categorizerService.create.mockRejectedValueOnce(
+      new Error("Failed to create the tag.")
+    );
+
+    const syncService = createSyncService();
+    // A local log is pushed before the pulled logs are applied.
+    await syncService.addSyncLog("folder", "create", {
+      categorizer: { name: "local" },
+    });
+    await expect(syncService.invokeSync()).rejects.toThrow(
+      "Failed to create the tag."
+    );
+    expect(syncService.getState("pendingChanges")).toBe(0);
+
+    // The scheduled retry applies the log failed to be applied.
+    services.schedulerService.createTask.mock.calls[0][1]();
+    await vi.waitFor(() => {
+      expect(services.categorizerService.create).toHaveBeenCalledTimes(2);
+    });
+    expect(services.categorizerService.create.mock.calls[1][1].name).toBe(
+      "remote"
+    );
+
+    await syncService.invokeSync();
+    expect(services.categorizerService.create).toHaveBeenCalledTimes(2);
+  });
+
+  it("encrypts pushed logs and rejects a wrong passphrase", async () => {
+    const deviceA = createSyncService("correct horse");
+    await deviceA.addSyncLog("tag", "create", {
+      categorizer: { name: "unpublished manuscript" },
+    });
+    await deviceA.invokeSync();
+
+    expect(server.logs[0].value.encryption).toBe("aes-256-gcm");
+    expect(JSON.stringify(server.logs)).not.toContain("unpublished");
+
+    const deviceB = createSyncService("correct horse");
+    await deviceB.invokeSync();
+    const { categorizerService } = services;
+    expect(categorizerService.create.mock.calls[0][1].name).toBe(
+      "unpublished manuscript"
+    );
+
+    const deviceC = createSyncService("wrong horse");
+    await expect(deviceC.invokeSync()).rejects.toThrow(/does not match/);
+    expect(deviceC.getState("encryptionKeyError")).toMatch(/does not match/);
+    expect(categorizerService.create).toHaveBeenCalledTimes(1);
+  });
+
+  it("compacts pending logs of the same entity", async () => {
+    const id = "65a000000000000000000001";
+    const syncService = createSyncService();
+    await syncService.addSyncLog("paper", "update", {
+      paperEntityDrafts: [{ _id: id, note: "a" }],
+      isUpdate: true,
+      changes: { [id]: { note: { base: null, value: "a" } } },
+    });
+    await syncService.addSyncLog("paper", "update", {
+      paperEntityDrafts: [{ _id: id, note: "b", rating: 3 }],
+      isUpdate: true,
+      changes: {
+        [id]: {
+          note: { base: "a", value: "b" },
+          rating: { base: null, value: 3 },
+        },
+      },
+    });
+    await syncService.addSyncLog("tag", "update", {
+      categorizer: { _id: "65a000000000000000000002", name: "old" },
+    });
+    await syncService.addSyncLog("tag", "delete", {
+      ids: ["65a000000000000000000002"],
+    });
+
+    const syncLogs = syncService.getState("syncLogs");
+    expect(syncLogs.map((log) => `${log.entity_type}:${log.operation}`)).toEqual(
+      ["paper:update", "tag:delete"]
+    );
+    expect(syncLogs[0].value.paperEntityDrafts[0].note).toBe("b");
+    expect(syncLogs[0].value.changes[id]).toEqual({
+      note: { base: null, value: "b" },
+      rating: { base: null, value: 3 },
+    });
+    expect(syncService.getState("pendingChanges")).toBe(2);
+  });
+
+  it("pushes pending logs in chunks", async () => {
+    const syncService = createSyncService();
+    for (let i = 0; i < 150; i++) {
+      await syncService.addSyncLog("folder", "create", {
+        categorizer: { name: `folder ${i}` },
+      });
+    }
+
+    await syncService.invokeSync();
+
+    expect(
+      server.requests.filter((request) => request.method === "POST").length
+    ).toBe(2);
+    expect(server.logs.length).toBe(150);
+    expect(syncService.getState("pendingChanges")).toBe(0);
+  });
+
+  it("keeps pending logs and backs off when the sync fails", async () => {
+    const syncService = createSyncService();
+    await syncService.addSyncLog("folder", "create", {
+      categorizer: { name: "project" },
+    });
+
+    server.failures = 1;
+    await expect(syncService.invokeSync()).rejects.toThrow();
+
+    const { createTask } = services.schedulerService;
+    expect(createTask.mock.calls[0][0]).toBe("syncService.retry");
+    expect(createTask.mock.calls[0][2]).toBe(10);
+    expect(syncService.getState("pendingChanges")).toBe(1);
+
+    // Backing off, no request is sent until the scheduled retry.
+    const requestCount = server.requests.length;
+    await syncService.invokeSync();
+    expect(server.requests.length).toBe(requestCount);
+
+    // A failed retry is logged and backs off again.
+    server.failures = 1;
+    createTask.mock.calls[0][1]();
+    await vi.waitFor(() => {
+      expect(services.logService.warn).toHaveBeenCalledTimes(1);
+    });
+    expect(createTask.mock.calls[1][2]).toBe(20);
+
+    createTask.mock.calls[1][1]();
+    await vi.waitFor(() => {
+      expect(syncService.getState("pendingChanges")).toBe(0);
+    });
+    expect(server.logs.length).toBe(1);
+  });
+});
+
+describe("Self-hosted Sync Server", () => {
+  const dataDir = mkdtempSync(path.join(tmpdir(), "paperlib-sync-"));
+  const token = "self-host-token";
+  let server: Server;
+  let baseURL: string;
+  let services: ReturnType<typeof stubServices>;
+
+  beforeAll(async () => {
+    server = createSyncServer({ token, dataDir });
+    await new Promise<void>((resolve) => {
+      server.listen(0, "127.0.0.1", resolve);
+    });
+    const { port } = server.address() as AddressInfo;
+    baseURL = `http://127.0.0.1:${port}`;
+
+    stubPreferences(
+      { useSync: "self-host", selfHostSyncURL: baseURL },
+      { selfHostSync: token }
+    );
+    services = stubServices();
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("rejects requests without the token", async () => {
+    const response = await fetch(new URL("/sync", baseURL));
+    expect(response.status).toBe(401);
+  });
+
+  it("syncs logs between devices", async () => {
+    const deviceA = new SyncService();
+    const deviceB = new SyncService();
+
+    await deviceA.addSyncLog("tag", "create", {
+      categorizer: { name: "shared" },
+    });
+    await deviceA.invokeSync();
+    await deviceB.invokeSync();
+
+    const { create } = services.categorizerService;
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(create.mock.calls[0][1].name).toBe("shared");
+  });
+});
@@ -0,0 +1,121 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+
+export interface IStandInSyncLog {
+  log_id: string;
+  operation: "create" | "update" | "delete";
+  entity_type: string;
+  value: any;
+  timestamp: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * A minimal in-memory server implementing the `/sync` protocol of the official sync service.
+ *   - GET `/sync?since=<ISO datetime>` responds `{ code: 2000, data: SyncLog[] }` with the logs received after `since`.
+ *   - POST `/sync` with a JSON array of logs responds `{ code: 2010 }`.
+ * Like the official service, it responds no cursor, clients pull from the Date header.
+ * Logs set to `logs` directly count as received before any request.
+ * Requests without a bearer token are rejected with HTTP 401.
+ * Set `failures` to make the next requests fail with HTTP 503.
+ */
+export class StandInSyncServer {
+  logs: IStandInSyncLog[] = [];
+  requests: { method: string; url: string }[] = [];
+  failures = 0;
+
+  private _server?: Server;
+  private _receivedAt = new Map<string, number>();
+
+  /**
+   * Receive logs as if they were pushed by another device.
+   */
+  receive(logs: IStandInSyncLog[]) {
+    for (const log of logs) {
+      this._receivedAt.set(log.log_id, Date.now());
+    }
+    this.logs.push(...logs);
+  }
+
+  /**
+   * Start listening on a random local port.
+   * @returns The base URL of the server.
+   */
+  async start(): Promise<URL> {
+    this._server = createServer((req, res) => {
+      this._handle(req, res);
+    });
+
+    await new Promise<void>((resolve) => {
+      this._server!.listen(0, "127.0.0.1", resolve);
+    });
+
+    const { port } = this._server.address() as AddressInfo;
+    return new URL(`http://127.0.0.1:${port}/`);
+  }
+
+  async stop() {
+    await new Promise<void>((resolve) => {
+      if (this._server) {
+        this._server.close(() => resolve());
+      } else {
+        resolve();
+      }
+    });
+    this._server = undefined;
+  }
+
+  private _handle(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url || "/", "http://127.0.0.1");
+    this.requests.push({ method: req.method || "", url: url.href });
+
+    if (!`${req.headers.authorization}`.startsWith("Bearer ")) {
+      this._send(res, 401, { code: 4010, message: "Unauthorized" });
+      return;
+    }
+
+    if (this.failures > 0) {
+      this.failures -= 1;
+      this._send(res, 503, { code: 5030, message: "Service unavailable" });
+      return;
+    }
+
+    if (url.pathname !== "/sync") {
+      this._send(res, 404, { code: 4040, message: "Not found" });
+      return;
+    }
+
+    if (req.method === "GET") {
+      const since = url.searchParams.get("since");
+      const data = since
+        ? this.logs.filter(
+            (log) =>
+              (this._receivedAt.get(log.log_id) || 0) >
+              new Date(since).getTime()
+          )
+        : this.logs;
+      this._send(res, 200, { code: 2000, data });
+    } else if (req.method === "POST") {
+      let body = "";
+      req.on("data", (chunk) => {
+        body += chunk;
+      });
+      req.on("end", () => {
+        try {
+          this.receive(JSON.parse(body) as IStandInSyncLog[]);
+          this._send(res, 201, { code: 2010 });
+        } catch (error) {
+          this._send(res, 400, { code: 4000, message: `${error}` });
+        }
+      });
+    } else {
+      this._send(res, 405, { code: 4050, message: "Method not allowed" });
+    }
+  }
+
+  private _send(res: ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+}